@@ -7,7 +7,10 @@ import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Check, X, MapPin, Clock, ArrowLeft, LogOut, User } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Check, X, MapPin, Clock, ArrowLeft, LogOut, User, Users, Pencil, HelpCircle, History, Bot, RefreshCw } from "lucide-react"
+import type { ModerationEvent } from "@/lib/moderation"
+import type { AiReview } from "@/lib/submission-review"
 import Link from "next/link"
 
 interface PendingSubmission {
@@ -15,16 +18,27 @@ interface PendingSubmission {
   name: string
   type: "shelter" | "food_bank" | "clinic"
   address: string
+  lat: number
+  lng: number
   notes: string
   submittedAt: Date
-  status: "pending" | "approved" | "rejected"
+  status: "pending" | "needs_info" | "approved" | "rejected"
+  infoRequest?: string
+  rejectionReason?: string
+  moderationHistory: ModerationEvent[]
+  aiReview?: AiReview
 }
 
+type EditDraft = Pick<PendingSubmission, "name" | "address" | "lat" | "lng">
+
 export default function AdminPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const [submissions, setSubmissions] = useState<PendingSubmission[]>([])
   const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<"open" | "rejected">("open")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<EditDraft | null>(null)
 
   // Redirect if not authenticated or not admin
   useEffect(() => {
@@ -44,19 +58,12 @@ export default function AdminPage() {
   // Fetch pending resources on component mount
   useEffect(() => {
     const fetchPendingResources = async () => {
+      setLoading(true)
       try {
-        const response = await fetch("/api/list-pending")
+        const response = await fetch(view === "rejected" ? "/api/list-pending?status=rejected" : "/api/list-pending")
         if (response.ok) {
           const { resources } = await response.json()
-          const formattedResources = resources.map((resource: any) => ({
-            id: resource.id,
-            name: resource.name,
-            type: resource.type,
-            address: resource.address,
-            notes: resource.notes,
-            submittedAt: new Date(resource.submittedAt),
-            status: "pending" as const,
-          }))
+          const formattedResources = resources.map(toSubmission)
           setSubmissions(formattedResources)
         } else {
           console.error("Failed to fetch pending resources")
@@ -69,7 +76,7 @@ export default function AdminPage() {
     }
 
     fetchPendingResources()
-  }, [])
+  }, [view])
 
   const handleApprove = async (id: string) => {
     try {
@@ -92,10 +99,102 @@ export default function AdminPage() {
     }
   }
 
-  const handleReject = (id: string) => {
-    // For now, just remove from the list (in a real app, you might want to mark as rejected in the database)
-    setSubmissions((prev) => prev.filter((sub) => sub.id !== id))
-    alert("Resource rejected.")
+  const handleReject = async (id: string) => {
+    const reason = prompt("Why is this submission being rejected?")
+    if (!reason?.trim()) return
+
+    try {
+      const response = await fetch("/api/reject", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, reason }),
+      })
+
+      if (response.ok) {
+        setSubmissions((prev) => prev.filter((sub) => sub.id !== id))
+        alert("Resource rejected.")
+      } else {
+        throw new Error("Failed to reject resource")
+      }
+    } catch (error) {
+      console.error("Error rejecting resource:", error)
+      alert("Failed to reject resource. Please try again.")
+    }
+  }
+
+  const handleRequestInfo = async (id: string) => {
+    const message = prompt("What information is missing from this submission?")
+    if (!message?.trim()) return
+
+    try {
+      const response = await fetch("/api/request-info", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id, message }),
+      })
+
+      if (response.ok) {
+        const { resource } = await response.json()
+        setSubmissions((prev) => prev.map((sub) =>
+          sub.id === id ? (resource ? toSubmission(resource) : { ...sub, status: "needs_info", infoRequest: message }) : sub
+        ))
+      } else {
+        throw new Error("Failed to request info")
+      }
+    } catch (error) {
+      console.error("Error requesting info:", error)
+      alert("Failed to request more information. Please try again.")
+    }
+  }
+
+  const handleRerunReview = async (id: string) => {
+    try {
+      const response = await fetch("/api/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      })
+
+      if (response.ok) {
+        const { aiReview } = await response.json()
+        setSubmissions((prev) => prev.map((sub) => (sub.id === id ? { ...sub, aiReview } : sub)))
+      } else {
+        throw new Error("Failed to review resource")
+      }
+    } catch (error) {
+      console.error("Error reviewing resource:", error)
+      alert("Failed to re-run the automated review. Please try again.")
+    }
+  }
+
+  const startEditing = (submission: PendingSubmission) => {
+    setEditingId(submission.id)
+    setDraft({ name: submission.name, address: submission.address, lat: submission.lat, lng: submission.lng })
+  }
+
+  const handleSaveEdit = async (id: string) => {
+    if (!draft) return
+
+    try {
+      const response = await fetch(`/api/pending/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      })
+
+      if (response.ok) {
+        const { resource } = await response.json()
+        setSubmissions((prev) => prev.map((sub) => (sub.id === id ? { ...sub, ...toSubmission({ ...sub, ...resource }) } : sub)))
+        setEditingId(null)
+        setDraft(null)
+      } else {
+        const { error } = await response.json().catch(() => ({ error: null }))
+        throw new Error(error || "Failed to save changes")
+      }
+    } catch (error: any) {
+      console.error("Error saving resource:", error)
+      alert(`Failed to save changes: ${error.message}`)
+    }
   }
 
   const getTypeColor = (type: PendingSubmission["type"]) => {
@@ -128,6 +227,8 @@ export default function AdminPage() {
     switch (status) {
       case "pending":
         return "bg-secondary text-secondary-foreground"
+      case "needs_info":
+        return "bg-accent text-accent-foreground"
       case "approved":
         return "bg-primary text-primary-foreground"
       case "rejected":
@@ -135,7 +236,18 @@ export default function AdminPage() {
     }
   }
 
-  const pendingCount = submissions.filter((sub) => sub.status === "pending").length
+  const getReviewColor = (review: AiReview) => {
+    switch (review.status) {
+      case "likely_valid":
+        return "bg-primary text-primary-foreground"
+      case "likely_invalid":
+        return "bg-destructive text-destructive-foreground"
+      default:
+        return "bg-secondary text-secondary-foreground"
+    }
+  }
+
+  const pendingCount = submissions.filter((sub) => sub.status === "pending" || sub.status === "needs_info").length
 
   // Show loading while checking authentication
   if (status === "loading" || loading) {
@@ -159,6 +271,9 @@ export default function AdminPage() {
     signOut({ callbackUrl: '/' })
   }
 
+  // Viewers see the queue but can't act on it
+  const canModerate = session.user?.role === "moderator" || session.user?.role === "admin"
+
   return (
     <div className="min-h-screen bg-background">
       {/* Admin Notifications */}
@@ -176,9 +291,18 @@ export default function AdminPage() {
             </Link>
             
             <div className="flex items-center gap-4">
+              {session.user?.role === "admin" && (
+                <Link href="/admin/roster">
+                  <Button variant="outline" size="sm">
+                    <Users className="w-4 h-4 mr-2" />
+                    Team
+                  </Button>
+                </Link>
+              )}
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <User className="w-4 h-4" />
                 <span>{session.user?.email}</span>
+                {session.user?.role && <Badge variant="outline">{session.user.role}</Badge>}
               </div>
               <Button variant="outline" size="sm" onClick={handleSignOut}>
                 <LogOut className="w-4 h-4 mr-2" />
@@ -193,6 +317,14 @@ export default function AdminPage() {
               {pendingCount} pending review{pendingCount !== 1 ? "s" : ""}
             </Badge>
           )}
+          <div className="flex gap-2 mt-4">
+            <Button variant={view === "open" ? "default" : "outline"} size="sm" onClick={() => setView("open")}>
+              Awaiting review
+            </Button>
+            <Button variant={view === "rejected" ? "default" : "outline"} size="sm" onClick={() => setView("rejected")}>
+              Rejected
+            </Button>
+          </div>
         </div>
 
         {/* Submissions List */}
@@ -204,9 +336,22 @@ export default function AdminPage() {
                   <div className="flex items-center gap-3 mb-3">
                     <h3 className="text-lg font-semibold text-card-foreground">{submission.name}</h3>
                     <Badge className={getTypeColor(submission.type)}>{getTypeLabel(submission.type)}</Badge>
-                    <Badge className={getStatusColor(submission.status)}>{submission.status}</Badge>
+                    <Badge className={getStatusColor(submission.status)}>{submission.status.replace("_", " ")}</Badge>
                   </div>
 
+                  {editingId === submission.id && draft ? (
+                    <div className="grid gap-2 sm:grid-cols-2 mb-3">
+                      <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+                      <Input value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} placeholder="Address" />
+                      <Input type="number" step="any" value={draft.lat} onChange={(e) => setDraft({ ...draft, lat: parseFloat(e.target.value) })} placeholder="Latitude" />
+                      <Input type="number" step="any" value={draft.lng} onChange={(e) => setDraft({ ...draft, lng: parseFloat(e.target.value) })} placeholder="Longitude" />
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => handleSaveEdit(submission.id)}>Save</Button>
+                        <Button size="sm" variant="ghost" onClick={() => { setEditingId(null); setDraft(null) }}>Cancel</Button>
+                      </div>
+                    </div>
+                  ) : null}
+
                   <div className="space-y-2 text-sm text-muted-foreground">
                     <div className="flex items-center gap-2">
                       <MapPin className="w-4 h-4" />
@@ -217,12 +362,83 @@ export default function AdminPage() {
                       <span>Submitted {submission.submittedAt.toLocaleDateString()}</span>
                     </div>
                     {submission.notes && <p className="mt-2 text-card-foreground">{submission.notes}</p>}
+                    {submission.aiReview && submission.aiReview.status !== "pending" && (
+                      <div className="mt-2 flex items-start gap-2">
+                        <Bot className="w-4 h-4 mt-0.5" />
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <Badge className={getReviewColor(submission.aiReview)}>
+                              {submission.aiReview.status.replace("_", " ")}
+                            </Badge>
+                            {typeof submission.aiReview.score === "number" && (
+                              <span>score {Math.round(submission.aiReview.score * 100)}%</span>
+                            )}
+                            {submission.aiReview.method && <span>· {submission.aiReview.method}</span>}
+                            {canModerate && (
+                              <Button variant="ghost" size="sm" onClick={() => handleRerunReview(submission.id)}>
+                                <RefreshCw className="w-3 h-3" />
+                              </Button>
+                            )}
+                          </div>
+                          {submission.aiReview.reasons?.length ? (
+                            <ul className="list-disc pl-4">
+                              {submission.aiReview.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                            </ul>
+                          ) : (
+                            submission.aiReview.notes && <p>{submission.aiReview.notes}</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {submission.aiReview?.status === "pending" && (
+                      <div className="mt-2 flex items-center gap-2">
+                        <Bot className="w-4 h-4" />
+                        <span>Automated review pending</span>
+                        {canModerate && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRerunReview(submission.id)}>
+                            <RefreshCw className="w-3 h-3 mr-1" />
+                            Run
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {submission.status === "needs_info" && submission.infoRequest && (
+                      <p className="mt-2 text-card-foreground">Info requested: {submission.infoRequest}</p>
+                    )}
+                    {submission.status === "rejected" && submission.rejectionReason && (
+                      <p className="mt-2 text-destructive">Rejected: {submission.rejectionReason}</p>
+                    )}
+                    {submission.moderationHistory.length > 0 && (
+                      <details className="mt-2">
+                        <summary className="flex items-center gap-2 cursor-pointer">
+                          <History className="w-4 h-4" />
+                          History ({submission.moderationHistory.length})
+                        </summary>
+                        <ul className="mt-2 space-y-1 pl-6">
+                          {submission.moderationHistory.map((event, i) => (
+                            <li key={i}>
+                              {new Date(event.at).toLocaleString()} · {event.action.replace("_", " ")} by {event.by}
+                              {event.reason && <> — {event.reason}</>}
+                              {event.changes && <> — {Object.keys(event.changes).join(", ")}</>}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
                 </div>
 
                 {/* Action Buttons */}
-                {submission.status === "pending" && (
-                  <div className="flex gap-2">
+                {canModerate && (submission.status === "pending" || submission.status === "needs_info") && (
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={() => startEditing(submission)} variant="outline" className="h-12 px-6" size="lg">
+                      <Pencil className="w-5 h-5 mr-2" />
+                      Edit
+                    </Button>
+                    <Button onClick={() => handleRequestInfo(submission.id)} variant="secondary" className="h-12 px-6" size="lg">
+                      <HelpCircle className="w-5 h-5 mr-2" />
+                      Request Info
+                    </Button>
                     <Button onClick={() => handleApprove(submission.id)} className="h-12 px-6" size="lg">
                       <Check className="w-5 h-5 mr-2" />
                       Approve
@@ -245,10 +461,30 @@ export default function AdminPage() {
 
         {submissions.length === 0 && (
           <Card className="p-12 text-center">
-            <p className="text-muted-foreground text-lg">No submissions yet</p>
+            <p className="text-muted-foreground text-lg">
+              {view === "rejected" ? "No rejected submissions" : "No submissions yet"}
+            </p>
           </Card>
         )}
       </div>
     </div>
   )
 }
+
+function toSubmission(resource: any): PendingSubmission {
+  return {
+    id: resource.id,
+    name: resource.name,
+    type: resource.type,
+    address: resource.address,
+    lat: resource.lat,
+    lng: resource.lng,
+    notes: resource.notes,
+    submittedAt: new Date(resource.submittedAt),
+    status: resource.status || "pending",
+    infoRequest: resource.infoRequest,
+    rejectionReason: resource.rejectionReason,
+    moderationHistory: resource.moderationHistory || [],
+    aiReview: resource.aiReview,
+  }
+}
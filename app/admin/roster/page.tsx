@@ -0,0 +1,268 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useSession } from "next-auth/react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ArrowLeft, History, RefreshCw, Trash2, UserPlus } from "lucide-react"
+import type { AdminMember, AdminRole, RoleChangeEvent } from "@/lib/admin-roster"
+import Link from "next/link"
+
+const ROLES: { value: AdminRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can see the review queue" },
+  { value: "moderator", label: "Moderator", description: "Can edit, approve and reject submissions" },
+  { value: "admin", label: "Admin", description: "Can also manage this roster" },
+]
+
+export default function AdminRosterPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [members, setMembers] = useState<AdminMember[]>([])
+  const [audit, setAudit] = useState<RoleChangeEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [inviteEmail, setInviteEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<AdminRole>("moderator")
+
+  // Only admins manage the roster
+  useEffect(() => {
+    if (status === "loading") return
+
+    if (status === "unauthenticated") {
+      router.push('/admin/signin')
+      return
+    }
+
+    if (session && session.user?.role !== "admin") {
+      router.push(session.user?.isAdmin ? '/admin' : '/admin/error')
+    }
+  }, [session, status, router])
+
+  const fetchRoster = async () => {
+    try {
+      const response = await fetch("/api/admins")
+      if (response.ok) {
+        const data = await response.json()
+        setMembers(data.members)
+        setAudit(data.audit)
+      } else {
+        console.error("Failed to fetch admin roster")
+      }
+    } catch (error) {
+      console.error("Error fetching admin roster:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (session?.user?.role === "admin") fetchRoster()
+  }, [session?.user?.role])
+
+  // Shared by invite, role change and removal: show the server's reason on failure
+  const submitChange = async (url: string, init: RequestInit, failure: string) => {
+    try {
+      const response = await fetch(url, { headers: { "Content-Type": "application/json" }, ...init })
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }))
+        alert(error || failure)
+        return false
+      }
+
+      const { claims } = await response.json()
+      if (claims === "no_firebase_user") {
+        alert("Saved. This person has no Firebase account yet; sync claims after they create one.")
+      } else if (claims === "failed") {
+        alert("Saved, but updating their Firebase claims failed. Try syncing claims.")
+      }
+      await fetchRoster()
+      return true
+    } catch (error) {
+      console.error(failure, error)
+      alert(failure)
+      return false
+    }
+  }
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return
+    const ok = await submitChange(
+      "/api/admins",
+      { method: "POST", body: JSON.stringify({ email: inviteEmail, role: inviteRole }) },
+      "Failed to invite. Please try again."
+    )
+    if (ok) setInviteEmail("")
+  }
+
+  const handleRoleChange = (email: string, role: AdminRole) =>
+    submitChange(
+      `/api/admins/${encodeURIComponent(email)}`,
+      { method: "PATCH", body: JSON.stringify({ role }) },
+      "Failed to change role. Please try again."
+    )
+
+  const handleRemove = (email: string) => {
+    if (!confirm(`Remove ${email} from the admin roster?`)) return
+    submitChange(`/api/admins/${encodeURIComponent(email)}`, { method: "DELETE" }, "Failed to remove. Please try again.")
+  }
+
+  const handleSyncClaims = async () => {
+    try {
+      const response = await fetch("/api/admins/sync-claims", { method: "POST" })
+      if (!response.ok) throw new Error("Failed to sync claims")
+
+      const { results } = await response.json()
+      const counts = Object.values(results as Record<string, string>).reduce<Record<string, number>>((acc, result) => {
+        acc[result] = (acc[result] || 0) + 1
+        return acc
+      }, {})
+      alert(`Claims: ${Object.entries(counts).map(([result, count]) => `${count} ${result.replace(/_/g, " ")}`).join(", ") || "no members"}`)
+    } catch (error) {
+      console.error("Error syncing claims:", error)
+      alert("Failed to sync Firebase claims. Please try again.")
+    }
+  }
+
+  const getRoleColor = (role: AdminRole) => {
+    switch (role) {
+      case "admin":
+        return "bg-primary text-primary-foreground"
+      case "moderator":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200"
+    }
+  }
+
+  const describeChange = (event: RoleChangeEvent) => {
+    if (!event.from) return `invited as ${event.to}`
+    if (!event.to) return `removed (was ${event.from})`
+    return `${event.from} → ${event.to}`
+  }
+
+  if (status === "loading" || (session?.user?.role === "admin" && loading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground text-lg">Loading admin roster...</p>
+      </div>
+    )
+  }
+
+  if (session?.user?.role !== "admin") {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <Link href="/admin">
+            <Button variant="ghost" size="sm" className="mb-4">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Submissions
+            </Button>
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Admin Team</h1>
+          <p className="text-muted-foreground">Invite people, change their roles and review who changed what</p>
+        </div>
+
+        {/* Invite */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold text-card-foreground mb-4">Invite</h2>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="name@example.org"
+              className="flex-1"
+            />
+            <Select value={inviteRole} onValueChange={(value: AdminRole) => setInviteRole(value)}>
+              <SelectTrigger className="sm:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleInvite}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite
+            </Button>
+          </div>
+          <p className="mt-2 text-sm text-muted-foreground">
+            {ROLES.find((role) => role.value === inviteRole)?.description}. They sign in with this Google account.
+          </p>
+        </Card>
+
+        {/* Members */}
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold text-foreground">Members ({members.length})</h2>
+          <Button variant="outline" size="sm" onClick={handleSyncClaims}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Sync Firebase claims
+          </Button>
+        </div>
+        <div className="space-y-2 mb-8">
+          {members.map((member) => (
+            <Card key={member.email} className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-card-foreground">{member.email}</span>
+                    <Badge className={getRoleColor(member.role)}>{member.role}</Badge>
+                    {member.email === session.user?.email?.toLowerCase() && <Badge variant="outline">you</Badge>}
+                  </div>
+                  {member.addedBy && (
+                    <p className="text-sm text-muted-foreground">
+                      Added by {member.addedBy}
+                      {member.addedAt && <> on {new Date(member.addedAt).toLocaleDateString()}</>}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={member.role} onValueChange={(value: AdminRole) => handleRoleChange(member.email, value)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemove(member.email)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+
+        {/* Audit trail */}
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground mb-3">
+          <History className="w-5 h-5" />
+          Role changes
+        </h2>
+        {audit.length === 0 ? (
+          <p className="text-muted-foreground">No role changes recorded yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {audit.map((event, i) => (
+              <li key={event.id || i}>
+                {new Date(event.at).toLocaleString()} · <span className="text-card-foreground">{event.email}</span>{" "}
+                {describeChange(event)} by {event.by}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useSession, signIn, signOut } from "next-auth/react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { ArrowLeft, Bell, Clock, LogIn, LogOut, MapPin, Pencil } from "lucide-react"
+import type { PendingResource, SubmitterNotification } from "@/lib/resource-repository"
+import type { SubmissionStats, SubmitterSubmission } from "@/lib/submitters"
+import Link from "next/link"
+
+type EditDraft = Pick<PendingResource, "name" | "address" | "notes">
+
+const STATUS_LABELS: Record<PendingResource["status"], string> = {
+  pending: "In review",
+  needs_info: "Needs more info",
+  approved: "Approved",
+  rejected: "Rejected",
+}
+
+export default function MySubmissionsPage() {
+  const { data: session, status } = useSession()
+  const [submissions, setSubmissions] = useState<SubmitterSubmission[]>([])
+  const [stats, setStats] = useState<SubmissionStats | null>(null)
+  const [notifications, setNotifications] = useState<SubmitterNotification[]>([])
+  const [readAt, setReadAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<EditDraft | null>(null)
+
+  const fetchSubmissions = async () => {
+    try {
+      const response = await fetch("/api/me/submissions")
+      if (response.ok) {
+        const data = await response.json()
+        setSubmissions(data.submissions)
+        setStats(data.stats)
+      } else {
+        console.error("Failed to fetch submissions")
+      }
+    } catch (error) {
+      console.error("Error fetching submissions:", error)
+    }
+  }
+
+  useEffect(() => {
+    if (!session?.user?.id) return
+
+    const load = async () => {
+      setLoading(true)
+      await fetchSubmissions()
+      try {
+        // Opening the page marks updates as read; keep the previous mark to highlight what's new
+        const previous = await fetch("/api/me/notifications").then((response) => (response.ok ? response.json() : null))
+        if (previous) {
+          setNotifications(previous.notifications)
+          setReadAt(previous.readAt)
+          if (previous.unread > 0) await fetch("/api/me/notifications", { method: "POST" })
+        }
+      } catch (error) {
+        console.error("Error fetching notifications:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [session?.user?.id])
+
+  const startEditing = (submission: SubmitterSubmission) => {
+    setEditingId(submission.id)
+    setDraft({ name: submission.name, address: submission.address, notes: submission.notes })
+  }
+
+  const handleSaveEdit = async (id: string) => {
+    if (!draft) return
+    try {
+      const response = await fetch(`/api/pending/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      })
+
+      if (response.ok) {
+        setEditingId(null)
+        setDraft(null)
+        await fetchSubmissions()
+      } else {
+        const { error } = await response.json().catch(() => ({ error: null }))
+        alert(error || "Failed to save changes. Please try again.")
+      }
+    } catch (error) {
+      console.error("Error saving submission:", error)
+      alert("Failed to save changes. Please try again.")
+    }
+  }
+
+  const getStatusColor = (status: PendingResource["status"]) => {
+    switch (status) {
+      case "approved":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200"
+      case "rejected":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200"
+      case "needs_info":
+        return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+      default:
+        return "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+    }
+  }
+
+  const describeNotification = (notification: SubmitterNotification) => {
+    switch (notification.action) {
+      case "approved":
+        return `"${notification.resourceName}" was approved and is now on the map.`
+      case "rejected":
+        return `"${notification.resourceName}" was not approved.`
+      default:
+        return `A moderator needs more information about "${notification.resourceName}".`
+    }
+  }
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground text-lg">Checking sign-in...</p>
+      </div>
+    )
+  }
+
+  if (!session?.user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="p-8 max-w-md text-center">
+          <h1 className="text-2xl font-bold text-card-foreground mb-2">My submissions</h1>
+          <p className="text-muted-foreground mb-6">
+            Sign in to see the resources you've submitted, their review status and updates from moderators.
+          </p>
+          <Button onClick={() => signIn("google")} className="w-full">
+            <LogIn className="w-4 h-4 mr-2" />
+            Sign in with Google
+          </Button>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <Link href="/">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Map
+              </Button>
+            </Link>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-muted-foreground">{session.user.email}</span>
+              <Button variant="outline" size="sm" onClick={() => signOut({ callbackUrl: '/' })}>
+                <LogOut className="w-4 h-4 mr-2" />
+                Sign Out
+              </Button>
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold text-foreground mb-2">My submissions</h1>
+          {stats && stats.total > 0 && (
+            <p className="text-muted-foreground">
+              {stats.total} submitted · {stats.approved} approved · {stats.pending + stats.needs_info} in review · {stats.rejected} not approved
+            </p>
+          )}
+        </div>
+
+        {/* Notifications */}
+        {notifications.length > 0 && (
+          <Card className="p-6 mb-6">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-card-foreground mb-3">
+              <Bell className="w-5 h-5" />
+              Updates
+            </h2>
+            <ul className="space-y-2 text-sm">
+              {notifications.map((notification) => (
+                <li key={notification.id} className={!readAt || notification.at > readAt ? "font-medium text-card-foreground" : "text-muted-foreground"}>
+                  {new Date(notification.at).toLocaleString()} · {describeNotification(notification)}
+                  {notification.message && <> — {notification.message}</>}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {loading ? (
+          <p className="text-muted-foreground">Loading your submissions...</p>
+        ) : submissions.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">You haven't submitted any resources yet. Use "Add Resource" on the map to suggest one.</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {submissions.map((submission) => (
+              <Card key={submission.id} className="p-6">
+                <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-3">
+                      <h3 className="text-lg font-semibold text-card-foreground">{submission.name}</h3>
+                      <Badge className={getStatusColor(submission.status)}>{STATUS_LABELS[submission.status]}</Badge>
+                    </div>
+
+                    {editingId === submission.id && draft ? (
+                      <div className="grid gap-2 mb-3">
+                        <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Name" />
+                        <Input value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} placeholder="Address" />
+                        <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} placeholder="Notes" />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => handleSaveEdit(submission.id)}>
+                            {submission.status === "needs_info" ? "Save and resubmit" : "Save"}
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => { setEditingId(null); setDraft(null) }}>Cancel</Button>
+                        </div>
+                      </div>
+                    ) : null}
+
+                    <div className="space-y-2 text-sm text-muted-foreground">
+                      <div className="flex items-center gap-2">
+                        <MapPin className="w-4 h-4" />
+                        <span>{submission.address}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Clock className="w-4 h-4" />
+                        <span>Submitted {new Date(submission.submittedAt).toLocaleDateString()}</span>
+                      </div>
+                      {submission.status === "needs_info" && submission.infoRequest && (
+                        <p className="text-card-foreground">Moderator asked: {submission.infoRequest}</p>
+                      )}
+                      {submission.status === "rejected" && submission.rejectionReason && (
+                        <p className="text-destructive">Reason: {submission.rejectionReason}</p>
+                      )}
+                    </div>
+                  </div>
+
+                  {(submission.status === "pending" || submission.status === "needs_info") && editingId !== submission.id && (
+                    <Button variant="outline" size="sm" onClick={() => startEditing(submission)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
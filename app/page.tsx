@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import { useSession, signIn } from "next-auth/react"
 import { ChatPanel } from "@/components/chat-panel"
 import { MapPanel } from "@/components/map-panel"
 import { AddResourceModal } from "@/components/add-resource-modal"
@@ -9,38 +10,27 @@ import { WeatherAlertBanner } from "@/components/weather-alert-banner"
 import { RealWeatherNotification } from "@/components/real-weather-notification"
 import { Button } from "@/components/ui/button"
 import { Toaster } from "@/components/ui/toaster"
-import { Plus, MapPin, Settings } from "lucide-react"
+import { Plus, MapPin, Settings, Inbox, LogIn } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import { SmartWeatherNotificationService } from "@/lib/smart-weather-notification-service"
-import { WeatherAlert } from "@/lib/weather-service"
+import { WeatherNotificationEngine } from "@/lib/weather-notification-engine"
+import type { Intent, SearchRequest, SubmissionInput } from "@/lib/schemas"
+import { readDensityResponse, readSearchResponse } from "@/lib/types"
+import type { DensityZone, OpenStatus, ResourceAttribution, ResourceType } from "@/lib/types"
 import Link from "next/link"
 
 export interface MapMarker {
   id: string
   name: string
-  type: "shelter" | "food_bank" | "clinic" | "police" | "fire"
+  type: ResourceType
   lat: number
   lng: number
   distance?: string
   openNow?: boolean
+  openStatus?: OpenStatus
   source?: string
   address?: string
-}
-
-interface DensityZone {
-  id: string
-  name: string
-  lat: number
-  lng: number
-  density: string
-  population: number
-  riskLevel: string
-  description: string
-  distance: number
-  radius: number
-  color: string
-  opacity: number
-  crowdingScore: number
+  placeId?: string | null
+  attribution?: ResourceAttribution[]
 }
 
 export default function HomePage() {
@@ -57,9 +47,11 @@ export default function HomePage() {
   const [isUsingAI, setIsUsingAI] = useState(false)
   const [showResultsPanel, setShowResultsPanel] = useState(true)
   const [showCrowdDensity, setShowCrowdDensity] = useState(false)
+  const [unreadNotifications, setUnreadNotifications] = useState(0)
   const { toast } = useToast()
+  const { data: session } = useSession()
 
-  const [weatherNotificationService] = useState(() => SmartWeatherNotificationService.getInstance())
+  const [weatherNotifications] = useState(() => WeatherNotificationEngine.getInstance())
   const [activeFilters, setActiveFilters] = useState<Record<MapMarker['type'], boolean>>({
     shelter: false,
     food_bank: false,
@@ -68,6 +60,15 @@ export default function HomePage() {
     fire: false,
   })
 
+  // Unread moderation updates for signed-in submitters
+  useEffect(() => {
+    if (!session?.user?.id) return
+    fetch("/api/me/notifications")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setUnreadNotifications(data.unread))
+      .catch((error) => console.error("Failed to load notifications:", error))
+  }, [session?.user?.id])
+
   // Get user location on component mount
   useEffect(() => {
     if (navigator.geolocation) {
@@ -85,29 +86,23 @@ export default function HomePage() {
     }
   }, [])
 
-  // Initialize weather notifications
+  // Toast newly urgent weather when the browser isn't showing notifications for it
   useEffect(() => {
-    if (userLocation) {
-      weatherNotificationService.startMonitoring(
-        userLocation.lat,
-        userLocation.lng,
-        (condition) => {
-          if (condition && (condition.severity === 'severe' || condition.severity === 'extreme')) {
-            toast({
-              title: "🚨 Urgent Weather Alert",
-              description: `${condition.title} - ${condition.description}`,
-              variant: "destructive",
-              duration: 10000,
-            })
-          }
-        }
-      )
-    }
+    if (!userLocation) return
 
-    return () => {
-      weatherNotificationService.stopMonitoring()
-    }
-  }, [userLocation, weatherNotificationService, toast])
+    return weatherNotifications.subscribe(userLocation.lat, userLocation.lng, ({ announced, settings }) => {
+      const shownByBrowser = settings.enablePushNotifications && "Notification" in window && Notification.permission === "granted"
+      const condition = announced[0]
+      if (!condition || shownByBrowser) return
+
+      toast({
+        title: "🚨 Urgent Weather Alert",
+        description: `${condition.title} - ${condition.description}`,
+        variant: "destructive",
+        duration: 10000,
+      })
+    })
+  }, [userLocation, weatherNotifications, toast])
 
   const handleChatSubmit = async (text: string) => {
     setLastQuery(text)
@@ -124,141 +119,71 @@ export default function HomePage() {
         }),
       })
 
+      if (intentResponse.status === 429) {
+        toast({
+          title: "Too Many Searches",
+          description: "Please wait a moment and try again.",
+          variant: "destructive",
+        })
+        return
+      }
+
       if (!intentResponse.ok) {
         throw new Error("Failed to process intent")
       }
 
-      const { intent } = await intentResponse.json()
+      const { intent }: { intent: Intent } = await intentResponse.json()
       console.log("Intent received:", intent)
       
       // Check if this is AI-generated intent
       const isAIResponse = intent._isAI === true
       setIsUsingAI(isAIResponse)
 
-      let allMarkers: MapMarker[] = []
       // Use user location if available, otherwise default to Miami
       let centerLat = userLocation?.lat || 25.774
       let centerLng = userLocation?.lng || -80.193
 
-      // Handle shelter category - use Places with unified radius
-      if (intent.categories?.includes("shelter")) {
-        try {
-          // Use Places for chat/emergency shelter searches (do NOT surface seed JSON here)
-          const placesResponse = await fetch(
-            `/api/places?type=shelter&lat=${centerLat}&lng=${centerLng}&radius=5000&q=${encodeURIComponent(text)}`
-          )
-          if (placesResponse.ok) {
-            const { results } = await placesResponse.json()
-            const shelterMarkers = (results || []).map((place: any) => ({
-              id: place.id,
-              name: place.name,
-              type: (place.type || 'shelter') as MapMarker["type"],
-              lat: place.lat,
-              lng: place.lng,
-              openNow: place.openNow,
-              source: place.source,
-              address: place.address,
-            }))
-            allMarkers.push(...shelterMarkers)
-            if (shelterMarkers.length > 0) {
-              centerLat = shelterMarkers[0].lat
-              centerLng = shelterMarkers[0].lng
-            }
-          }
-        } catch (error) {
-          console.error("Failed to search shelters via Places:", error)
-        }
+      // POST /api/search merges Places, seed lists and community resources server-side
+      const searchRequest: SearchRequest = {
+        categories: intent.categories?.length ? intent.categories : ["shelter"],
+        openNowPreferred: intent.openNowPreferred || false,
+        queryTerms: [text],
+        location: { lat: centerLat, lng: centerLng },
+        radius: 5000,
       }
+      const searchResponse = await fetch("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(searchRequest),
+      })
 
-      // Handle food_bank and clinic categories - call /api/places
-      const placeTypes = intent.categories?.filter((cat: string) => 
-        cat === "food_bank" || cat === "clinic"
-      ) || []
-
-      for (const type of placeTypes) {
-        try {
-          // Use the same unified radius for all chat place lookups
-          const placesResponse = await fetch(
-            `/api/places?type=${type}&lat=${centerLat}&lng=${centerLng}&radius=5000&openNow=${intent.openNowPreferred || false}&q=${encodeURIComponent(text)}`
-          )
-          
-          if (placesResponse.ok) {
-            const { results } = await placesResponse.json()
-            const placeMarkers = results.map((place: any) => ({
-              id: place.id,
-              name: place.name,
-              type: place.type as MapMarker["type"],
-              lat: place.lat,
-              lng: place.lng,
-              openNow: place.openNow,
-              source: place.source,
-              address: place.address,
-            }))
-            allMarkers.push(...placeMarkers)
-          }
-        } catch (error) {
-          console.error(`Failed to load ${type} data:`, error)
-        }
+      if (!searchResponse.ok) {
+        throw new Error("Failed to search resources")
       }
 
-      // Handle emergency categories: police or fire (use same /api/places flow as other chat place lookups)
-      const emergencyCats = intent.categories?.filter((cat: string) => cat === 'police' || cat === 'fire') || []
-      if (emergencyCats.length > 0) {
-        for (const type of emergencyCats) {
-          try {
-            const lat = userLocation?.lat || centerLat
-            const lng = userLocation?.lng || centerLng
-            const placesResponse = await fetch(
-              `/api/places?type=${type}&lat=${lat}&lng=${lng}&radius=5000&q=${encodeURIComponent(text)}`
-            )
-
-            if (placesResponse.ok) {
-              const { results } = await placesResponse.json()
-              const emergencyMarkers = (results || []).map((place: any) => ({
-                id: place.id,
-                name: place.name,
-                type: place.type as MapMarker['type'],
-                lat: place.lat,
-                lng: place.lng,
-                openNow: place.openNow,
-                source: place.source,
-                address: place.address,
-              }))
-              allMarkers.push(...emergencyMarkers)
-              if (emergencyMarkers.length > 0) {
-                centerLat = emergencyMarkers[0].lat
-                centerLng = emergencyMarkers[0].lng
-              }
-            }
-          } catch (err) {
-            console.error('Failed to load emergency places for chat:', err)
-          }
-        }
+      const search = readSearchResponse(await searchResponse.json())
+      if (!search) {
+        throw new Error("Unexpected search response")
       }
 
-      // Load approved community resources for all types
-      try {
-        const resourcesResponse = await fetch("/api/resources")
-        if (resourcesResponse.ok) {
-          const { resources } = await resourcesResponse.json()
-          const communityResources = resources
-            .filter((resource: any) =>
-              intent.categories?.includes(resource.type)
-            )
-            .map((resource: any) => ({
-              id: `community-${resource.id}`,
-              name: resource.name,
-              type: resource.type as MapMarker["type"],
-              lat: resource.lat,
-              lng: resource.lng,
-              openNow: null,
-              source: "community",
-              address: resource.address,
-            }))
-          allMarkers.push(...communityResources)
-        }
-      } catch (error) {
-        console.error("Failed to load community resources:", error)
+      const allMarkers: MapMarker[] = search.results.map(result => ({
+        id: result.id,
+        name: result.name,
+        type: result.type,
+        lat: result.lat,
+        lng: result.lng,
+        openNow: result.openNow ?? undefined,
+        openStatus: result.openStatus,
+        source: result.source,
+        address: result.address,
+        placeId: result.placeId,
+        attribution: result.attribution,
+        distance: result.distance,
+      }))
+
+      if (allMarkers.length > 0) {
+        centerLat = allMarkers[0].lat
+        centerLng = allMarkers[0].lng
       }
 
       setMarkers(allMarkers)
@@ -389,7 +314,7 @@ export default function HomePage() {
     }
   }
 
-  const handleAddResource = async (resource: any) => {
+  const handleAddResource = async (resource: SubmissionInput & { website?: string }) => {
     try {
       const response = await fetch("/api/pending", {
         method: "POST",
@@ -401,7 +326,7 @@ export default function HomePage() {
           lat: resource.lat,
           lng: resource.lng,
           notes: resource.notes,
-          submittedBy: "user", // In a real app, this would come from auth
+          website: resource.website,
         }),
       })
 
@@ -410,9 +335,26 @@ export default function HomePage() {
         console.log("Resource submitted for review:", id)
         toast({
           title: "Resource Submitted",
-          description: "Thank you! Your resource has been submitted for review.",
+          description: session?.user
+            ? "Thank you! Track its review under My submissions."
+            : "Thank you! Your resource has been submitted for review. Sign in to track it.",
         })
         setIsAddResourceOpen(false)
+      } else if (response.status === 400) {
+        // The server names the field it rejected, e.g. an address it couldn't locate
+        const { error } = await response.json().catch(() => ({ error: null }))
+        toast({
+          title: "Check the Details",
+          description: error || "Some details are missing or invalid.",
+          variant: "destructive",
+        })
+      } else if (response.status === 429) {
+        const { error } = await response.json().catch(() => ({ error: null }))
+        toast({
+          title: "Too Many Submissions",
+          description: error || "Please sign in or try again later.",
+          variant: "destructive",
+        })
       } else {
         throw new Error("Failed to submit resource")
       }
@@ -490,8 +432,8 @@ export default function HomePage() {
           `/api/population-density?lat=${userLocation.lat}&lng=${userLocation.lng}&radius=25000`
         )
 
-        if (response.ok) {
-          const data = await response.json()
+        const data = response.ok ? readDensityResponse(await response.json()) : null
+        if (data) {
           setDensityZones(data.zones)
         } else {
           console.error('Failed to fetch density data')
@@ -517,6 +459,23 @@ export default function HomePage() {
 
             <Button size="sm" variant={activeFilters.clinic ? 'secondary' : 'ghost'} onClick={() => toggleStaticList('clinic')}>Clinics</Button>
 
+            {session?.user ? (
+              <Link href="/my-submissions">
+                <Button variant="ghost" size="sm">
+                  <Inbox className="w-4 h-4 mr-2" />
+                  My submissions
+                  {unreadNotifications > 0 && (
+                    <span className="ml-2 rounded-full bg-primary px-2 text-xs text-primary-foreground">{unreadNotifications}</span>
+                  )}
+                </Button>
+              </Link>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={() => signIn("google")}>
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign in
+              </Button>
+            )}
+
             <Link href="/admin">
               <Button variant="ghost" size="sm">
                 <Settings className="w-4 h-4 mr-2" />
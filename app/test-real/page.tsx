@@ -75,8 +75,9 @@ export default function TestRealPage() {
         if (nearbyHurricanes.length > 0) {
           result += `   🚨 Nearby Hurricanes: ${nearbyHurricanes.length}\n`
           nearbyHurricanes.forEach(hurricane => {
-            const distance = weatherService.calculateDistance(location.lat, location.lng, hurricane.lat, hurricane.lng)
-            result += `      - ${hurricane.name} (Category ${hurricane.category}) - ${Math.round(distance)} miles away\n`
+            const { lat, lng, category } = hurricane.currentPosition
+            const distance = weatherService.calculateDistance(location.lat, location.lng, lat, lng)
+            result += `      - ${hurricane.name} (Category ${category ?? 0}) - ${Math.round(distance)} miles away\n`
           })
         } else {
           result += `   ✅ No nearby hurricanes\n`
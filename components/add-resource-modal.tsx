@@ -10,6 +10,7 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Loader } from "@googlemaps/js-api-loader"
+import type { SubmissionInput } from "@/lib/schemas"
 
 // Google Maps types are now provided by @types/google.maps
 
@@ -19,13 +20,9 @@ interface AddResourceModalProps {
   onSubmit: (resource: ResourceFormData) => void
 }
 
-interface ResourceFormData {
-  name: string
-  type: "shelter" | "food_bank" | "clinic"
-  address: string
-  notes: string
-  lat?: number
-  lng?: number
+type ResourceFormData = SubmissionInput & {
+  // Honeypot: hidden from people, filled in by form-stuffing bots
+  website?: string
 }
 
 interface AddressInputProps {
@@ -240,10 +237,12 @@ export function AddResourceModal({ isOpen, onClose, onSubmit }: AddResourceModal
       coords = { lat: geocodedCoords?.lat || 0, lng: geocodedCoords?.lng || 0 }
     }
     
+    // Without coordinates the server geocodes the address itself and says if it can't
+    const located = Boolean(coords.lat && coords.lng)
     const resourceData = {
       ...formData,
-      lat: coords.lat,
-      lng: coords.lng
+      lat: located ? coords.lat : undefined,
+      lng: located ? coords.lng : undefined
     }
     
     console.log('Final resource data:', resourceData)
@@ -368,6 +367,20 @@ export function AddResourceModal({ isOpen, onClose, onSubmit }: AddResourceModal
             />
           </div>
 
+          {/* Off-screen rather than display:none, which some bots skip */}
+          <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+            <label htmlFor="website">Website</label>
+            <input
+              id="website"
+              name="website"
+              type="text"
+              tabIndex={-1}
+              autoComplete="off"
+              value={formData.website || ""}
+              onChange={(e) => handleInputChange("website", e.target.value)}
+            />
+          </div>
+
           <div className="flex gap-3 pt-4">
             <Button type="button" variant="outline" onClick={handleClose} className="flex-1 h-12 bg-transparent">
               Cancel
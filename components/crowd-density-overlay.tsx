@@ -5,22 +5,8 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Users, Eye, EyeOff, AlertTriangle, CheckCircle } from "lucide-react"
-
-interface DensityZone {
-  id: string
-  name: string
-  lat: number
-  lng: number
-  density: string
-  population: number
-  riskLevel: string
-  description: string
-  distance: number
-  radius: number
-  color: string
-  opacity: number
-  crowdingScore: number
-}
+import { readDensityResponse } from "@/lib/types"
+import type { DensityZone } from "@/lib/types"
 
 interface CrowdDensityOverlayProps {
   center: { lat: number; lng: number }
@@ -41,8 +27,8 @@ export function CrowdDensityOverlay({ center, onToggleOverlay, onZonesUpdate }:
         `/api/population-density?lat=${center.lat}&lng=${center.lng}&radius=25000`
       )
       
-      if (response.ok) {
-        const data = await response.json()
+      const data = response.ok ? readDensityResponse(await response.json()) : null
+      if (data) {
         setZones(data.zones)
         onZonesUpdate(data.zones)
         setLastFetch(new Date())
@@ -4,22 +4,7 @@ import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { AlertTriangle, Users, CheckCircle, EyeOff } from "lucide-react"
-
-interface DensityZone {
-  id: string
-  name: string
-  lat: number
-  lng: number
-  density: string
-  population: number
-  riskLevel: string
-  description: string
-  distance: number
-  radius: number
-  color: string
-  opacity: number
-  crowdingScore: number
-}
+import type { DensityZone } from "@/lib/types"
 
 interface CrowdDensityPanelProps {
   zones: DensityZone[]
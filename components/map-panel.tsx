@@ -4,10 +4,11 @@ import { useEffect, useRef, useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { MapPin, Clock, Loader2, X } from "lucide-react"
+import { MapPin, Clock, Loader2, X, Navigation } from "lucide-react"
 import type { MapMarker } from "@/app/page"
 import { Loader } from "@googlemaps/js-api-loader"
-import type { HurricaneTrack } from "@/lib/hurricane-service"
+import { readAlertsResponse, readHurricaneResponse } from "@/lib/types"
+import type { AlertGeometry, DensityZone, HurricanePosition, HurricaneTrack, StormWatchWarning, ValueProvenance, WeatherAlert, WindRadii } from "@/lib/types"
 
 // Declare global google maps types
 declare global {
@@ -16,22 +17,6 @@ declare global {
   }
 }
 
-interface DensityZone {
-  id: string
-  name: string
-  lat: number
-  lng: number
-  density: string
-  population: number
-  riskLevel: string
-  description: string
-  distance: number
-  radius: number
-  color: string
-  opacity: number
-  crowdingScore: number
-}
-
 interface MapPanelProps {
   markers: MapMarker[]
   center: { lat: number; lng: number }
@@ -58,19 +43,21 @@ export function MapPanel({
   const markersRef = useRef<google.maps.Marker[]>([])
   const hurricaneMarkersRef = useRef<google.maps.Marker[]>([])
   const hurricanePathsRef = useRef<google.maps.Polyline[]>([])
+  const stormAreasRef = useRef<google.maps.Polygon[]>([])
   const densityCirclesRef = useRef<google.maps.Circle[]>([])
+  const alertPolygonsRef = useRef<google.maps.Polygon[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [mapError, setMapError] = useState<string | null>(null)
   const [hurricaneData, setHurricaneData] = useState<HurricaneTrack[]>([])
   const [hurricaneLoading, setHurricaneLoading] = useState(false)
+  const [weatherAlerts, setWeatherAlerts] = useState<WeatherAlert[]>([])
 
   // Fetch hurricane data
   const fetchHurricaneData = async () => {
     try {
       setHurricaneLoading(true)
       const response = await fetch("/api/hurricanes")
-      const data = await response.json()
-      setHurricaneData(data.hurricanes || [])
+      setHurricaneData(readHurricaneResponse(await response.json())?.hurricanes ?? [])
     } catch (error) {
       console.error("Failed to fetch hurricane data:", error)
     } finally {
@@ -78,6 +65,16 @@ export function MapPanel({
     }
   }
 
+  // Fetch the NWS alerts in effect where the user is (or where the map is centered)
+  const fetchWeatherAlerts = async (lat: number, lng: number) => {
+    try {
+      const response = await fetch(`/api/weather/alerts?lat=${lat}&lng=${lng}`)
+      setWeatherAlerts(readAlertsResponse(await response.json())?.alerts ?? [])
+    } catch (error) {
+      console.error("Failed to fetch weather alerts:", error)
+    }
+  }
+
   // Create realistic cyclone icon with swirling storm bands
   const createAnimatedHurricaneIcon = (hurricane: HurricaneTrack) => {
     const category = hurricane.currentPosition.category || 0
@@ -286,6 +283,18 @@ export function MapPanel({
     }
   }, [hurricaneMode, userLocation])
 
+  // Fetch weather alerts for the area, rounded so small pans don't refetch
+  const alertLat = Number((userLocation?.lat ?? center.lat).toFixed(2))
+  const alertLng = Number((userLocation?.lng ?? center.lng).toFixed(2))
+  useEffect(() => {
+    if (alertLat === 0 && alertLng === 0) return
+
+    fetchWeatherAlerts(alertLat, alertLng)
+    // Warnings are issued and expire by the minute; refresh every 5 minutes
+    const interval = setInterval(() => fetchWeatherAlerts(alertLat, alertLng), 5 * 60 * 1000)
+    return () => clearInterval(interval)
+  }, [alertLat, alertLng])
+
   useEffect(() => {
     const initializeMap = async () => {
       if (!mapRef.current) return
@@ -395,13 +404,19 @@ export function MapPanel({
               <span class="inline-flex items-center px-2 py-1 rounded text-xs font-medium ${getTypeColorClass(markerData.type)}">${getTypeLabel(markerData.type)}</span>
             </div>
             ${markerData.address ? `<p class="text-xs text-gray-600 mb-2">${markerData.address}</p>` : ""}
+            ${markerData.distance ? `<p class="text-xs text-gray-600 mb-2">${markerData.distance} away</p>` : ""}
+            ${
+              markerData.attribution && markerData.attribution.length > 1
+                ? `<p class="text-xs text-gray-500 mb-2">Listed by: ${Array.from(new Set(markerData.attribution.map((a) => a.source))).join(", ")}</p>`
+                : ""
+            }
             ${
               markerData.openNow !== undefined
                 ? `
               <div class="flex items-center gap-1">
                 <div class="w-2 h-2 rounded-full ${markerData.openNow ? "bg-green-500" : "bg-red-500"}"></div>
                 <span class="text-xs ${markerData.openNow ? "text-green-600" : "text-red-600"}">
-                  ${markerData.openNow ? "Open now" : "Closed"}
+                  ${getOpenLabel(markerData)}
                 </span>
               </div>
             `
@@ -541,6 +556,8 @@ export function MapPanel({
     hurricaneMarkersRef.current = []
     hurricanePathsRef.current.forEach((path) => path.setMap(null))
     hurricanePathsRef.current = []
+    stormAreasRef.current.forEach((area) => area.setMap(null))
+    stormAreasRef.current = []
 
     // Only add hurricane markers if hurricane mode is enabled AND we have data
     if (!hurricaneMode || hurricaneData.length === 0) {
@@ -551,6 +568,9 @@ export function MapPanel({
     hurricaneData.forEach((hurricane) => {
       // Create animated hurricane icon
       const hurricaneIcon = createAnimatedHurricaneIcon(hurricane)
+      // Forecast points placed by a provider rather than a storm forecast aren't a track
+      const forecastTrack = hurricane.forecastPositions.filter((pos) => pos.provenance?.position !== "estimated")
+      const current = hurricane.currentPosition
 
       // Add current position marker
       const marker = new google.maps.Marker({
@@ -574,9 +594,15 @@ export function MapPanel({
                 ${getHurricaneCategoryLabel(hurricane.currentPosition.category || 0)}
               </span>
             </div>
-            <p class="text-xs text-gray-600 mb-1">Wind Speed: ${hurricane.currentPosition.windSpeed} mph</p>
-            ${hurricane.currentPosition.pressure ? `<p class="text-xs text-gray-600 mb-1">Pressure: ${hurricane.currentPosition.pressure} mb</p>` : ""}
+            <p class="text-xs text-gray-600 mb-1">Wind Speed: ${Math.round(current.windSpeed)} mph${estimatedLabel(current.provenance?.windSpeed)}</p>
+            ${current.pressure ? `<p class="text-xs text-gray-600 mb-1">Pressure: ${Math.round(current.pressure)} mb${estimatedLabel(current.provenance?.pressure)}</p>` : ""}
             <p class="text-xs text-gray-600">Status: ${hurricane.status}</p>
+            ${current.provenance?.timestamp === "observed" ? `<p class="text-xs text-gray-600">As of ${formatForecastTime(current)}</p>` : ""}
+            ${forecastTrack.some((pos) => pos.provenance?.windSpeed === "forecast")
+              ? `<p class="text-xs font-medium mt-2 mb-1">${hurricane.products ? "NHC forecast" : "Forecast"}</p>
+                 ${forecastTrack.map((pos) => `<p class="text-xs text-gray-600">${formatForecastTime(pos)}: ${Math.round(pos.windSpeed)} mph</p>`).join("")}`
+              : ""}
+            ${hurricane.products ? `<p class="text-xs text-gray-500 mt-2">NHC advisory ${escapeHtml(hurricane.products.advisory)}. The cone is where the center will probably track; impacts reach well beyond it.</p>` : ""}
           </div>
         `,
       })
@@ -595,12 +621,73 @@ export function MapPanel({
       marker.set("infoWindow", infoWindow)
       hurricaneMarkersRef.current.push(marker)
 
-      // Add wind radius circle
+      const products = hurricane.products
+      if (products) {
+        // Forecast cone first so the wind field and coastline draw over it
+        if (products.cone) {
+          getAlertPaths(products.cone).forEach((paths) => {
+            stormAreasRef.current.push(
+              new google.maps.Polygon({
+                paths,
+                strokeColor: "#475569",
+                strokeOpacity: 0.8,
+                strokeWeight: 2,
+                fillColor: "#F8FAFC",
+                fillOpacity: 0.3,
+                clickable: false,
+                map: mapInstanceRef.current,
+                zIndex: 1,
+              })
+            )
+          })
+        }
+
+        // Forecast extents outlined only, so the current wind field stands out
+        const windField = [
+          ...products.forecastWindField.map((radii) => ({ radii, forecast: true })),
+          ...products.windField.map((radii) => ({ radii, forecast: false })),
+        ]
+        windField.forEach(({ radii, forecast }) => {
+          const windColor = getWindRadiiColor(radii)
+          getAlertPaths(radii.geometry).forEach((paths) => {
+            stormAreasRef.current.push(
+              new google.maps.Polygon({
+                paths,
+                strokeColor: windColor,
+                strokeOpacity: forecast ? 0.5 : 0.8,
+                strokeWeight: forecast ? 1 : 2,
+                fillColor: windColor,
+                fillOpacity: forecast ? 0 : 0.2,
+                clickable: false,
+                map: mapInstanceRef.current,
+                zIndex: 2,
+              })
+            )
+          })
+        })
+
+        products.watchesWarnings.forEach((watchWarning) => {
+          watchWarning.coastline.forEach((line) => {
+            hurricanePathsRef.current.push(
+              new google.maps.Polyline({
+                path: line.map(([lng, lat]) => ({ lat, lng })),
+                strokeColor: getWatchWarningColor(watchWarning),
+                strokeOpacity: 1,
+                strokeWeight: 6,
+                map: mapInstanceRef.current,
+                zIndex: 3,
+              })
+            )
+          })
+        })
+      }
+
+      // Without NHC's wind field, a circle sized from the wind speed
       const windRadius = hurricane.currentPosition.windSpeed * 1000
       const category = hurricane.currentPosition.category || 0
       const color = getHurricaneColor(category)
 
-      if (windRadius > 0) {
+      if (windRadius > 0 && !products?.windField.length) {
         const windCircle = new google.maps.Circle({
           center: { lat: hurricane.currentPosition.lat, lng: hurricane.currentPosition.lng },
           radius: windRadius,
@@ -616,15 +703,15 @@ export function MapPanel({
       }
 
       // Add animated forecast path with moving dashes
-      if (hurricane.forecastPositions.length > 0) {
+      if (forecastTrack.length > 0) {
         const pathCoordinates = [
           { lat: hurricane.currentPosition.lat, lng: hurricane.currentPosition.lng },
-          ...hurricane.forecastPositions.map((pos) => ({ lat: pos.lat, lng: pos.lng })),
+          ...forecastTrack.map((pos) => ({ lat: pos.lat, lng: pos.lng })),
         ]
 
         // Calculate movement direction for animation
         const currentPos = hurricane.currentPosition
-        const nextPos = hurricane.forecastPositions[0]
+        const nextPos = forecastTrack[0]
         const movementDirection = nextPos
           ? (Math.atan2(nextPos.lng - currentPos.lng, nextPos.lat - currentPos.lat) * 180) / Math.PI
           : 0
@@ -713,6 +800,9 @@ export function MapPanel({
         hurricane.forecastPositions.forEach((pos) => {
           bounds.extend({ lat: pos.lat, lng: pos.lng })
         })
+        if (hurricane.products?.cone) {
+          getAlertPaths(hurricane.products.cone).forEach(([outer]) => outer.forEach((point) => bounds.extend(point)))
+        }
       })
 
       if (!bounds.isEmpty()) {
@@ -721,6 +811,68 @@ export function MapPanel({
     }
   }, [hurricaneData, hurricaneMode, userLocation])
 
+  // Shade the areas under weather alerts (tornado and flood warnings come with
+  // tight polygons; other alerts cover whole forecast zones)
+  useEffect(() => {
+    if (!mapInstanceRef.current) return
+
+    alertPolygonsRef.current.forEach((polygon) => polygon.setMap(null))
+    alertPolygonsRef.current = []
+
+    weatherAlerts.forEach((alert) => {
+      if (!alert.geometry) return
+
+      const color = getAlertColor(alert)
+      const infoWindow = new google.maps.InfoWindow({
+        content: `
+          <div class="p-3 min-w-48 max-w-xs">
+            <h3 class="font-semibold text-sm mb-1">${escapeHtml(alert.title)}</h3>
+            <p class="text-xs text-gray-600 mb-1">Until ${new Date(alert.endTime).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })}</p>
+            ${alert.areas.length > 0 ? `<p class="text-xs text-gray-600">${escapeHtml(alert.areas.join(", "))}</p>` : ""}
+          </div>
+        `,
+      })
+
+      getAlertPaths(alert.geometry).forEach((paths) => {
+        const polygon = new google.maps.Polygon({
+          paths,
+          strokeColor: color,
+          strokeOpacity: 0.9,
+          strokeWeight: alert.type === "tornado" || alert.type === "flood" ? 3 : 2,
+          fillColor: color,
+          fillOpacity: getAlertFillOpacity(alert.severity),
+          map: mapInstanceRef.current,
+          // Below resource and hurricane markers
+          zIndex: 1,
+        })
+
+        polygon.addListener("click", (event: google.maps.PolyMouseEvent) => {
+          infoWindow.setPosition(event.latLng)
+          infoWindow.open(mapInstanceRef.current)
+        })
+
+        alertPolygonsRef.current.push(polygon)
+      })
+    })
+  }, [weatherAlerts, isLoading])
+
+  const getOpenLabel = (marker: MapMarker) => {
+    const status = marker.openStatus
+    const formatTime = (iso: string) => {
+      const date = new Date(iso)
+      const sameDay = date.toDateString() === new Date(status?.evaluatedAt || Date.now()).toDateString()
+      return date.toLocaleString([], sameDay ? { hour: "numeric", minute: "2-digit" } : { weekday: "short", hour: "numeric", minute: "2-digit" })
+    }
+
+    if (status?.state === "open") {
+      return status.closesSoon && status.closesAt ? `Closes soon (${formatTime(status.closesAt)})` : "Open now"
+    }
+    if (status?.state === "closed") {
+      return status.opensAt ? `Closed · opens ${formatTime(status.opensAt)}` : "Closed"
+    }
+    return marker.openNow ? "Open now" : "Closed"
+  }
+
   const getMarkerIcon = (type: MapMarker["type"]) => {
     const colors = {
       shelter: '#dc2626', // red
@@ -834,6 +986,38 @@ export function MapPanel({
     }
   }
 
+  // Values nobody reported are worked out here; say so next to them
+  const estimatedLabel = (provenance?: ValueProvenance): string => (provenance === "estimated" ? " (est.)" : "")
+
+  const formatForecastTime = (position: HurricanePosition): string =>
+    new Date(position.timestamp).toLocaleString([], { weekday: "short", hour: "numeric", minute: "2-digit" })
+
+  // NHC's wind field colors: tropical-storm, 50 kt and hurricane-force winds
+  const getWindRadiiColor = (radii: WindRadii): string => {
+    switch (radii.thresholdKt) {
+      case 64:
+        return "#DC2626" // Red
+      case 50:
+        return "#F97316" // Orange
+      default:
+        return "#FACC15" // Yellow
+    }
+  }
+
+  // The colors NHC uses for coastal watches and warnings
+  const getWatchWarningColor = (watchWarning: StormWatchWarning): string => {
+    switch (watchWarning.type) {
+      case "hurricane_warning":
+        return "#DC2626" // Red
+      case "hurricane_watch":
+        return "#F472B6" // Pink
+      case "tropical_storm_warning":
+        return "#2563EB" // Blue
+      default:
+        return "#FACC15" // Yellow
+    }
+  }
+
   const getHurricaneCategoryLabel = (category: number): string => {
     switch (category) {
       case 5:
@@ -868,6 +1052,45 @@ export function MapPanel({
     }
   }
 
+  const getAlertColor = (alert: WeatherAlert): string => {
+    switch (alert.type) {
+      case "tornado":
+        return "#DC2626" // Red
+      case "flood":
+        return "#16A34A" // Green, as on NWS warning maps
+      case "thunderstorm":
+        return "#F59E0B" // Amber
+      case "hurricane":
+      case "tropical_storm":
+        return "#DB2777" // Pink
+      default:
+        return "#6B7280" // Gray
+    }
+  }
+
+  const getAlertFillOpacity = (severity: WeatherAlert["severity"]): number => {
+    switch (severity) {
+      case "extreme":
+        return 0.35
+      case "severe":
+        return 0.25
+      case "moderate":
+        return 0.15
+      default:
+        return 0.1
+    }
+  }
+
+  // One set of paths (outer ring, then holes) per polygon; GeoJSON runs [lng, lat]
+  const getAlertPaths = (geometry: AlertGeometry): google.maps.LatLngLiteral[][][] => {
+    const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates
+    return polygons.map((rings) => rings.map((ring) => ring.map(([lng, lat]) => ({ lat, lng }))))
+  }
+
+  // Alert text comes from NWS and goes into info window HTML
+  const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`)
+
   if (mapError) {
     return (
       <div className="h-full relative bg-muted">
@@ -904,11 +1127,17 @@ export function MapPanel({
                         <span className="text-sm text-muted-foreground">{marker.address}</span>
                       </div>
                     )}
+                    {marker.distance && (
+                      <div className="flex items-center gap-1 mb-1">
+                        <Navigation className="w-4 h-4" />
+                        <span className="text-sm text-muted-foreground">{marker.distance} away</span>
+                      </div>
+                    )}
                     {marker.openNow !== undefined && (
                       <div className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
                         <span className={`text-sm ${marker.openNow ? "text-primary" : "text-muted-foreground"}`}>
-                          {marker.openNow ? "Open now" : "Closed"}
+                          {getOpenLabel(marker)}
                         </span>
                       </div>
                     )}
@@ -995,6 +1224,28 @@ export function MapPanel({
                 </div>
               ))}
             </div>
+
+            {hurricaneData.some((hurricane) => hurricane.products) && (
+              <div className="mt-3 pt-3 border-t border-orange-200 space-y-1 text-xs text-orange-800">
+                <p className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-sm border border-slate-500 bg-slate-50"></span>
+                  Forecast cone: probable path of the center, not the storm's size
+                </p>
+                <p className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: "#FACC15" }}></span>
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: "#F97316" }}></span>
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: "#DC2626" }}></span>
+                  Winds of 39, 58 and 74+ mph now
+                </p>
+                <p className="flex items-center gap-2">
+                  <span className="w-3 h-1 rounded-sm bg-red-600"></span>
+                  <span className="w-3 h-1 rounded-sm bg-pink-400"></span>
+                  <span className="w-3 h-1 rounded-sm bg-blue-600"></span>
+                  <span className="w-3 h-1 rounded-sm bg-yellow-400"></span>
+                  Hurricane / tropical storm warnings and watches
+                </p>
+              </div>
+            )}
           </Card>
         </div>
       )}
@@ -1040,12 +1291,15 @@ export function MapPanel({
                   ></div>
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-card-foreground truncate">{marker.name}</p>
-                    <p className="text-xs text-muted-foreground">{getTypeLabel(marker.type)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {getTypeLabel(marker.type)}
+                      {marker.distance && ` · ${marker.distance}`}
+                    </p>
                   </div>
                   {marker.openNow !== undefined && (
                     <div
                       className={`w-2 h-2 rounded-full ${marker.openNow ? "bg-green-500" : "bg-red-500"}`}
-                      title={marker.openNow ? "Open now" : "Closed"}
+                      title={getOpenLabel(marker)}
                     ></div>
                   )}
                 </div>
@@ -16,7 +16,8 @@ import {
   ChevronDown,
   ChevronUp
 } from "lucide-react"
-import { SmartWeatherNotificationService, WeatherCondition } from "@/lib/smart-weather-notification-service"
+import { getConditionColor, WeatherNotificationEngine } from "@/lib/weather-notification-engine"
+import type { WeatherCondition } from "@/lib/types"
 
 interface RealWeatherNotificationProps {
   lat: number
@@ -25,6 +26,8 @@ interface RealWeatherNotificationProps {
   className?: string
 }
 
+// The most urgent condition that isn't an NWS alert; those are listed by
+// WeatherAlertBanner from the same engine
 export function RealWeatherNotification({ 
   lat, 
   lng, 
@@ -32,129 +35,22 @@ export function RealWeatherNotification({
   className = "" 
 }: RealWeatherNotificationProps) {
   const [weatherCondition, setWeatherCondition] = useState<WeatherCondition | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(new Set())
   const [isExpanded, setIsExpanded] = useState(false)
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date())
-  const [notificationService] = useState(() => SmartWeatherNotificationService.getInstance())
+  const [engine] = useState(() => WeatherNotificationEngine.getInstance())
 
-  // Initialize weather monitoring
   useEffect(() => {
-    const checkWeather = async () => {
-      setIsLoading(true)
-      try {
-        console.log('Checking weather conditions...', { lat, lng })
-        const condition = await notificationService.checkWeatherConditions(lat, lng)
-        console.log('Weather condition result:', condition)
-        if (condition && !dismissedAlerts.has(condition.id)) {
-          console.log('Setting weather condition:', condition)
-          setWeatherCondition(condition)
-          setLastUpdate(new Date())
-        } else {
-          console.log('No weather condition to show')
-          setWeatherCondition(null)
-        }
-      } catch (error) {
-        console.error('Error checking weather conditions:', error)
-        setWeatherCondition(null)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    checkWeather()
-
-    // Start monitoring
-    notificationService.startMonitoring(lat, lng, (condition) => {
-      console.log('Monitoring callback triggered:', condition)
-      if (condition && !dismissedAlerts.has(condition.id)) {
-        console.log('Setting weather condition from monitoring:', condition)
-        setWeatherCondition(condition)
-        setLastUpdate(new Date())
-      } else {
-        console.log('No condition from monitoring or already dismissed')
-        setWeatherCondition(null)
-      }
+    return engine.subscribe(lat, lng, (snapshot) => {
+      setWeatherCondition(snapshot.conditions.find(condition => !condition.alert) ?? null)
+      if (snapshot.lastUpdated) setLastUpdate(snapshot.lastUpdated)
     })
-
-    return () => {
-      notificationService.stopMonitoring()
-    }
-  }, [lat, lng, notificationService, dismissedAlerts])
-
-  // Listen for settings changes and refresh
-  useEffect(() => {
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'weatherTestMode' || e.key === 'weatherNotificationSettings') {
-        console.log('Settings changed, refreshing weather conditions')
-        notificationService.reloadSettings()
-        // Force a refresh
-        notificationService.forceRefresh(lat, lng).then(condition => {
-          if (condition && !dismissedAlerts.has(condition.id)) {
-            setWeatherCondition(condition)
-            setLastUpdate(new Date())
-          } else {
-            setWeatherCondition(null)
-          }
-        })
-      }
-    }
-
-    const handleCustomEvent = () => {
-      console.log('Custom weather settings change event received')
-      notificationService.reloadSettings()
-      
-      // Restart monitoring with new settings
-      notificationService.stopMonitoring()
-      notificationService.startMonitoring(lat, lng, (condition) => {
-        console.log('Monitoring callback triggered after settings change:', condition)
-        if (condition && !dismissedAlerts.has(condition.id)) {
-          console.log('Setting weather condition from monitoring after settings change:', condition)
-          setWeatherCondition(condition)
-          setLastUpdate(new Date())
-        } else {
-          console.log('No condition from monitoring after settings change or already dismissed')
-          setWeatherCondition(null)
-        }
-      })
-    }
-
-    window.addEventListener('storage', handleStorageChange)
-    window.addEventListener('weatherSettingsChanged', handleCustomEvent)
-    return () => {
-      window.removeEventListener('storage', handleStorageChange)
-      window.removeEventListener('weatherSettingsChanged', handleCustomEvent)
-    }
-  }, [lat, lng, notificationService, dismissedAlerts])
+  }, [lat, lng, engine])
 
   const dismissAlert = (alertId: string) => {
-    setDismissedAlerts(prev => new Set([...prev, alertId]))
-    setWeatherCondition(null)
+    engine.dismiss(alertId)
     onDismiss?.(alertId)
   }
 
-  const getConditionColor = (severity: string) => {
-    switch (severity) {
-      case 'extreme': return 'bg-gradient-to-r from-red-900 to-red-800 border-red-600 text-white shadow-red-500/50'
-      case 'severe': return 'bg-gradient-to-r from-orange-900 to-orange-800 border-orange-600 text-white shadow-orange-500/50'
-      case 'moderate': return 'bg-gradient-to-r from-blue-900 to-blue-800 border-blue-600 text-white shadow-blue-500/50'
-      case 'low': return 'bg-gradient-to-r from-gray-900 to-gray-800 border-gray-600 text-white shadow-gray-500/50'
-      default: return 'bg-gradient-to-r from-gray-900 to-gray-800 border-gray-600 text-white shadow-gray-500/50'
-    }
-  }
-
-  const getConditionIcon = (type: string) => {
-    switch (type) {
-      case 'hurricane': return '🌀'
-      case 'storm': return '⛈️'
-      case 'severe': return '⚠️'
-      case 'rain': return '🌧️'
-      case 'moderate': return '🌦️'
-      case 'flood': return '🌊'
-      default: return 'ℹ️'
-    }
-  }
-
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString()
   }
@@ -172,7 +68,7 @@ export function RealWeatherNotification({
             <div className="flex items-center gap-2 flex-1 min-w-0">
               {/* Weather Icon */}
               <div className="text-2xl flex-shrink-0">
-                {getConditionIcon(weatherCondition.type)}
+                {weatherCondition.icon}
               </div>
               
               <div className="flex-1 min-w-0">
@@ -202,18 +98,12 @@ export function RealWeatherNotification({
 
                 {/* Compact info row */}
                 <div className="flex items-center gap-3 text-xs opacity-75">
-                  {weatherCondition.distance && (
+                  {weatherCondition.distance !== undefined && (
                     <div className="flex items-center gap-1">
                       <MapPin className="w-2.5 h-2.5" />
                       <span>{weatherCondition.distance}km</span>
                     </div>
                   )}
-                  {weatherCondition.eta && (
-                    <div className="flex items-center gap-1">
-                      <Clock className="w-2.5 h-2.5" />
-                      <span>{weatherCondition.eta}</span>
-                    </div>
-                  )}
                   <div className="flex items-center gap-1">
                     <Clock className="w-2.5 h-2.5" />
                     <span>{formatTime(lastUpdate)}</span>
@@ -5,7 +5,9 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { X, ExternalLink, AlertTriangle } from "lucide-react"
-import { WeatherService, WeatherAlert } from "@/lib/weather-service"
+import { WeatherService } from "@/lib/weather-service"
+import { WeatherNotificationEngine } from "@/lib/weather-notification-engine"
+import type { WeatherCondition } from "@/lib/types"
 
 interface WeatherAlertBannerProps {
   lat: number
@@ -13,40 +15,30 @@ interface WeatherAlertBannerProps {
   onDismiss?: (alertId: string) => void
 }
 
+// NWS alerts from the notification engine; the other conditions it reports
+// go to RealWeatherNotification
 export function WeatherAlertBanner({ lat, lng, onDismiss }: WeatherAlertBannerProps) {
-  const [alerts, setAlerts] = useState<WeatherAlert[]>([])
+  const [alertConditions, setAlertConditions] = useState<WeatherCondition[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [dismissedAlerts, setDismissedAlerts] = useState<Set<string>>(new Set())
   const weatherService = WeatherService.getInstance()
+  const [engine] = useState(() => WeatherNotificationEngine.getInstance())
 
   useEffect(() => {
-    const fetchAlerts = async () => {
-      try {
-        setIsLoading(true)
-        const weatherAlerts = await weatherService.getWeatherAlerts(lat, lng)
-        setAlerts(weatherAlerts)
-      } catch (error) {
-        console.error('Failed to fetch weather alerts:', error)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchAlerts()
-    
-    // Refresh alerts every 5 minutes
-    const interval = setInterval(fetchAlerts, 5 * 60 * 1000)
-    return () => clearInterval(interval)
-  }, [lat, lng, weatherService])
+    return engine.subscribe(lat, lng, (snapshot) => {
+      // Settings and dismissals are already applied
+      setAlertConditions(snapshot.conditions.filter(condition => condition.alert))
+      if (snapshot.lastUpdated) setIsLoading(false)
+    })
+  }, [lat, lng, engine])
 
   const handleDismiss = (alertId: string) => {
-    setDismissedAlerts(prev => new Set([...prev, alertId]))
+    const condition = alertConditions.find(condition => condition.alert?.id === alertId)
+    if (condition) engine.dismiss(condition.id)
     onDismiss?.(alertId)
   }
 
-  const activeAlerts = alerts.filter(alert => 
-    alert.isActive && !dismissedAlerts.has(alert.id)
-  )
+  const activeAlerts = alertConditions.flatMap(condition => condition.alert ? [condition.alert] : [])
+  const locationName = alertConditions[0]?.place
 
   const urgentAlerts = activeAlerts.filter(alert => 
     weatherService.isUrgentAlert(alert)
@@ -71,6 +63,7 @@ export function WeatherAlertBanner({ lat, lng, onDismiss }: WeatherAlertBannerPr
           <div className="flex items-center gap-2 text-sm font-medium text-red-600">
             <AlertTriangle className="w-4 h-4" />
             URGENT WEATHER ALERTS
+            {locationName && <span className="font-normal text-muted-foreground">· {locationName}</span>}
           </div>
           {urgentAlerts.map((alert) => (
             <Alert key={alert.id} className={`border-l-4 border-l-red-500 ${weatherService.getSeverityColor(alert.severity)}`}>
@@ -116,6 +109,7 @@ export function WeatherAlertBanner({ lat, lng, onDismiss }: WeatherAlertBannerPr
           <div className="flex items-center gap-2 text-sm font-medium text-orange-600">
             <span className="text-lg">🌀</span>
             HURRICANE WATCH
+            {locationName && <span className="font-normal text-muted-foreground">· {locationName}</span>}
           </div>
           {hurricaneAlerts.map((alert) => (
             <Alert key={alert.id} className={`border-l-4 border-l-orange-500 ${weatherService.getSeverityColor(alert.severity)}`}>
@@ -158,6 +152,7 @@ export function WeatherAlertBanner({ lat, lng, onDismiss }: WeatherAlertBannerPr
           <div className="flex items-center gap-2 text-sm font-medium text-blue-600">
             <span className="text-lg">🌦️</span>
             WEATHER ALERTS
+            {locationName && <span className="font-normal text-muted-foreground">· {locationName}</span>}
           </div>
           {activeAlerts.filter(alert => 
             !weatherService.isUrgentAlert(alert) && !weatherService.isHurricaneRelated(alert)
@@ -19,7 +19,8 @@ import {
   ChevronDown,
   ChevronUp
 } from "lucide-react"
-import { WeatherService, WeatherResponse, ForecastResponse, WeatherAlert } from "@/lib/weather-service"
+import { WeatherService } from "@/lib/weather-service"
+import type { ForecastResponse, WeatherAlert, WeatherResponse } from "@/lib/types"
 
 interface WeatherPanelProps {
   lat: number
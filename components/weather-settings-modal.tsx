@@ -8,7 +8,9 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Settings, Bell, CloudRain, AlertTriangle } from "lucide-react"
-import { WeatherNotificationService } from "@/lib/weather-notifications"
+import { WeatherNotificationEngine } from "@/lib/weather-notification-engine"
+import { DEFAULT_NOTIFICATION_SETTINGS } from "@/lib/types"
+import type { AlertFrequency, NotificationSettings } from "@/lib/types"
 
 interface WeatherSettingsModalProps {
   children: React.ReactNode
@@ -16,37 +18,25 @@ interface WeatherSettingsModalProps {
 
 export function WeatherSettingsModal({ children }: WeatherSettingsModalProps) {
   const [isOpen, setIsOpen] = useState(false)
-  const [settings, setSettings] = useState({
-    enablePushNotifications: true,
-    enableHurricaneAlerts: true,
-    enableSevereWeatherAlerts: true,
-    enableModerateWeatherAlerts: true,
-    alertFrequency: 'immediate' as 'immediate' | 'hourly' | 'daily',
-    testMode: false,
-  })
-  
-  const [notificationService] = useState(() => WeatherNotificationService.getInstance())
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS)
+  const [engine] = useState(() => WeatherNotificationEngine.getInstance())
 
   useEffect(() => {
     if (isOpen) {
-      const currentSettings = notificationService.getSettings()
-      // Load test mode from localStorage
-      const testMode = localStorage.getItem('weatherTestMode') === 'true'
-      setSettings({ ...currentSettings, testMode })
+      setSettings(engine.getSettings())
     }
-  }, [isOpen, notificationService])
-
-  const handleSave = () => {
-    // Save notification settings
-    const { testMode, ...notificationSettings } = settings
-    notificationService.updateSettings(notificationSettings)
-    
-    // Save test mode separately
-    localStorage.setItem('weatherTestMode', testMode.toString())
-    
-    console.log('Weather settings saved:', { notificationSettings, testMode })
-    
+  }, [isOpen, engine])
+
+  const handleSave = async () => {
     setIsOpen(false)
+
+    // The engine only notifies, and only subscribes to Web Push, once the browser allows it
+    if (settings.enablePushNotifications && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission()
+    }
+
+    // Every banner and notification picks the new settings up from the engine
+    engine.updateSettings(settings)
   }
 
   const handleTestNotification = async () => {
@@ -111,7 +101,7 @@ export function WeatherSettingsModal({ children }: WeatherSettingsModalProps) {
                 </Label>
                 <Select
                   value={settings.alertFrequency}
-                  onValueChange={(value: 'immediate' | 'hourly' | 'daily') =>
+                  onValueChange={(value: AlertFrequency) =>
                     setSettings(prev => ({ ...prev, alertFrequency: value }))
                   }
                 >
@@ -133,13 +123,9 @@ export function WeatherSettingsModal({ children }: WeatherSettingsModalProps) {
                 <Switch
                   id="test-mode"
                   checked={settings.testMode}
-                  onCheckedChange={(checked) => {
+                  onCheckedChange={(checked) => 
                     setSettings(prev => ({ ...prev, testMode: checked }))
-                    // Trigger immediate refresh when test mode changes
-                    setTimeout(() => {
-                      window.dispatchEvent(new CustomEvent('weatherSettingsChanged'))
-                    }, 100)
-                  }}
+                  }
                 />
               </div>
               
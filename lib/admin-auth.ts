@@ -0,0 +1,105 @@
+// Server-side authorization for moderation and other admin-only API routes.
+//
+// Callers are either signed in through NextAuth (the Google sign-in behind
+// /admin) or present a Firebase ID token for a verified email, sent as
+// `Authorization: Bearer <idToken>`. Either way their role is read from the
+// admin roster (lib/admin-roster.ts); the custom claims it syncs onto Firebase
+// users are for firestore.rules and may lag behind a removal.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/pages/api/auth/[...nextauth]';
+import { getAdminRole, hasRole } from './admin-roster';
+import type { AdminRole } from './admin-roster';
+
+export interface AdminIdentity {
+  // Email; recorded in moderation history
+  id: string;
+  role: AdminRole;
+  method: 'session' | 'firebase';
+}
+
+export type AdminCheck =
+  | { ok: true; admin: AdminIdentity }
+  | { ok: false; status: 401 | 403 | 503; error: string };
+
+export async function checkAdmin(req: NextApiRequest, res: NextApiResponse, minimum: AdminRole = 'admin'): Promise<AdminCheck> {
+  const idToken = getBearerToken(req);
+  const identity = idToken ? await checkFirebaseToken(idToken) : await checkSession(req, res);
+  if (!identity.ok) return identity;
+
+  if (!hasRole(identity.admin.role, minimum)) {
+    return { ok: false, status: 403, error: `Requires the ${minimum} role` };
+  }
+  return identity;
+}
+
+/**
+ * Guard for admin-only handlers: responds 401/403 and returns null unless the
+ * caller holds at least the `minimum` role.
+ */
+export async function requireRole(req: NextApiRequest, res: NextApiResponse, minimum: AdminRole): Promise<AdminIdentity | null> {
+  const result = await checkAdmin(req, res, minimum);
+  if (!result.ok) {
+    res.status(result.status).json({ error: result.error });
+    return null;
+  }
+  return result.admin;
+}
+
+async function checkSession(req: NextApiRequest, res: NextApiResponse): Promise<AdminCheck> {
+  let session: any = null;
+  try {
+    session = await getServerSession(req, res, authOptions as any);
+  } catch (error) {
+    console.error('Failed to read admin session:', error);
+  }
+
+  const email = session?.user?.email;
+  if (!email) return { ok: false, status: 401, error: 'Authentication required' };
+
+  // The roster, not the session, is authoritative so removals apply immediately
+  let role: AdminRole | null;
+  try {
+    role = await getAdminRole(email);
+  } catch (error) {
+    console.error('Admin roster lookup failed:', error);
+    return { ok: false, status: 503, error: 'Admin roster unavailable' };
+  }
+
+  if (!role) return { ok: false, status: 403, error: 'Admin access required' };
+  return { ok: true, admin: { id: email, role, method: 'session' } };
+}
+
+function getBearerToken(req: NextApiRequest): string | null {
+  const header = req.headers.authorization;
+  const match = typeof header === 'string' ? header.match(/^Bearer\s+(.+)$/i) : null;
+  return match ? match[1].trim() : null;
+}
+
+async function checkFirebaseToken(idToken: string): Promise<AdminCheck> {
+  // Loaded on demand so session-only deployments never initialize firebase-admin
+  const { getAuth } = await import('firebase-admin/auth');
+  const { initializeFirebaseAdmin } = await import('./firebase-admin');
+
+  let decoded;
+  try {
+    decoded = await getAuth(initializeFirebaseAdmin()).verifyIdToken(idToken);
+  } catch (error: any) {
+    console.warn('Rejected Firebase ID token:', error?.code || error?.message);
+    return { ok: false, status: 401, error: 'Invalid or expired ID token' };
+  }
+
+  // The roster is keyed by email, and an unverified one could belong to anybody
+  const email = decoded.email_verified ? decoded.email : undefined;
+  let role: AdminRole | null;
+  try {
+    role = await getAdminRole(email);
+  } catch (error) {
+    console.error('Admin roster lookup failed:', error);
+    return { ok: false, status: 503, error: 'Admin roster unavailable' };
+  }
+
+  if (!email || !role) return { ok: false, status: 403, error: 'Admin access required' };
+  return { ok: true, admin: { id: email, role, method: 'firebase' } };
+}
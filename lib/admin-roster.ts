@@ -0,0 +1,306 @@
+// Admin roster: who may sign in to /admin and use the moderation APIs, and in
+// which role.
+//
+// Roles, lowest first: viewer (reads the moderation queue), moderator (also
+// edits, approves and rejects) and admin (also manages the roster). Members
+// live in Firestore (`admins`, keyed by lowercase email, with an `adminAudit`
+// trail) when the community pipeline uses Firestore, and in the config file
+// data/admins.json (ADMIN_ROSTER_PATH) otherwise. An empty Firestore roster is
+// seeded from that file on first use.
+//
+// Firebase custom claims follow the roster so firestore.rules keep working:
+// every member gets `role`, and moderators and admins get `admin: true`.
+
+import fs from 'fs';
+import path from 'path';
+import { getStorageKind } from './resource-repository';
+import { ADMIN_ROLES } from './schemas';
+
+// Ordered by privilege
+export { ADMIN_ROLES };
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export interface AdminMember {
+  email: string;
+  role: AdminRole;
+  // Absent for members declared in the config file
+  addedBy?: string;
+  addedAt?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// One entry per invite, role change or removal; `from`/`to` are null outside the roster
+export interface RoleChangeEvent {
+  id?: string;
+  email: string;
+  from: AdminRole | null;
+  to: AdminRole | null;
+  by: string;
+  at: string;
+}
+
+export type ClaimSync = 'synced' | 'no_firebase_user' | 'skipped' | 'failed';
+
+export type RosterChange =
+  | { ok: true; member: AdminMember | null; event?: RoleChangeEvent; claims?: ClaimSync }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+export interface AdminRosterStore {
+  readonly kind: 'firestore' | 'file';
+
+  listMembers(): Promise<AdminMember[]>;
+  getMember(email: string): Promise<AdminMember | null>;
+  saveMember(member: AdminMember): Promise<void>;
+  deleteMember(email: string): Promise<void>;
+  addAuditEvent(event: RoleChangeEvent): Promise<void>;
+  // Newest first
+  listAuditEvents(limit: number): Promise<RoleChangeEvent[]>;
+}
+
+export const ADMIN_ROSTER_PATH = process.env.ADMIN_ROSTER_PATH || path.join(process.cwd(), 'data', 'admins.json');
+
+interface RosterFile {
+  members: AdminMember[];
+  audit: RoleChangeEvent[];
+}
+
+export class FileAdminRoster implements AdminRosterStore {
+  readonly kind: AdminRosterStore['kind'] = 'file';
+
+  constructor(private readonly filePath: string = ADMIN_ROSTER_PATH) {}
+
+  async listMembers(): Promise<AdminMember[]> {
+    return this.read().members;
+  }
+
+  async getMember(email: string): Promise<AdminMember | null> {
+    return this.read().members.find(member => member.email === email) || null;
+  }
+
+  async saveMember(member: AdminMember): Promise<void> {
+    const data = this.read();
+    data.members = [...data.members.filter(m => m.email !== member.email), member];
+    this.write(data);
+  }
+
+  async deleteMember(email: string): Promise<void> {
+    const data = this.read();
+    data.members = data.members.filter(member => member.email !== email);
+    this.write(data);
+  }
+
+  async addAuditEvent(event: RoleChangeEvent): Promise<void> {
+    const data = this.read();
+    data.audit.push(event);
+    this.write(data);
+  }
+
+  async listAuditEvents(limit: number): Promise<RoleChangeEvent[]> {
+    // Newest first; events are appended, so ties within a millisecond keep their order reversed too
+    return [...this.read().audit].reverse().sort((a, b) => b.at.localeCompare(a.at)).slice(0, limit);
+  }
+
+  private read(): RosterFile {
+    if (!fs.existsSync(this.filePath)) return { members: [], audit: [] };
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    return {
+      // Hand-edited entries may use any casing
+      members: (data.members || []).map((member: AdminMember) => ({ ...member, email: normalizeEmail(member.email) })),
+      audit: data.audit || [],
+    };
+  }
+
+  private write(data: RosterFile): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+  }
+}
+
+// Cached on globalThis like the resource repository
+const globalStore = globalThis as unknown as { __adminRosterStore?: AdminRosterStore; __adminRosterSeeded?: Promise<void> };
+
+export function getAdminRosterStore(): AdminRosterStore {
+  if (globalStore.__adminRosterStore) return globalStore.__adminRosterStore;
+
+  // Required lazily so local mode never loads firebase-admin
+  const store: AdminRosterStore = getStorageKind() === 'firestore'
+    ? new (require('./firestore-admin-roster').FirestoreAdminRoster)()
+    : new FileAdminRoster();
+  return (globalStore.__adminRosterStore = store);
+}
+
+/**
+ * Replace the active roster store (tests); null re-resolves it from configuration
+ */
+export function setAdminRosterStore(store: AdminRosterStore | null): void {
+  globalStore.__adminRosterStore = store || undefined;
+  globalStore.__adminRosterSeeded = undefined;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return ADMIN_ROLES.includes(value as AdminRole);
+}
+
+export function hasRole(role: AdminRole | null | undefined, minimum: AdminRole): boolean {
+  return Boolean(role) && ADMIN_ROLES.indexOf(role!) >= ADMIN_ROLES.indexOf(minimum);
+}
+
+export async function getAdminRole(email: string | null | undefined): Promise<AdminRole | null> {
+  if (!email) return null;
+  const store = await getSeededStore();
+  const member = await store.getMember(normalizeEmail(email));
+  return member?.role || null;
+}
+
+/**
+ * Members (admins first) and the most recent role changes
+ */
+export async function listAdmins(auditLimit = 50): Promise<{ members: AdminMember[]; audit: RoleChangeEvent[] }> {
+  const store = await getSeededStore();
+  const [members, audit] = await Promise.all([store.listMembers(), store.listAuditEvents(auditLimit)]);
+  members.sort((a, b) => ADMIN_ROLES.indexOf(b.role) - ADMIN_ROLES.indexOf(a.role) || a.email.localeCompare(b.email));
+  return { members, audit };
+}
+
+export async function inviteAdmin(email: unknown, role: unknown, by: string): Promise<RosterChange> {
+  const invalid = validateMemberInput(email, role);
+  if (invalid) return invalid;
+
+  const store = await getSeededStore();
+  const normalized = normalizeEmail(email as string);
+  if (await store.getMember(normalized)) {
+    return { ok: false, status: 409, error: `${normalized} is already on the roster` };
+  }
+
+  const at = new Date().toISOString();
+  const member: AdminMember = { email: normalized, role: role as AdminRole, addedBy: by, addedAt: at };
+  await store.saveMember(member);
+  return recordChange(store, member.email, null, member, by, at);
+}
+
+export async function changeAdminRole(email: string, role: unknown, by: string): Promise<RosterChange> {
+  if (!isAdminRole(role)) return { ok: false, status: 400, error: `role must be one of ${ADMIN_ROLES.join(', ')}` };
+
+  const store = await getSeededStore();
+  const current = await store.getMember(normalizeEmail(email));
+  if (!current) return { ok: false, status: 404, error: 'Not found' };
+  if (current.role === role) return { ok: true, member: current };
+  if (current.role === 'admin' && await isLastAdmin(store)) {
+    return { ok: false, status: 409, error: 'The roster must keep at least one admin' };
+  }
+
+  const at = new Date().toISOString();
+  const member: AdminMember = { ...current, role, updatedBy: by, updatedAt: at };
+  await store.saveMember(member);
+  return recordChange(store, member.email, current.role, member, by, at);
+}
+
+export async function removeAdmin(email: string, by: string): Promise<RosterChange> {
+  const store = await getSeededStore();
+  const current = await store.getMember(normalizeEmail(email));
+  if (!current) return { ok: false, status: 404, error: 'Not found' };
+  if (current.role === 'admin' && await isLastAdmin(store)) {
+    return { ok: false, status: 409, error: 'The roster must keep at least one admin' };
+  }
+
+  await store.deleteMember(current.email);
+  return recordChange(store, current.email, current.role, null, by, new Date().toISOString());
+}
+
+/**
+ * Re-apply every member's claims, e.g. after someone on the roster creates
+ * their Firebase account
+ */
+export async function syncAllClaims(): Promise<Record<string, ClaimSync>> {
+  const store = await getSeededStore();
+  const results: Record<string, ClaimSync> = {};
+  for (const member of await store.listMembers()) {
+    results[member.email] = await syncClaims(store, member.email, member.role);
+  }
+  return results;
+}
+
+function validateMemberInput(email: unknown, role: unknown): RosterChange | null {
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return { ok: false, status: 400, error: 'A valid email is required' };
+  }
+  if (!isAdminRole(role)) return { ok: false, status: 400, error: `role must be one of ${ADMIN_ROLES.join(', ')}` };
+  return null;
+}
+
+async function isLastAdmin(store: AdminRosterStore): Promise<boolean> {
+  return (await store.listMembers()).filter(member => member.role === 'admin').length <= 1;
+}
+
+async function recordChange(
+  store: AdminRosterStore,
+  email: string,
+  from: AdminRole | null,
+  member: AdminMember | null,
+  by: string,
+  at: string
+): Promise<RosterChange> {
+  const event: RoleChangeEvent = { email, from, to: member?.role || null, by, at };
+  await store.addAuditEvent(event);
+  const claims = await syncClaims(store, email, event.to);
+  console.log(`Admin roster: ${email} ${from || 'none'} → ${event.to || 'removed'} by ${by} (claims ${claims})`);
+  return { ok: true, member, event, claims };
+}
+
+async function syncClaims(store: AdminRosterStore, email: string, role: AdminRole | null): Promise<ClaimSync> {
+  // Claims only matter where Firebase is in use
+  if (store.kind !== 'firestore') return 'skipped';
+
+  try {
+    const { getAuth } = await import('firebase-admin/auth');
+    const { initializeFirebaseAdmin } = await import('./firebase-admin');
+    const auth = getAuth(initializeFirebaseAdmin());
+
+    let user;
+    try {
+      user = await auth.getUserByEmail(email);
+    } catch (error: any) {
+      if (error?.code === 'auth/user-not-found') return 'no_firebase_user';
+      throw error;
+    }
+
+    // Keep claims set by other features
+    const { admin: _admin, role: _role, ...otherClaims } = user.customClaims || {};
+    await auth.setCustomUserClaims(user.uid, role ? { ...otherClaims, role, admin: hasRole(role, 'moderator') } : otherClaims);
+    return 'synced';
+  } catch (error) {
+    console.error(`Failed to sync admin claims for ${email}:`, error);
+    return 'failed';
+  }
+}
+
+async function getSeededStore(): Promise<AdminRosterStore> {
+  const store = getAdminRosterStore();
+  if (store.kind !== 'firestore') return store;
+
+  if (!globalStore.__adminRosterSeeded) {
+    globalStore.__adminRosterSeeded = seedFromConfig(store).catch(error => {
+      globalStore.__adminRosterSeeded = undefined;
+      throw error;
+    });
+  }
+  await globalStore.__adminRosterSeeded;
+  return store;
+}
+
+// First run against an empty Firestore roster: import the config file
+async function seedFromConfig(store: AdminRosterStore): Promise<void> {
+  if ((await store.listMembers()).length > 0) return;
+
+  const members = await new FileAdminRoster().listMembers();
+  for (const member of members) {
+    await store.saveMember(member);
+    await recordChange(store, member.email, null, member, 'config', new Date().toISOString());
+  }
+  if (members.length) console.log(`Seeded admin roster with ${members.length} member(s) from ${ADMIN_ROSTER_PATH}`);
+}
@@ -0,0 +1,179 @@
+// Lineage of NWS alert messages. NWS changes an alert by issuing an Update or
+// Cancel that references the earlier messages, and /alerts?point= returns the
+// whole chain. The messages are grouped into one logical alert per event, keyed
+// by the VTEC event (office, phenomenon, significance and tracking number) when
+// the message carries one and by the first message of its references chain
+// otherwise. The latest message speaks for the event and the earlier ones
+// become its history. A Cancel, or a VTEC action that ends the event
+// (including an upgrade announced with the event that replaces it), ends it
+// unless a message as recent continues it: NWS cancels part of an area by
+// ending some zones while continuing the others.
+//
+// An event's revision counts the updates worth telling people about again: a
+// higher severity or more zones. Other updates (a new expiry, reworded text)
+// keep the revision, so notifications keyed by notificationKey() don't repeat.
+
+import { ALERT_SEVERITIES } from './types';
+import type { AlertMessageSummary, WeatherAlert } from './types';
+
+export interface AlertReference {
+  identifier: string;
+  sent: string;
+}
+
+// One NWS message, before it is grouped with the rest of its event
+export interface AlertMessage {
+  // The alert as this message alone describes it
+  alert: WeatherAlert;
+  sent: string;
+  // The earlier messages this one replaces
+  references: AlertReference[];
+  // Raw VTEC strings, e.g. /O.CON.KMFL.TO.W.0012.250928T1530Z-250928T1700Z/
+  vtec: string[];
+  // UGC codes of the zones or counties the message covers
+  zones: string[];
+}
+
+export interface Vtec {
+  action: string;
+  office: string;
+  phenomena: string;
+  significance: string;
+  eventNumber: string;
+}
+
+// Cancelled, expired, or upgraded into another event
+const ENDING_ACTIONS = new Set(['CAN', 'EXP', 'UPG']);
+// Extended in area (EXA), or in area and time (EXB)
+const EXPANDING_ACTIONS = new Set(['EXA', 'EXB']);
+
+const VTEC_PATTERN = /^\/[OTEX]\.([A-Z]{3})\.([A-Z]{4})\.([A-Z]{2})\.([A-Z])\.(\d{4})\.\d{6}T\d{4}Z-\d{6}T\d{4}Z\/$/;
+
+export function parseVtec(value: string): Vtec | null {
+  const match = VTEC_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, action, office, phenomena, significance, eventNumber] = match;
+  return { action, office, phenomena, significance, eventNumber };
+}
+
+/**
+ * The key notifications about an alert are deduplicated on: the same for every
+ * update of an event until one of them is a meaningful change
+ */
+export function notificationKey(alert: WeatherAlert): string {
+  const key = alert.eventId ?? alert.id;
+  return alert.revision ? `${key}_r${alert.revision}` : key;
+}
+
+/**
+ * One alert per event, from the latest message, in the order the events first appear
+ */
+export function resolveAlertLineage(messages: AlertMessage[]): WeatherAlert[] {
+  const eventIdOf = eventIdResolver(messages);
+  const events = new Map<string, AlertMessage[]>();
+  // When each event was last ended, and by which messages
+  const endedAt = new Map<string, number>();
+  const ending = new Set<AlertMessage>();
+
+  for (const message of messages) {
+    const eventId = eventIdOf(message);
+    events.set(eventId, [...(events.get(eventId) ?? []), message]);
+
+    const ends = vtecs(message)
+      .filter(vtec => ENDING_ACTIONS.has(vtec.action))
+      .map(vtec => vtecEventId(vtec, message));
+    if (message.alert.messageType === 'cancel' || ends.includes(eventId)) {
+      ends.push(eventId);
+      ending.add(message);
+    }
+    for (const ended of ends) endedAt.set(ended, Math.max(endedAt.get(ended) ?? 0, Date.parse(message.sent)));
+  }
+
+  return [...events].map(([eventId, group]) => {
+    const chain = [...group].sort((a, b) => Date.parse(a.sent) - Date.parse(b.sent));
+    const continuing = chain.filter(message => !ending.has(message));
+    const lastContinued = continuing.length > 0 ? Date.parse(continuing[continuing.length - 1].sent) : -Infinity;
+    const ended = endedAt.has(eventId) && endedAt.get(eventId)! > lastContinued;
+    const latest = ended || continuing.length === 0 ? chain[chain.length - 1] : continuing[continuing.length - 1];
+
+    return {
+      ...latest.alert,
+      eventId,
+      revision: revisionOf(continuing),
+      ...(chain.length > 1 ? { history: chain.filter(message => message !== latest).map(summarize) } : {}),
+      ...(ended ? { isActive: false, cancelledAt: new Date(endedAt.get(eventId)!).toISOString() } : {}),
+    };
+  });
+}
+
+function vtecs(message: AlertMessage): Vtec[] {
+  return message.vtec.map(parseVtec).filter((vtec): vtec is Vtec => vtec !== null && vtec.action !== 'ROU');
+}
+
+// The event a message is mainly about; an upgrade also ends the event it replaces
+function primaryVtec(message: AlertMessage): Vtec | null {
+  const parsed = vtecs(message);
+  return parsed.find(vtec => !ENDING_ACTIONS.has(vtec.action)) ?? parsed[0] ?? null;
+}
+
+function vtecEventId(vtec: Vtec, message: AlertMessage): string {
+  // Tracking numbers restart every year, counted from when the event was first
+  // issued: an update sent after New Year keeps the year of the chain's first message
+  const [first] = [...message.references].sort((a, b) => Date.parse(a.sent) - Date.parse(b.sent));
+  const issued = first?.sent ?? message.sent;
+  return `${vtec.office}.${vtec.phenomena}.${vtec.significance}.${vtec.eventNumber}.${issued.slice(0, 4)}`;
+}
+
+function eventIdResolver(messages: AlertMessage[]): (message: AlertMessage) => string {
+  const byId = new Map(messages.map(message => [message.alert.id, message]));
+  const resolved = new Map<AlertMessage, string>();
+
+  const resolve = (message: AlertMessage, seen: Set<string>): string => {
+    const known = resolved.get(message);
+    if (known) return known;
+
+    const vtec = primaryVtec(message);
+    let eventId = message.alert.id;
+    if (vtec) {
+      eventId = vtecEventId(vtec, message);
+    } else if (message.references.length > 0 && !seen.has(message.alert.id)) {
+      const [root] = [...message.references].sort((a, b) => Date.parse(a.sent) - Date.parse(b.sent));
+      const rootMessage = byId.get(root.identifier);
+      eventId = rootMessage ? resolve(rootMessage, new Set([...seen, message.alert.id])) : root.identifier;
+    }
+
+    resolved.set(message, eventId);
+    return eventId;
+  };
+
+  return message => resolve(message, new Set());
+}
+
+function revisionOf(chain: AlertMessage[]): number {
+  if (chain.length === 0) return 0;
+  let revision = 0;
+  let severity = ALERT_SEVERITIES.indexOf(chain[0].alert.severity);
+  const zones = new Set(chain[0].zones);
+
+  for (const message of chain.slice(1)) {
+    const rank = ALERT_SEVERITIES.indexOf(message.alert.severity);
+    const added = message.zones.filter(zone => !zones.has(zone));
+    const expanded = added.length > 0 || message.vtec.some(value => EXPANDING_ACTIONS.has(parseVtec(value)?.action ?? ''));
+    if (rank > severity || expanded) revision++;
+
+    severity = Math.max(severity, rank);
+    added.forEach(zone => zones.add(zone));
+  }
+  return revision;
+}
+
+function summarize(message: AlertMessage): AlertMessageSummary {
+  const vtec = primaryVtec(message);
+  return {
+    id: message.alert.id,
+    sent: message.sent,
+    messageType: message.alert.messageType ?? 'alert',
+    severity: message.alert.severity,
+    ...(vtec ? { action: vtec.action } : {}),
+  };
+}
@@ -0,0 +1,143 @@
+// Alert subscriptions: watch areas that users and organizations register
+// through /api/subscriptions, so the server can watch shelters and service
+// areas even when nobody has the app open.
+//
+// Subscriptions live in Firestore (`alertSubscriptions`) when the community
+// pipeline uses Firestore, and in data/alert-subscriptions.json
+// (ALERT_SUBSCRIPTIONS_PATH) otherwise.
+
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { getStorageKind } from './resource-repository';
+import type { AlertSubscriptionInput, WatchAreaInput } from './schemas';
+import type { SignedInUser } from './submitters';
+import type { AlertSubscription, WatchArea } from './types';
+
+export interface AlertSubscriptionStore {
+  readonly kind: 'firestore' | 'file';
+
+  get(id: string): Promise<AlertSubscription | null>;
+  listByOwner(ownerId: string): Promise<AlertSubscription[]>;
+  list(): Promise<AlertSubscription[]>;
+  save(subscription: AlertSubscription): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const ALERT_SUBSCRIPTIONS_PATH = process.env.ALERT_SUBSCRIPTIONS_PATH || path.join(process.cwd(), 'data', 'alert-subscriptions.json');
+
+export const MAX_SUBSCRIPTIONS_PER_OWNER = 10;
+
+export class FileAlertSubscriptionStore implements AlertSubscriptionStore {
+  readonly kind: AlertSubscriptionStore['kind'] = 'file';
+
+  constructor(private readonly filePath: string = ALERT_SUBSCRIPTIONS_PATH) {}
+
+  async get(id: string): Promise<AlertSubscription | null> {
+    return this.read().find(subscription => subscription.id === id) || null;
+  }
+
+  async listByOwner(ownerId: string): Promise<AlertSubscription[]> {
+    return this.read().filter(subscription => subscription.ownerId === ownerId);
+  }
+
+  async list(): Promise<AlertSubscription[]> {
+    return this.read();
+  }
+
+  async save(subscription: AlertSubscription): Promise<void> {
+    const subscriptions = this.read();
+    const index = subscriptions.findIndex(existing => existing.id === subscription.id);
+    if (index >= 0) subscriptions[index] = subscription;
+    else subscriptions.push(subscription);
+    this.write(subscriptions);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter(subscription => subscription.id !== id));
+  }
+
+  private read(): AlertSubscription[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8')).subscriptions || [];
+  }
+
+  private write(subscriptions: AlertSubscription[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ subscriptions }, null, 2) + '\n', 'utf8');
+  }
+}
+
+// Cached on globalThis like the resource repository
+const globalStore = globalThis as unknown as { __alertSubscriptionStore?: AlertSubscriptionStore };
+
+export function getAlertSubscriptionStore(): AlertSubscriptionStore {
+  if (globalStore.__alertSubscriptionStore) return globalStore.__alertSubscriptionStore;
+
+  // Required lazily so local mode never loads firebase-admin
+  const store: AlertSubscriptionStore = getStorageKind() === 'firestore'
+    ? new (require('./firestore-alert-subscriptions').FirestoreAlertSubscriptionStore)()
+    : new FileAlertSubscriptionStore();
+  return (globalStore.__alertSubscriptionStore = store);
+}
+
+/**
+ * Replace the active store (tests); null re-resolves it from configuration
+ */
+export function setAlertSubscriptionStore(store: AlertSubscriptionStore | null): void {
+  globalStore.__alertSubscriptionStore = store || undefined;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}_${randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * Give new areas an id and keep the ids of areas the client sent back
+ */
+function toWatchAreas(areas: WatchAreaInput[]): WatchArea[] {
+  return areas.map(area => ({ ...area, id: area.id || newId('area') }));
+}
+
+export async function createAlertSubscription(owner: SignedInUser, input: AlertSubscriptionInput): Promise<AlertSubscription> {
+  const now = new Date().toISOString();
+  const subscription: AlertSubscription = {
+    id: newId('sub'),
+    ownerId: owner.id,
+    ownerEmail: owner.email,
+    name: input.name,
+    ...(input.organization ? { organization: input.organization } : {}),
+    areas: toWatchAreas(input.areas),
+    alertTypes: input.alertTypes,
+    minSeverity: input.minSeverity,
+    matches: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getAlertSubscriptionStore().save(subscription);
+  return subscription;
+}
+
+/**
+ * Apply an edit; matches for areas that were removed go with them
+ */
+export async function updateAlertSubscription(
+  subscription: AlertSubscription,
+  changes: Partial<AlertSubscriptionInput>
+): Promise<AlertSubscription> {
+  const { areas, organization, ...rest } = changes;
+  const updated: AlertSubscription = {
+    ...subscription,
+    ...rest,
+    ...(organization !== undefined ? { organization: organization || undefined } : {}),
+    ...(areas ? { areas: toWatchAreas(areas) } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+  if (!updated.organization) delete updated.organization;
+
+  const areaIds = new Set(updated.areas.map(area => area.id));
+  updated.matches = updated.matches.filter(match => areaIds.has(match.areaId));
+
+  await getAlertSubscriptionStore().save(updated);
+  return updated;
+}
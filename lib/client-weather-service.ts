@@ -1,54 +1,9 @@
 // Client-side weather service that handles API calls properly
 // This service runs only on the client side and uses relative URLs
 
-export interface WeatherAlert {
-  id: string;
-  title: string;
-  description: string;
-  severity: 'minor' | 'moderate' | 'severe' | 'extreme';
-  type: 'hurricane' | 'tropical_storm' | 'tornado' | 'flood' | 'thunderstorm' | 'other';
-  startTime: string;
-  endTime: string;
-  source: string;
-  areas: string[];
-  isActive: boolean;
-}
-
-export interface WeatherCurrent {
-  temperature: number;
-  condition: string;
-  humidity: number;
-  windSpeed: number;
-  windDirection: number;
-  pressure: number;
-  visibility: number;
-  uvIndex: number;
-  timestamp: string;
-}
-
-export interface WeatherLocation {
-  name: string;
-  lat: number;
-  lng: number;
-}
-
-export interface WeatherResponse {
-  current: WeatherCurrent;
-  alerts: WeatherAlert[];
-  location: WeatherLocation;
-}
-
-export interface HurricaneData {
-  id: string;
-  name: string;
-  lat: number;
-  lng: number;
-  category: number;
-  windSpeed: number;
-  pressure: number;
-  movement: string;
-  lastUpdated: string;
-}
+import { calculateDistanceMiles } from './geo';
+import { readAlertsResponse, readHurricaneResponse, readWeatherResponse } from './types';
+import type { HurricaneTrack, WeatherAlert, WeatherResponse } from './types';
 
 export class ClientWeatherService {
   private static instance: ClientWeatherService;
@@ -76,7 +31,8 @@ export class ClientWeatherService {
         throw new Error(`Weather API failed: ${response.status}`);
       }
       
-      const data = await response.json();
+      const data = readWeatherResponse(await response.json());
+      if (!data) return null;
       this.cache.set(cacheKey, { data, timestamp: Date.now() });
       return data;
     } catch (error) {
@@ -99,8 +55,7 @@ export class ClientWeatherService {
         throw new Error(`Alerts API failed: ${response.status}`);
       }
       
-      const data = await response.json();
-      const alerts = data.alerts || [];
+      const alerts = readAlertsResponse(await response.json())?.alerts ?? [];
       this.cache.set(cacheKey, { data: alerts, timestamp: Date.now() });
       return alerts;
     } catch (error) {
@@ -109,7 +64,7 @@ export class ClientWeatherService {
     }
   }
 
-  async getHurricanes(): Promise<HurricaneData[]> {
+  async getHurricanes(): Promise<HurricaneTrack[]> {
     const cacheKey = 'hurricanes';
     const cached = this.cache.get(cacheKey);
     
@@ -123,8 +78,7 @@ export class ClientWeatherService {
         throw new Error(`Hurricanes API failed: ${response.status}`);
       }
       
-      const data = await response.json();
-      const hurricanes = data.hurricanes || [];
+      const hurricanes = readHurricaneResponse(await response.json())?.hurricanes ?? [];
       this.cache.set(cacheKey, { data: hurricanes, timestamp: Date.now() });
       return hurricanes;
     } catch (error) {
@@ -156,22 +110,15 @@ export class ClientWeatherService {
     }
   }
 
-  // Calculate distance between two coordinates
+  // Distance between two coordinates in miles
   calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+    return calculateDistanceMiles(lat1, lng1, lat2, lng2);
   }
 
   // Find nearby hurricanes within specified distance
-  findNearbyHurricanes(hurricanes: HurricaneData[], lat: number, lng: number, maxDistance: number = 500): HurricaneData[] {
+  findNearbyHurricanes(hurricanes: HurricaneTrack[], lat: number, lng: number, maxDistance: number = 500): HurricaneTrack[] {
     return hurricanes.filter(hurricane => {
-      const distance = this.calculateDistance(lat, lng, hurricane.lat, hurricane.lng);
+      const distance = this.calculateDistance(lat, lng, hurricane.currentPosition.lat, hurricane.currentPosition.lng);
       return distance <= maxDistance;
     });
   }
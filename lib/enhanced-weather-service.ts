@@ -1,7 +1,9 @@
-import { WeatherService, WeatherAlert } from './weather-service'
+import { WeatherService } from './weather-service'
 import { AccuWeatherService } from './accuweather-service'
 import { GoogleWeatherService } from './google-weather-service'
 import { HurricaneAPIService } from './hurricane-apis'
+import { calculateDistanceMiles } from './geo'
+import type { HurricaneTrack, WeatherAlert } from './types'
 
 export interface EnhancedWeatherCondition {
   type: 'rain' | 'storm' | 'severe_storm' | 'hurricane' | 'flood' | 'clear'
@@ -16,7 +18,7 @@ export interface EnhancedWeatherCondition {
   temperature: number
   safetyAdvice: string[]
   governmentAlerts: WeatherAlert[]
-  hurricaneData?: any
+  hurricaneData?: HurricaneTrack
   forecastData?: any
 }
 
@@ -125,7 +127,7 @@ export class EnhancedWeatherService {
   private analyzeWeatherConditions(
     currentConditions: any[],
     alerts: WeatherAlert[],
-    hurricanes: any[],
+    hurricanes: HurricaneTrack[],
     forecast: any[],
     lat: number,
     lng: number
@@ -254,26 +256,27 @@ export class EnhancedWeatherService {
    * Create condition from hurricane data
    */
   private createHurricaneCondition(
-    hurricane: any,
+    hurricane: HurricaneTrack,
     currentConditions: any[],
     alerts: WeatherAlert[]
   ): EnhancedWeatherCondition {
+    const { category = 0, windSpeed } = hurricane.currentPosition
     const avgWindSpeed = this.getAverageValue(currentConditions, 'windSpeed')
     const avgHumidity = this.getAverageValue(currentConditions, 'humidity')
     const avgTemperature = this.getAverageValue(currentConditions, 'temperature')
 
     return {
       type: 'hurricane',
-      severity: hurricane.category >= 3 ? 'extreme' : 'severe',
+      severity: category >= 3 ? 'extreme' : 'severe',
       probability: 100,
       timeToStart: 'Now',
       duration: '24-48 hours',
       intensity: 'High',
-      windSpeed: hurricane.windSpeed || avgWindSpeed,
+      windSpeed: windSpeed || avgWindSpeed,
       humidity: avgHumidity,
-      precipitation: hurricane.precipitation || 0,
+      precipitation: 0, // Tracks don't report rainfall
       temperature: avgTemperature,
-      safetyAdvice: this.getSafetyAdvice('hurricane', hurricane.category >= 3 ? 'extreme' : 'severe'),
+      safetyAdvice: this.getSafetyAdvice('hurricane', category >= 3 ? 'extreme' : 'severe'),
       governmentAlerts: alerts,
       hurricaneData: hurricane
     }
@@ -282,28 +285,15 @@ export class EnhancedWeatherService {
   /**
    * Find nearby hurricanes
    */
-  private findNearbyHurricane(hurricanes: any[], lat: number, lng: number): any | null {
+  private findNearbyHurricane(hurricanes: HurricaneTrack[], lat: number, lng: number): HurricaneTrack | undefined {
     const maxDistance = 500 // miles
     return hurricanes.find(hurricane => {
-      const distance = this.calculateDistance(lat, lng, hurricane.lat, hurricane.lng)
+      const { lat: stormLat, lng: stormLng } = hurricane.currentPosition
+      const distance = calculateDistanceMiles(lat, lng, stormLat, stormLng)
       return distance <= maxDistance
     })
   }
 
-  /**
-   * Calculate distance between two coordinates
-   */
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959 // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLng = (lng2 - lng1) * Math.PI / 180
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-    return R * c
-  }
-
   /**
    * Get average value from conditions array
    */
@@ -502,7 +492,7 @@ export class EnhancedWeatherService {
     ]
 
     return hurricaneZones.some(zone => {
-      const distance = this.calculateDistance(lat, lng, zone.lat, zone.lng)
+      const distance = calculateDistanceMiles(lat, lng, zone.lat, zone.lng)
       return distance <= zone.radius
     })
   }
@@ -0,0 +1,34 @@
+// Remembers a fingerprint of what each feed last returned, so the work that
+// only matters when the data moves on (Web Push, matching alert subscriptions)
+// is skipped on the many page loads that fetch the same alerts or storms
+// again. Fingerprints are kept per server instance: after a restart the first
+// fetch counts as a change, and the pushes and matches it leads to are
+// deduplicated downstream anyway.
+
+import { createHash } from 'crypto';
+
+// Alert feeds are per point; forgetting them all now and then is harmless
+const MAX_FEEDS = 1000;
+
+// Kept on globalThis so dev-server reloads don't forget what was seen
+const globalStore = globalThis as unknown as { __feedFingerprints?: Map<string, string> };
+const fingerprints = globalStore.__feedFingerprints || (globalStore.__feedFingerprints = new Map());
+
+/**
+ * Record what `feed` returned; true when it differs from what it returned last time
+ */
+export function feedChanged(feed: string, data: unknown): boolean {
+  const fingerprint = createHash('sha256').update(JSON.stringify(data)).digest('base64url');
+  if (fingerprints.get(feed) === fingerprint) return false;
+
+  if (fingerprints.size >= MAX_FEEDS) fingerprints.clear();
+  fingerprints.set(feed, fingerprint);
+  return true;
+}
+
+/**
+ * Forget every fingerprint (tests)
+ */
+export function clearFeedFingerprints(): void {
+  fingerprints.clear();
+}
@@ -0,0 +1,36 @@
+// Firestore backend for the admin roster: `admins` (document ID = lowercase
+// email) and the append-only `adminAudit` trail.
+
+import { getFirestoreInstance } from './firebase-admin';
+import type { AdminMember, AdminRosterStore, RoleChangeEvent } from './admin-roster';
+
+export class FirestoreAdminRoster implements AdminRosterStore {
+  readonly kind: AdminRosterStore['kind'] = 'firestore';
+
+  async listMembers(): Promise<AdminMember[]> {
+    const snapshot = await getFirestoreInstance().collection('admins').get();
+    return snapshot.docs.map(doc => doc.data() as AdminMember);
+  }
+
+  async getMember(email: string): Promise<AdminMember | null> {
+    const snap = await getFirestoreInstance().collection('admins').doc(email).get();
+    return snap.exists ? (snap.data() as AdminMember) : null;
+  }
+
+  async saveMember(member: AdminMember): Promise<void> {
+    await getFirestoreInstance().collection('admins').doc(member.email).set(member);
+  }
+
+  async deleteMember(email: string): Promise<void> {
+    await getFirestoreInstance().collection('admins').doc(email).delete();
+  }
+
+  async addAuditEvent(event: RoleChangeEvent): Promise<void> {
+    await getFirestoreInstance().collection('adminAudit').add(event);
+  }
+
+  async listAuditEvents(limit: number): Promise<RoleChangeEvent[]> {
+    const snapshot = await getFirestoreInstance().collection('adminAudit').orderBy('at', 'desc').limit(limit).get();
+    return snapshot.docs.map(doc => ({ ...(doc.data() as RoleChangeEvent), id: doc.id }));
+  }
+}
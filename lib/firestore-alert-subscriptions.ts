@@ -0,0 +1,34 @@
+// Firestore backend for alert subscriptions: `alertSubscriptions`, one
+// document per subscription, keyed by its id.
+
+import { getFirestoreInstance } from './firebase-admin';
+import type { AlertSubscriptionStore } from './alert-subscriptions';
+import type { AlertSubscription } from './types';
+
+export class FirestoreAlertSubscriptionStore implements AlertSubscriptionStore {
+  readonly kind: AlertSubscriptionStore['kind'] = 'firestore';
+
+  async get(id: string): Promise<AlertSubscription | null> {
+    const snap = await getFirestoreInstance().collection('alertSubscriptions').doc(id).get();
+    return snap.exists ? (snap.data() as AlertSubscription) : null;
+  }
+
+  async listByOwner(ownerId: string): Promise<AlertSubscription[]> {
+    const snapshot = await getFirestoreInstance().collection('alertSubscriptions').where('ownerId', '==', ownerId).get();
+    return snapshot.docs.map(doc => doc.data() as AlertSubscription);
+  }
+
+  async list(): Promise<AlertSubscription[]> {
+    const snapshot = await getFirestoreInstance().collection('alertSubscriptions').get();
+    return snapshot.docs.map(doc => doc.data() as AlertSubscription);
+  }
+
+  async save(subscription: AlertSubscription): Promise<void> {
+    // Firestore rejects undefined fields
+    await getFirestoreInstance().collection('alertSubscriptions').doc(subscription.id).set(JSON.parse(JSON.stringify(subscription)));
+  }
+
+  async remove(id: string): Promise<void> {
+    await getFirestoreInstance().collection('alertSubscriptions').doc(id).delete();
+  }
+}
@@ -0,0 +1,38 @@
+// Firestore backend for Web Push subscriptions: `pushSubscriptions`, one
+// document per browser. Endpoints are long URLs, so documents are keyed by
+// their SHA-256 instead.
+
+import { createHash } from 'crypto';
+import { getFirestoreInstance } from './firebase-admin';
+import type { PushSubscriptionRecord, PushSubscriptionStore } from './push-subscriptions';
+
+function docId(endpoint: string): string {
+  return createHash('sha256').update(endpoint).digest('hex');
+}
+
+export class FirestorePushSubscriptionStore implements PushSubscriptionStore {
+  readonly kind: PushSubscriptionStore['kind'] = 'firestore';
+
+  async get(endpoint: string): Promise<PushSubscriptionRecord | null> {
+    const snap = await getFirestoreInstance().collection('pushSubscriptions').doc(docId(endpoint)).get();
+    return snap.exists ? (snap.data() as PushSubscriptionRecord) : null;
+  }
+
+  async save(record: PushSubscriptionRecord): Promise<void> {
+    await getFirestoreInstance().collection('pushSubscriptions').doc(docId(record.endpoint)).set(record);
+  }
+
+  async remove(endpoint: string): Promise<void> {
+    await getFirestoreInstance().collection('pushSubscriptions').doc(docId(endpoint)).delete();
+  }
+
+  async listInCell(cell: string): Promise<PushSubscriptionRecord[]> {
+    const snapshot = await getFirestoreInstance().collection('pushSubscriptions').where('cell', '==', cell).get();
+    return snapshot.docs.map(doc => doc.data() as PushSubscriptionRecord);
+  }
+
+  async list(): Promise<PushSubscriptionRecord[]> {
+    const snapshot = await getFirestoreInstance().collection('pushSubscriptions').get();
+    return snapshot.docs.map(doc => doc.data() as PushSubscriptionRecord);
+  }
+}
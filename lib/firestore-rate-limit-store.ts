@@ -0,0 +1,30 @@
+// Firestore backend for rate limiting: one `rateLimits` document per bucket,
+// updated in a transaction so concurrent instances can't overspend it.
+// `expiresAt` marks when the bucket is full again; enable a TTL policy on it
+// to have Firestore clean up idle buckets.
+
+import { Timestamp } from 'firebase-admin/firestore';
+import { getFirestoreInstance } from './firebase-admin';
+import { takeToken } from './rate-limit';
+import type { RateLimitResult, RateLimitRule, RateLimitStore, TokenBucket } from './rate-limit';
+
+export class FirestoreRateLimitStore implements RateLimitStore {
+  readonly kind: RateLimitStore['kind'] = 'firestore';
+
+  async take(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    const db = getFirestoreInstance();
+    // Document IDs can't contain slashes (IPv6 and session IDs may)
+    const ref = db.collection('rateLimits').doc(encodeURIComponent(key));
+
+    return db.runTransaction(async transaction => {
+      const snap = await transaction.get(ref);
+      const data = snap.exists ? snap.data() : undefined;
+      const current: TokenBucket | undefined = data ? { tokens: data.tokens, updatedAt: data.updatedAt } : undefined;
+
+      const { bucket, result } = takeToken(current, rule, now);
+      const msUntilFull = ((rule.limit - bucket.tokens) / rule.limit) * rule.windowMs;
+      transaction.set(ref, { ...bucket, expiresAt: Timestamp.fromMillis(now + msUntilFull) });
+      return result;
+    });
+  }
+}
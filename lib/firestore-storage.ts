@@ -0,0 +1,115 @@
+// Firestore backend: `pendingResources` and `resources` collections.
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getFirestoreInstance } from './firebase-admin';
+import { getModerationStatus } from './moderation';
+import type { ModerationEvent } from './moderation';
+import type {
+  ApprovedResource,
+  NewPendingResource,
+  PendingResource,
+  ResourceRepository,
+  StorageKind,
+  UserProfile,
+} from './resource-repository';
+
+export class FirestoreStorage implements ResourceRepository {
+  readonly kind: StorageKind = 'firestore';
+
+  async addPending(data: NewPendingResource): Promise<string> {
+    const ref = await getFirestoreInstance().collection('pendingResources').add(data);
+    return ref.id;
+  }
+
+  async getPending(id: string): Promise<PendingResource | null> {
+    const snap = await getFirestoreInstance().collection('pendingResources').doc(id).get();
+    return snap.exists ? toPending(snap.id, snap.data()!) : null;
+  }
+
+  async listPending(): Promise<PendingResource[]> {
+    const snapshot = await getFirestoreInstance().collection('pendingResources').orderBy('submittedAt', 'desc').get();
+    return snapshot.docs.map(doc => toPending(doc.id, doc.data()));
+  }
+
+  async updatePending(id: string, updates: Partial<NewPendingResource>, event?: ModerationEvent): Promise<PendingResource | null> {
+    const ref = getFirestoreInstance().collection('pendingResources').doc(id);
+    const snap = await ref.get();
+    if (!snap.exists) return null;
+
+    const data = snap.data()!;
+    await ref.update({
+      ...updates,
+      ...(event ? { moderationHistory: FieldValue.arrayUnion(event) } : {}),
+    });
+
+    return toPending(id, {
+      ...data,
+      ...updates,
+      moderationHistory: event ? [...(data.moderationHistory || []), event] : data.moderationHistory,
+    });
+  }
+
+  async approvePending(id: string, event: ModerationEvent): Promise<ApprovedResource | null> {
+    const db = getFirestoreInstance();
+    const pendRef = db.collection('pendingResources').doc(id);
+    const snap = await pendRef.get();
+    if (!snap.exists) return null;
+
+    const data = snap.data()!;
+    const approved = {
+      ...data,
+      status: 'approved',
+      approvedAt: event.at,
+      moderationHistory: [...(data.moderationHistory || []), event],
+    };
+
+    // Copy and delete atomically so a failure can't leave both or neither
+    const resourceRef = db.collection('resources').doc();
+    const batch = db.batch();
+    batch.set(resourceRef, approved);
+    batch.delete(pendRef);
+    await batch.commit();
+
+    return { ...toPending(resourceRef.id, approved), approvedAt: event.at };
+  }
+
+  async listResources(): Promise<ApprovedResource[]> {
+    const snapshot = await getFirestoreInstance().collection('resources').orderBy('approvedAt', 'desc').get();
+    return snapshot.docs.map(doc => ({ ...toPending(doc.id, doc.data()), approvedAt: doc.data().approvedAt }));
+  }
+
+  async listBySubmitter(submitterId: string): Promise<PendingResource[]> {
+    const db = getFirestoreInstance();
+    // Sorted here rather than in the query so no composite index is needed
+    const [pending, approved] = await Promise.all([
+      db.collection('pendingResources').where('submitterId', '==', submitterId).get(),
+      db.collection('resources').where('submitterId', '==', submitterId).get(),
+    ]);
+    return [...pending.docs, ...approved.docs]
+      .map(doc => toPending(doc.id, doc.data()))
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  async getUser(id: string): Promise<UserProfile | null> {
+    const snap = await getFirestoreInstance().collection('users').doc(id).get();
+    if (!snap.exists) return null;
+    const data = snap.data() as UserProfile;
+    return { ...data, id: snap.id, notifications: data.notifications || [] };
+  }
+
+  async saveUser(profile: UserProfile): Promise<void> {
+    await getFirestoreInstance().collection('users').doc(profile.id).set(profile);
+  }
+}
+
+function toPending(id: string, data: FirebaseFirestore.DocumentData): PendingResource {
+  return {
+    ...(data as NewPendingResource),
+    id,
+    status: getModerationStatus(data),
+    // Older documents may hold a Firestore Timestamp
+    submittedAt: data.submittedAt?.toDate?.().toISOString() || data.submittedAt,
+    moderationHistory: data.moderationHistory || [],
+    aiReview: data.aiReview || { status: 'pending', notes: '' },
+  };
+}
@@ -0,0 +1,24 @@
+// Distances on the Earth's surface, shared by search, ranking, de-duplication,
+// watch areas and the weather, hurricane and density features.
+
+const EARTH_RADIUS_KM = 6371;
+export const KM_PER_MILE = 1.609344;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/**
+ * Great-circle (haversine) distance in kilometers
+ */
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Great-circle distance in miles, for the storm proximity checks
+ */
+export function calculateDistanceMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  return calculateDistance(lat1, lng1, lat2, lng2) / KM_PER_MILE;
+}
@@ -0,0 +1,329 @@
+// Geocoding helpers with a local file cache.
+//
+// Forward geocoding tries the cache (keyed by normalized address), the Google
+// Geocoding API and then an offline match against the seed datasets.
+// Reverse geocoding tries, in order: the cache, the Google Geocoding API (when
+// a Maps key is configured), the keyless NWS points API (US only) and finally
+// the region registry label, so a human-readable name is always returned.
+
+import fs from 'fs';
+import path from 'path';
+import { readJsonCache, writeJsonCache } from './json-cache';
+import { getLocationLabel, REGIONS } from './regions';
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  formattedAddress: string | null;
+  normalizedAddress: string;
+  source: 'google' | 'seed';
+  cachedAt?: string;
+}
+
+export interface ReverseGeocodeResult {
+  name: string;
+  locality: string | null;
+  region: string | null;
+  country: string | null;
+  formattedAddress: string | null;
+  lat: number;
+  lng: number;
+  source: 'google' | 'nws' | 'region';
+  cachedAt?: string;
+}
+
+const GEOCODE_CACHE_FILE = 'geocode.json';
+const REVERSE_CACHE_FILE = 'reverse-geocode.json';
+// Addresses can be re-pointed (new builds, provider fixes), so forward results expire too
+const GEOCODE_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+// Bounds the cache file; past this the oldest entries go first
+const MAX_GEOCODE_CACHE_ENTRIES = 5000;
+// Localities don't move; refresh occasionally in case the provider improves
+const REVERSE_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+// ~110 m grid: close enough for a locality name, coarse enough to share cache hits
+const REVERSE_CACHE_PRECISION = 3;
+
+export function getGeocodingApiKey(): string | undefined {
+  return process.env.GCP_SERVER_MAPS_KEY || process.env.NEXT_PUBLIC_MAPS_API_KEY;
+}
+
+// Common USPS abbreviations so "123 Northwest 1st Street" and "123 NW 1st St" share a cache entry
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', boulevard: 'blvd', road: 'rd', drive: 'dr', lane: 'ln',
+  court: 'ct', place: 'pl', terrace: 'ter', highway: 'hwy', parkway: 'pkwy', circle: 'cir',
+  suite: 'ste', apartment: 'apt',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+  florida: 'fl', texas: 'tx',
+};
+
+export function normalizeAddress(address: string): string {
+  return (address || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.#]/g, ' ')
+    .split(',')
+    .map(part => part
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(word => ADDRESS_ABBREVIATIONS[word] || word)
+      .join(' '))
+    .filter(part => part && part !== 'usa' && part !== 'united states' && part !== 'us')
+    .join(', ');
+}
+
+function isFreshGeocode(entry: GeocodeResult | undefined, now = Date.now()): entry is GeocodeResult {
+  return Boolean(entry?.cachedAt && now - new Date(entry.cachedAt).getTime() < GEOCODE_CACHE_TTL);
+}
+
+// Drop expired entries, then the oldest beyond the cap
+function pruneGeocodeCache(cache: Record<string, GeocodeResult>): Record<string, GeocodeResult> {
+  const now = Date.now();
+  const kept = Object.entries(cache)
+    .filter(([, entry]) => isFreshGeocode(entry, now))
+    .sort(([, a], [, b]) => b.cachedAt!.localeCompare(a.cachedAt!))
+    .slice(0, MAX_GEOCODE_CACHE_ENTRIES);
+  return Object.fromEntries(kept);
+}
+
+export async function geocodeAddress(address: string): Promise<GeocodeResult | null> {
+  const [result] = await geocodeAddresses([address]);
+  return result;
+}
+
+/**
+ * Geocode many addresses with a single cache read/write. Results keep input order;
+ * addresses that cannot be resolved come back as null.
+ */
+export async function geocodeAddresses(addresses: string[]): Promise<(GeocodeResult | null)[]> {
+  const cache = readJsonCache<Record<string, GeocodeResult>>(GEOCODE_CACHE_FILE, {});
+  const key = getGeocodingApiKey();
+  const resolved = new Map<string, GeocodeResult | null>();
+  let cacheChanged = false;
+
+  for (const address of addresses) {
+    const normalized = normalizeAddress(address);
+    if (!normalized || resolved.has(normalized)) continue;
+
+    if (isFreshGeocode(cache[normalized])) {
+      resolved.set(normalized, cache[normalized]);
+      continue;
+    }
+
+    let result: GeocodeResult | null = null;
+    if (key) {
+      try {
+        result = await geocodeWithGoogle(address, normalized, key);
+      } catch (error) {
+        console.warn('Google geocoding failed for', address, error);
+      }
+    }
+
+    if (result) {
+      cache[normalized] = { ...result, cachedAt: new Date().toISOString() };
+      cacheChanged = true;
+    } else {
+      // Offline fallback; not cached so a configured key can still win later
+      result = matchSeedAddress(normalized);
+    }
+
+    resolved.set(normalized, result);
+  }
+
+  if (cacheChanged) writeJsonCache(GEOCODE_CACHE_FILE, pruneGeocodeCache(cache));
+
+  return addresses.map(address => resolved.get(normalizeAddress(address)) ?? null);
+}
+
+async function geocodeWithGoogle(address: string, normalized: string, key: string): Promise<GeocodeResult | null> {
+  const url = new URL('https://maps.googleapis.com/maps/api/geocode/json');
+  url.searchParams.set('address', address);
+  url.searchParams.set('key', key);
+
+  const response = await fetch(url.toString());
+  const data = await response.json();
+
+  if (data.status !== 'OK' || !data.results?.length) {
+    console.log('Geocoding failed:', data.status, data.error_message);
+    return null;
+  }
+
+  const { lat, lng } = data.results[0].geometry.location;
+  return {
+    lat,
+    lng,
+    formattedAddress: data.results[0].formatted_address || null,
+    normalizedAddress: normalized,
+    source: 'google',
+  };
+}
+
+let seedAddressIndex: Map<string, { lat: number; lng: number; address: string }> | null = null;
+
+function getSeedAddressIndex() {
+  if (seedAddressIndex) return seedAddressIndex;
+
+  const index = new Map<string, { lat: number; lng: number; address: string }>();
+  for (const region of REGIONS) {
+    for (const file of Object.values(region.seeds)) {
+      const filePath = path.join(process.cwd(), 'public', 'data', file as string);
+      if (!fs.existsSync(filePath)) continue;
+      try {
+        const items: any[] = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        for (const item of items) {
+          if (!item.address || typeof item.lat !== 'number' || typeof item.lng !== 'number') continue;
+          index.set(normalizeAddress(item.address), { lat: item.lat, lng: item.lng, address: item.address });
+        }
+      } catch (error) {
+        console.warn('Failed to index seed addresses from', file, error);
+      }
+    }
+  }
+
+  seedAddressIndex = index;
+  return index;
+}
+
+function matchSeedAddress(normalized: string): GeocodeResult | null {
+  const index = getSeedAddressIndex();
+  let match = index.get(normalized);
+
+  // Fall back to the street line plus city, ignoring state/ZIP formatting differences
+  if (!match) {
+    const [street, city] = normalized.split(', ');
+    for (const [seedAddress, seed] of Array.from(index.entries())) {
+      const [seedStreet, seedCity] = seedAddress.split(', ');
+      if (street === seedStreet && (!city || !seedCity || city === seedCity)) {
+        match = seed;
+        break;
+      }
+    }
+  }
+
+  if (!match) return null;
+  return {
+    lat: match.lat,
+    lng: match.lng,
+    formattedAddress: match.address,
+    normalizedAddress: normalized,
+    source: 'seed',
+  };
+}
+
+export function reverseCacheKey(lat: number, lng: number): string {
+  return `${lat.toFixed(REVERSE_CACHE_PRECISION)},${lng.toFixed(REVERSE_CACHE_PRECISION)}`;
+}
+
+export async function reverseGeocode(lat: number, lng: number): Promise<ReverseGeocodeResult> {
+  const cacheKey = reverseCacheKey(lat, lng);
+  const cache = readJsonCache<Record<string, ReverseGeocodeResult>>(REVERSE_CACHE_FILE, {});
+  const cached = cache[cacheKey];
+  if (cached?.cachedAt && Date.now() - new Date(cached.cachedAt).getTime() < REVERSE_CACHE_TTL) {
+    return { ...cached, lat, lng };
+  }
+
+  const key = getGeocodingApiKey();
+  let result: ReverseGeocodeResult | null = null;
+
+  if (key) {
+    try {
+      result = await reverseGeocodeWithGoogle(lat, lng, key);
+    } catch (error) {
+      console.warn('Google reverse geocoding failed:', error);
+    }
+  }
+
+  if (!result) {
+    try {
+      result = await reverseGeocodeWithNws(lat, lng);
+    } catch (error) {
+      console.warn('NWS reverse geocoding failed:', error);
+    }
+  }
+
+  if (!result) {
+    // Not cached: a later request may reach a real provider
+    return {
+      name: getLocationLabel(lat, lng),
+      locality: null,
+      region: null,
+      country: null,
+      formattedAddress: null,
+      lat,
+      lng,
+      source: 'region',
+    };
+  }
+
+  cache[cacheKey] = { ...result, cachedAt: new Date().toISOString() };
+  writeJsonCache(REVERSE_CACHE_FILE, cache);
+  return result;
+}
+
+/**
+ * Best-effort locality name for API responses; never throws
+ */
+export async function getLocationName(lat: number, lng: number): Promise<string> {
+  try {
+    return (await reverseGeocode(lat, lng)).name;
+  } catch (error) {
+    console.warn('Reverse geocoding failed, using region label:', error);
+    return getLocationLabel(lat, lng);
+  }
+}
+
+async function reverseGeocodeWithGoogle(lat: number, lng: number, key: string): Promise<ReverseGeocodeResult | null> {
+  const url = new URL('https://maps.googleapis.com/maps/api/geocode/json');
+  url.searchParams.set('latlng', `${lat},${lng}`);
+  url.searchParams.set('key', key);
+
+  const response = await fetch(url.toString());
+  const data = await response.json();
+  if (data.status !== 'OK' || !data.results?.length) return null;
+
+  const components: any[] = data.results.flatMap((r: any) => r.address_components || []);
+  const find = (type: string, short = false) => {
+    const component = components.find(c => c.types?.includes(type));
+    return component ? (short ? component.short_name : component.long_name) : null;
+  };
+
+  const locality = find('locality') || find('postal_town') || find('sublocality') || find('administrative_area_level_2');
+  const region = find('administrative_area_level_1', true);
+  const country = find('country', true);
+
+  return {
+    name: [locality, region].filter(Boolean).join(', ') || data.results[0].formatted_address,
+    locality,
+    region,
+    country,
+    formattedAddress: data.results[0].formatted_address || null,
+    lat,
+    lng,
+    source: 'google',
+  };
+}
+
+async function reverseGeocodeWithNws(lat: number, lng: number): Promise<ReverseGeocodeResult | null> {
+  const response = await fetch(`https://api.weather.gov/points/${lat.toFixed(4)},${lng.toFixed(4)}`, {
+    headers: {
+      'User-Agent': 'GoogleStorm/1.0 (Emergency Resource Finder)',
+    },
+  });
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  const relative = data.properties?.relativeLocation?.properties;
+  if (!relative?.city) return null;
+
+  return {
+    name: relative.state ? `${relative.city}, ${relative.state}` : relative.city,
+    locality: relative.city,
+    region: relative.state || null,
+    country: 'US',
+    formattedAddress: null,
+    lat,
+    lng,
+    source: 'nws',
+  };
+}
@@ -0,0 +1,123 @@
+// Geometry for watch areas (lib/types/subscriptions.ts) and NWS alert
+// polygons: whether a point lies inside one, how far outside it is and whether
+// an alert reaches into a watch area. Polygons are small next to the Earth, so
+// edges are measured on a flat projection around the point in question.
+
+import { calculateDistance } from './geo';
+import type { AlertGeometry, GeoPoint, WatchArea } from './types';
+
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Where to ask point-based services (NWS alerts) about the area: the center of
+ * a circle, the vertex average of a polygon
+ */
+export function areaCenter(area: WatchArea): GeoPoint {
+  if (area.kind === 'circle') return area.center;
+
+  const sum = area.points.reduce((total, point) => ({ lat: total.lat + point.lat, lng: total.lng + point.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / area.points.length, lng: sum.lng / area.points.length };
+}
+
+export function containsPoint(area: WatchArea, point: GeoPoint): boolean {
+  if (area.kind === 'circle') {
+    return calculateDistance(area.center.lat, area.center.lng, point.lat, point.lng) <= area.radiusKm;
+  }
+  return polygonContains(area.points, point);
+}
+
+/**
+ * Kilometres from the point to the nearest edge of the area; 0 inside it
+ */
+export function distanceToArea(area: WatchArea, point: GeoPoint): number {
+  if (area.kind === 'circle') {
+    return Math.max(0, calculateDistance(area.center.lat, area.center.lng, point.lat, point.lng) - area.radiusKm);
+  }
+  if (polygonContains(area.points, point)) return 0;
+  return Math.min(...edges(area.points).map(([a, b]) => distanceToSegment(point, a, b)));
+}
+
+/**
+ * Whether an alert's polygons cover the point; holes are left out
+ */
+export function geometryContains(geometry: AlertGeometry, point: GeoPoint): boolean {
+  return polygons(geometry).some(rings => ringsContain(rings, point));
+}
+
+/**
+ * Whether an alert's polygons reach into a watch area
+ */
+export function geometryIntersectsArea(geometry: AlertGeometry, area: WatchArea): boolean {
+  return polygons(geometry).some(rings => {
+    if (area.kind === 'circle') {
+      return ringsContain(rings, area.center) ||
+        rings.some(ring => edges(ring).some(([a, b]) => distanceToSegment(area.center, a, b) <= area.radiusKm));
+    }
+
+    if (!boundsOverlap(rings[0], area.points)) return false;
+    return area.points.some(point => ringsContain(rings, point)) ||
+      rings[0].some(point => polygonContains(area.points, point)) ||
+      rings.some(ring => edges(ring).some(([a, b]) => edges(area.points).some(([c, d]) => segmentsCross(a, b, c, d))));
+  });
+}
+
+// Each polygon as its rings, outer ring first
+function polygons(geometry: AlertGeometry): GeoPoint[][][] {
+  const toRing = (ring: number[][]) => ring.map(([lng, lat]) => ({ lat, lng }));
+  const list = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return list.filter(rings => rings.length > 0).map(rings => rings.map(toRing));
+}
+
+function ringsContain([outer, ...holes]: GeoPoint[][], point: GeoPoint): boolean {
+  return polygonContains(outer, point) && !holes.some(hole => polygonContains(hole, point));
+}
+
+// Ray casting; points exactly on an edge may fall either way
+function polygonContains(points: GeoPoint[], point: GeoPoint): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function edges(points: GeoPoint[]): Array<[GeoPoint, GeoPoint]> {
+  return points.map((point, index) => [point, points[(index + 1) % points.length]]);
+}
+
+function boundsOverlap(a: GeoPoint[], b: GeoPoint[]): boolean {
+  const bounds = (points: GeoPoint[]) => ({
+    south: Math.min(...points.map(point => point.lat)),
+    north: Math.max(...points.map(point => point.lat)),
+    west: Math.min(...points.map(point => point.lng)),
+    east: Math.max(...points.map(point => point.lng)),
+  });
+  const first = bounds(a);
+  const second = bounds(b);
+  return first.south <= second.north && second.south <= first.north && first.west <= second.east && second.west <= first.east;
+}
+
+// Whether segment ab crosses segment cd, on the lat/lng plane
+function segmentsCross(a: GeoPoint, b: GeoPoint, c: GeoPoint, d: GeoPoint): boolean {
+  const side = (p: GeoPoint, q: GeoPoint, r: GeoPoint) => Math.sign((q.lng - p.lng) * (r.lat - p.lat) - (q.lat - p.lat) * (r.lng - p.lng));
+  return side(a, b, c) !== side(a, b, d) && side(c, d, a) !== side(c, d, b);
+}
+
+function distanceToSegment(point: GeoPoint, a: GeoPoint, b: GeoPoint): number {
+  // Kilometres east (x) and north (y) of `point`
+  const scale = Math.cos(point.lat * Math.PI / 180);
+  const project = (p: GeoPoint) => ({ x: (p.lng - point.lng) * KM_PER_DEGREE * scale, y: (p.lat - point.lat) * KM_PER_DEGREE });
+  const start = project(a);
+  const end = project(b);
+
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(start.x * dx + start.y * dy) / lengthSquared));
+  return Math.hypot(start.x + t * dx, start.y + t * dy);
+}
@@ -1,46 +1,7 @@
 // Google Weather Service
 // Uses Google Maps API key with free weather APIs as fallback
 
-export interface WeatherCurrent {
-  temperature: number;
-  condition: string;
-  humidity: number;
-  windSpeed: number;
-  windDirection: number;
-  pressure: number;
-  visibility: number;
-  uvIndex: number;
-  timestamp: string;
-}
-
-export interface WeatherForecast {
-  date: string;
-  high: number;
-  low: number;
-  condition: string;
-  precipitation: number;
-  windSpeed: number;
-  humidity: number;
-  isHurricaneRisk: boolean;
-}
-
-export interface WeatherLocation {
-  name: string;
-  lat: number;
-  lng: number;
-}
-
-export interface WeatherResponse {
-  current: WeatherCurrent;
-  alerts: any[];
-  location: WeatherLocation;
-}
-
-export interface WeatherForecastResponse {
-  forecast: WeatherForecast[];
-  location: WeatherLocation;
-  lastUpdated: string;
-}
+import type { ForecastDay, ForecastResponse, WeatherResponse } from './types';
 
 export class GoogleWeatherService {
   private static instance: GoogleWeatherService;
@@ -89,7 +50,7 @@ export class GoogleWeatherService {
   /**
    * Get weather forecast using OpenWeatherMap API (real-time data only)
    */
-  async getForecast(lat: number, lng: number): Promise<WeatherForecastResponse> {
+  async getForecast(lat: number, lng: number): Promise<ForecastResponse> {
     const cacheKey = `forecast_${lat.toFixed(4)}_${lng.toFixed(4)}`;
     const cached = this.cache.get(cacheKey);
     
@@ -151,7 +112,7 @@ export class GoogleWeatherService {
   /**
    * Get forecast from OpenWeatherMap API
    */
-  private async getOpenWeatherForecast(lat: number, lng: number): Promise<WeatherForecastResponse> {
+  private async getOpenWeatherForecast(lat: number, lng: number): Promise<ForecastResponse> {
     const url = `https://api.openweathermap.org/data/2.5/forecast?lat=${lat}&lon=${lng}&appid=${this.openWeatherApiKey}&units=imperial`;
     
     const response = await fetch(url);
@@ -160,7 +121,7 @@ export class GoogleWeatherService {
     }
 
     const data = await response.json();
-    const forecast: WeatherForecast[] = [];
+    const forecast: ForecastDay[] = [];
 
     // Group by day and get daily min/max
     const dailyData: { [key: string]: any[] } = {};
@@ -2,31 +2,10 @@
 // Supports multiple data sources for redundancy
 
 import { DOMParser } from 'xmldom'
-
-export interface HurricanePosition {
-  lat: number
-  lng: number
-  timestamp: string
-  windSpeed: number
-  pressure?: number
-  category?: number
-}
-
-export interface HurricaneTrack {
-  id: string
-  name: string
-  currentPosition: HurricanePosition
-  historicalPositions: HurricanePosition[]
-  forecastPositions: HurricanePosition[]
-  status: 'active' | 'dissipated' | 'post-tropical'
-  basin: 'ATL' | 'EPAC' | 'CPAC' | 'WPAC' | 'IO' | 'SH'
-}
-
-export interface HurricaneResponse {
-  hurricanes: HurricaneTrack[]
-  lastUpdated: string
-  source: string
-}
+import { calculateDistanceMiles } from './geo'
+import { knotsToMph, parseNhcLocalTime } from './nhc-advisory'
+import { fetchStormProducts } from './nhc-products'
+import type { HurricanePosition, HurricaneResponse, HurricaneTrack } from './types'
 
 export class HurricaneAPIService {
   private static instance: HurricaneAPIService
@@ -114,6 +93,7 @@ export class HurricaneAPIService {
       try {
         const result = await api()
         if (result.hurricanes.length > 0) {
+          await this.attachStormProducts(result.hurricanes)
           this.cache.set(cacheKey, {
             data: result,
             timestamp: Date.now()
@@ -298,13 +278,15 @@ export class HurricaneAPIService {
           let forecastPositions: HurricanePosition[] = []
           if (forecastResponse.ok) {
             const forecastData = await forecastResponse.json()
-            forecastPositions = forecastData.list?.slice(0, 5).map((item: any, index: number) => ({
-              lat: area.lat + (index * 0.05), // Simulated movement
-              lng: area.lng + (index * 0.05),
+            // The local forecast for the monitored place; OpenWeather has no storm track
+            forecastPositions = forecastData.list?.slice(0, 5).map((item: any) => ({
+              lat: area.lat,
+              lng: area.lng,
               timestamp: new Date(item.dt * 1000).toISOString(),
               windSpeed: item.wind?.speed || windSpeed,
               pressure: item.main?.pressure || pressure,
-              category: this.getCategoryFromWindSpeed(item.wind?.speed || windSpeed)
+              category: this.getCategoryFromWindSpeed(item.wind?.speed || windSpeed),
+              provenance: { position: 'estimated', timestamp: 'forecast', windSpeed: 'forecast', pressure: 'forecast' }
             })) || []
           }
 
@@ -317,7 +299,8 @@ export class HurricaneAPIService {
               timestamp: new Date().toISOString(),
               windSpeed: windSpeed,
               pressure: pressure,
-              category: this.getCategoryFromWindSpeed(windSpeed)
+              category: this.getCategoryFromWindSpeed(windSpeed),
+              provenance: { position: 'estimated', timestamp: 'observed', windSpeed: 'observed', pressure: 'observed' }
             },
             historicalPositions: [],
             forecastPositions: forecastPositions,
@@ -407,13 +390,15 @@ export class HurricaneAPIService {
           let forecastPositions: HurricanePosition[] = []
           if (forecastResponse.ok) {
             const forecastData = await forecastResponse.json()
-            forecastPositions = forecastData.DailyForecasts?.slice(0, 5).map((day: any, index: number) => ({
-              lat: area.lat + (index * 0.05),
-              lng: area.lng + (index * 0.05),
+            // The local forecast for the monitored place; AccuWeather has no storm track
+            forecastPositions = forecastData.DailyForecasts?.slice(0, 5).map((day: any) => ({
+              lat: area.lat,
+              lng: area.lng,
               timestamp: new Date(day.Date).toISOString(),
               windSpeed: day.Day?.Wind?.Speed?.Value || windSpeed,
               pressure: day.Day?.Pressure?.Value || pressure,
-              category: this.getCategoryFromWindSpeed(day.Day?.Wind?.Speed?.Value || windSpeed)
+              category: this.getCategoryFromWindSpeed(day.Day?.Wind?.Speed?.Value || windSpeed),
+              provenance: { position: 'estimated', timestamp: 'forecast', windSpeed: 'forecast', pressure: 'forecast' }
             })) || []
           }
 
@@ -426,7 +411,8 @@ export class HurricaneAPIService {
               timestamp: new Date().toISOString(),
               windSpeed: windSpeed,
               pressure: pressure,
-              category: this.getCategoryFromWindSpeed(windSpeed)
+              category: this.getCategoryFromWindSpeed(windSpeed),
+              provenance: { position: 'estimated', timestamp: 'observed', windSpeed: 'observed', pressure: 'observed' }
             },
             historicalPositions: [],
             forecastPositions: forecastPositions,
@@ -512,10 +498,11 @@ export class HurricaneAPIService {
               timestamp: new Date().toISOString(),
               windSpeed: simulatedWindSpeed,
               pressure: simulatedPressure,
-              category: this.getCategoryFromWindSpeed(simulatedWindSpeed)
+              category: this.getCategoryFromWindSpeed(simulatedWindSpeed),
+              provenance: { position: 'estimated', timestamp: 'estimated', windSpeed: 'estimated', pressure: 'estimated' }
             },
             historicalPositions: [],
-            forecastPositions: this.generateMockForecastPositions(area.lat, area.lng),
+            forecastPositions: [],
             status: 'active',
             basin: this.determineBasinFromCoordinates(area.lat, area.lng)
           })
@@ -556,7 +543,7 @@ export class HurricaneAPIService {
         
         const placemarks = kmlDoc.getElementsByTagName('Placemark')
         
-        for (const placemark of placemarks) {
+        for (const placemark of Array.from<Element>(placemarks)) {
           const name = placemark.getElementsByTagName('name')[0]?.textContent || 'Unknown'
           const description = placemark.getElementsByTagName('description')[0]?.textContent || ''
           const coordinates = placemark.getElementsByTagName('coordinates')[0]?.textContent
@@ -572,26 +559,23 @@ export class HurricaneAPIService {
 
           // Extract wind speed from description
           const windMatch = description.match(/(\d+)\s*kt/i)
-          const windSpeed = windMatch ? parseInt(windMatch[1]) : 0
+          const windSpeed = windMatch ? knotsToMph(parseInt(windMatch[1])) : 0
 
+          const stormName = name.replace(/[^a-zA-Z0-9\s]/g, '').trim()
           const hurricane: HurricaneTrack = {
-            id: `noaa_${Date.now()}_${Math.random()}`,
-            name: name.replace(/[^a-zA-Z0-9\s]/g, '').trim(),
+            id: this.stormId(stormName, this.determineBasinFromCoordinates(coordPairs[0][1], coordPairs[0][0])),
+            name: stormName,
             currentPosition: {
               lat: coordPairs[0][1],
               lng: coordPairs[0][0],
               timestamp: new Date().toISOString(),
-              windSpeed: windSpeed * 1.15, // Convert knots to mph
-              category: this.getCategoryFromWindSpeed(windSpeed * 1.15)
+              windSpeed,
+              category: this.getCategoryFromWindSpeed(windSpeed),
+              provenance: { position: 'observed', timestamp: 'estimated', windSpeed: windMatch ? 'observed' : 'estimated' }
             },
             historicalPositions: [],
-            forecastPositions: coordPairs.slice(1, 6).map(([lng, lat]) => ({
-              lat,
-              lng,
-              timestamp: new Date(Date.now() + coordPairs.indexOf([lng, lat]) * 24 * 60 * 60 * 1000).toISOString(),
-              windSpeed: windSpeed * 1.15,
-              category: this.getCategoryFromWindSpeed(windSpeed * 1.15)
-            })),
+            // The KML carries no forecast times or intensities; NHC's forecast comes with attachStormProducts
+            forecastPositions: [],
             status: 'active',
             basin: 'ATL'
           }
@@ -638,34 +622,43 @@ export class HurricaneAPIService {
       const title = item.getElementsByTagName('title')[0]?.textContent || ''
       const description = item.getElementsByTagName('description')[0]?.textContent || ''
       
-      // Check for structured cyclone data first
-      const cycloneElements = item.getElementsByTagName('Cyclone')
+      // Check for structured cyclone data first; its elements are in the nhc: namespace
+      const nhcText = (parent: Element, tag: string) => parent.getElementsByTagNameNS('*', tag)[0]?.textContent || ''
+      const cycloneElements = item.getElementsByTagNameNS('*', 'Cyclone')
       if (cycloneElements.length > 0) {
         const cyclone = cycloneElements[0]
-        const stormName = cyclone.getElementsByTagName('name')[0]?.textContent || ''
-        const stormType = cyclone.getElementsByTagName('type')[0]?.textContent || ''
-        const center = cyclone.getElementsByTagName('center')[0]?.textContent || ''
-        const wind = cyclone.getElementsByTagName('wind')[0]?.textContent || ''
-        const pressure = cyclone.getElementsByTagName('pressure')[0]?.textContent || ''
+        const stormName = nhcText(cyclone, 'name')
+        const stormType = nhcText(cyclone, 'type')
+        const center = nhcText(cyclone, 'center')
+        const wind = nhcText(cyclone, 'wind')
+        const pressure = nhcText(cyclone, 'pressure')
+        const advisoryTime = parseNhcLocalTime(nhcText(cyclone, 'datetime'))
         
         if (stormName && center && !processedStorms.has(stormName)) {
           const [lat, lng] = center.split(',').map(Number)
           const windSpeed = parseInt(wind.replace(/[^\d]/g, '')) || 0
-          const pressureValue = parseInt(pressure.replace(/[^\d]/g, '')) || 1013
+          const pressureValue = parseInt(pressure.replace(/[^\d]/g, '')) || undefined
           
           hurricanes.push({
-            id: `rss_${Date.now()}_${Math.random()}`,
+            id: this.stormId(stormName, this.determineBasinFromCoordinates(lat, lng)),
             name: stormName,
             currentPosition: {
               lat,
               lng,
-              timestamp: new Date().toISOString(),
+              timestamp: advisoryTime || new Date().toISOString(),
               windSpeed,
-              pressure: pressureValue,
-              category: this.getCategoryFromWindSpeed(windSpeed)
+              ...(pressureValue ? { pressure: pressureValue } : {}),
+              category: this.getCategoryFromWindSpeed(windSpeed),
+              provenance: {
+                position: 'observed',
+                timestamp: advisoryTime ? 'observed' : 'estimated',
+                windSpeed: 'observed',
+                ...(pressureValue ? { pressure: 'observed' as const } : {})
+              }
             },
             historicalPositions: [],
-            forecastPositions: this.generateMockForecastPositions(lat, lng),
+            // NHC's forecast comes with attachStormProducts
+            forecastPositions: [],
             status: 'active',
             basin: this.determineBasinFromCoordinates(lat, lng)
           })
@@ -726,7 +719,7 @@ export class HurricaneAPIService {
         
         const placemarks = kmlDoc.getElementsByTagName('Placemark')
         
-        for (const placemark of placemarks) {
+        for (const placemark of Array.from<Element>(placemarks)) {
           const name = placemark.getElementsByTagName('name')[0]?.textContent || 'Unknown'
           const description = placemark.getElementsByTagName('description')[0]?.textContent || ''
           const coordinates = placemark.getElementsByTagName('coordinates')[0]?.textContent
@@ -808,7 +801,7 @@ export class HurricaneAPIService {
       
       const placemarks = kmlDoc.getElementsByTagName('Placemark')
       
-      for (const placemark of placemarks) {
+      for (const placemark of Array.from<Element>(placemarks)) {
         const nameElement = placemark.getElementsByTagName('name')[0]
         const name = nameElement ? nameElement.textContent || 'Unknown' : 'Unknown'
         const descElement = placemark.getElementsByTagName('description')[0]
@@ -827,37 +820,43 @@ export class HurricaneAPIService {
 
         // Extract wind speed and pressure from description
         const windMatch = description.match(/(\d+)\s*kt/i)
-        const windSpeed = windMatch ? parseInt(windMatch[1]) * 1.15 : 0 // Convert knots to mph
+        const windSpeed = windMatch ? knotsToMph(parseInt(windMatch[1])) : 0
         
         const pressureMatch = description.match(/(\d+)\s*mb/i)
         const pressure = pressureMatch ? parseInt(pressureMatch[1]) : undefined
 
-        // Create trajectory data from coordinate pairs
-        const trajectory: HurricanePosition[] = coordPairs.map(([lng, lat], index) => ({
+        // The placemark gives where the storm is, not when it was there or where it
+        // is going; NHC's forecast comes with attachStormProducts
+        const [lng, lat] = coordPairs[0]
+        const currentPosition: HurricanePosition = {
           lat,
           lng,
-          timestamp: new Date(Date.now() + index * 6 * 60 * 60 * 1000).toISOString(), // 6-hour intervals
-          windSpeed: Math.max(0, windSpeed - (index * 2)), // Decreasing intensity over time
-          pressure: pressure ? pressure + (index * 5) : undefined,
-          category: this.getCategoryFromWindSpeed(Math.max(0, windSpeed - (index * 2)))
-        }))
+          timestamp: new Date().toISOString(),
+          windSpeed,
+          pressure,
+          category: this.getCategoryFromWindSpeed(windSpeed),
+          provenance: {
+            position: 'observed',
+            timestamp: 'estimated',
+            windSpeed: windMatch ? 'observed' : 'estimated',
+            ...(pressure ? { pressure: 'observed' as const } : {})
+          }
+        }
 
+        const stormName = name.replace(/[^a-zA-Z0-9\s]/g, '').trim()
         const hurricane: HurricaneTrack = {
-          id: `nhc_${Date.now()}_${Math.random()}`,
-          name: name.replace(/[^a-zA-Z0-9\s]/g, '').trim(),
-          currentPosition: trajectory[0],
-          historicalPositions: trajectory.slice(1, Math.min(6, trajectory.length)),
-          forecastPositions: trajectory.slice(Math.min(6, trajectory.length)),
+          id: this.stormId(stormName, this.determineBasinFromCoordinates(lat, lng)),
+          name: stormName,
+          currentPosition,
+          historicalPositions: [],
+          forecastPositions: [],
           status: 'active',
-          basin: this.determineBasinFromCoordinates(trajectory[0].lat, trajectory[0].lng)
+          basin: this.determineBasinFromCoordinates(lat, lng)
         }
 
         hurricanes.push(hurricane)
       }
 
-      // Also fetch forecast tracks for more detailed trajectories
-      await this.enhanceWithForecastTracks(hurricanes)
-
     } catch (error) {
       console.warn('NHC data fetch failed:', error)
       throw error
@@ -871,61 +870,45 @@ export class HurricaneAPIService {
   }
 
   /**
-   * Enhance hurricane data with forecast tracks
+   * Add the NHC forecast cone, watches and warnings and wind field to the
+   * storms NHC is issuing advisories on, along with NHC's forecast track from
+   * the forecast/advisory. Whichever feed found the storms, the products are
+   * matched to them by id; storms without them are left as they are.
    */
-  private async enhanceWithForecastTracks(hurricanes: HurricaneTrack[]): Promise<void> {
+  private async attachStormProducts(hurricanes: HurricaneTrack[]): Promise<void> {
     try {
-      const forecastUrl = 'https://www.nhc.noaa.gov/gis/kml/forecastTrack.kml'
-      const response = await fetch(forecastUrl, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; HurricaneTracker/1.0)'
+      const storms = await fetchStormProducts()
+      for (const hurricane of hurricanes) {
+        const storm = storms.find(candidate => this.stormId(candidate.name, hurricane.basin) === hurricane.id)
+        if (!storm) continue
+        hurricane.products = storm.products
+
+        const advisory = storm.forecastAdvisory
+        if (!advisory) continue
+        const withCategory = (position: HurricanePosition) => ({ ...position, category: this.getCategoryFromWindSpeed(position.windSpeed) })
+        hurricane.forecastPositions = advisory.forecast.map(withCategory)
+        // Intermediate public advisories move the center between forecast/advisories,
+        // so the feed's position stands unless it is older or its time unknown
+        const current = hurricane.currentPosition
+        if (current.provenance?.timestamp !== 'observed' || Date.parse(current.timestamp) <= Date.parse(advisory.current.timestamp)) {
+          hurricane.currentPosition = withCategory(advisory.current)
         }
-      })
-
-      if (!response.ok) return
-
-      const kmlText = await response.text()
-      const parser = new DOMParser()
-      const kmlDoc = parser.parseFromString(kmlText, 'text/xml')
-      
-      const placemarks = kmlDoc.getElementsByTagName('Placemark')
-      
-      for (const placemark of placemarks) {
-        const nameElement = placemark.getElementsByTagName('name')[0]
-        const name = nameElement ? nameElement.textContent || '' : ''
-        
-        // Find matching hurricane
-        const hurricane = hurricanes.find(h => 
-          h.name.toLowerCase().includes(name.toLowerCase()) || 
-          name.toLowerCase().includes(h.name.toLowerCase())
-        )
-        
-        if (!hurricane) continue
-
-        const coordElement = placemark.getElementsByTagName('coordinates')[0]
-        const coordinates = coordElement ? coordElement.textContent : null
-        
-        if (!coordinates) continue
-
-        const coordPairs = coordinates.trim().split('\n').map(line => 
-          line.trim().split(',').slice(0, 2).map(Number)
-        )
-
-        // Update forecast positions with more detailed trajectory
-        hurricane.forecastPositions = coordPairs.map(([lng, lat], index) => ({
-          lat,
-          lng,
-          timestamp: new Date(Date.now() + (index + 1) * 6 * 60 * 60 * 1000).toISOString(),
-          windSpeed: Math.max(0, hurricane.currentPosition.windSpeed - (index * 3)),
-          pressure: hurricane.currentPosition.pressure ? hurricane.currentPosition.pressure + (index * 3) : undefined,
-          category: this.getCategoryFromWindSpeed(Math.max(0, hurricane.currentPosition.windSpeed - (index * 3)))
-        }))
       }
     } catch (error) {
-      console.warn('Forecast track enhancement failed:', error)
+      console.warn('NHC storm products unavailable:', error)
     }
   }
 
+  /**
+   * The same id for a storm on every fetch and from either NHC feed, so
+   * notifications can tell a new storm from one they already announced.
+   * Names are unique within a basin's season; the KML feed prefixes the type.
+   */
+  private stormId(name: string, basin: HurricaneTrack['basin']): string {
+    const bareName = name.replace(/^(?:(?:post-|sub)?tropical\s+(?:storm|depression|cyclone)|potential tropical cyclone|hurricane|typhoon)\s+/i, '')
+    return `${basin}_${bareName}`.toLowerCase().replace(/[^a-z0-9]+/g, '_')
+  }
+
   /**
    * Determine basin from coordinates
    */
@@ -1160,24 +1143,13 @@ export class HurricaneAPIService {
   private isNearFlorida(hurricane: HurricaneTrack): boolean {
     const floridaLat = 27.7663
     const floridaLng = -82.6404
-    const distance = this.calculateDistance(
+    const distance = calculateDistanceMiles(
       floridaLat, floridaLng,
       hurricane.currentPosition.lat, hurricane.currentPosition.lng
     )
     return distance <= 500 // miles
   }
 
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959 // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLng = (lng2 - lng1) * Math.PI / 180
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-    return R * c
-  }
-
   private isActiveStormAdvisory(title: string, description: string): boolean {
     const activeKeywords = [
       'hurricane', 'tropical storm', 'tropical depression', 'typhoon', 'cyclone',
@@ -1238,6 +1210,7 @@ export class HurricaneAPIService {
 
       // Extract wind speed - try multiple patterns
       let windSpeed = 0
+      let windFound = false
       const windPatterns = [
         /(\d+)\s*kt/i,
         /(\d+)\s*knots/i,
@@ -1249,23 +1222,24 @@ export class HurricaneAPIService {
         const match = description.match(pattern)
         if (match) {
           windSpeed = parseInt(match[1])
+          windFound = true
           // Convert knots to mph if needed
           if (description.toLowerCase().includes('kt') || description.toLowerCase().includes('knots')) {
-            windSpeed = windSpeed * 1.15
+            windSpeed = knotsToMph(windSpeed)
           }
           break
         }
       }
 
       // Extract pressure if available
-      let pressure = 1013 // Default
+      let pressure: number | undefined
       const pressureMatch = description.match(/(\d{3,4})\s*MB/i)
       if (pressureMatch) {
         pressure = parseInt(pressureMatch[1])
       }
 
       return {
-        id: `rss_${Date.now()}_${Math.random()}`,
+        id: this.stormId(stormName, this.determineBasinFromCoordinates(lat, lng)),
         name: stormName,
         currentPosition: {
           lat,
@@ -1273,10 +1247,16 @@ export class HurricaneAPIService {
           timestamp: new Date().toISOString(),
           windSpeed,
           pressure,
-          category: this.getCategoryFromWindSpeed(windSpeed)
+          category: this.getCategoryFromWindSpeed(windSpeed),
+          provenance: {
+            position: 'observed',
+            timestamp: 'estimated',
+            windSpeed: windFound ? 'observed' : 'estimated',
+            ...(pressure ? { pressure: 'observed' as const } : {})
+          }
         },
         historicalPositions: [],
-        forecastPositions: this.generateMockForecastPositions(lat, lng),
+        forecastPositions: [],
         status: 'active',
         basin: this.determineBasinFromCoordinates(lat, lng)
       }
@@ -1286,25 +1266,4 @@ export class HurricaneAPIService {
     }
   }
 
-  private generateMockForecastPositions(lat: number, lng: number): HurricanePosition[] {
-    const positions: HurricanePosition[] = []
-    const currentDate = new Date()
-    
-    for (let i = 1; i <= 5; i++) {
-      const forecastDate = new Date(currentDate.getTime() + (i * 24 * 60 * 60 * 1000))
-      const latOffset = (i * 0.5) * (Math.random() > 0.5 ? 1 : -1)
-      const lngOffset = (i * 0.8) * (Math.random() > 0.5 ? 1 : -1)
-      
-      positions.push({
-        lat: lat + latOffset,
-        lng: lng + lngOffset,
-        timestamp: forecastDate.toISOString(),
-        windSpeed: Math.max(0, 100 - (i * 10) + Math.random() * 20),
-        category: this.getCategoryFromWindSpeed(100 - (i * 10))
-      })
-    }
-    
-    return positions
-  }
-
 }
@@ -1,26 +1,5 @@
-export interface HurricanePosition {
-  lat: number
-  lng: number
-  timestamp: string
-  windSpeed: number
-  pressure?: number
-  category?: number
-}
-
-export interface HurricaneTrack {
-  id: string
-  name: string
-  currentPosition: HurricanePosition
-  historicalPositions: HurricanePosition[]
-  forecastPositions: HurricanePosition[]
-  status: 'active' | 'dissipated' | 'post-tropical'
-  basin: 'ATL' | 'EPAC' | 'CPAC' | 'WPAC' | 'IO' | 'SH'
-}
-
-export interface HurricaneResponse {
-  hurricanes: HurricaneTrack[]
-  lastUpdated: string
-}
+import { calculateDistanceMiles } from './geo'
+import type { HurricanePosition, HurricaneResponse, HurricaneTrack } from './types'
 
 export class HurricaneService {
   private static instance: HurricaneService
@@ -48,12 +27,7 @@ export class HurricaneService {
 
     try {
       // Try to fetch from multiple sources
-      const hurricanes = await this.fetchHurricaneData()
-      
-      const response: HurricaneResponse = {
-        hurricanes,
-        lastUpdated: new Date().toISOString()
-      }
+      const response = await this.fetchHurricaneData()
 
       this.cache.set(cacheKey, {
         data: response,
@@ -71,7 +45,7 @@ export class HurricaneService {
   /**
    * Fetch hurricane data from NOAA RSS feeds and other sources
    */
-  private async fetchHurricaneData(): Promise<HurricaneTrack[]> {
+  private async fetchHurricaneData(): Promise<HurricaneResponse> {
     const hurricanes: HurricaneTrack[] = []
 
     try {
@@ -106,16 +80,20 @@ export class HurricaneService {
 
       // If no active storms found, return mock data for demo
       if (hurricanes.length === 0) {
-        return this.getMockHurricaneData().hurricanes
+        return this.getMockHurricaneData()
       }
 
     } catch (error) {
       console.error('Error fetching hurricane data:', error)
       // Return mock data as fallback
-      return this.getMockHurricaneData().hurricanes
+      return this.getMockHurricaneData()
     }
 
-    return hurricanes
+    return {
+      hurricanes,
+      lastUpdated: new Date().toISOString(),
+      source: 'NOAA RSS'
+    }
   }
 
   private isActiveStormAdvisory(title: string, description: string): boolean {
@@ -251,7 +229,8 @@ export class HurricaneService {
 
     return {
       hurricanes: mockHurricanes,
-      lastUpdated: new Date().toISOString()
+      lastUpdated: new Date().toISOString(),
+      source: 'Mock Data'
     }
   }
 
@@ -266,7 +245,7 @@ export class HurricaneService {
     const floridaLng = -82.6404
     
     return response.hurricanes.filter(hurricane => {
-      const distance = this.calculateDistance(
+      const distance = calculateDistanceMiles(
         floridaLat, floridaLng,
         hurricane.currentPosition.lat, hurricane.currentPosition.lng
       )
@@ -274,17 +253,6 @@ export class HurricaneService {
     })
   }
 
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959 // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLng = (lng2 - lng1) * Math.PI / 180
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng/2) * Math.sin(dLng/2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a))
-    return R * c
-  }
-
   /**
    * Get category color for hurricane markers
    */
@@ -0,0 +1,32 @@
+// Small JSON file caches under data/cache (same layout as open-status.json).
+// Writes are best-effort: a read-only filesystem must never fail a request.
+
+import fs from 'fs';
+import path from 'path';
+
+export const CACHE_DIR = process.env.JSON_CACHE_DIR || path.join(process.cwd(), 'data', 'cache');
+
+export function getCachePath(fileName: string): string {
+  return path.join(CACHE_DIR, fileName);
+}
+
+export function readJsonCache<T>(fileName: string, fallback: T): T {
+  const cachePath = getCachePath(fileName);
+  if (!fs.existsSync(cachePath)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(cachePath, 'utf8'));
+  } catch (_) {
+    return fallback;
+  }
+}
+
+export function writeJsonCache(fileName: string, data: unknown): boolean {
+  try {
+    if (!fs.existsSync(CACHE_DIR)) fs.mkdirSync(CACHE_DIR, { recursive: true });
+    fs.writeFileSync(getCachePath(fileName), JSON.stringify(data, null, 2), 'utf8');
+    return true;
+  } catch (e) {
+    console.warn(`Failed to write ${fileName} cache`, e);
+    return false;
+  }
+}
@@ -0,0 +1,43 @@
+// Local JSON-file storage: the in-memory store, persisted to data/local-store.json
+// after every change so submissions survive restarts during offline development.
+// The file is re-read before each operation because every API route may hold
+// its own instance.
+
+import fs from 'fs';
+import path from 'path';
+import { MemoryStorage } from './memory-storage';
+import type { ApprovedResource, PendingResource, StorageKind, UserProfile } from './resource-repository';
+
+export const LOCAL_STORE_PATH = process.env.RESOURCE_STORAGE_PATH || path.join(process.cwd(), 'data', 'local-store.json');
+
+interface LocalStoreFile {
+  pendingResources: PendingResource[];
+  resources: ApprovedResource[];
+  users?: UserProfile[];
+}
+
+export class JsonFileStorage extends MemoryStorage {
+  readonly kind: StorageKind = 'json';
+
+  constructor(private readonly filePath: string = LOCAL_STORE_PATH) {
+    super();
+  }
+
+  protected refresh(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    try {
+      const data: LocalStoreFile = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      this.pendingResources = data.pendingResources || [];
+      this.approvedResources = data.resources || [];
+      this.users = data.users || [];
+    } catch (error) {
+      console.warn('Failed to read local store, starting empty:', error);
+    }
+  }
+
+  protected persist(): void {
+    const data: LocalStoreFile = { pendingResources: this.pendingResources, resources: this.approvedResources, users: this.users };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2), 'utf8');
+  }
+}
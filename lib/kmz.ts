@@ -0,0 +1,76 @@
+// KMZ files are zip archives holding a KML document (doc.kml by convention)
+// and the images it refers to. NHC publishes its storm GIS products this way.
+// Only reading is needed, so this walks the zip central directory and inflates
+// with node:zlib instead of pulling in an archive library. Zip64 archives,
+// which KMZ files never need, are not supported.
+
+import { inflateRawSync } from 'zlib';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_RECORD_SIZE = 22;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+export function isZip(data: Buffer): boolean {
+  return data.length >= 4 && data.readUInt32LE(0) === LOCAL_HEADER;
+}
+
+/**
+ * The KML document inside a KMZ archive; null when it holds none
+ */
+export function readKmz(data: Buffer): string | null {
+  const entries = zipEntries(data);
+  const kml = entries.find(entry => entry.name === 'doc.kml') ?? entries.find(entry => entry.name.toLowerCase().endsWith('.kml'));
+  return kml ? extract(data, kml).toString('utf8') : null;
+}
+
+function zipEntries(data: Buffer): ZipEntry[] {
+  // The end record follows the central directory, possibly with a comment of up to 64 KiB after it
+  let end = -1;
+  for (let offset = data.length - END_RECORD_SIZE; offset >= Math.max(0, data.length - END_RECORD_SIZE - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const entries: ZipEntry[] = [];
+  let offset = data.readUInt32LE(end + 16);
+  for (let count = data.readUInt16LE(end + 10); count > 0; count--) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_HEADER) throw new Error('Corrupt zip central directory');
+    const nameLength = data.readUInt16LE(offset + 28);
+    entries.push({
+      name: data.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      localOffset: data.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + data.readUInt16LE(offset + 30) + data.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+function extract(data: Buffer, entry: ZipEntry): Buffer {
+  const header = entry.localOffset;
+  if (data.readUInt32LE(header) !== LOCAL_HEADER) throw new Error(`Corrupt zip entry ${entry.name}`);
+
+  // The local header repeats the name and may carry a different extra field
+  const start = header + 30 + data.readUInt16LE(header + 26) + data.readUInt16LE(header + 28);
+  const stored = data.subarray(start, start + entry.compressedSize);
+  switch (entry.method) {
+    case 0:
+      return stored;
+    case 8:
+      return inflateRawSync(stored);
+    default:
+      throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+  }
+}
@@ -1,4 +1,6 @@
-import { HurricaneService, HurricaneTrack, HurricanePosition } from './hurricane-service'
+import { calculateDistanceMiles } from './geo'
+import { HurricaneService } from './hurricane-service'
+import type { HurricanePosition, HurricaneTrack } from './types'
 
 export interface LiveHurricanePosition extends HurricanePosition {
   interpolated?: boolean
@@ -294,25 +296,11 @@ export class LiveHurricaneService {
    * Calculate speed between two points
    */
   private calculateSpeed(from: HurricanePosition, to: HurricanePosition): number {
-    const distance = this.calculateDistance(from.lat, from.lng, to.lat, to.lng)
+    const distance = calculateDistanceMiles(from.lat, from.lng, to.lat, to.lng)
     const timeHours = this.API_UPDATE_INTERVAL / (1000 * 60 * 60) // Convert to hours
     return distance / timeHours // mph
   }
 
-  /**
-   * Calculate distance between two coordinates in miles
-   */
-  private calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-    const R = 3959 // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180
-    const dLng = (lng2 - lng1) * Math.PI / 180
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLng / 2) * Math.sin(dLng / 2)
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-    return R * c
-  }
-
   /**
    * Notify all subscribers of data changes
    */
@@ -1,58 +1,101 @@
 // In-memory storage fallback when Firebase is not configured
 // This data will be lost when the server restarts
 
-interface PendingResource {
-  id: string;
-  name: string;
-  type: "shelter" | "food_bank" | "clinic";
-  address: string;
-  lat: number;
-  lng: number;
-  notes: string;
-  source: string;
-  submittedBy: string;
-  submittedAt: string;
-  aiReview: {
-    status: string;
-    notes: string;
-  };
-}
+import type {
+  ApprovedResource,
+  NewPendingResource,
+  PendingResource,
+  ResourceRepository,
+  StorageKind,
+  UserProfile,
+} from './resource-repository';
+import type { ModerationEvent } from './moderation';
 
-interface ApprovedResource extends PendingResource {
-  approvedAt: string;
-}
+export class MemoryStorage implements ResourceRepository {
+  readonly kind: StorageKind = 'memory';
 
-class MemoryStorage {
-  private pendingResources: PendingResource[] = [];
-  private approvedResources: ApprovedResource[] = [];
+  protected pendingResources: PendingResource[] = [];
+  protected approvedResources: ApprovedResource[] = [];
+  protected users: UserProfile[] = [];
 
-  addPendingResource(data: Omit<PendingResource, 'id'>): string {
-    const id = `memory_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async addPending(data: NewPendingResource): Promise<string> {
+    this.refresh();
+    const id = `${this.kind}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const resource: PendingResource = { id, ...data };
     this.pendingResources.push(resource);
-    console.log('Added to memory storage:', id);
+    this.persist();
+    console.log(`Added to ${this.kind} storage:`, id);
     return id;
   }
 
-  getAllPendingResources(): PendingResource[] {
-    return [...this.pendingResources];
+  async getPending(id: string): Promise<PendingResource | null> {
+    this.refresh();
+    return this.pendingResources.find(r => r.id === id) || null;
+  }
+
+  async listPending(): Promise<PendingResource[]> {
+    this.refresh();
+    return [...this.pendingResources].sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  async updatePending(id: string, updates: Partial<NewPendingResource>, event?: ModerationEvent): Promise<PendingResource | null> {
+    this.refresh();
+    const index = this.pendingResources.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    const current = this.pendingResources[index];
+    const updated: PendingResource = {
+      ...current,
+      ...updates,
+      moderationHistory: event ? [...(current.moderationHistory || []), event] : current.moderationHistory,
+    };
+    this.pendingResources[index] = updated;
+    this.persist();
+    return updated;
   }
 
-  approveResource(id: string): boolean {
+  async approvePending(id: string, event: ModerationEvent): Promise<ApprovedResource | null> {
+    this.refresh();
     const index = this.pendingResources.findIndex(r => r.id === id);
-    if (index === -1) return false;
+    if (index === -1) return null;
 
     const resource = this.pendingResources[index];
     this.pendingResources.splice(index, 1);
-    
+
     const approvedResource: ApprovedResource = {
       ...resource,
-      approvedAt: new Date().toISOString()
+      status: 'approved',
+      approvedAt: event.at,
+      moderationHistory: [...(resource.moderationHistory || []), event],
     };
-    
+
     this.approvedResources.push(approvedResource);
+    this.persist();
     console.log('Approved and moved to approved resources:', id);
-    return true;
+    return approvedResource;
+  }
+
+  async listResources(): Promise<ApprovedResource[]> {
+    this.refresh();
+    return [...this.approvedResources].sort((a, b) => b.approvedAt.localeCompare(a.approvedAt));
+  }
+
+  async listBySubmitter(submitterId: string): Promise<PendingResource[]> {
+    this.refresh();
+    return [...this.pendingResources, ...this.approvedResources]
+      .filter(r => r.submitterId === submitterId)
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+  }
+
+  async getUser(id: string): Promise<UserProfile | null> {
+    this.refresh();
+    return this.users.find(u => u.id === id) || null;
+  }
+
+  async saveUser(profile: UserProfile): Promise<void> {
+    this.refresh();
+    this.users = [...this.users.filter(u => u.id !== profile.id), profile];
+    this.persist();
   }
 
   getStats() {
@@ -62,7 +105,12 @@ class MemoryStorage {
       total: this.pendingResources.length + this.approvedResources.length
     };
   }
+
+  // Hooks for subclasses that keep a durable copy
+  protected refresh(): void {}
+  protected persist(): void {}
 }
 
-// Singleton instance
-export const memoryStorage = new MemoryStorage();
+// Singleton instance; kept on globalThis so dev-server reloads don't wipe it
+const globalStore = globalThis as unknown as { __memoryStorage?: MemoryStorage };
+export const memoryStorage = globalStore.__memoryStorage || (globalStore.__memoryStorage = new MemoryStorage());
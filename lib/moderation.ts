@@ -0,0 +1,48 @@
+// Moderation workflow for community submissions in `pendingResources`.
+//
+// Every decision (edit, request for more info, rejection, approval) is appended
+// to the document's `moderationHistory`, which is carried over to `resources`
+// on approval so the record keeps its audit trail.
+
+import { getResourceRepository } from './resource-repository';
+import type { MODERATION_STATUSES } from './schemas';
+
+export type ModerationStatus = typeof MODERATION_STATUSES[number];
+
+export type ModerationAction = 'submitted' | 'edited' | 'resubmitted' | 'requested_info' | 'rejected' | 'approved';
+
+export interface ModerationEvent {
+  action: ModerationAction;
+  at: string;
+  by: string;
+  reason?: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+}
+
+export function createModerationEvent(action: ModerationAction, by: string, extra: Partial<ModerationEvent> = {}): ModerationEvent {
+  return { action, at: new Date().toISOString(), by, ...extra };
+}
+
+// Documents submitted before the workflow existed have no status
+export function getModerationStatus(data: any): ModerationStatus {
+  return data?.status || 'pending';
+}
+
+export function diffFields(before: Record<string, any>, updates: Record<string, any>): ModerationEvent['changes'] {
+  const changes: NonNullable<ModerationEvent['changes']> = {};
+  for (const [field, to] of Object.entries(updates)) {
+    if (before[field] !== to) changes[field] = { from: before[field] ?? null, to };
+  }
+  return changes;
+}
+
+/**
+ * Move a pending submission to a terminal or waiting state and record why
+ */
+export async function setPendingStatus(id: string, status: 'needs_info' | 'rejected', event: ModerationEvent) {
+  const updates = status === 'rejected'
+    ? { status, updatedAt: event.at, rejectedAt: event.at, rejectionReason: event.reason }
+    : { status, updatedAt: event.at, infoRequest: event.reason };
+
+  return getResourceRepository().updatePending(id, updates, event);
+}
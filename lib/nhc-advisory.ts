@@ -0,0 +1,121 @@
+// NHC forecast/advisory (TCM) text: the storm's analysed center and intensity
+// and NHC's official forecast, each point with its real valid time. The
+// product is fixed-format text, e.g.
+//
+//   HURRICANE CENTER LOCATED NEAR 28.9N  76.9W AT 30/1500Z
+//   ESTIMATED MINIMUM CENTRAL PRESSURE  975 MB
+//   MAX SUSTAINED WINDS  75 KT WITH GUSTS TO  90 KT.
+//   FORECAST VALID 01/0000Z 29.8N  75.0W
+//   MAX WIND  80 KT...GUSTS 100 KT.
+//
+// Times are day/hour UTC; the month and year come from the issuance line.
+// NHC doesn't forecast central pressure, so forecast points carry none.
+
+import type { HurricanePosition } from './types';
+
+export interface ForecastAdvisory {
+  issuedAt: string;
+  current: HurricanePosition;
+  forecast: HurricanePosition[];
+}
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// NHC's abbreviations for the local times in its public products
+const UTC_OFFSETS: Record<string, number> = {
+  UTC: 0, GMT: 0, AST: -4, EDT: -4, EST: -5, CDT: -5, CST: -6, MDT: -6, MST: -7, PDT: -7, PST: -8, HST: -10,
+};
+
+const COORDINATES = String.raw`(\d+(?:\.\d+)?)([NS])\s+(\d+(?:\.\d+)?)([EW])`;
+const ISSUED_PATTERN = /^\s*(\d{3,4}) UTC [A-Z]{3} ([A-Z]{3}) (\d{1,2}) (\d{4})\s*$/m;
+const CENTER_PATTERN = new RegExp(String.raw`CENTER LOCATED NEAR\s+${COORDINATES}\s+AT\s+(\d{2})/(\d{4})Z`);
+const PRESSURE_PATTERN = /MINIMUM CENTRAL PRESSURE\s+(\d{3,4})\s*MB/;
+const MAX_WINDS_PATTERN = /MAX SUSTAINED WINDS\s+(\d+)\s*KT(?:\s+WITH GUSTS TO\s+(\d+)\s*KT)?/;
+const FORECAST_PATTERN = new RegExp(String.raw`(?:FORECAST|OUTLOOK) VALID\s+(\d{2})/(\d{4})Z\s+${COORDINATES}[^\n]*\n\s*MAX WIND\s+(\d+)\s*KT\.*\s*GUSTS\s+(\d+)\s*KT`, 'g');
+
+/**
+ * NHC converts knots to mph rounded to the nearest 5 mph, so this matches the public advisory
+ */
+export function knotsToMph(knots: number): number {
+  return Math.round((knots * 1.15078) / 5) * 5;
+}
+
+/**
+ * The current position and forecast from a TCM; null when the text isn't one
+ */
+export function parseForecastAdvisory(text: string): ForecastAdvisory | null {
+  const product = text.toUpperCase().replace(/\r/g, '');
+  const issued = ISSUED_PATTERN.exec(product);
+  const center = CENTER_PATTERN.exec(product);
+  const winds = MAX_WINDS_PATTERN.exec(product);
+  if (!issued || !center || !winds) return null;
+
+  const month = MONTHS.indexOf(issued[2]);
+  if (month < 0) return null;
+  const issuedAt = Date.UTC(Number(issued[4]), month, Number(issued[3]), Math.floor(Number(issued[1]) / 100), Number(issued[1]) % 100);
+  const validTime = (day: string, time: string) => resolveDayTime(issuedAt, Number(day), Number(time)).toISOString();
+
+  const pressure = PRESSURE_PATTERN.exec(product);
+  const current: HurricanePosition = {
+    ...position(center[1], center[2], center[3], center[4]),
+    timestamp: validTime(center[5], center[6]),
+    windSpeed: knotsToMph(Number(winds[1])),
+    ...(winds[2] ? { windGust: knotsToMph(Number(winds[2])) } : {}),
+    ...(pressure ? { pressure: Number(pressure[1]) } : {}),
+    provenance: {
+      position: 'observed',
+      timestamp: 'observed',
+      windSpeed: 'observed',
+      ...(pressure ? { pressure: 'observed' as const } : {}),
+    },
+  };
+
+  const forecast: HurricanePosition[] = [];
+  for (const match of product.matchAll(FORECAST_PATTERN)) {
+    const [, day, time, lat, latHemisphere, lng, lngHemisphere, wind, gust] = match;
+    forecast.push({
+      ...position(lat, latHemisphere, lng, lngHemisphere),
+      timestamp: validTime(day, time),
+      windSpeed: knotsToMph(Number(wind)),
+      windGust: knotsToMph(Number(gust)),
+      provenance: { position: 'forecast', timestamp: 'forecast', windSpeed: 'forecast' },
+    });
+  }
+
+  return { issuedAt: new Date(issuedAt).toISOString(), current, forecast };
+}
+
+/**
+ * A time in an NHC public product such as "11:00 AM EDT Tue Sep 30", which
+ * leaves out the year; taken as the most recent such date up to a day ahead
+ */
+export function parseNhcLocalTime(text: string, now = Date.now()): string | null {
+  const match = /(\d{1,2})(?::(\d{2}))?\s*(AM|PM)\s+([A-Z]{3})\s+\w{3}\s+([A-Z]{3})\s+(\d{1,2})/i.exec(text);
+  if (!match) return null;
+
+  const [, hour, minute = '0', meridiem, zone, monthName, day] = match;
+  const month = MONTHS.indexOf(monthName.toUpperCase());
+  const offset = UTC_OFFSETS[zone.toUpperCase()];
+  if (month < 0 || offset === undefined) return null;
+
+  const hours = (Number(hour) % 12) + (meridiem.toUpperCase() === 'PM' ? 12 : 0) - offset;
+  const at = (year: number) => Date.UTC(year, month, Number(day), hours, Number(minute));
+  const year = new Date(now).getUTCFullYear();
+  const time = at(year) > now + 24 * 60 * 60 * 1000 ? at(year - 1) : at(year);
+  return new Date(time).toISOString();
+}
+
+function position(lat: string, latHemisphere: string, lng: string, lngHemisphere: string): Pick<HurricanePosition, 'lat' | 'lng'> {
+  return {
+    lat: Number(lat) * (latHemisphere === 'S' ? -1 : 1),
+    lng: Number(lng) * (lngHemisphere === 'W' ? -1 : 1),
+  };
+}
+
+// A day of the month and HHMM UTC, in the month of `reference` or the next one
+// when the day has already passed (a forecast issued on the 30th runs into October)
+function resolveDayTime(reference: number, day: number, time: number): Date {
+  const base = new Date(reference);
+  const candidate = new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth(), day, Math.floor(time / 100), time % 100));
+  if (candidate.getTime() < reference - 15 * 24 * 60 * 60 * 1000) candidate.setUTCMonth(candidate.getUTCMonth() + 1);
+  return candidate;
+}
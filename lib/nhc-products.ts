@@ -0,0 +1,237 @@
+// NHC GIS products for the storms NHC is issuing advisories on: the forecast
+// cone, coastal watches and warnings, and how far 34, 50 and 64 kt winds reach
+// now and along the forecast. CurrentStorms.json lists each storm's latest
+// products; each is a KMZ (zipped KML, lib/kmz.ts) named after its advisory,
+// so a file once fetched never changes and parsed products are kept in memory.
+//
+// The cone is where the center will probably be, not the extent of the
+// storm's impacts, which the wind field shows.
+//
+// The forecast/advisory text (lib/nhc-advisory.ts) gives the track itself:
+// forecast positions with their valid times and intensities.
+
+import { DOMParser } from 'xmldom';
+import { isZip, readKmz } from './kmz';
+import { parseForecastAdvisory } from './nhc-advisory';
+import type { ForecastAdvisory } from './nhc-advisory';
+import { WATCH_WARNING_TYPES } from './types';
+import type { AlertGeometry, StormProducts, StormWatchWarning, WatchWarningType, WindRadii } from './types';
+
+export const CURRENT_STORMS_URL = 'https://www.nhc.noaa.gov/CurrentStorms.json';
+
+export interface NhcStormProducts {
+  // ATCF id, e.g. "al092025"
+  atcfId: string;
+  name: string;
+  products: StormProducts;
+  forecastAdvisory?: ForecastAdvisory;
+}
+
+// The parts of a CurrentStorms.json product entry that are used here
+interface ProductLink {
+  advNum?: string;
+  issuance?: string;
+  kmzFile?: string;
+  url?: string;
+}
+
+const NHC_HEADERS = { 'User-Agent': 'GoogleStorm/1.0 (Emergency Resource Finder)' };
+const WIND_THRESHOLDS = [34, 50, 64] as const;
+// Enough for every product of every storm across the basins NHC covers
+const MAX_CACHED_PRODUCTS = 64;
+
+const productCache = new Map<string, unknown>();
+
+/**
+ * The latest products of every storm in CurrentStorms.json. Products that
+ * can't be fetched are left out; the storm keeps the rest.
+ */
+export async function fetchStormProducts(): Promise<NhcStormProducts[]> {
+  const response = await fetch(CURRENT_STORMS_URL, { headers: NHC_HEADERS });
+  if (!response.ok) throw new Error(`NHC CurrentStorms failed: ${response.status}`);
+
+  const { activeStorms } = await response.json();
+  if (!Array.isArray(activeStorms)) return [];
+
+  const storms: NhcStormProducts[] = [];
+  for (const storm of activeStorms) {
+    if (typeof storm?.id !== 'string' || typeof storm.name !== 'string') continue;
+
+    const cone: ProductLink = storm.trackCone ?? {};
+    const [coneGeometry, watchesWarnings, windField, forecastWindField, forecastAdvisory] = await Promise.all([
+      fetchProduct(cone.kmzFile, parseCone),
+      fetchProduct(storm.windWatchesWarnings?.kmzFile, parseWatchesWarnings),
+      fetchProduct(storm.initialWindExtent?.kmzFile, parseWindRadii),
+      fetchProduct(storm.forecastWindRadiiGIS?.kmzFile, parseWindRadii),
+      fetchForecastAdvisory(storm.forecastAdvisory ?? {}),
+    ]);
+
+    const advisory = cone.advNum ?? storm.publicAdvisory?.advNum;
+    if (!advisory) continue;
+    const issuedAt = Date.parse(cone.issuance ?? storm.publicAdvisory?.issuance ?? '');
+
+    storms.push({
+      atcfId: storm.id.toLowerCase(),
+      name: storm.name,
+      products: {
+        advisory: String(advisory),
+        ...(Number.isNaN(issuedAt) ? {} : { issuedAt: new Date(issuedAt).toISOString() }),
+        ...(coneGeometry ? { cone: coneGeometry } : {}),
+        watchesWarnings: watchesWarnings ?? [],
+        windField: (windField ?? []).map(({ validTime, ...radii }) => radii),
+        forecastWindField: forecastWindField ?? [],
+      },
+      ...(forecastAdvisory ? { forecastAdvisory } : {}),
+    });
+  }
+  return storms;
+}
+
+async function fetchProduct<T>(url: unknown, parse: (kml: Document) => T): Promise<T | undefined> {
+  if (typeof url !== 'string' || !url.startsWith('https://www.nhc.noaa.gov/')) return undefined;
+  if (productCache.has(url)) return productCache.get(url) as T;
+
+  try {
+    const response = await fetch(url, { headers: NHC_HEADERS });
+    if (!response.ok) throw new Error(`status ${response.status}`);
+
+    // Served as KMZ, though a plain KML document reads the same
+    const data = Buffer.from(await response.arrayBuffer());
+    const kml = isZip(data) ? readKmz(data) : data.toString('utf8');
+    if (!kml) throw new Error('no KML document in the archive');
+
+    const parsed = parse(new DOMParser().parseFromString(kml, 'text/xml'));
+    if (productCache.size >= MAX_CACHED_PRODUCTS) productCache.clear();
+    productCache.set(url, parsed);
+    return parsed;
+  } catch (error) {
+    console.warn(`NHC product ${url} unavailable:`, error);
+    return undefined;
+  }
+}
+
+// The TCM keeps its URL from one advisory to the next, so it is cached by advisory number
+async function fetchForecastAdvisory({ url, advNum }: ProductLink): Promise<ForecastAdvisory | undefined> {
+  if (typeof url !== 'string' || !url.startsWith('https://www.nhc.noaa.gov/') || !advNum) return undefined;
+  const key = `${url}#${advNum}`;
+  if (productCache.has(key)) return productCache.get(key) as ForecastAdvisory;
+
+  try {
+    const response = await fetch(url, { headers: NHC_HEADERS });
+    if (!response.ok) throw new Error(`status ${response.status}`);
+
+    // Served as an HTML page with the product in a <pre>
+    const page = await response.text();
+    const text = (/<pre[^>]*>([\s\S]*?)<\/pre>/i.exec(page)?.[1] ?? page).replace(/<[^>]+>/g, '').replace(/&amp;/g, '&');
+    const advisory = parseForecastAdvisory(text);
+    if (!advisory) throw new Error('not a forecast/advisory');
+
+    if (productCache.size >= MAX_CACHED_PRODUCTS) productCache.clear();
+    productCache.set(key, advisory);
+    return advisory;
+  } catch (error) {
+    console.warn(`NHC forecast/advisory ${url} unavailable:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Every polygon of the cone document, as one geometry
+ */
+export function parseCone(kml: Document): AlertGeometry | undefined {
+  const polygons = placemarks(kml).flatMap(placemark => placemarkPolygons(placemark));
+  if (polygons.length === 0) return undefined;
+  return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Coastline segments by watch or warning type, one entry per type in effect
+ */
+export function parseWatchesWarnings(kml: Document): StormWatchWarning[] {
+  const coastline = new Map<WatchWarningType, number[][][]>();
+  for (const placemark of placemarks(kml)) {
+    const type = watchWarningType(placemark);
+    if (!type) continue;
+    const lines = elements(placemark, 'LineString').map(line => parseCoordinates(childText(line, 'coordinates')))
+      .filter(line => line.length >= 2);
+    coastline.set(type, [...(coastline.get(type) ?? []), ...lines]);
+  }
+  return WATCH_WARNING_TYPES.filter(type => coastline.get(type)?.length).map(type => ({ type, coastline: coastline.get(type)! }));
+}
+
+/**
+ * Wind radii polygons, one per threshold and valid time
+ */
+export function parseWindRadii(kml: Document): WindRadii[] {
+  const radii: WindRadii[] = [];
+  for (const placemark of placemarks(kml)) {
+    const data = extendedData(placemark);
+    const label = data.RADII ?? childText(placemark, 'name');
+    const threshold = WIND_THRESHOLDS.find(kt => new RegExp(`^${kt}$|\\b${kt}\\s*(?:kt|knot)`, 'i').test(label.trim()));
+    const polygons = placemarkPolygons(placemark);
+    if (!threshold || polygons.length === 0) continue;
+
+    const validTime = Date.parse(childText(placemark, 'when') || childText(placemark, 'begin'));
+    radii.push({
+      thresholdKt: threshold,
+      ...(Number.isNaN(validTime) ? {} : { validTime: new Date(validTime).toISOString() }),
+      geometry: polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons },
+    });
+  }
+  return radii;
+}
+
+function watchWarningType(placemark: Element): WatchWarningType | undefined {
+  const text = [childText(placemark, 'name'), childText(placemark, 'styleUrl'), extendedData(placemark).TCWW ?? '']
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, '');
+  // NHC's own codes: HWR, HWA, TWR, TWA
+  if (/hurricanewarning|hwr/.test(text)) return 'hurricane_warning';
+  if (/hurricanewatch|hwa/.test(text)) return 'hurricane_watch';
+  if (/tropicalstormwarning|twr/.test(text)) return 'tropical_storm_warning';
+  if (/tropicalstormwatch|twa/.test(text)) return 'tropical_storm_watch';
+  return undefined;
+}
+
+function placemarks(kml: Document): Element[] {
+  return Array.from(kml.getElementsByTagName('Placemark'));
+}
+
+function elements(parent: Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagName(tag));
+}
+
+function childText(parent: Element, tag: string): string {
+  return parent.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+}
+
+// <ExtendedData> as name → value, upper-cased names; covers both <Data> and <SimpleData>
+function extendedData(placemark: Element): Record<string, string> {
+  const data: Record<string, string> = {};
+  for (const item of elements(placemark, 'Data')) {
+    data[(item.getAttribute('name') ?? '').toUpperCase()] = childText(item, 'value');
+  }
+  for (const item of elements(placemark, 'SimpleData')) {
+    data[(item.getAttribute('name') ?? '').toUpperCase()] = item.textContent?.trim() ?? '';
+  }
+  return data;
+}
+
+// Each <Polygon>, including those in a <MultiGeometry>, as GeoJSON rings
+function placemarkPolygons(placemark: Element): number[][][][] {
+  return elements(placemark, 'Polygon').flatMap(polygon => {
+    const ring = (boundary: Element) => parseCoordinates(childText(boundary, 'coordinates'));
+    const outer = elements(polygon, 'outerBoundaryIs').map(ring).find(points => points.length >= 3);
+    if (!outer) return [];
+    const holes = elements(polygon, 'innerBoundaryIs').map(ring).filter(points => points.length >= 3);
+    return [[outer, ...holes]];
+  });
+}
+
+// KML tuples are "lng,lat[,alt]" separated by any whitespace
+function parseCoordinates(text: string): number[][] {
+  return text.split(/\s+/)
+    .map(tuple => tuple.split(',').slice(0, 2).map(Number))
+    .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180);
+}
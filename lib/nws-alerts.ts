@@ -0,0 +1,265 @@
+// National Weather Service alerts for a point, shared by /api/weather/alerts
+// and /api/weather/current. Falls back to seasonal mock alerts when NWS is
+// unreachable or reports no alerts.
+//
+// NWS answers with every message of each alert's chain, updates and
+// cancellations included; lib/alert-lineage.ts folds them into one alert per
+// event.
+//
+// Alerts keep the polygon NWS drew for them. Most alerts other than storm-based
+// warnings come without one and name the forecast zones they cover instead;
+// those zone outlines are fetched once and cached in data/cache/nws-zones.json.
+
+import { resolveAlertLineage } from './alert-lineage';
+import type { AlertMessage, AlertReference } from './alert-lineage';
+import { readJsonCache, writeJsonCache } from './json-cache';
+import { alertGeometrySchema } from './types';
+import type { AlertGeometry, WeatherAlert } from './types';
+
+interface ZoneCacheEntry {
+  // null when NWS has no usable outline for the zone
+  geometry: AlertGeometry | null;
+  cachedAt: string;
+}
+
+const NWS_HEADERS = { 'User-Agent': 'GoogleStorm/1.0 (Emergency Resource Finder)' };
+const ZONE_CACHE_FILE = 'nws-zones.json';
+// Zone boundaries change a few times a year
+const ZONE_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Alerts spanning more zones than this go without geometry and are matched by
+// the point they were fetched for
+const MAX_ALERT_ZONES = 24;
+
+export async function fetchWeatherAlerts(lat: number, lng: number): Promise<WeatherAlert[]> {
+  try {
+    // Fetch alerts from National Weather Service API
+    const alertsUrl = `https://api.weather.gov/alerts?point=${lat},${lng}`;
+    const alertsResponse = await fetch(alertsUrl, { headers: NWS_HEADERS });
+
+    if (!alertsResponse.ok) {
+      console.warn('NWS Alerts API failed, using mock data');
+      return getMockAlerts();
+    }
+
+    const alertsData = await alertsResponse.json();
+    const messages: AlertMessage[] = [];
+    const affectedZones = new Map<string, string[]>();
+
+    if (alertsData.features) {
+      for (const feature of alertsData.features) {
+        const properties = feature.properties;
+        if (properties) {
+          const now = new Date();
+          const startTime = new Date(properties.effective);
+          const endTime = new Date(properties.expires);
+          const isActive = now >= startTime && now <= endTime;
+
+          const alert: WeatherAlert = {
+            id: properties.id,
+            title: properties.headline || properties.event || 'Weather Alert',
+            description: properties.description || '',
+            severity: mapSeverity(properties.severity),
+            type: mapAlertType(properties.event),
+            startTime: properties.effective || new Date().toISOString(),
+            endTime: properties.expires || new Date(Date.now() + 3600000).toISOString(),
+            source: 'National Weather Service',
+            areas: properties.areaDesc ? properties.areaDesc.split(';') : [],
+            isActive,
+            messageType: mapMessageType(properties.messageType),
+          };
+
+          const geometry = alertGeometrySchema.safeParse(feature.geometry);
+          if (geometry.success) alert.geometry = geometry.data;
+          else if (Array.isArray(properties.affectedZones)) affectedZones.set(alert.id, properties.affectedZones);
+
+          messages.push({
+            alert,
+            sent: properties.sent || alert.startTime,
+            references: mapReferences(properties.references),
+            vtec: stringList(properties.parameters?.VTEC),
+            zones: stringList(properties.geocode?.UGC),
+          });
+        }
+      }
+    }
+
+    const alerts = resolveAlertLineage(messages);
+    await attachZoneGeometry(new Map(alerts.flatMap(alert =>
+      !alert.geometry && affectedZones.has(alert.id) ? [[alert, affectedZones.get(alert.id)!] as const] : []
+    )));
+
+    return alerts.length > 0 ? alerts : getMockAlerts();
+  } catch (error) {
+    console.error('Error fetching weather alerts:', error);
+    return getMockAlerts();
+  }
+}
+
+/**
+ * Give alerts without a polygon the combined outline of their zones. An alert
+ * keeps no geometry unless every one of its zones resolves, since a partial
+ * outline would miss places the alert covers.
+ */
+async function attachZoneGeometry(alertZones: Map<WeatherAlert, string[]>): Promise<void> {
+  const wanted = [...alertZones].filter(([, zones]) =>
+    zones.length > 0 && zones.length <= MAX_ALERT_ZONES && zones.every(isZoneUrl)
+  );
+  if (wanted.length === 0) return;
+
+  const cache = readJsonCache<Record<string, ZoneCacheEntry>>(ZONE_CACHE_FILE, {});
+  const now = Date.now();
+  const stale = [...new Set(wanted.flatMap(([, zones]) => zones))].filter(zone =>
+    !cache[zone] || now - Date.parse(cache[zone].cachedAt) > ZONE_CACHE_TTL_MS
+  );
+
+  const fetched = await Promise.all(stale.map(async zone => [zone, await fetchZoneGeometry(zone)] as const));
+  let cacheChanged = false;
+  for (const [zone, geometry] of fetched) {
+    // Failed lookups are not cached so the next request tries again
+    if (geometry === undefined) continue;
+    cache[zone] = { geometry, cachedAt: new Date(now).toISOString() };
+    cacheChanged = true;
+  }
+  if (cacheChanged) writeJsonCache(ZONE_CACHE_FILE, cache);
+
+  for (const [alert, zones] of wanted) {
+    const outlines = zones.map(zone => cache[zone]?.geometry);
+    if (outlines.every((geometry): geometry is AlertGeometry => !!geometry)) {
+      alert.geometry = mergeGeometry(outlines);
+    }
+  }
+}
+
+function isZoneUrl(zone: unknown): zone is string {
+  return typeof zone === 'string' && zone.startsWith('https://api.weather.gov/zones/');
+}
+
+/**
+ * A zone's outline; null when NWS has none, undefined when the lookup failed
+ */
+async function fetchZoneGeometry(zone: string): Promise<AlertGeometry | null | undefined> {
+  try {
+    const response = await fetch(zone, { headers: NWS_HEADERS });
+    if (!response.ok) {
+      console.warn(`NWS zone ${zone} failed (${response.status})`);
+      return undefined;
+    }
+    const geometry = alertGeometrySchema.safeParse((await response.json()).geometry);
+    return geometry.success ? geometry.data : null;
+  } catch (error) {
+    console.warn(`NWS zone ${zone} failed:`, error);
+    return undefined;
+  }
+}
+
+function mergeGeometry(geometries: AlertGeometry[]): AlertGeometry {
+  if (geometries.length === 1) return geometries[0];
+  return {
+    type: 'MultiPolygon',
+    coordinates: geometries.flatMap(geometry => (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)),
+  };
+}
+
+/**
+ * Whether an alert is one of the stand-ins from getMockAlerts rather than a real NWS alert
+ */
+export function isMockAlert(alert: WeatherAlert): boolean {
+  return alert.id.startsWith('mock-');
+}
+
+function mapSeverity(nwsSeverity: string): WeatherAlert['severity'] {
+  switch (nwsSeverity?.toLowerCase()) {
+    case 'minor': return 'minor';
+    case 'moderate': return 'moderate';
+    case 'severe': return 'severe';
+    case 'extreme': return 'extreme';
+    default: return 'moderate';
+  }
+}
+
+function mapMessageType(messageType: string): WeatherAlert['messageType'] {
+  switch (messageType?.toLowerCase()) {
+    case 'update': return 'update';
+    case 'cancel': return 'cancel';
+    default: return 'alert';
+  }
+}
+
+function mapReferences(references: unknown): AlertReference[] {
+  if (!Array.isArray(references)) return [];
+  return references
+    .filter(reference => typeof reference?.identifier === 'string')
+    .map(reference => ({ identifier: reference.identifier, sent: typeof reference.sent === 'string' ? reference.sent : '' }));
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function mapAlertType(event: string): WeatherAlert['type'] {
+  const eventLower = event?.toLowerCase() || '';
+  if (eventLower.includes('hurricane')) return 'hurricane';
+  if (eventLower.includes('tropical')) return 'tropical_storm';
+  if (eventLower.includes('tornado')) return 'tornado';
+  if (eventLower.includes('flood')) return 'flood';
+  if (eventLower.includes('thunderstorm')) return 'thunderstorm';
+  return 'other';
+}
+
+function getMockAlerts(): WeatherAlert[] {
+  const alerts: WeatherAlert[] = [];
+  
+  // Check if it's hurricane season (June 1 - November 30)
+  const now = new Date();
+  const isHurricaneSeason = now.getMonth() >= 5 && now.getMonth() <= 10;
+  
+  if (isHurricaneSeason) {
+    // Add a mock hurricane watch during hurricane season
+    alerts.push({
+      id: 'mock-hurricane-watch',
+      title: 'Hurricane Watch',
+      description: 'A hurricane watch is in effect for Miami-Dade County. Conditions are favorable for hurricane development within the next 48 hours. Residents should monitor weather conditions and prepare emergency supplies.',
+      severity: 'severe',
+      type: 'hurricane',
+      startTime: new Date().toISOString(),
+      endTime: new Date(Date.now() + 48 * 3600000).toISOString(),
+      source: 'National Hurricane Center',
+      areas: ['Miami-Dade County', 'Broward County'],
+      isActive: true,
+    });
+  }
+
+  // Add occasional thunderstorm warnings
+  if (Math.random() > 0.6) {
+    alerts.push({
+      id: 'mock-thunderstorm-warning',
+      title: 'Severe Thunderstorm Warning',
+      description: 'Severe thunderstorms with heavy rain, strong winds up to 60 mph, and possible hail are expected in the Miami area. Seek shelter indoors immediately.',
+      severity: 'moderate',
+      type: 'thunderstorm',
+      startTime: new Date().toISOString(),
+      endTime: new Date(Date.now() + 4 * 3600000).toISOString(),
+      source: 'National Weather Service',
+      areas: ['Miami-Dade County'],
+      isActive: true,
+    });
+  }
+
+  // Add flood warnings occasionally
+  if (Math.random() > 0.8) {
+    alerts.push({
+      id: 'mock-flood-warning',
+      title: 'Flood Warning',
+      description: 'Heavy rainfall has caused flooding in low-lying areas. Avoid driving through flooded roads and seek higher ground if necessary.',
+      severity: 'moderate',
+      type: 'flood',
+      startTime: new Date().toISOString(),
+      endTime: new Date(Date.now() + 6 * 3600000).toISOString(),
+      source: 'National Weather Service',
+      areas: ['Miami-Dade County'],
+      isActive: true,
+    });
+  }
+
+  return alerts;
+}
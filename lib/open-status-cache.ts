@@ -0,0 +1,222 @@
+// Open-status cache for the seed datasets (data/cache/open-status.json).
+//
+// Requests only read the cache. Google Places is queried by `refreshOpenStatus`,
+// which a scheduler (scripts/refresh-open-status.js) triggers through
+// POST /api/open-status, so a page load never waits on N sequential lookups.
+
+import fs from 'fs';
+import path from 'path';
+import { readJsonCache, writeJsonCache } from './json-cache';
+import { fetchPlaceHours, getPlacesApiKey } from './places';
+import { OpeningHours } from './opening-hours';
+import { Region, REGIONS } from './regions';
+
+export interface OpenStatusCacheEntry {
+  openNow?: boolean | null;
+  lastUpdated?: string;
+  placeId?: string | null;
+  method?: string | null;
+  hours?: OpeningHours | null;
+}
+
+export interface OpenStatusFreshness {
+  lastUpdated: string | null;
+  ageMs: number | null;
+  stale: boolean;
+}
+
+export interface SeedItem {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  openNow?: boolean | null;
+  hours?: OpeningHours | null;
+  [key: string]: any;
+}
+
+export interface RefreshSummary {
+  startedAt: string;
+  durationMs: number;
+  checked: number;
+  updated: number;
+  failed: number;
+  skipped: number;
+  unknownIds: string[];
+  keyPresent: boolean;
+}
+
+export interface RefreshOptions {
+  // Refresh exactly these seed IDs, regardless of freshness
+  ids?: string[];
+  // Otherwise refresh every stale entry; `force` refreshes all of them
+  force?: boolean;
+  ttlMs?: number;
+}
+
+const OPEN_STATUS_CACHE_FILE = 'open-status.json';
+const REFRESH_RUN_FILE = 'open-status-refresh.json';
+
+const DEFAULT_TTL_MINUTES = 60;
+const DEFAULT_REFRESH_INTERVAL_MINUTES = 30;
+
+export function getOpenStatusTtlMs(): number {
+  return readMinutes(process.env.OPEN_STATUS_TTL_MINUTES, DEFAULT_TTL_MINUTES) * 60000;
+}
+
+export function getRefreshIntervalMs(): number {
+  return readMinutes(process.env.OPEN_STATUS_REFRESH_INTERVAL_MINUTES, DEFAULT_REFRESH_INTERVAL_MINUTES) * 60000;
+}
+
+export function readOpenStatusCache(): Record<string, OpenStatusCacheEntry> {
+  return readJsonCache<Record<string, OpenStatusCacheEntry>>(OPEN_STATUS_CACHE_FILE, {});
+}
+
+export function readLastRefresh(): RefreshSummary | null {
+  return readJsonCache<RefreshSummary | null>(REFRESH_RUN_FILE, null);
+}
+
+export function getFreshness(entry: OpenStatusCacheEntry | undefined, ttlMs = getOpenStatusTtlMs(), now = Date.now()): OpenStatusFreshness {
+  const lastUpdated = entry?.lastUpdated ?? null;
+  const updatedAt = lastUpdated ? new Date(lastUpdated).getTime() : NaN;
+  if (isNaN(updatedAt)) return { lastUpdated: null, ageMs: null, stale: true };
+
+  const ageMs = Math.max(0, now - updatedAt);
+  return { lastUpdated, ageMs, stale: ageMs > ttlMs };
+}
+
+export function loadSeedItems(region: Region, type: string): SeedItem[] {
+  const file = region.seeds[type as keyof Region['seeds']];
+  if (!file) return [];
+
+  const filePath = path.join(process.cwd(), 'public', 'data', file);
+  if (!fs.existsSync(filePath)) return [];
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+export function loadAllSeedItems(): SeedItem[] {
+  return REGIONS.flatMap(region =>
+    Object.keys(region.seeds).flatMap(type => loadSeedItems(region, type))
+  );
+}
+
+// Pending and running refreshes by their options
+const refreshes = new Map<string, Promise<RefreshSummary>>();
+let lastRefresh: Promise<unknown> = Promise.resolve();
+
+function refreshKey({ ids, force = false, ttlMs }: RefreshOptions): string {
+  return JSON.stringify({ ids: ids?.length ? Array.from(new Set(ids)).sort() : null, force, ttlMs: ttlMs ?? null });
+}
+
+/**
+ * Refresh cached open status from Google Places. Concurrent calls with the
+ * same options share one run so an overlapping schedule can't double the
+ * quota spend; other refreshes wait for it, since each rewrites the cache.
+ */
+export function refreshOpenStatus(options: RefreshOptions = {}): Promise<RefreshSummary> {
+  const key = refreshKey(options);
+  let refresh = refreshes.get(key);
+  if (!refresh) {
+    refresh = lastRefresh.then(() => runRefresh(options)).finally(() => refreshes.delete(key));
+    refreshes.set(key, refresh);
+    lastRefresh = refresh.catch(() => undefined);
+  }
+  return refresh;
+}
+
+async function runRefresh({ ids, force = false, ttlMs = getOpenStatusTtlMs() }: RefreshOptions): Promise<RefreshSummary> {
+  const started = Date.now();
+  const cache = readOpenStatusCache();
+  const items = loadAllSeedItems();
+  const key = getPlacesApiKey();
+
+  let targets: SeedItem[];
+  let unknownIds: string[] = [];
+  if (ids?.length) {
+    targets = items.filter(item => ids.includes(item.id));
+    unknownIds = ids.filter(id => !items.some(item => item.id === id));
+  } else {
+    targets = force ? items : items.filter(item => getFreshness(cache[item.id], ttlMs, started).stale);
+  }
+
+  let updated = 0;
+  let failed = 0;
+
+  // Sequential to stay inside the Places rate limits
+  for (const item of targets) {
+    const result = key
+      ? await lookupPlaceOpenStatus(item, key)
+      : { openNow: null, placeId: null, hours: null, method: 'no-key' };
+
+    if (result.openNow !== null || result.hours) {
+      cache[item.id] = {
+        openNow: result.openNow,
+        lastUpdated: new Date().toISOString(),
+        placeId: result.placeId ?? cache[item.id]?.placeId ?? null,
+        method: result.method,
+        hours: result.hours ?? cache[item.id]?.hours ?? null,
+      };
+      updated++;
+    } else {
+      failed++;
+    }
+  }
+
+  if (updated > 0) writeJsonCache(OPEN_STATUS_CACHE_FILE, cache);
+
+  const summary: RefreshSummary = {
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    checked: targets.length,
+    updated,
+    failed,
+    skipped: items.length - targets.length,
+    unknownIds,
+    keyPresent: Boolean(key),
+  };
+  writeJsonCache(REFRESH_RUN_FILE, summary);
+  return summary;
+}
+
+async function lookupPlaceOpenStatus(item: SeedItem, key: string) {
+  try {
+    // Try FindPlaceFromText with name + address (more accurate for business matches)
+    const findInput = item.address ? `${item.name} ${item.address}` : item.name;
+    const findUrl = new URL('https://maps.googleapis.com/maps/api/place/findplacefromtext/json');
+    findUrl.searchParams.set('input', findInput);
+    findUrl.searchParams.set('inputtype', 'textquery');
+    findUrl.searchParams.set('fields', 'place_id,opening_hours,formatted_address');
+    findUrl.searchParams.set('key', key);
+
+    const fr = await fetch(findUrl.toString());
+    const fdata = await fr.json();
+    const f = (fdata.candidates || [])[0];
+    if (f) {
+      const hours = f.place_id ? await fetchPlaceHours(f.place_id, key).catch(() => null) : null;
+      return { openNow: f.opening_hours?.open_now ?? null, placeId: f.place_id ?? null, hours, method: 'findplace' };
+    }
+
+    // Fallback: TextSearch with name + location
+    const tsUrl = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json');
+    tsUrl.searchParams.set('query', item.name);
+    tsUrl.searchParams.set('location', `${item.lat},${item.lng}`);
+    tsUrl.searchParams.set('radius', '5000');
+    tsUrl.searchParams.set('key', key);
+    const tr = await fetch(tsUrl.toString());
+    const tdata = await tr.json();
+    const p = (tdata.results || [])[0];
+    if (!p) return { openNow: null, placeId: null, hours: null, method: 'textsearch-none' };
+    const hours = p.place_id ? await fetchPlaceHours(p.place_id, key).catch(() => null) : null;
+    return { openNow: p.opening_hours?.open_now ?? null, placeId: p.place_id ?? null, hours, method: 'textsearch' };
+  } catch (e) {
+    console.warn('Places lookup failed for', item.name, e);
+    return { openNow: null, placeId: null, hours: null, method: 'error' };
+  }
+}
+
+function readMinutes(value: string | undefined, fallback: number): number {
+  const minutes = Number(value);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : fallback;
+}
@@ -0,0 +1,232 @@
+// Weekly opening-hours model for resources.
+//
+// Periods follow the Google Places shape (`{ open: { day, time }, close: { day, time } }`,
+// day 0 = Sunday, time "HHMM") so Place Details responses can be stored as-is.
+// Holiday overrides replace the regular periods for a single local date.
+
+import { DEFAULT_REGION } from './regions';
+import type { OpenState, OpenStatus } from './types';
+
+export type { OpenState, OpenStatus };
+
+export interface HoursPoint {
+  day: number;
+  time: string;
+}
+
+export interface HoursPeriod {
+  open: HoursPoint;
+  // Missing close on a single period starting Sunday 00:00 means open 24/7
+  close?: HoursPoint;
+}
+
+export interface HoursOverride {
+  date: string; // YYYY-MM-DD in the resource's local timezone
+  closed?: boolean;
+  periods?: { open: string; close: string }[];
+  note?: string;
+}
+
+export interface OpeningHours {
+  periods: HoursPeriod[];
+  timezone?: string; // IANA name, preferred when known
+  utcOffsetMinutes?: number; // Places Details only reports an offset
+  overrides?: HoursOverride[];
+}
+
+// Used when hours carry neither a timezone nor a UTC offset
+export const DEFAULT_TIMEZONE = DEFAULT_REGION.timezone;
+
+// "Closes soon" threshold
+export const CLOSES_SOON_MINUTES = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+interface LocalTime {
+  date: string;
+  weekday: number;
+  minutes: number;
+}
+
+export function getOpenStatus(hours: OpeningHours | null | undefined, at: Date = new Date(), fallbackOpenNow: boolean | null = null): OpenStatus {
+  const evaluatedAt = at.toISOString();
+
+  if (!hours || !Array.isArray(hours.periods) || hours.periods.length === 0) {
+    return {
+      state: fallbackOpenNow === null ? 'unknown' : fallbackOpenNow ? 'open' : 'closed',
+      openNow: fallbackOpenNow,
+      closesSoon: false,
+      closesAt: null,
+      opensAt: null,
+      evaluatedAt,
+    };
+  }
+
+  if (isAlwaysOpen(hours)) {
+    return { state: 'open', openNow: true, closesSoon: false, closesAt: null, opensAt: null, evaluatedAt };
+  }
+
+  const local = toLocalTime(at, hours);
+  const intervals = buildIntervals(hours, local);
+  const current = intervals.find(([start, end]) => start <= local.minutes && local.minutes < end);
+  const todayOverride = hours.overrides?.find(o => o.date === local.date);
+
+  if (current) {
+    const minutesLeft = current[1] - local.minutes;
+    return {
+      state: 'open',
+      openNow: true,
+      closesSoon: minutesLeft <= CLOSES_SOON_MINUTES,
+      closesAt: new Date(at.getTime() + minutesLeft * 60000).toISOString(),
+      opensAt: null,
+      evaluatedAt,
+      note: todayOverride?.note,
+    };
+  }
+
+  const next = intervals.find(([start]) => start > local.minutes);
+  return {
+    state: 'closed',
+    openNow: false,
+    closesSoon: false,
+    closesAt: null,
+    opensAt: next ? new Date(at.getTime() + (next[0] - local.minutes) * 60000).toISOString() : null,
+    evaluatedAt,
+    note: todayOverride?.note,
+  };
+}
+
+/**
+ * Convert Places `opening_hours` / `current_opening_hours` into our model
+ */
+export function fromPlacesOpeningHours(openingHours: any, utcOffsetMinutes?: number): OpeningHours | null {
+  if (!openingHours || !Array.isArray(openingHours.periods) || openingHours.periods.length === 0) return null;
+
+  const periods: HoursPeriod[] = openingHours.periods
+    .filter((p: any) => p?.open && typeof p.open.day === 'number' && typeof p.open.time === 'string')
+    .map((p: any) => ({
+      open: { day: p.open.day, time: p.open.time },
+      close: p.close ? { day: p.close.day, time: p.close.time } : undefined,
+    }));
+
+  if (periods.length === 0) return null;
+
+  const hours: OpeningHours = { periods };
+  if (typeof utcOffsetMinutes === 'number') hours.utcOffsetMinutes = utcOffsetMinutes;
+  return hours;
+}
+
+/**
+ * Fill in a timezone (e.g. the region's) for hours that carry no zone information
+ */
+export function withTimezone(hours: OpeningHours | null | undefined, timezone: string): OpeningHours | null {
+  if (!hours) return null;
+  if (hours.timezone || typeof hours.utcOffsetMinutes === 'number') return hours;
+  return { ...hours, timezone };
+}
+
+/**
+ * Parse an `openAt` query value (ISO timestamp or epoch millis); defaults to now
+ */
+export function parseOpenAt(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return new Date();
+  const raw = String(value);
+  const date = /^\d+$/.test(raw) ? new Date(Number(raw)) : new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isAlwaysOpen(hours: OpeningHours): boolean {
+  return hours.periods.length === 1 &&
+    !hours.periods[0].close &&
+    hours.periods[0].open.day === 0 &&
+    hours.periods[0].open.time === '0000';
+}
+
+// Open intervals in minutes relative to local midnight of `local.date`,
+// covering yesterday (for overnight periods) through a week ahead.
+function buildIntervals(hours: OpeningHours, local: LocalTime): [number, number][] {
+  const intervals: [number, number][] = [];
+
+  for (let offset = -1; offset <= 7; offset++) {
+    const date = addDays(local.date, offset);
+    const weekday = (local.weekday + offset + 7) % 7;
+    const base = offset * MINUTES_PER_DAY;
+    const override = hours.overrides?.find(o => o.date === date);
+
+    if (override) {
+      if (override.closed) continue;
+      for (const period of override.periods || []) {
+        const open = parseTime(period.open);
+        let close = parseTime(period.close);
+        if (close <= open) close += MINUTES_PER_DAY;
+        intervals.push([base + open, base + close]);
+      }
+      continue;
+    }
+
+    for (const period of hours.periods) {
+      if (period.open.day !== weekday || !period.close) continue;
+      const open = parseTime(period.open.time);
+      const spanDays = (period.close.day - period.open.day + 7) % 7;
+      let close = spanDays * MINUTES_PER_DAY + parseTime(period.close.time);
+      if (close <= open) close += 7 * MINUTES_PER_DAY;
+      intervals.push([base + open, base + close]);
+    }
+  }
+
+  return mergeIntervals(intervals);
+}
+
+function mergeIntervals(intervals: [number, number][]): [number, number][] {
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval[0] <= last[1]) {
+      last[1] = Math.max(last[1], interval[1]);
+    } else {
+      merged.push([interval[0], interval[1]]);
+    }
+  }
+  return merged;
+}
+
+function toLocalTime(at: Date, hours: OpeningHours): LocalTime {
+  if (!hours.timezone && typeof hours.utcOffsetMinutes === 'number') {
+    const shifted = new Date(at.getTime() + hours.utcOffsetMinutes * 60000);
+    return {
+      date: shifted.toISOString().slice(0, 10),
+      weekday: shifted.getUTCDay(),
+      minutes: shifted.getUTCHours() * 60 + shifted.getUTCMinutes(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone || DEFAULT_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: weekdays.indexOf(get('weekday')),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function parseTime(time: string): number {
+  const digits = time.replace(':', '').padStart(4, '0');
+  return Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2, 4));
+}
+
+function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
@@ -0,0 +1,318 @@
+// Google Places Text Search helpers shared by /api/places and /api/search
+
+import { readJsonCache, writeJsonCache } from './json-cache';
+import { fromPlacesOpeningHours, OpeningHours } from './opening-hours';
+
+export interface PlaceResult {
+  id: string;
+  name: string;
+  type: string;
+  address: string;
+  lat: number;
+  lng: number;
+  openNow: boolean | null;
+  source: string;
+  url: string;
+}
+
+export interface PlacesSearchOptions {
+  type: string;
+  lat: string | number;
+  lng: string | number;
+  radius?: string | number;
+  openNow?: boolean;
+  q?: string;
+}
+
+export function getPlacesApiKey(): string | undefined {
+  return process.env.GCP_SERVER_MAPS_KEY;
+}
+
+// Provide sensible default queries for each supported type
+export function getDefaultPlacesQuery(type: string): string {
+  return type === 'clinic' ? 'free clinic emergency medical'
+    : type === 'food_bank' ? 'food bank food pantry emergency food'
+    : type === 'shelter' ? 'homeless shelter emergency shelter'
+    : type === 'police' ? 'police station law enforcement'
+    : type === 'fire' ? 'fire station fire department' : '';
+}
+
+export async function fetchPlaces(options: PlacesSearchOptions, key: string): Promise<PlaceResult[]> {
+  const { type, lat, lng, radius = 2500, openNow = false, q } = options;
+  const textQuery = q || getDefaultPlacesQuery(type);
+  if (!textQuery) return [];
+
+  const url = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json');
+  url.searchParams.set('query', String(textQuery));
+  url.searchParams.set('location', `${lat},${lng}`);
+  url.searchParams.set('radius', String(radius));
+  if (openNow) url.searchParams.set('opennow', 'true');
+  url.searchParams.set('key', key);
+
+  const r = await fetch(url.toString());
+  const data = await r.json();
+
+  return (data.results || []).map((p: any) => ({
+    id: p.place_id,
+    name: p.name,
+    type,
+    address: p.formatted_address,
+    lat: p.geometry.location.lat,
+    lng: p.geometry.location.lng,
+    openNow: p.opening_hours?.open_now ?? null,
+    source: 'places',
+    url: `https://maps.google.com/?cid=${p.place_id}`
+  }));
+}
+
+/**
+ * Fetch weekly opening hours for a place via Place Details
+ */
+export async function fetchPlaceHours(placeId: string, key: string): Promise<OpeningHours | null> {
+  const url = new URL('https://maps.googleapis.com/maps/api/place/details/json');
+  url.searchParams.set('place_id', placeId);
+  url.searchParams.set('fields', 'opening_hours,utc_offset_minutes');
+  url.searchParams.set('key', key);
+
+  const r = await fetch(url.toString());
+  const data = await r.json();
+  if (data.status !== 'OK') return null;
+  return fromPlacesOpeningHours(data.result?.opening_hours, data.result?.utc_offset_minutes);
+}
+
+interface PlaceHoursCacheEntry {
+  hours: OpeningHours;
+  cachedAt: string;
+}
+
+const PLACE_HOURS_CACHE_FILE = 'place-hours.json';
+// Weekly hours rarely change; a day still picks up holiday hours in time
+const PLACE_HOURS_CACHE_TTL = 24 * 60 * 60 * 1000;
+const MAX_PLACE_HOURS_ENTRIES = 2000;
+
+/**
+ * Weekly hours for several places by place_id, from the cache where it is
+ * fresh and Place Details otherwise. Places whose hours can't be fetched map to null.
+ */
+export async function getPlaceHours(placeIds: string[], key: string): Promise<Record<string, OpeningHours | null>> {
+  const cache = readJsonCache<Record<string, PlaceHoursCacheEntry>>(PLACE_HOURS_CACHE_FILE, {});
+  const now = Date.now();
+  const isFresh = (entry?: PlaceHoursCacheEntry) => Boolean(entry && now - new Date(entry.cachedAt).getTime() < PLACE_HOURS_CACHE_TTL);
+
+  const result: Record<string, OpeningHours | null> = {};
+  let cacheChanged = false;
+  await Promise.all(Array.from(new Set(placeIds)).map(async placeId => {
+    if (isFresh(cache[placeId])) {
+      result[placeId] = cache[placeId].hours;
+      return;
+    }
+    const hours = await fetchPlaceHours(placeId, key).catch(() => null);
+    result[placeId] = hours;
+    // Failures aren't cached: they are as likely a quota hiccup as a place without hours
+    if (hours) {
+      cache[placeId] = { hours, cachedAt: new Date(now).toISOString() };
+      cacheChanged = true;
+    }
+  }));
+
+  if (cacheChanged) writeJsonCache(PLACE_HOURS_CACHE_FILE, prunePlaceHours(cache, isFresh));
+  return result;
+}
+
+// Drop expired entries, then the oldest beyond the cap
+function prunePlaceHours(
+  cache: Record<string, PlaceHoursCacheEntry>,
+  isFresh: (entry?: PlaceHoursCacheEntry) => boolean
+): Record<string, PlaceHoursCacheEntry> {
+  const kept = Object.entries(cache)
+    .filter(([, entry]) => isFresh(entry))
+    .sort(([, a], [, b]) => b.cachedAt.localeCompare(a.cachedAt))
+    .slice(0, MAX_PLACE_HOURS_ENTRIES);
+  return Object.fromEntries(kept);
+}
+
+export function generateMockPlaces(type: string, lat: string | number, lng: string | number): PlaceResult[] {
+  const baseLat = parseFloat(String(lat)) || 25.774;
+  const baseLng = parseFloat(String(lng)) || -80.193;
+  
+  if (type === 'food_bank') {
+    return [
+      {
+        id: 'mock-food-1',
+        name: 'Miami Community Food Bank',
+        type: 'food_bank',
+        address: '155 NW 15th St, Miami, FL 33136',
+        lat: baseLat + 0.01,
+        lng: baseLng - 0.01,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-food-2', 
+        name: 'Downtown Food Pantry',
+        type: 'food_bank',
+        address: '200 Biscayne Blvd, Miami, FL 33132',
+        lat: baseLat - 0.005,
+        lng: baseLng + 0.005,
+        openNow: false,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-food-3',
+        name: 'Emergency Food Distribution Center',
+        type: 'food_bank',
+        address: '450 SW 8th St, Miami, FL 33130',
+        lat: baseLat + 0.003,
+        lng: baseLng + 0.008,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-food-4',
+        name: 'Coral Gables Food Bank',
+        type: 'food_bank',
+        address: '2801 SW 37th Ave, Coral Gables, FL 33133',
+        lat: baseLat - 0.008,
+        lng: baseLng - 0.003,
+        openNow: false,
+        source: 'mock',
+        url: '#'
+      }
+    ];
+  }
+  
+  if (type === 'clinic') {
+    return [
+      {
+        id: 'mock-clinic-1',
+        name: 'Miami Free Clinic',
+        type: 'clinic',
+        address: '1800 NW 10th Ave, Miami, FL 33136',
+        lat: baseLat + 0.008,
+        lng: baseLng - 0.008,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-clinic-2',
+        name: 'Community Health Center',
+        type: 'clinic', 
+        address: '1500 NW 7th St, Miami, FL 33125',
+        lat: baseLat - 0.012,
+        lng: baseLng + 0.012,
+        openNow: false,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-clinic-3',
+        name: 'Emergency Medical Services',
+        type: 'clinic',
+        address: '320 Biscayne Blvd, Miami, FL 33132',
+        lat: baseLat + 0.005,
+        lng: baseLng + 0.002,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-clinic-4',
+        name: 'Homeless Health Care Center',
+        type: 'clinic',
+        address: '2200 NW 7th Ave, Miami, FL 33127',
+        lat: baseLat - 0.006,
+        lng: baseLng - 0.010,
+        openNow: false,
+        source: 'mock',
+        url: '#'
+      }
+    ];
+  }
+  
+  if (type === 'police') {
+    return [
+      {
+        id: 'mock-police-1',
+        name: 'Miami Police Dept. - Central',
+        type: 'police',
+        address: '400 NW 2nd Ave, Miami, FL',
+        lat: baseLat + 0.005,
+        lng: baseLng - 0.003,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-police-2',
+        name: 'Little Havana Police Station',
+        type: 'police',
+        address: '501 SW 12th Ave, Miami, FL',
+        lat: baseLat - 0.007,
+        lng: baseLng + 0.004,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      }
+    ]
+  }
+
+  if (type === 'fire') {
+    return [
+      {
+        id: 'mock-fire-1',
+        name: 'Miami Fire Rescue Station 1',
+        type: 'fire',
+        address: '200 NW 2nd Ave, Miami, FL',
+        lat: baseLat + 0.006,
+        lng: baseLng - 0.002,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-fire-2',
+        name: 'Coral Gables Fire Station',
+        type: 'fire',
+        address: '2200 Ponce de Leon Blvd, Coral Gables, FL',
+        lat: baseLat - 0.01,
+        lng: baseLng + 0.01,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      }
+    ]
+  }
+
+  if (type === 'shelter') {
+    return [
+      {
+        id: 'mock-shelter-1',
+        name: 'Downtown Emergency Shelter',
+        type: 'shelter',
+        address: '123 Main St, Miami, FL',
+        lat: baseLat + 0.004,
+        lng: baseLng + 0.002,
+        openNow: true,
+        source: 'mock',
+        url: '#'
+      },
+      {
+        id: 'mock-shelter-2',
+        name: 'Harbor Light Shelter',
+        type: 'shelter',
+        address: '78 Harbor Way, Miami, FL',
+        lat: baseLat - 0.006,
+        lng: baseLng - 0.005,
+        openNow: false,
+        source: 'mock',
+        url: '#'
+      }
+    ]
+  }
+
+  return [];
+}
@@ -0,0 +1,82 @@
+// Browser side of Web Push: registers public/sw.js, subscribes with the
+// server's VAPID key and keeps /api/push/subscriptions in step with the
+// watched location and notification settings, so severe weather reaches the
+// user even with the tab closed.
+//
+// Everything here is best effort: without service worker support, VAPID keys
+// on the server or notification permission it does nothing, and the in-page
+// engine still notifies while the tab is open.
+
+import { locationCell } from './weather-conditions'
+import type { NotificationSettings } from './types'
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+// What the server last accepted, to skip identical updates on every location fix
+let lastSynced: string | null = null
+let pending: Promise<void> = Promise.resolve()
+
+function isSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window
+}
+
+async function subscribe(registration: ServiceWorkerRegistration): Promise<PushSubscription | null> {
+  const existing = await registration.pushManager.getSubscription()
+  if (existing) return existing
+
+  const response = await fetch('/api/push/vapid-public-key')
+  // 503: the server has no VAPID keys, so there is nothing to subscribe to
+  if (!response.ok) return null
+  const { publicKey } = await response.json()
+
+  // Browsers take the base64url key as is
+  return registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: publicKey })
+}
+
+async function sync(location: { lat: number; lng: number }, settings: NotificationSettings) {
+  const wanted = settings.enablePushNotifications && !settings.testMode && Notification.permission === 'granted'
+  const registration = wanted
+    ? await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    : await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  if (!registration) return
+
+  if (!wanted) {
+    const subscription = await registration.pushManager.getSubscription()
+    if (!subscription) return
+    await fetch('/api/push/subscriptions', {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint: subscription.endpoint }),
+    })
+    await subscription.unsubscribe()
+    lastSynced = null
+    return
+  }
+
+  const subscription = await subscribe(registration)
+  if (!subscription) return
+
+  // Moving within the same location cell changes nothing server-side
+  const key = JSON.stringify([subscription.endpoint, locationCell(location.lat, location.lng), settings])
+  if (key === lastSynced) return
+
+  const response = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: subscription.toJSON(), location, settings }),
+  })
+  if (!response.ok) throw new Error(`Push subscription update failed (${response.status})`)
+  lastSynced = key
+}
+
+/**
+ * Subscribe, update or unsubscribe this browser to match the settings; calls run one at a time
+ */
+export function syncPushSubscription(location: { lat: number; lng: number }, settings: NotificationSettings): Promise<void> {
+  if (!isSupported() || typeof Notification === 'undefined') return Promise.resolve()
+
+  pending = pending
+    .then(() => sync(location, settings))
+    .catch(error => console.warn('Web Push subscription sync failed:', error))
+  return pending
+}
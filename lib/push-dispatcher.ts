@@ -0,0 +1,196 @@
+// Web Push dispatcher: turns freshly fetched NWS alerts and hurricane tracks
+// into push messages for the browsers watching where they apply.
+//
+// /api/weather/alerts hands over the alerts it fetched for a point and
+// /api/hurricanes the tracks it fetched, whenever they differ from the last
+// fetch (lib/feed-changes.ts). Alerts with a polygon reach the
+// browsers inside it; the rest reach the whole location cell of the point they
+// were fetched for. Each subscription hears about a
+// severe or extreme condition once while it is in effect, subject to its own
+// settings and alertFrequency, so pushes follow the same rules as the in-page
+// engine. Messages are tagged with the condition id, which lets the browser
+// merge a push with the in-page notification for the same condition.
+
+import { createHash } from 'crypto';
+import { geometryContains } from './geofence';
+import { alertConditions, ANNOUNCE_INTERVAL_MS, hurricaneConditions, isAllowed, isUrgent, locationCell, mergeConditions } from './weather-conditions';
+import { isMockAlert } from './nws-alerts';
+import { getPushSubscriptionStore, NOTIFIED_RETENTION_MS } from './push-subscriptions';
+import type { PushFeed, PushSubscriptionRecord } from './push-subscriptions';
+import { getVapidKeys, sendPush } from './web-push';
+import type { HurricaneTrack, WeatherAlert, WeatherCondition } from './types';
+
+// What public/sw.js shows
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Condition id; a newer message with the same tag replaces the older one
+  tag: string;
+  severity: WeatherCondition['severity'];
+  url: string;
+}
+
+export interface DispatchSummary {
+  sent: number;
+  // Subscriptions the push service reported gone
+  removed: number;
+  failed: number;
+}
+
+// Undelivered pushes about the weather are stale after a few hours
+const PUSH_TTL_SECONDS = 6 * 60 * 60;
+
+export function toPushMessage(condition: WeatherCondition): PushMessage {
+  return {
+    title: `${condition.icon} ${condition.title}`,
+    body: condition.description,
+    tag: condition.id,
+    severity: condition.severity,
+    url: '/',
+  };
+}
+
+/**
+ * Push the urgent alerts in effect at (lat, lng) to the browsers in its
+ * location cell, leaving out those outside an alert's polygon
+ */
+export async function dispatchAlertPush(lat: number, lng: number, alerts: WeatherAlert[], place?: string): Promise<DispatchSummary> {
+  if (!getVapidKeys()) return { sent: 0, removed: 0, failed: 0 };
+
+  // The stand-ins shown when NWS is down must never reach anyone's lock screen
+  // Delivered even when nothing is urgent, so held-back pushes that lapsed are forgotten
+  const conditions = alertConditions(alerts.filter(alert => !isMockAlert(alert)), place).filter(isUrgent);
+
+  const subscriptions = await getPushSubscriptionStore().listInCell(locationCell(lat, lng));
+  return deliver('alerts', subscriptions, subscription => conditions.filter(condition =>
+    !condition.alert?.geometry || geometryContains(condition.alert.geometry, subscription)
+  ));
+}
+
+/**
+ * Push storms close to each subscription's location
+ */
+export async function dispatchHurricanePush(hurricanes: HurricaneTrack[]): Promise<DispatchSummary> {
+  if (!getVapidKeys()) return { sent: 0, removed: 0, failed: 0 };
+
+  const subscriptions = await getPushSubscriptionStore().list();
+  return deliver('hurricanes', subscriptions, subscription => hurricaneConditions(hurricanes, subscription.lat, subscription.lng));
+}
+
+/**
+ * Whether a push that alertFrequency held back is now due for a browser in
+ * `cell` (any browser when omitted). The routes dispatch only when their feed
+ * changes, so they ask this too: the feed may stay the same past the wait.
+ */
+export async function hasDeferredPush(feed: PushFeed, cell?: string, now = Date.now()): Promise<boolean> {
+  if (!getVapidKeys()) return false;
+
+  try {
+    const store = getPushSubscriptionStore();
+    const subscriptions = cell ? await store.listInCell(cell) : await store.list();
+    return subscriptions.some(subscription => {
+      const until = subscription.deferred?.[feed];
+      return until !== undefined && Date.parse(until) <= now;
+    });
+  } catch (error) {
+    console.warn(`Web Push (${feed}) deferral check failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Run a dispatch for a route; failures are logged and never fail the request
+ */
+export async function dispatchSafely(label: string, dispatch: () => Promise<DispatchSummary>): Promise<void> {
+  try {
+    const summary = await dispatch();
+    if (summary.sent || summary.removed || summary.failed) console.log(`Web Push (${label}):`, summary);
+  } catch (error) {
+    console.error(`Web Push (${label}) failed:`, error);
+  }
+}
+
+function withDeferral(subscription: PushSubscriptionRecord, feed: PushFeed, until?: string): PushSubscriptionRecord {
+  const deferred = { ...subscription.deferred };
+  if (until) {
+    deferred[feed] = until;
+  } else {
+    delete deferred[feed];
+  }
+  return { ...subscription, deferred };
+}
+
+async function deliver(
+  feed: PushFeed,
+  subscriptions: PushSubscriptionRecord[],
+  conditionsFor: (subscription: PushSubscriptionRecord) => WeatherCondition[]
+): Promise<DispatchSummary> {
+  const vapid = getVapidKeys();
+  const summary: DispatchSummary = { sent: 0, removed: 0, failed: 0 };
+  if (!vapid) return summary;
+
+  const store = getPushSubscriptionStore();
+  const now = Date.now();
+
+  for (const subscription of subscriptions) {
+    const { settings } = subscription;
+    if (!settings.enablePushNotifications) continue;
+
+    const notified = Object.fromEntries(
+      Object.entries(subscription.notified).filter(([, at]) => now - Date.parse(at) < NOTIFIED_RETENTION_MS)
+    );
+    const due = mergeConditions(conditionsFor(subscription)).filter(condition =>
+      isUrgent(condition) && isAllowed(condition, settings) && !notified[condition.id]
+    );
+    if (due.length === 0) {
+      if (subscription.deferred?.[feed]) await store.save(withDeferral(subscription, feed));
+      continue;
+    }
+
+    // Held back until the wait is over; hasDeferredPush() brings it back then
+    const lastNotifiedAt = subscription.lastNotifiedAt ? Date.parse(subscription.lastNotifiedAt) : 0;
+    const waitUntil = lastNotifiedAt + ANNOUNCE_INTERVAL_MS[settings.alertFrequency];
+    if (now < waitUntil) {
+      const until = new Date(waitUntil).toISOString();
+      if (subscription.deferred?.[feed] !== until) await store.save(withDeferral(subscription, feed, until));
+      continue;
+    }
+
+    let gone = false;
+    let sent = 0;
+    for (const condition of due) {
+      const result = await sendPush(subscription, toPushMessage(condition), vapid, {
+        ttl: PUSH_TTL_SECONDS,
+        urgency: condition.severity === 'extreme' ? 'high' : 'normal',
+        // Topics are limited to 32 base64url characters, too short for some condition ids
+        topic: createHash('sha256').update(condition.id).digest('base64url').slice(0, 32),
+      });
+
+      if (result.ok) {
+        sent++;
+        summary.sent++;
+        notified[condition.id] = new Date(now).toISOString();
+      } else if (result.gone) {
+        gone = true;
+        break;
+      } else {
+        summary.failed++;
+        console.warn(`Web Push to ${new URL(subscription.endpoint).host} failed (${result.status}):`, result.error);
+      }
+    }
+
+    if (gone) {
+      summary.removed++;
+      await store.remove(subscription.endpoint);
+      continue;
+    }
+
+    await store.save({
+      ...withDeferral(subscription, feed),
+      notified,
+      ...(sent > 0 ? { lastNotifiedAt: new Date(now).toISOString() } : {}),
+    });
+  }
+
+  return summary;
+}
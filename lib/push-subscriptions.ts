@@ -0,0 +1,139 @@
+// Web Push subscriptions: one per browser, keyed by its push endpoint and
+// filed under a coarse location cell, so the dispatcher can find every
+// browser watching the place an alert was issued for.
+//
+// Subscriptions live in Firestore (`pushSubscriptions`) when the community
+// pipeline uses Firestore, and in data/push-subscriptions.json
+// (PUSH_SUBSCRIPTIONS_PATH) otherwise.
+
+import fs from 'fs';
+import path from 'path';
+import { getStorageKind } from './resource-repository';
+import type { NotificationSettings } from './types';
+import { locationCell } from './weather-conditions';
+import type { PushSubscriptionKeys } from './web-push';
+
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+  lat: number;
+  lng: number;
+  // locationCell(lat, lng) from lib/weather-conditions
+  cell: string;
+  settings: NotificationSettings;
+  // Condition id -> when it was pushed; forgotten after NOTIFIED_RETENTION_MS
+  notified: Record<string, string>;
+  lastNotifiedAt?: string;
+  // Per feed, when a push held back by alertFrequency may go out
+  deferred?: Partial<Record<PushFeed, string>>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The routes whose fetches are pushed
+export type PushFeed = 'alerts' | 'hurricanes';
+
+export interface PushSubscriptionStore {
+  readonly kind: 'firestore' | 'file';
+
+  get(endpoint: string): Promise<PushSubscriptionRecord | null>;
+  save(record: PushSubscriptionRecord): Promise<void>;
+  remove(endpoint: string): Promise<void>;
+  listInCell(cell: string): Promise<PushSubscriptionRecord[]>;
+  list(): Promise<PushSubscriptionRecord[]>;
+}
+
+export const PUSH_SUBSCRIPTIONS_PATH = process.env.PUSH_SUBSCRIPTIONS_PATH || path.join(process.cwd(), 'data', 'push-subscriptions.json');
+
+// Long enough to outlast an NWS alert, short enough that a storm still nearby days later is pushed again
+export const NOTIFIED_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+export class FilePushSubscriptionStore implements PushSubscriptionStore {
+  readonly kind: PushSubscriptionStore['kind'] = 'file';
+
+  constructor(private readonly filePath: string = PUSH_SUBSCRIPTIONS_PATH) {}
+
+  async get(endpoint: string): Promise<PushSubscriptionRecord | null> {
+    return this.read().find(record => record.endpoint === endpoint) || null;
+  }
+
+  async save(record: PushSubscriptionRecord): Promise<void> {
+    this.write([...this.read().filter(existing => existing.endpoint !== record.endpoint), record]);
+  }
+
+  async remove(endpoint: string): Promise<void> {
+    this.write(this.read().filter(record => record.endpoint !== endpoint));
+  }
+
+  async listInCell(cell: string): Promise<PushSubscriptionRecord[]> {
+    return this.read().filter(record => record.cell === cell);
+  }
+
+  async list(): Promise<PushSubscriptionRecord[]> {
+    return this.read();
+  }
+
+  private read(): PushSubscriptionRecord[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    return JSON.parse(fs.readFileSync(this.filePath, 'utf8')).subscriptions || [];
+  }
+
+  private write(subscriptions: PushSubscriptionRecord[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ subscriptions }, null, 2) + '\n', 'utf8');
+  }
+}
+
+// Cached on globalThis like the resource repository
+const globalStore = globalThis as unknown as { __pushSubscriptionStore?: PushSubscriptionStore };
+
+export function getPushSubscriptionStore(): PushSubscriptionStore {
+  if (globalStore.__pushSubscriptionStore) return globalStore.__pushSubscriptionStore;
+
+  // Required lazily so local mode never loads firebase-admin
+  const store: PushSubscriptionStore = getStorageKind() === 'firestore'
+    ? new (require('./firestore-push-subscriptions').FirestorePushSubscriptionStore)()
+    : new FilePushSubscriptionStore();
+  return (globalStore.__pushSubscriptionStore = store);
+}
+
+/**
+ * Replace the active store (tests); null re-resolves it from configuration
+ */
+export function setPushSubscriptionStore(store: PushSubscriptionStore | null): void {
+  globalStore.__pushSubscriptionStore = store || undefined;
+}
+
+/**
+ * Register a browser, or move an existing one to a new location or settings
+ */
+export async function savePushSubscription(
+  subscription: { endpoint: string; keys: PushSubscriptionKeys },
+  location: { lat: number; lng: number },
+  settings: NotificationSettings
+): Promise<PushSubscriptionRecord> {
+  const store = getPushSubscriptionStore();
+  const existing = await store.get(subscription.endpoint);
+  const cell = locationCell(location.lat, location.lng);
+  const now = new Date().toISOString();
+
+  const record: PushSubscriptionRecord = {
+    endpoint: subscription.endpoint,
+    keys: subscription.keys,
+    lat: location.lat,
+    lng: location.lng,
+    cell,
+    settings,
+    // Conditions pushed for the old area say nothing about the new one
+    notified: existing?.cell === cell ? existing.notified : {},
+    ...(existing?.lastNotifiedAt ? { lastNotifiedAt: existing.lastNotifiedAt } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await store.save(record);
+  return record;
+}
+
+export async function removePushSubscription(endpoint: string): Promise<void> {
+  await getPushSubscriptionStore().remove(endpoint);
+}
@@ -0,0 +1,228 @@
+// Token-bucket rate limiting for public API routes.
+//
+// Anonymous callers draw from a bucket per IP; signed-in callers draw from a
+// larger bucket per session, so sharing an IP (campus, shelter Wi-Fi) doesn't
+// lock them out. Buckets live in memory per server instance by default, or in
+// Firestore (`rateLimits`) when RATE_LIMIT_STORE=firestore so every instance
+// shares them.
+
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { getSignedInUser } from './submitters';
+
+export interface RateLimitRule {
+  // Bucket size: how many requests may arrive back to back
+  limit: number;
+  // Time for an empty bucket to refill completely
+  windowMs: number;
+}
+
+export interface RouteRateLimit {
+  ip: RateLimitRule;
+  session: RateLimitRule;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next request would be allowed (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  readonly kind: 'memory' | 'firestore';
+  take(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+}
+
+const MINUTE = 60 * 1000;
+
+// Defaults; override with RATE_LIMIT_<ROUTE>_IP / RATE_LIMIT_<ROUTE>_SESSION
+export const ROUTE_RATE_LIMITS = {
+  intent: { ip: { limit: 20, windowMs: MINUTE }, session: { limit: 40, windowMs: MINUTE } },
+  places: { ip: { limit: 60, windowMs: MINUTE }, session: { limit: 120, windowMs: MINUTE } },
+  // One Places search per category asked for
+  search: { ip: { limit: 20, windowMs: MINUTE }, session: { limit: 40, windowMs: MINUTE } },
+  // /api/shelters, /api/clinics and /api/food-banks share this bucket
+  nearby: { ip: { limit: 60, windowMs: MINUTE }, session: { limit: 120, windowMs: MINUTE } },
+  geocode: { ip: { limit: 30, windowMs: MINUTE }, session: { limit: 60, windowMs: MINUTE } },
+  'geocode-batch': { ip: { limit: 5, windowMs: 60 * MINUTE }, session: { limit: 20, windowMs: 60 * MINUTE } },
+  'static-list': { ip: { limit: 60, windowMs: MINUTE }, session: { limit: 120, windowMs: MINUTE } },
+  pending: { ip: { limit: 5, windowMs: 60 * MINUTE }, session: { limit: 30, windowMs: 60 * MINUTE } },
+  'push-subscriptions': { ip: { limit: 20, windowMs: 60 * MINUTE }, session: { limit: 40, windowMs: 60 * MINUTE } },
+} satisfies Record<string, RouteRateLimit>;
+
+export type RateLimitedRoute = keyof typeof ROUTE_RATE_LIMITS;
+
+/**
+ * Refill a bucket for the time elapsed and try to spend one token
+ */
+export function takeToken(bucket: TokenBucket | undefined, rule: RateLimitRule, now: number): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerMs = rule.limit / rule.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  const tokens = bucket ? Math.min(rule.limit, bucket.tokens + elapsed * refillPerMs) : rule.limit;
+
+  if (tokens < 1) {
+    return {
+      bucket: { tokens, updatedAt: now },
+      result: { allowed: false, remaining: 0, retryAfterSeconds: Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000)) },
+    };
+  }
+  return {
+    bucket: { tokens: tokens - 1, updatedAt: now },
+    result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 },
+  };
+}
+
+// A full bucket is the same as no bucket, so once this many callers are
+// tracked the full ones are dropped, and failing that the least recently used
+export const MAX_MEMORY_BUCKETS = 10_000;
+
+interface MemoryBucket extends TokenBucket {
+  // When the bucket will have refilled completely
+  fullAt: number;
+}
+
+// Kept on globalThis so dev-server reloads don't reset the buckets
+const globalStore = globalThis as unknown as {
+  __rateLimitBuckets?: Map<string, MemoryBucket>;
+  __rateLimitStore?: RateLimitStore;
+};
+const buckets = globalStore.__rateLimitBuckets || (globalStore.__rateLimitBuckets = new Map());
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind: RateLimitStore['kind'] = 'memory';
+
+  async take(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult> {
+    const { bucket, result } = takeToken(buckets.get(key), rule, now);
+    const fullAt = now + (rule.limit - bucket.tokens) * (rule.windowMs / rule.limit);
+
+    // Re-inserted so the map stays in least-recently-used order
+    buckets.delete(key);
+    if (buckets.size >= MAX_MEMORY_BUCKETS) pruneBuckets(now);
+    buckets.set(key, { ...bucket, fullAt });
+    return result;
+  }
+
+  /**
+   * How many callers are tracked (tests)
+   */
+  get size(): number {
+    return buckets.size;
+  }
+}
+
+function pruneBuckets(now: number): void {
+  for (const [key, bucket] of buckets) {
+    if (bucket.fullAt <= now) buckets.delete(key);
+  }
+  // Still too many: everyone is active, so drop the longest idle
+  for (const key of buckets.keys()) {
+    if (buckets.size < MAX_MEMORY_BUCKETS) break;
+    buckets.delete(key);
+  }
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (globalStore.__rateLimitStore) return globalStore.__rateLimitStore;
+
+  // Required lazily so local mode never loads firebase-admin
+  const store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'firestore'
+    ? new (require('./firestore-rate-limit-store').FirestoreRateLimitStore)()
+    : new MemoryRateLimitStore();
+  return (globalStore.__rateLimitStore = store);
+}
+
+/**
+ * Swap the store (tests)
+ */
+export function setRateLimitStore(store: RateLimitStore | undefined): void {
+  globalStore.__rateLimitStore = store;
+}
+
+/**
+ * Forget all in-memory buckets (tests)
+ */
+export function clearRateLimits(): void {
+  buckets.clear();
+}
+
+// "<requests>/<minutes>", e.g. RATE_LIMIT_PENDING_IP=10/60
+function parseRule(value: string | undefined, fallback: RateLimitRule): RateLimitRule {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) <= 0) return fallback;
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * MINUTE };
+}
+
+export function getRouteRateLimit(route: RateLimitedRoute): RouteRateLimit {
+  const defaults = ROUTE_RATE_LIMITS[route];
+  const prefix = `RATE_LIMIT_${route.toUpperCase().replace(/-/g, '_')}`;
+  return {
+    ip: parseRule(process.env[`${prefix}_IP`], defaults.ip),
+    session: parseRule(process.env[`${prefix}_SESSION`], defaults.session),
+  };
+}
+
+/**
+ * The caller's address as seen by our own proxies. Clients can put anything
+ * in x-forwarded-for, and each proxy appends the address it received the
+ * request from, so only the hops added by the TRUSTED_PROXY_COUNT proxies in
+ * front of the app (default 1: Vercel, Firebase Hosting) can be believed. The
+ * client is the hop the outermost of them appended. With 0, the socket address.
+ */
+export function getClientIp(req: NextApiRequest): string {
+  const socketAddress = req.socket?.remoteAddress || 'unknown';
+  const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+  if (!Number.isInteger(trustedProxies) || trustedProxies < 1) return socketAddress;
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - trustedProxies)] || socketAddress;
+}
+
+/**
+ * Spend a token for this caller on `route`. Responds 429 with Retry-After and
+ * returns false when the bucket is empty. A failing store lets the request
+ * through: an outage of the limiter must not take the API down with it.
+ */
+export async function enforceRateLimit(req: NextApiRequest, res: NextApiResponse, route: RateLimitedRoute): Promise<boolean> {
+  const limits = getRouteRateLimit(route);
+  const user = await getSignedInUser(req, res);
+  const rule = user ? limits.session : limits.ip;
+  const key = user ? `${route}:user:${user.id}` : `${route}:ip:${getClientIp(req)}`;
+
+  let result: RateLimitResult;
+  try {
+    result = await getRateLimitStore().take(key, rule, Date.now());
+  } catch (error) {
+    console.warn('Rate limit store failed, allowing request:', error);
+    return true;
+  }
+
+  res.setHeader('RateLimit-Limit', String(rule.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  if (result.allowed) return true;
+
+  res.setHeader('Retry-After', String(result.retryAfterSeconds));
+  res.status(429).json({
+    error: user ? 'Too many requests. Please try again later.' : 'Too many requests. Sign in or try again later.',
+    retryAfter: result.retryAfterSeconds,
+  });
+  return false;
+}
+
+/**
+ * Wrap a handler so every call spends a token from the route's bucket first
+ */
+export function withRateLimit(route: RateLimitedRoute, handler: NextApiHandler): NextApiHandler {
+  return async (req, res) => {
+    if (!(await enforceRateLimit(req, res, route))) return;
+    return handler(req, res);
+  };
+}
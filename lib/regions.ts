@@ -0,0 +1,139 @@
+// Region registry: everything that used to be hard-coded to Miami.
+//
+// APIs resolve the region from the request's lat/lng. Outside every region
+// they still work, but without seed lists, density zones or a city label.
+
+import type { RegionDensityZone, ResourceType } from './types';
+
+export interface RegionBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface Region {
+  id: string;
+  name: string;
+  label: string; // Human-readable location, e.g. "Miami, FL"
+  bounds: RegionBounds;
+  center: { lat: number; lng: number };
+  timezone: string;
+  // Seed dataset file names under public/data, per resource type
+  seeds: Partial<Record<ResourceType, string>>;
+  densityZones: RegionDensityZone[];
+  defaultQueries: Partial<Record<ResourceType, string>>;
+}
+
+const MIAMI: Region = {
+  id: 'miami',
+  name: 'Miami',
+  label: 'Miami, FL',
+  bounds: { north: 26.4, south: 25.1, east: -80.0, west: -80.9 },
+  center: { lat: 25.774, lng: -80.193 },
+  timezone: 'America/New_York',
+  seeds: {
+    shelter: 'shelters-miami.json',
+    food_bank: 'food-banks-miami.json',
+    clinic: 'clinics-miami.json',
+  },
+  densityZones: [
+    // High density areas (avoid during crowding)
+    { name: 'Downtown Miami', lat: 25.7617, lng: -80.1918, density: 'very_high', population: 85000, riskLevel: 'high', description: 'Dense urban core with high foot traffic' },
+    { name: 'South Beach', lat: 25.7907, lng: -80.1300, density: 'very_high', population: 65000, riskLevel: 'high', description: 'Tourist area with heavy crowds' },
+    { name: 'Brickell', lat: 25.7663, lng: -80.1917, density: 'high', population: 45000, riskLevel: 'medium', description: 'Business district, crowded during work hours' },
+    // Medium density areas
+    { name: 'Coral Gables', lat: 25.7214, lng: -80.2683, density: 'medium', population: 25000, riskLevel: 'low', description: 'Residential area with moderate density' },
+    { name: 'Coconut Grove', lat: 25.7282, lng: -80.2436, density: 'medium', population: 20000, riskLevel: 'low', description: 'Mixed residential/commercial area' },
+    // Low density areas (safer for social distancing)
+    { name: 'Homestead', lat: 25.4687, lng: -80.4776, density: 'low', population: 8000, riskLevel: 'very_low', description: 'Suburban area with low population density' },
+    { name: 'Key Biscayne', lat: 25.6948, lng: -80.1624, density: 'low', population: 12000, riskLevel: 'very_low', description: 'Island community with sparse population' },
+    { name: 'Pinecrest', lat: 25.6615, lng: -80.3017, density: 'low', population: 15000, riskLevel: 'very_low', description: 'Suburban residential area' },
+  ],
+  defaultQueries: {
+    shelter: 'emergency shelter homeless shelter near Miami, FL',
+    food_bank: 'food bank food pantry emergency food near Miami, FL',
+    clinic: 'clinic free clinic urgent care emergency medical near Miami, FL',
+  },
+};
+
+// Seed lists and density zones for Houston and Tampa are added as they are curated
+const HOUSTON: Region = {
+  id: 'houston',
+  name: 'Houston',
+  label: 'Houston, TX',
+  bounds: { north: 30.2, south: 29.4, east: -94.9, west: -95.9 },
+  center: { lat: 29.7604, lng: -95.3698 },
+  timezone: 'America/Chicago',
+  seeds: {},
+  densityZones: [],
+  defaultQueries: {
+    shelter: 'emergency shelter homeless shelter near Houston, TX',
+    food_bank: 'food bank food pantry emergency food near Houston, TX',
+    clinic: 'clinic free clinic urgent care emergency medical near Houston, TX',
+  },
+};
+
+const TAMPA: Region = {
+  id: 'tampa',
+  name: 'Tampa',
+  label: 'Tampa, FL',
+  bounds: { north: 28.3, south: 27.5, east: -82.2, west: -82.9 },
+  center: { lat: 27.9506, lng: -82.4572 },
+  timezone: 'America/New_York',
+  seeds: {},
+  densityZones: [],
+  defaultQueries: {
+    shelter: 'emergency shelter homeless shelter near Tampa, FL',
+    food_bank: 'food bank food pantry emergency food near Tampa, FL',
+    clinic: 'clinic free clinic urgent care emergency medical near Tampa, FL',
+  },
+};
+
+export const REGIONS: Region[] = [MIAMI, HOUSTON, TAMPA];
+
+// Used when a request carries no coordinates at all
+export const DEFAULT_REGION: Region = MIAMI;
+
+// Generic queries for coordinates outside every region
+const FALLBACK_QUERIES: Record<ResourceType, string> = {
+  shelter: 'emergency shelter homeless shelter',
+  food_bank: 'food bank food pantry emergency food',
+  clinic: 'clinic free clinic urgent care emergency medical',
+  police: 'police station',
+  fire: 'fire station',
+};
+
+export function getRegionById(id: string | undefined | null): Region | null {
+  if (!id) return null;
+  return REGIONS.find(region => region.id === id) || null;
+}
+
+export function resolveRegion(lat: number, lng: number): Region | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return REGIONS.find(({ bounds }) =>
+    lat <= bounds.north && lat >= bounds.south && lng <= bounds.east && lng >= bounds.west
+  ) || null;
+}
+
+/**
+ * Resolve a region from raw query values. Missing coordinates fall back to the
+ * default region; coordinates outside every region resolve to null.
+ */
+export function resolveRegionFromQuery(lat: unknown, lng: unknown): Region | null {
+  if (lat === undefined || lng === undefined || lat === '' || lng === '') return DEFAULT_REGION;
+  return resolveRegion(parseFloat(String(lat)), parseFloat(String(lng)));
+}
+
+export function getRegionQuery(region: Region | null, type: ResourceType): string {
+  return region?.defaultQueries[type] || FALLBACK_QUERIES[type];
+}
+
+export function getRegionLabel(region: Region | null, lat: number, lng: number): string {
+  if (region) return region.label;
+  return `${lat.toFixed(3)}, ${lng.toFixed(3)}`;
+}
+
+export function getLocationLabel(lat: number, lng: number): string {
+  return getRegionLabel(resolveRegion(lat, lng), lat, lng);
+}
@@ -0,0 +1,49 @@
+// Validate req.query / req.body against the schemas in lib/schemas.ts.
+//
+// Every route answers bad input the same way:
+//   400 { error: "lat: must be a number", issues: [{ path: "lat", message: "must be a number" }] }
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { z } from 'zod';
+
+export interface ValidationIssue {
+  // Dotted path into the query or body; empty for whole-object rules
+  path: string;
+  message: string;
+}
+
+export function describeIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+/**
+ * Respond 400 in the shared shape, e.g. for checks that need more than the schema
+ */
+export function sendValidationError(res: NextApiResponse, issues: ValidationIssue[]): void {
+  res.status(400).json({
+    error: issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; '),
+    issues,
+  });
+}
+
+function validate<T extends z.ZodTypeAny>(input: unknown, res: NextApiResponse, schema: T): z.output<T> | null {
+  const result = schema.safeParse(input);
+  if (result.success) return result.data;
+
+  sendValidationError(res, describeIssues(result.error));
+  return null;
+}
+
+/**
+ * Parse the query string; responds 400 and returns null when it doesn't match
+ */
+export function validateQuery<T extends z.ZodTypeAny>(req: NextApiRequest, res: NextApiResponse, schema: T): z.output<T> | null {
+  return validate(req.query, res, schema);
+}
+
+/**
+ * Parse the JSON body; responds 400 and returns null when it doesn't match
+ */
+export function validateBody<T extends z.ZodTypeAny>(req: NextApiRequest, res: NextApiResponse, schema: T): z.output<T> | null {
+  return validate(req.body ?? {}, res, schema);
+}
@@ -0,0 +1,162 @@
+// Cross-source de-duplication of resources.
+//
+// The same facility can arrive from Google Places (keyed by place_id), from a
+// seed list (e.g. `shelter-1`) and from an approved community submission.
+// Records match by placeId when both sides have one, otherwise by a fuzzy
+// name match within a short distance; clusters are everything connected by a
+// match, so the result doesn't depend on input order. Each cluster collapses
+// to one canonical record that keeps the merged records as an attribution list.
+
+import { calculateDistance } from './geo';
+import type { ResourceAttribution } from './types';
+
+export interface DedupeCandidate {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  source?: string;
+  placeId?: string | null;
+  address?: string;
+  openNow?: boolean | null;
+  url?: string | null;
+}
+
+export type DedupedResource<T extends DedupeCandidate> = T & {
+  attribution: ResourceAttribution[];
+};
+
+// Lower rank wins when picking the canonical record of a cluster:
+// curated seed data first, then live Places data, then community submissions.
+const SOURCE_PRIORITY: Record<string, number> = {
+  static: 0,
+  places: 1,
+  community: 2,
+  mock: 3,
+};
+
+// Near-identical names may be a little further apart (entrance vs. parcel centroid)
+const STRONG_NAME_MATCH = { similarity: 0.85, maxDistanceMeters: 300 };
+// Looser name matches must be practically at the same spot
+const WEAK_NAME_MATCH = { similarity: 0.5, maxDistanceMeters: 100 };
+
+const NAME_STOPWORDS = new Set(['the', 'of', 'and', 'inc', 'llc', 'at', 'a']);
+
+export function dedupeResources<T extends DedupeCandidate>(items: T[]): DedupedResource<T>[] {
+  // Union-find over item indexes: a record matching two clusters joins them
+  const parents = items.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parents[index] !== index) index = parents[index] = parents[parents[index]];
+    return index;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (root(i) !== root(j) && isSameResource(items[i], items[j])) parents[root(j)] = root(i);
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const members = clusters.get(root(index));
+    if (members) {
+      members.push(item);
+    } else {
+      clusters.set(root(index), [item]);
+    }
+  });
+
+  return Array.from(clusters.values(), mergeCluster);
+}
+
+export function isSameResource(a: DedupeCandidate, b: DedupeCandidate): boolean {
+  if (a.id === b.id) return true;
+  if (a.placeId && b.placeId) return a.placeId === b.placeId;
+  if (a.type !== b.type) return false;
+
+  const distance = calculateDistance(a.lat, a.lng, b.lat, b.lng) * 1000;
+  if (distance > STRONG_NAME_MATCH.maxDistanceMeters) return false;
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= STRONG_NAME_MATCH.similarity) return true;
+  return similarity >= WEAK_NAME_MATCH.similarity && distance <= WEAK_NAME_MATCH.maxDistanceMeters;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized names (0..1)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  // One name fully containing the other ("Camillus House" vs "Camillus House Inc")
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach(bg => counts.set(bg, (counts.get(bg) || 0) + 1));
+
+  let overlap = 0;
+  for (const bg of rightBigrams) {
+    const count = counts.get(bg) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bg, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+function normalizeName(name: string): string {
+  return (name || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_STOPWORDS.has(word))
+    .join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+function mergeCluster<T extends DedupeCandidate>(members: T[]): DedupedResource<T> {
+  // Ties go by id, so the same cluster merges the same way in any order
+  const ordered = [...members].sort((a, b) => sourceRank(a) - sourceRank(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const canonical = { ...ordered[0] };
+  for (const other of ordered.slice(1)) {
+    if (!canonical.placeId && other.placeId) canonical.placeId = other.placeId;
+    if (!canonical.address && other.address) canonical.address = other.address;
+    if (!canonical.url && other.url) canonical.url = other.url;
+    // Fill in hours from another source when the canonical record has none
+    if ((canonical.openNow === null || canonical.openNow === undefined) && typeof other.openNow === 'boolean') {
+      canonical.openNow = other.openNow;
+    }
+  }
+
+  const attribution: ResourceAttribution[] = ordered.map(member => ({
+    id: member.id,
+    source: member.source || 'unknown',
+    placeId: member.placeId ?? null,
+  }));
+
+  return { ...canonical, attribution };
+}
+
+function sourceRank(item: DedupeCandidate): number {
+  return SOURCE_PRIORITY[item.source || ''] ?? Object.keys(SOURCE_PRIORITY).length;
+}
@@ -0,0 +1,137 @@
+// Relevance and distance ranking for resource search results.
+//
+// Each result gets a score in 0..1 built from four signals: distance from the
+// user, open-now status, how much we trust the source, and how well the name
+// or address matches the query terms. Weights are configurable per request.
+
+import { calculateDistance, KM_PER_MILE } from './geo';
+
+export interface RankingWeights {
+  distance: number;
+  openNow: number;
+  sourceTrust: number;
+  queryMatch: number;
+}
+
+export interface RankingOptions {
+  origin: { lat: number; lng: number };
+  radiusMeters: number;
+  openNowPreferred?: boolean;
+  queryTerms?: string[];
+  weights?: Partial<RankingWeights>;
+}
+
+export interface Rankable {
+  name: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  openNow?: boolean | null;
+  source?: string;
+}
+
+export type RankedResource<T extends Rankable> = T & {
+  distance: string;
+  distanceMeters: number;
+  score: number;
+};
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  distance: 0.5,
+  openNow: 0.2,
+  sourceTrust: 0.15,
+  queryMatch: 0.15,
+};
+
+// Curated seed data is verified by hand; mock data only exists for local development
+export const SOURCE_TRUST: Record<string, number> = {
+  static: 1,
+  places: 0.8,
+  community: 0.6,
+  mock: 0.1,
+};
+
+// Generic words that appear in most queries and say nothing about a specific place
+const QUERY_STOPWORDS = new Set([
+  'a', 'an', 'the', 'i', 'me', 'my', 'we', 'need', 'find', 'near', 'nearby', 'now',
+  'open', 'for', 'to', 'in', 'of', 'and', 'or', 'where', 'is', 'are', 'please', 'help',
+]);
+
+export function rankResources<T extends Rankable>(results: T[], options: RankingOptions): RankedResource<T>[] {
+  const weights = resolveWeights(options);
+  const terms = tokenizeQuery(options.queryTerms || []);
+  const radiusKm = Math.max(options.radiusMeters, 1) / 1000;
+
+  return results
+    .map((result, index) => {
+      const distanceKm = calculateDistance(options.origin.lat, options.origin.lng, result.lat, result.lng);
+
+      const distanceScore = Math.max(0, 1 - distanceKm / radiusKm);
+      const openScore = result.openNow === true ? 1 : result.openNow === false ? 0 : 0.5;
+      const trustScore = SOURCE_TRUST[result.source || ''] ?? 0.5;
+      const matchScore = queryMatchScore(result, terms);
+
+      const score =
+        weights.distance * distanceScore +
+        weights.openNow * openScore +
+        weights.sourceTrust * trustScore +
+        weights.queryMatch * matchScore;
+
+      return {
+        index,
+        ranked: {
+          ...result,
+          distance: formatDistance(distanceKm),
+          distanceMeters: Math.round(distanceKm * 1000),
+          score: Math.round(score * 1000) / 1000,
+        },
+      };
+    })
+    .sort((a, b) => b.ranked.score - a.ranked.score || a.ranked.distanceMeters - b.ranked.distanceMeters || a.index - b.index)
+    .map(({ ranked }) => ranked);
+}
+
+function resolveWeights(options: RankingOptions): RankingWeights {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS };
+  // Open-now matters twice as much when the user asked for it
+  if (options.openNowPreferred) weights.openNow *= 2;
+
+  for (const key of Object.keys(weights) as (keyof RankingWeights)[]) {
+    const override = options.weights?.[key];
+    if (typeof override === 'number' && Number.isFinite(override) && override >= 0) {
+      weights[key] = override;
+    }
+  }
+
+  const total = weights.distance + weights.openNow + weights.sourceTrust + weights.queryMatch;
+  if (total <= 0) return DEFAULT_RANKING_WEIGHTS;
+
+  return {
+    distance: weights.distance / total,
+    openNow: weights.openNow / total,
+    sourceTrust: weights.sourceTrust / total,
+    queryMatch: weights.queryMatch / total,
+  };
+}
+
+function tokenizeQuery(queryTerms: string[]): string[] {
+  const tokens = queryTerms
+    .join(' ')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 2 && !QUERY_STOPWORDS.has(token));
+  return Array.from(new Set(tokens));
+}
+
+function queryMatchScore(result: Rankable, terms: string[]): number {
+  if (terms.length === 0) return 0;
+  const haystack = `${result.name} ${result.address || ''}`.toLowerCase();
+  const matched = terms.filter(term => haystack.includes(term)).length;
+  return matched / terms.length;
+}
+
+export function formatDistance(distanceKm: number): string {
+  const miles = distanceKm / KM_PER_MILE;
+  if (miles < 0.1) return `${Math.round(miles * 5280)} ft`;
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi`;
+}
@@ -0,0 +1,126 @@
+// Storage for the community pipeline: pending submissions, approved resources
+// and the profiles of signed-in submitters.
+//
+// Backends: Firestore (production), in-memory and a local JSON file (offline
+// development and demos). RESOURCE_STORAGE=firestore|memory|json selects one;
+// without it, production and any environment with Firebase credentials use
+// Firestore and everything else falls back to the JSON file.
+
+import type { AiReview } from './submission-review';
+import type { ModerationEvent, ModerationStatus } from './moderation';
+
+export interface PendingResource {
+  id: string;
+  name: string;
+  type: 'shelter' | 'food_bank' | 'clinic';
+  address: string;
+  lat: number;
+  lng: number;
+  notes: string;
+  source: string;
+  submittedBy: string;
+  // NextAuth user id of a signed-in submitter; absent for anonymous submissions
+  submitterId?: string;
+  submittedAt: string;
+  status: ModerationStatus;
+  aiReview: AiReview;
+  moderationHistory: ModerationEvent[];
+  infoRequest?: string;
+  rejectionReason?: string;
+  rejectedAt?: string;
+  updatedAt?: string;
+  placeId?: string | null;
+}
+
+export interface ApprovedResource extends PendingResource {
+  approvedAt: string;
+}
+
+export type NewPendingResource = Omit<PendingResource, 'id'>;
+
+// Sent to a submitter when a moderator acts on one of their submissions
+export interface SubmitterNotification {
+  id: string;
+  resourceId: string;
+  resourceName: string;
+  action: 'approved' | 'rejected' | 'requested_info';
+  message?: string;
+  at: string;
+}
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name?: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  // Newest first, capped
+  notifications: SubmitterNotification[];
+  notificationsReadAt?: string;
+}
+
+export type StorageKind = 'firestore' | 'memory' | 'json';
+
+export interface ResourceRepository {
+  readonly kind: StorageKind;
+
+  addPending(data: NewPendingResource): Promise<string>;
+  getPending(id: string): Promise<PendingResource | null>;
+  // Newest submission first
+  listPending(): Promise<PendingResource[]>;
+  // Applies `updates` and appends `event` to the moderation history
+  updatePending(id: string, updates: Partial<NewPendingResource>, event?: ModerationEvent): Promise<PendingResource | null>;
+  // Moves a submission to the approved resources, recording `event`
+  approvePending(id: string, event: ModerationEvent): Promise<ApprovedResource | null>;
+
+  // Most recently approved first
+  listResources(): Promise<ApprovedResource[]>;
+
+  // Everything one signed-in submitter sent, in any status, newest first
+  listBySubmitter(submitterId: string): Promise<PendingResource[]>;
+
+  getUser(id: string): Promise<UserProfile | null>;
+  saveUser(profile: UserProfile): Promise<void>;
+}
+
+// Cached on globalThis: Next.js bundles each API route separately in development
+const globalStore = globalThis as unknown as { __resourceRepository?: ResourceRepository };
+
+export function getStorageKind(): StorageKind {
+  const configured = process.env.RESOURCE_STORAGE;
+  if (configured === 'firestore' || configured === 'memory' || configured === 'json') return configured;
+
+  const hasFirebaseCredentials = Boolean(
+    process.env.FIREBASE_SERVICE_ACCOUNT_KEY ||
+    process.env.FIREBASE_SERVICE_ACCOUNT_PATH ||
+    process.env.GOOGLE_APPLICATION_CREDENTIALS
+  );
+  return process.env.NODE_ENV === 'production' || hasFirebaseCredentials ? 'firestore' : 'json';
+}
+
+export function getResourceRepository(): ResourceRepository {
+  if (globalStore.__resourceRepository) return globalStore.__resourceRepository;
+
+  let repository: ResourceRepository;
+  // Required lazily so the offline backends never load firebase-admin
+  switch (getStorageKind()) {
+    case 'memory':
+      repository = require('./memory-storage').memoryStorage;
+      break;
+    case 'json':
+      repository = new (require('./json-file-storage').JsonFileStorage)();
+      break;
+    default:
+      repository = new (require('./firestore-storage').FirestoreStorage)();
+  }
+
+  console.log('Community resources stored in:', repository.kind);
+  return (globalStore.__resourceRepository = repository);
+}
+
+/**
+ * Replace the active repository (tests); null re-resolves it from configuration
+ */
+export function setResourceRepository(repository: ResourceRepository | null): void {
+  globalStore.__resourceRepository = repository || undefined;
+}
@@ -0,0 +1,170 @@
+// Server-side orchestration for resource search: fans out to Google Places,
+// the static seed lists and approved community resources, then merges the
+// results into a single list with per-source provenance and timing.
+
+import { fetchPlaces, generateMockPlaces, getPlacesApiKey } from './places';
+import { getResourceRepository } from './resource-repository';
+import { dedupeResources } from './resource-dedupe';
+import { calculateDistance } from './geo';
+import { rankResources, RankingWeights } from './resource-ranking';
+import { getOpenStatus, withTimezone } from './opening-hours';
+import { loadSeedItems, readOpenStatusCache } from './open-status-cache';
+import { resolveRegion } from './regions';
+import { SEARCH_SOURCES } from './types';
+import type { ResourceResult, ResourceType, SearchResponse, SearchSource, SourceReport } from './types';
+
+export interface SearchIntent {
+  categories: ResourceType[];
+  openNowPreferred?: boolean;
+  queryTerms?: string[];
+  location: { lat: number; lng: number };
+  radius?: number;
+  sources?: SearchSource[];
+  weights?: Partial<RankingWeights>;
+}
+
+export const DEFAULT_SEARCH_RADIUS = 5000;
+
+// Places `opennow` filtering is only applied where hours are reliably published;
+// shelters often have no listed hours and would be dropped entirely.
+const OPEN_NOW_FILTER_TYPES: ResourceType[] = ['food_bank', 'clinic'];
+
+export async function searchResources(intent: SearchIntent): Promise<SearchResponse> {
+  const started = Date.now();
+  const sources = intent.sources && intent.sources.length > 0
+    ? intent.sources
+    : [...SEARCH_SOURCES];
+
+  const runners: Record<SearchSource, () => Promise<{ results: ResourceResult[]; fallback?: boolean }>> = {
+    places: () => searchPlacesSource(intent),
+    static: async () => ({ results: loadSeedResources(intent) }),
+    community: async () => ({ results: await loadCommunityResources(intent) }),
+  };
+
+  const settled = await Promise.all(sources.map(async (source) => {
+    const sourceStarted = Date.now();
+    try {
+      const { results, fallback } = await runners[source]();
+      const report: SourceReport = { source, count: results.length, durationMs: Date.now() - sourceStarted };
+      if (fallback) report.fallback = true;
+      return { results, report };
+    } catch (error: any) {
+      console.warn(`Resource search source ${source} failed:`, error);
+      const report: SourceReport = {
+        source,
+        count: 0,
+        durationMs: Date.now() - sourceStarted,
+        error: error?.message || String(error),
+      };
+      return { results: [] as ResourceResult[], report };
+    }
+  }));
+
+  const merged = dedupeResources(settled.flatMap(s => s.results));
+  const results = rankResources(merged, {
+    origin: intent.location,
+    radiusMeters: intent.radius || DEFAULT_SEARCH_RADIUS,
+    openNowPreferred: intent.openNowPreferred,
+    queryTerms: intent.queryTerms,
+    weights: intent.weights,
+  });
+
+  return {
+    results,
+    sources: settled.map(s => s.report),
+    tookMs: Date.now() - started,
+  };
+}
+
+async function searchPlacesSource(intent: SearchIntent): Promise<{ results: ResourceResult[]; fallback?: boolean }> {
+  const { lat, lng } = intent.location;
+  const radius = intent.radius || DEFAULT_SEARCH_RADIUS;
+  const q = (intent.queryTerms || []).join(' ').trim() || undefined;
+  const key = getPlacesApiKey();
+
+  if (!key) {
+    const results = intent.categories.flatMap(type => generateMockPlaces(type, lat, lng)) as ResourceResult[];
+    return { results, fallback: true };
+  }
+
+  const perType = await Promise.all(intent.categories.map(async (type) => {
+    try {
+      const results = await fetchPlaces({
+        type,
+        lat,
+        lng,
+        radius,
+        openNow: Boolean(intent.openNowPreferred) && OPEN_NOW_FILTER_TYPES.includes(type),
+        q,
+      }, key);
+      return { results: results.map(r => ({ ...r, placeId: r.id })) as ResourceResult[], fallback: false };
+    } catch (error) {
+      console.warn(`Places search failed for ${type}, using mock data:`, error);
+      return { results: generateMockPlaces(type, lat, lng) as ResourceResult[], fallback: true };
+    }
+  }));
+
+  return {
+    results: perType.flatMap(p => p.results),
+    fallback: perType.some(p => p.fallback),
+  };
+}
+
+function loadSeedResources(intent: SearchIntent): ResourceResult[] {
+  const { lat, lng } = intent.location;
+  const radiusKm = (intent.radius || DEFAULT_SEARCH_RADIUS) / 1000;
+  // Seed lists are per region; there are none outside every region
+  const region = resolveRegion(lat, lng);
+  if (!region) return [];
+
+  const openStatusCache = readOpenStatusCache();
+  const results: ResourceResult[] = [];
+
+  for (const type of intent.categories) {
+    for (const item of loadSeedItems(region, type)) {
+      if (calculateDistance(lat, lng, item.lat, item.lng) > radiusKm) continue;
+      const cached = openStatusCache[item.id];
+      const hours = withTimezone(item.hours ?? cached?.hours, region.timezone);
+      const status = getOpenStatus(hours, new Date(), cached?.openNow ?? item.openNow ?? null);
+      results.push({
+        id: item.id,
+        name: item.name,
+        type,
+        lat: item.lat,
+        lng: item.lng,
+        address: item.address,
+        openNow: status.openNow,
+        openStatus: status,
+        source: 'static',
+        // The open-status cache records which Places listing each seed matched
+        placeId: cached?.placeId ?? null,
+      });
+    }
+  }
+
+  return results;
+}
+
+async function loadCommunityResources(intent: SearchIntent): Promise<ResourceResult[]> {
+  const { lat, lng } = intent.location;
+  const radiusKm = (intent.radius || DEFAULT_SEARCH_RADIUS) / 1000;
+
+  const resources = await getResourceRepository().listResources();
+
+  return resources
+    .filter(data => intent.categories.includes(data.type))
+    .filter(data => typeof data.lat === 'number' && typeof data.lng === 'number')
+    .filter(data => calculateDistance(lat, lng, data.lat, data.lng) <= radiusKm)
+    .map(data => ({
+      id: `community-${data.id}`,
+      name: data.name,
+      type: data.type,
+      lat: data.lat,
+      lng: data.lng,
+      address: data.address,
+      openNow: null, // Community resources don't have real-time hours
+      source: 'community',
+      url: null,
+      placeId: data.placeId ?? null,
+    }));
+}
@@ -0,0 +1,358 @@
+// Request schemas shared by the API routes and the React components.
+//
+// Routes validate with lib/request-validation.ts; components import the
+// inferred types. Keep this module free of server-only imports so client
+// bundles can use it.
+
+import { z } from 'zod';
+import { parseOpenAt } from './opening-hours';
+import { ALERT_SEVERITIES, ALERT_TYPES, CURRENT_WEATHER_PROVIDERS, notificationSettingsSchema, RESOURCE_TYPES, SEARCH_SOURCES, SUBMITTABLE_RESOURCE_TYPES } from './types';
+
+export const MODERATION_STATUSES = ['pending', 'needs_info', 'approved', 'rejected'] as const;
+
+export const ADMIN_ROLES = ['viewer', 'moderator', 'admin'] as const;
+
+// Used when a location-based route is called without coordinates
+export const DEFAULT_LOCATION = { lat: 25.774, lng: -80.193 };
+
+// Keeps a single geocoding batch well inside Google's per-second quota
+export const MAX_GEOCODE_BATCH_SIZE = 100;
+
+const oneOf = (values: readonly string[]) => ({ message: `must be one of ${values.join(', ')}` });
+
+// ---- Building blocks ----
+
+export const latitudeSchema = z
+  .number({ required_error: 'is required', invalid_type_error: 'must be a number' })
+  .min(-90, 'must be between -90 and 90')
+  .max(90, 'must be between -90 and 90');
+
+export const longitudeSchema = z
+  .number({ required_error: 'is required', invalid_type_error: 'must be a number' })
+  .min(-180, 'must be between -180 and 180')
+  .max(180, 'must be between -180 and 180');
+
+export const coordinatesSchema = z.object({ lat: latitudeSchema, lng: longitudeSchema });
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+
+// Meters; Places caps search radii at 50 km
+export const radiusSchema = z
+  .number({ invalid_type_error: 'must be a number' })
+  .positive('must be positive')
+  .max(50000, 'must be at most 50000 meters');
+
+export const resourceTypeSchema = z.enum(RESOURCE_TYPES, { errorMap: () => oneOf(RESOURCE_TYPES) });
+export const submittableResourceTypeSchema = z.enum(SUBMITTABLE_RESOURCE_TYPES, { errorMap: () => oneOf(SUBMITTABLE_RESOURCE_TYPES) });
+export const moderationStatusSchema = z.enum(MODERATION_STATUSES, { errorMap: () => oneOf(MODERATION_STATUSES) });
+export const adminRoleSchema = z.enum(ADMIN_ROLES, { errorMap: () => oneOf(ADMIN_ROLES) });
+
+const requiredText = (max: number, message = 'is required') =>
+  z.string({ required_error: message, invalid_type_error: message }).trim().min(1, message).max(max, `must be at most ${max} characters`);
+
+// ---- Query strings ----
+// Values arrive as strings (or arrays when repeated); empty means "not given"
+
+function fromQuery(value: unknown): unknown {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single === '' ? undefined : single;
+}
+
+const queryNumber = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => {
+    const single = fromQuery(value);
+    return typeof single === 'string' ? Number(single) : single;
+  }, schema);
+
+const queryString = z.preprocess(fromQuery, z.string().trim().max(200, 'must be at most 200 characters').optional());
+
+const queryBoolean = z.preprocess(
+  fromQuery,
+  z.enum(['true', 'false'], { errorMap: () => ({ message: 'must be true or false' }) }).optional().transform(value => value === 'true')
+);
+
+// Comma-separated lists, e.g. ?ids=a,b
+const queryList = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(value => {
+    const single = fromQuery(value);
+    return typeof single === 'string' ? single.split(',').map(part => part.trim()).filter(Boolean) : single;
+  }, z.array(item).optional());
+
+// ISO timestamp or epoch milliseconds; absent stays undefined, meaning "now"
+const queryOpenAt = z.preprocess(fromQuery, z.string().optional()).transform((value, ctx) => {
+  if (value === undefined) return undefined;
+  const at = parseOpenAt(value);
+  if (!at) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be an ISO timestamp or epoch milliseconds' });
+    return z.NEVER;
+  }
+  return at;
+});
+
+const queryLatitude = queryNumber(latitudeSchema);
+const queryLongitude = queryNumber(longitudeSchema);
+
+export const locationQuerySchema = z.object({
+  lat: queryNumber(latitudeSchema.default(DEFAULT_LOCATION.lat)),
+  lng: queryNumber(longitudeSchema.default(DEFAULT_LOCATION.lng)),
+});
+
+export const currentWeatherQuerySchema = locationQuerySchema.extend({
+  provider: z.preprocess(
+    fromQuery,
+    z.enum(CURRENT_WEATHER_PROVIDERS, { errorMap: () => oneOf(CURRENT_WEATHER_PROVIDERS) }).default('openweather')
+  ),
+});
+
+export const nearbyQuerySchema = locationQuerySchema.extend({
+  radius: queryNumber(radiusSchema.optional()),
+  q: queryString,
+});
+
+export const placesQuerySchema = nearbyQuerySchema.extend({
+  type: z.preprocess(fromQuery, resourceTypeSchema.optional()),
+  openNow: queryBoolean,
+  openAt: queryOpenAt,
+});
+export type PlacesQuery = z.infer<typeof placesQuerySchema>;
+
+export const staticListQuerySchema = z.object({
+  type: z.preprocess(fromQuery, submittableResourceTypeSchema),
+  openAt: queryOpenAt,
+  region: queryString,
+  lat: queryLatitude.optional(),
+  lng: queryLongitude.optional(),
+});
+
+export const densityQuerySchema = z.object({
+  lat: queryLatitude,
+  lng: queryLongitude,
+  radius: queryNumber(radiusSchema.optional()),
+});
+
+export const hurricanesQuerySchema = z.object({ refresh: queryBoolean });
+
+export const geocodeQuerySchema = z
+  .object({
+    address: queryString,
+    // "lat,lng" for reverse geocoding
+    latlng: z.preprocess(fromQuery, z.string().optional()).transform((value, ctx) => {
+      if (value === undefined) return undefined;
+      const [lat, lng] = value.split(',').map(part => Number(part));
+      const parsed = coordinatesSchema.safeParse({ lat, lng });
+      if (!parsed.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be "lat,lng"' });
+        return z.NEVER;
+      }
+      return parsed.data;
+    }),
+  })
+  .refine(query => query.address || query.latlng, { message: 'address or latlng is required' });
+
+export const listPendingQuerySchema = z.object({
+  // Defaults to the open statuses; "all" lists everything
+  status: queryList(z.enum([...MODERATION_STATUSES, 'all'], { errorMap: () => oneOf([...MODERATION_STATUSES, 'all']) })),
+});
+
+export const openStatusQuerySchema = z.object({ ids: queryList(z.string()) });
+
+// ---- Bodies ----
+
+// Each query term is matched against every result, so their number and length are capped
+const MAX_QUERY_TERMS = 10;
+const queryTermsSchema = z
+  .array(z.string({ invalid_type_error: 'must be a string' }).trim().max(500, 'must be at most 500 characters'))
+  .max(MAX_QUERY_TERMS, `must list at most ${MAX_QUERY_TERMS} terms`);
+
+export const intentRequestSchema = z.object({
+  text: requiredText(500),
+  emergencyMode: z.boolean().optional(),
+});
+export type IntentRequest = z.infer<typeof intentRequestSchema>;
+
+// What /api/intent returns, whether from Gemini or the keyword fallback
+export const intentSchema = z.object({
+  language: z.enum(['en', 'es']).catch('en'),
+  categories: z.array(resourceTypeSchema),
+  openNowPreferred: z.boolean(),
+  // Kept within what /api/search accepts
+  queryTerms: z.array(z.string()).transform(terms => terms.slice(0, MAX_QUERY_TERMS)),
+  _isAI: z.boolean().optional(),
+});
+export type Intent = z.infer<typeof intentSchema>;
+
+export const searchRequestSchema = z.object({
+  // Each category is a separate Places search, so repeats are dropped
+  categories: z
+    .array(resourceTypeSchema)
+    .transform(types => Array.from(new Set(types)))
+    .pipe(z.array(resourceTypeSchema).min(1, 'must list at least one resource type').max(RESOURCE_TYPES.length)),
+  openNowPreferred: z.boolean().default(false),
+  queryTerms: queryTermsSchema.default([]),
+  location: coordinatesSchema,
+  radius: radiusSchema.optional(),
+  sources: z.array(z.enum(SEARCH_SOURCES, { errorMap: () => oneOf(SEARCH_SOURCES) })).optional(),
+  weights: z
+    .object({ distance: z.number(), openNow: z.number(), sourceTrust: z.number(), queryMatch: z.number() })
+    .partial()
+    .strict()
+    .optional(),
+});
+export type SearchRequest = z.input<typeof searchRequestSchema>;
+
+const submissionFields = {
+  name: requiredText(200),
+  type: submittableResourceTypeSchema,
+  address: requiredText(500),
+  notes: z.string({ invalid_type_error: 'must be a string' }).trim().max(2000, 'must be at most 2000 characters'),
+  lat: latitudeSchema,
+  lng: longitudeSchema,
+};
+
+// Coordinates are optional: the server geocodes the address when they're missing
+export const submissionSchema = z
+  .object({ ...submissionFields, notes: submissionFields.notes.default(''), lat: latitudeSchema.optional(), lng: longitudeSchema.optional() })
+  .refine(submission => (submission.lat === undefined) === (submission.lng === undefined), {
+    message: 'lat and lng must be given together',
+    path: ['lat'],
+  });
+export type SubmissionInput = z.input<typeof submissionSchema>;
+
+export const pendingEditSchema = z
+  .object(submissionFields)
+  .partial()
+  .refine(edits => Object.keys(edits).length > 0, { message: `Provide at least one of ${Object.keys(submissionFields).join(', ')}` });
+export type PendingEdit = z.infer<typeof pendingEditSchema>;
+
+export const moderationTargetSchema = z.object({ id: requiredText(200) });
+
+export const rejectRequestSchema = moderationTargetSchema.extend({
+  reason: requiredText(2000, 'A rejection reason is required'),
+});
+
+export const requestInfoSchema = moderationTargetSchema.extend({
+  message: requiredText(2000, 'A message describing the missing information is required'),
+});
+
+export const geocodeBatchSchema = z.object({
+  addresses: z
+    .array(z.string({ invalid_type_error: 'must be a string' }))
+    .min(1, 'must be a non-empty list of strings')
+    .max(MAX_GEOCODE_BATCH_SIZE, `At most ${MAX_GEOCODE_BATCH_SIZE} addresses per request`),
+});
+
+export const openStatusRefreshSchema = z.object({
+  ids: z.array(z.string()).optional(),
+  force: z.boolean().default(false),
+});
+
+export const adminInviteSchema = z.object({
+  email: z.string().trim().email('A valid email is required'),
+  role: adminRoleSchema,
+});
+
+export const adminRoleChangeSchema = z.object({ role: adminRoleSchema });
+
+// The push services browsers subscribe with: FCM (Chrome, Edge, Android),
+// Mozilla autopush, WNS (legacy Edge) and Apple. Subdomains count.
+export const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'push.services.mozilla.com', 'notify.windows.com', 'push.apple.com'];
+
+/**
+ * Whether the server may send to a push endpoint: https on a known push
+ * service, or plain http on loopback for a local mock service, which only
+ * tests and PUSH_ALLOW_LOCAL_ENDPOINTS=true allow. Anything else would let
+ * callers make the server post to hosts of their choosing.
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol === 'https:') {
+    return url.port === '' && PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  }
+  const allowLocal = process.env.NODE_ENV === 'test' || process.env.PUSH_ALLOW_LOCAL_ENDPOINTS === 'true';
+  return allowLocal && url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname);
+}
+
+const pushEndpointSchema = z
+  .string({ required_error: 'is required', invalid_type_error: 'must be a string' })
+  .url('must be a URL')
+  .max(2000, 'must be at most 2000 characters')
+  .refine(isPushServiceEndpoint, 'must be a push service URL');
+
+const base64urlKey = (max: number) =>
+  requiredText(max).regex(/^[A-Za-z0-9_-]+=*$/, 'must be base64url');
+
+// PushSubscription.toJSON() from the browser, plus where it wants alerts for
+export const pushSubscriptionRequestSchema = z.object({
+  subscription: z.object({
+    endpoint: pushEndpointSchema,
+    keys: z.object({ p256dh: base64urlKey(200), auth: base64urlKey(100) }),
+  }),
+  location: coordinatesSchema,
+  settings: notificationSettingsSchema.optional(),
+});
+export type PushSubscriptionRequest = z.infer<typeof pushSubscriptionRequestSchema>;
+
+export const pushUnsubscribeSchema = z.object({ endpoint: pushEndpointSchema });
+
+export const MAX_WATCH_AREAS = 20;
+export const MAX_POLYGON_POINTS = 500;
+
+const watchAreaFields = {
+  // Omit for a new area; send it back to keep an area's matches across edits
+  id: z.string().trim().max(100, 'must be at most 100 characters').optional(),
+  name: requiredText(200),
+};
+
+export const watchAreaInputSchema = z.discriminatedUnion(
+  'kind',
+  [
+    z.object({
+      ...watchAreaFields,
+      kind: z.literal('circle'),
+      center: coordinatesSchema,
+      radiusKm: z
+        .number({ required_error: 'is required', invalid_type_error: 'must be a number' })
+        .positive('must be positive')
+        .max(500, 'must be at most 500 km'),
+    }),
+    z.object({
+      ...watchAreaFields,
+      kind: z.literal('polygon'),
+      points: z
+        .array(coordinatesSchema)
+        .min(3, 'must have at least 3 points')
+        .max(MAX_POLYGON_POINTS, `must have at most ${MAX_POLYGON_POINTS} points`),
+    }),
+  ],
+  { errorMap: (issue, ctx) => (issue.code === 'invalid_union_discriminator' ? oneOf(['circle', 'polygon']) : { message: ctx.defaultError }) }
+);
+export type WatchAreaInput = z.infer<typeof watchAreaInputSchema>;
+
+const alertSubscriptionFields = {
+  name: requiredText(200),
+  // Empty clears it
+  organization: z.string({ invalid_type_error: 'must be a string' }).trim().max(200, 'must be at most 200 characters').optional(),
+  areas: z
+    .array(watchAreaInputSchema)
+    .min(1, 'must list at least one watch area')
+    .max(MAX_WATCH_AREAS, `must list at most ${MAX_WATCH_AREAS} watch areas`),
+  alertTypes: z.array(z.enum(ALERT_TYPES, { errorMap: () => oneOf(ALERT_TYPES) })).min(1, 'must list at least one alert type'),
+  minSeverity: z.enum(ALERT_SEVERITIES, { errorMap: () => oneOf(ALERT_SEVERITIES) }),
+};
+
+export const alertSubscriptionSchema = z.object({
+  ...alertSubscriptionFields,
+  alertTypes: alertSubscriptionFields.alertTypes.default([...ALERT_TYPES]),
+  minSeverity: alertSubscriptionFields.minSeverity.default('moderate'),
+});
+export type AlertSubscriptionInput = z.infer<typeof alertSubscriptionSchema>;
+
+export const alertSubscriptionEditSchema = z
+  .object(alertSubscriptionFields)
+  .partial()
+  .refine(edits => Object.keys(edits).length > 0, { message: `Provide at least one of ${Object.keys(alertSubscriptionFields).join(', ')}` });
@@ -0,0 +1,136 @@
+// Signed-in community submitters: who is calling, their profile in `users`,
+// and the notifications they receive when a moderator acts on a submission.
+//
+// Anyone can sign in through NextAuth; admin access is still decided by the
+// admin roster (lib/admin-roster.ts).
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/pages/api/auth/[...nextauth]';
+import { getResourceRepository } from './resource-repository';
+import type { PendingResource, SubmitterNotification, UserProfile } from './resource-repository';
+import type { ModerationEvent, ModerationStatus } from './moderation';
+
+export interface SignedInUser {
+  // NextAuth subject (provider account id)
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+export type SubmissionStats = Record<ModerationStatus, number> & { total: number };
+
+// What a submitter sees of their own submission: no AI review, and no
+// moderator identities in the history
+export type SubmitterSubmission = Omit<PendingResource, 'aiReview' | 'moderationHistory'> & {
+  moderationHistory: Pick<ModerationEvent, 'action' | 'at' | 'reason'>[];
+};
+
+const MAX_NOTIFICATIONS = 50;
+
+// The rate limiter and the handler both ask who is calling; the session is read once per request
+const signedInUsers = new WeakMap<NextApiRequest, Promise<SignedInUser | null>>();
+
+export function getSignedInUser(req: NextApiRequest, res: NextApiResponse): Promise<SignedInUser | null> {
+  let user = signedInUsers.get(req);
+  if (!user) {
+    user = readSignedInUser(req, res);
+    signedInUsers.set(req, user);
+  }
+  return user;
+}
+
+async function readSignedInUser(req: NextApiRequest, res: NextApiResponse): Promise<SignedInUser | null> {
+  let session: any = null;
+  try {
+    session = await getServerSession(req, res, authOptions as any);
+  } catch (error) {
+    console.error('Failed to read session:', error);
+  }
+
+  const user = session?.user;
+  return user?.id && user?.email ? { id: user.id, email: user.email, name: user.name } : null;
+}
+
+/**
+ * Guard for signed-in-only handlers: responds 401 and returns null for anonymous callers
+ */
+export async function requireUser(req: NextApiRequest, res: NextApiResponse): Promise<SignedInUser | null> {
+  const user = await getSignedInUser(req, res);
+  if (!user) res.status(401).json({ error: 'Sign in required' });
+  return user;
+}
+
+/**
+ * Create or refresh the caller's profile
+ */
+export async function touchUserProfile(user: SignedInUser): Promise<UserProfile> {
+  const repository = getResourceRepository();
+  const now = new Date().toISOString();
+  const existing = await repository.getUser(user.id);
+
+  const profile: UserProfile = {
+    notifications: [],
+    createdAt: now,
+    ...existing,
+    id: user.id,
+    email: user.email,
+    name: user.name ?? existing?.name ?? null,
+    lastSeenAt: now,
+  };
+  await repository.saveUser(profile);
+  return profile;
+}
+
+/**
+ * Tell the submitter what happened to their submission. Never throws: a
+ * failed notification must not undo the moderation decision.
+ */
+export async function notifySubmitter(
+  resource: PendingResource,
+  action: SubmitterNotification['action'],
+  message?: string
+): Promise<void> {
+  if (!resource.submitterId) return;
+
+  try {
+    const repository = getResourceRepository();
+    const profile = await repository.getUser(resource.submitterId);
+    if (!profile) return;
+
+    const notification: SubmitterNotification = {
+      id: `${action}_${resource.id}_${Date.now()}`,
+      resourceId: resource.id,
+      resourceName: resource.name,
+      action,
+      at: new Date().toISOString(),
+      ...(message ? { message } : {}),
+    };
+    await repository.saveUser({
+      ...profile,
+      notifications: [notification, ...(profile.notifications || [])].slice(0, MAX_NOTIFICATIONS),
+    });
+  } catch (error) {
+    console.warn('Failed to notify submitter of', resource.id, error);
+  }
+}
+
+export function countUnread(profile: UserProfile): number {
+  const readAt = profile.notificationsReadAt || '';
+  return profile.notifications.filter(notification => notification.at > readAt).length;
+}
+
+export function toSubmitterSubmission(submission: PendingResource): SubmitterSubmission {
+  const { aiReview, moderationHistory, ...fields } = submission;
+  return {
+    ...fields,
+    moderationHistory: (moderationHistory || []).map(({ action, at, reason }) => ({ action, at, ...(reason ? { reason } : {}) })),
+  };
+}
+
+// Groundwork for contributor reputation: how a submitter's history breaks down
+export function getSubmissionStats(submissions: PendingResource[]): SubmissionStats {
+  const stats: SubmissionStats = { total: submissions.length, pending: 0, needs_info: 0, approved: 0, rejected: 0 };
+  for (const submission of submissions) stats[submission.status]++;
+  return stats;
+}
@@ -0,0 +1,271 @@
+// Server-side evaluator for alert subscriptions: matches NWS alerts and
+// hurricane tracks against every registered watch area and records the
+// matches on the subscription.
+//
+// Alerts arrive for a point (NWS answers point queries). An alert with a
+// polygon matches every area the polygon reaches; one without matches the
+// areas containing the point it was fetched for. /api/weather/alerts hands
+// over what it fetched when it changed, and the scheduled sweep (POST
+// /api/subscriptions/evaluate) asks NWS about the center of every area itself,
+// so areas nobody is looking at are still watched. Storms match
+// areas within HURRICANE_WATCH_KM of their current position, like the in-page
+// hurricane proximity check.
+//
+// Matches are keyed by notificationKey() through the condition id, so routine
+// NWS updates keep their match while a severity upgrade or added zones replace
+// it with a new one. A cancelled alert takes its matches with it.
+
+import { getAlertSubscriptionStore } from './alert-subscriptions';
+import { areaCenter, containsPoint, distanceToArea, geometryIntersectsArea } from './geofence';
+import { HurricaneAPIService } from './hurricane-apis';
+import { fetchWeatherAlerts, isMockAlert } from './nws-alerts';
+import { alertConditions, hurricaneCondition } from './weather-conditions';
+import { ALERT_SEVERITIES, CONDITION_SEVERITIES } from './types';
+import type { AlertSeverity, AlertSubscription, ConditionSeverity, GeoPoint, HurricaneTrack, SubscriptionMatch, WatchArea, WeatherAlert, WeatherCondition } from './types';
+
+export interface EvaluationSummary {
+  // Subscriptions whose matches changed
+  updated: number;
+  newMatches: number;
+}
+
+export interface SweepSummary extends EvaluationSummary {
+  subscriptions: number;
+  // NWS lookups made, one per distinct area center
+  points: number;
+  hurricanes: number;
+}
+
+// A storm match lapses if no evaluation sees the storm in range for this long
+const HURRICANE_MATCH_TTL_MS = 6 * 60 * 60 * 1000;
+const MAX_MATCHES = 100;
+
+interface Candidate {
+  area: WatchArea;
+  condition: WeatherCondition;
+  expiresAt: string;
+}
+
+type CandidateSource = (subscription: AlertSubscription) => Candidate[];
+
+// ALERT_SEVERITIES and CONDITION_SEVERITIES both run least to most urgent
+function meetsSeverity(severity: AlertSeverity | ConditionSeverity, minSeverity: AlertSeverity): boolean {
+  const rank = Math.max(ALERT_SEVERITIES.indexOf(severity as AlertSeverity), CONDITION_SEVERITIES.indexOf(severity as ConditionSeverity));
+  return rank >= ALERT_SEVERITIES.indexOf(minSeverity);
+}
+
+/**
+ * The alerts in effect at `point` that a subscription asked for, once per area
+ * the alert's polygon reaches (or, without one, per area containing the point)
+ */
+export function matchAlerts(subscription: AlertSubscription, point: GeoPoint, alerts: WeatherAlert[], place?: string): Candidate[] {
+  return matchAreaAlerts(subscription, alerts, alert => subscription.areas.filter(area =>
+    alert.geometry ? geometryIntersectsArea(alert.geometry, area) : containsPoint(area, point)
+  ), place);
+}
+
+function matchAreaAlerts(
+  subscription: AlertSubscription,
+  alerts: WeatherAlert[],
+  areasFor: (alert: WeatherAlert) => WatchArea[],
+  place?: string
+): Candidate[] {
+  const wanted = alerts.filter(alert =>
+    alert.isActive &&
+    !isMockAlert(alert) &&
+    subscription.alertTypes.includes(alert.type) &&
+    meetsSeverity(alert.severity, subscription.minSeverity)
+  );
+
+  return wanted.flatMap(alert => {
+    const areas = areasFor(alert);
+    if (areas.length === 0) return [];
+
+    // Matches are stored on the subscription; zone outlines would bloat it
+    const { geometry, ...recorded } = alert;
+    return alertConditions([recorded], place).flatMap(condition =>
+      areas.map(area => ({ area, condition, expiresAt: alert.endTime }))
+    );
+  });
+}
+
+/**
+ * Storms within range of a subscription's areas; below hurricane strength they count as tropical storms
+ */
+export function matchHurricanes(subscription: AlertSubscription, hurricanes: HurricaneTrack[], now = Date.now()): Candidate[] {
+  const expiresAt = new Date(now + HURRICANE_MATCH_TTL_MS).toISOString();
+  const candidates: Candidate[] = [];
+
+  for (const hurricane of hurricanes) {
+    const type = (hurricane.currentPosition.category ?? 0) >= 1 ? 'hurricane' : 'tropical_storm';
+    if (!subscription.alertTypes.includes(type)) continue;
+
+    for (const area of subscription.areas) {
+      const condition = hurricaneCondition(hurricane, distanceToArea(area, hurricane.currentPosition));
+      if (condition && meetsSeverity(condition.severity, subscription.minSeverity)) {
+        candidates.push({ area, condition, expiresAt });
+      }
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Fold new candidates into the recorded matches and drop the expired ones,
+ * along with those for alert events that were cancelled
+ */
+export function mergeMatches(
+  matches: SubscriptionMatch[],
+  candidates: Candidate[],
+  now = Date.now(),
+  cancelled: ReadonlySet<string> = new Set()
+): { matches: SubscriptionMatch[]; added: number; changed: boolean } {
+  const at = new Date(now).toISOString();
+  const current = matches.filter(match =>
+    Date.parse(match.expiresAt) > now && !cancelled.has(match.condition.alert?.eventId ?? '')
+  );
+  const byId = new Map(current.map(match => [match.id, match]));
+  let added = 0;
+
+  for (const { area, condition, expiresAt } of candidates) {
+    const id = `${area.id}:${condition.id}`;
+    const existing = byId.get(id);
+    if (!existing) added++;
+
+    // A meaningful update replaces the match for the alert's earlier revision
+    const eventId = condition.alert?.eventId;
+    for (const [key, match] of byId) {
+      if (eventId && key !== id && match.areaId === area.id && match.condition.alert?.eventId === eventId) byId.delete(key);
+    }
+
+    byId.set(id, {
+      id,
+      areaId: area.id,
+      areaName: area.name,
+      condition,
+      firstMatchedAt: existing?.firstMatchedAt ?? at,
+      lastMatchedAt: at,
+      expiresAt,
+    });
+  }
+
+  return {
+    matches: [...byId.values()].sort((a, b) => b.firstMatchedAt.localeCompare(a.firstMatchedAt)).slice(0, MAX_MATCHES),
+    added,
+    changed: candidates.length > 0 || current.length !== matches.length,
+  };
+}
+
+// Events among the alerts that a later message cancelled
+function cancelledEvents(alerts: WeatherAlert[]): Set<string> {
+  return new Set(alerts.flatMap(alert => (alert.cancelledAt && alert.eventId ? [alert.eventId] : [])));
+}
+
+async function apply(
+  subscriptions: AlertSubscription[],
+  sources: CandidateSource[],
+  { evaluatedAt, cancelled }: { evaluatedAt?: number; cancelled?: ReadonlySet<string> } = {}
+): Promise<EvaluationSummary> {
+  const store = getAlertSubscriptionStore();
+  const now = evaluatedAt ?? Date.now();
+  const summary: EvaluationSummary = { updated: 0, newMatches: 0 };
+
+  for (const subscription of subscriptions) {
+    const candidates = sources.flatMap(source => source(subscription));
+    const { matches, added, changed } = mergeMatches(subscription.matches, candidates, now, cancelled);
+    if (!changed && evaluatedAt === undefined) continue;
+
+    summary.updated++;
+    summary.newMatches += added;
+    await store.save({
+      ...subscription,
+      matches,
+      ...(evaluatedAt !== undefined ? { lastEvaluatedAt: new Date(evaluatedAt).toISOString() } : {}),
+    });
+  }
+  return summary;
+}
+
+/**
+ * Match the alerts in effect at a point, as fetched by /api/weather/alerts;
+ * pass the cancelled alerts too so their matches are cleared
+ */
+export async function evaluateAlertsAt(lat: number, lng: number, alerts: WeatherAlert[], place?: string): Promise<EvaluationSummary> {
+  const subscriptions = await getAlertSubscriptionStore().list();
+  return apply(subscriptions, [subscription => matchAlerts(subscription, { lat, lng }, alerts, place)], {
+    cancelled: cancelledEvents(alerts),
+  });
+}
+
+/**
+ * Match storm positions, as fetched by /api/hurricanes
+ */
+export async function evaluateHurricanes(hurricanes: HurricaneTrack[]): Promise<EvaluationSummary> {
+  const subscriptions = await getAlertSubscriptionStore().list();
+  return apply(subscriptions, [subscription => matchHurricanes(subscription, hurricanes)]);
+}
+
+// NWS takes at most 4 decimals (about 10 m)
+function nwsPoint(area: WatchArea): GeoPoint {
+  const center = areaCenter(area);
+  return { lat: Number(center.lat.toFixed(4)), lng: Number(center.lng.toFixed(4)) };
+}
+
+function pointKey(point: GeoPoint): string {
+  return `${point.lat},${point.lng}`;
+}
+
+/**
+ * Evaluate every subscription from fresh data: the NWS alerts at the center
+ * of each watch area, which apply to that area along with any other area their
+ * polygon reaches, and the current storms
+ */
+export async function sweepSubscriptions(): Promise<SweepSummary> {
+  const subscriptions = await getAlertSubscriptionStore().list();
+
+  const points = new Map<string, GeoPoint>();
+  for (const subscription of subscriptions) {
+    for (const area of subscription.areas) points.set(pointKey(nwsPoint(area)), nwsPoint(area));
+  }
+
+  // One at a time, to stay well inside NWS rate limits
+  const alertsAt = new Map<string, WeatherAlert[]>();
+  for (const [key, point] of points) {
+    alertsAt.set(key, await fetchWeatherAlerts(point.lat, point.lng));
+  }
+  const { hurricanes } = await HurricaneAPIService.getInstance().getGlobalHurricanes();
+
+  const fetched = [...alertsAt.values()].flat();
+  const outlined = new Map<string, WeatherAlert>();
+  for (const alert of fetched) {
+    if (alert.geometry) outlined.set(alert.id, alert);
+  }
+
+  const summary = await apply(
+    subscriptions,
+    [
+      subscription => subscription.areas.flatMap(area => {
+        const own = alertsAt.get(pointKey(nwsPoint(area))) ?? [];
+        const reaching = [...outlined.values()].filter(alert =>
+          !own.some(ownAlert => ownAlert.id === alert.id) && geometryIntersectsArea(alert.geometry!, area)
+        );
+        return matchAreaAlerts(subscription, [...own, ...reaching], () => [area]);
+      }),
+      subscription => matchHurricanes(subscription, hurricanes),
+    ],
+    { evaluatedAt: Date.now(), cancelled: cancelledEvents(fetched) }
+  );
+  return { ...summary, subscriptions: subscriptions.length, points: points.size, hurricanes: hurricanes.length };
+}
+
+/**
+ * Run an evaluation for a route; failures are logged and never fail the request
+ */
+export async function evaluateSafely(label: string, evaluate: () => Promise<EvaluationSummary>): Promise<void> {
+  try {
+    const summary = await evaluate();
+    if (summary.newMatches) console.log(`Alert subscriptions (${label}):`, summary);
+  } catch (error) {
+    console.error(`Alert subscriptions (${label}) failed:`, error);
+  }
+}
@@ -0,0 +1,41 @@
+// Population density zones from /api/population-density, drawn as map
+// overlays and listed in the crowd density panel.
+
+import { z } from 'zod';
+import { guard, reader, timestampSchema } from './wire';
+
+export const DENSITY_SCHEMA_VERSION = 1;
+
+export const DENSITY_LEVELS = ['very_high', 'high', 'medium', 'low'] as const;
+export type DensityLevel = typeof DENSITY_LEVELS[number];
+
+export const densityZoneSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  density: z.enum(DENSITY_LEVELS),
+  population: z.number(),
+  riskLevel: z.string(),
+  description: z.string(),
+  distance: z.number(), // meters from the requested point
+  radius: z.number(), // meters, for the overlay circle
+  color: z.string(),
+  opacity: z.number(),
+  crowdingScore: z.number(),
+});
+export type DensityZone = z.infer<typeof densityZoneSchema>;
+
+// The fields a region defines; the rest are derived per request
+export type RegionDensityZone = Pick<DensityZone, 'name' | 'lat' | 'lng' | 'density' | 'population' | 'riskLevel' | 'description'>;
+
+export const densityResponseSchema = z.object({
+  zones: z.array(densityZoneSchema),
+  region: z.string().nullable(),
+  timestamp: timestampSchema,
+  source: z.string(),
+});
+export type DensityResponse = z.infer<typeof densityResponseSchema>;
+
+export const isDensityZone = guard(densityZoneSchema);
+export const readDensityResponse = reader(densityResponseSchema, DENSITY_SCHEMA_VERSION, '/api/population-density');
@@ -0,0 +1,101 @@
+// Hurricanes: tropical cyclone tracks from /api/hurricanes and
+// /api/potential-hurricanes.
+
+import { z } from 'zod';
+import { alertGeometrySchema } from './weather';
+import { guard, reader, timestampSchema } from './wire';
+
+export const HURRICANE_SCHEMA_VERSION = 1;
+
+export const STORM_STATUSES = ['active', 'dissipated', 'post-tropical'] as const;
+export type StormStatus = typeof STORM_STATUSES[number];
+
+export const STORM_BASINS = ['ATL', 'EPAC', 'CPAC', 'WPAC', 'IO', 'SH'] as const;
+export type StormBasin = typeof STORM_BASINS[number];
+
+// observed: an NHC advisory's analysis or a provider's current report;
+// forecast: from a forecast, NHC's official one for NHC storms;
+// estimated: worked out here, e.g. the fetch time standing in for a report time
+export const VALUE_PROVENANCES = ['observed', 'forecast', 'estimated'] as const;
+export type ValueProvenance = typeof VALUE_PROVENANCES[number];
+
+// Where each value of a position came from
+export const positionProvenanceSchema = z.object({
+  position: z.enum(VALUE_PROVENANCES),
+  timestamp: z.enum(VALUE_PROVENANCES),
+  windSpeed: z.enum(VALUE_PROVENANCES),
+  // Absent when the position has no pressure
+  pressure: z.enum(VALUE_PROVENANCES).optional(),
+});
+export type PositionProvenance = z.infer<typeof positionProvenanceSchema>;
+
+export const hurricanePositionSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+  timestamp: timestampSchema,
+  windSpeed: z.number(), // mph
+  // Gusts, where the source gives them
+  windGust: z.number().optional(), // mph
+  pressure: z.number().optional(), // mb
+  // Saffir-Simpson; 0 below hurricane strength
+  category: z.number().optional(),
+  // Absent from sources that don't say
+  provenance: positionProvenanceSchema.optional(),
+});
+export type HurricanePosition = z.infer<typeof hurricanePositionSchema>;
+
+export const WATCH_WARNING_TYPES = ['hurricane_warning', 'hurricane_watch', 'tropical_storm_warning', 'tropical_storm_watch'] as const;
+export type WatchWarningType = typeof WATCH_WARNING_TYPES[number];
+
+// Stretches of coastline under a watch or warning, GeoJSON [lng, lat] lines
+export const stormWatchWarningSchema = z.object({
+  type: z.enum(WATCH_WARNING_TYPES),
+  coastline: z.array(z.array(z.array(z.number()).min(2))),
+});
+export type StormWatchWarning = z.infer<typeof stormWatchWarningSchema>;
+
+// Where sustained winds reach a threshold, from NHC's quadrant wind radii
+export const windRadiiSchema = z.object({
+  thresholdKt: z.union([z.literal(34), z.literal(50), z.literal(64)]),
+  // When the extent is forecast for; absent for the current extent
+  validTime: timestampSchema.optional(),
+  geometry: alertGeometrySchema,
+});
+export type WindRadii = z.infer<typeof windRadiiSchema>;
+
+// NHC GIS products for a storm's latest advisory (lib/nhc-products.ts)
+export const stormProductsSchema = z.object({
+  // Advisory number, e.g. "011"
+  advisory: z.string(),
+  issuedAt: timestampSchema.optional(),
+  // Probable track of the center; not the extent of the storm's impacts
+  cone: alertGeometrySchema.optional(),
+  watchesWarnings: z.array(stormWatchWarningSchema),
+  windField: z.array(windRadiiSchema),
+  forecastWindField: z.array(windRadiiSchema),
+});
+export type StormProducts = z.infer<typeof stormProductsSchema>;
+
+export const hurricaneTrackSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  currentPosition: hurricanePositionSchema,
+  historicalPositions: z.array(hurricanePositionSchema),
+  forecastPositions: z.array(hurricanePositionSchema),
+  status: z.enum(STORM_STATUSES),
+  basin: z.enum(STORM_BASINS),
+  // Only for storms NHC is issuing advisories on
+  products: stormProductsSchema.optional(),
+});
+export type HurricaneTrack = z.infer<typeof hurricaneTrackSchema>;
+
+export const hurricaneResponseSchema = z.object({
+  hurricanes: z.array(hurricaneTrackSchema),
+  lastUpdated: timestampSchema,
+  // The feed the tracks came from, e.g. "NOAA RSS"
+  source: z.string(),
+});
+export type HurricaneResponse = z.infer<typeof hurricaneResponseSchema>;
+
+export const isHurricaneTrack = guard(hurricaneTrackSchema);
+export const readHurricaneResponse = reader(hurricaneResponseSchema, HURRICANE_SCHEMA_VERSION, '/api/hurricanes');
@@ -0,0 +1,13 @@
+// Domain types shared by the API routes, lib services and components.
+//
+// Each shape is a zod schema with its inferred type, so the server and the
+// client agree on one definition and can check it at runtime. Like
+// lib/schemas.ts, keep this module free of server-only imports.
+
+export * from './wire';
+export * from './resources';
+export * from './weather';
+export * from './hurricanes';
+export * from './density';
+export * from './notifications';
+export * from './subscriptions';
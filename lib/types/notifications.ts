@@ -0,0 +1,55 @@
+// Weather notifications: the settings users choose and the conditions the
+// notification engine (lib/weather-notification-engine.ts) reports.
+
+import { z } from 'zod';
+import { timestampSchema } from './wire';
+import { weatherAlertSchema } from './weather';
+
+export const ALERT_FREQUENCIES = ['immediate', 'hourly', 'daily'] as const;
+export type AlertFrequency = typeof ALERT_FREQUENCIES[number];
+
+// Each field falls back to its default on its own, so settings saved by an
+// older build (or edited by hand) still load
+export const notificationSettingsSchema = z.object({
+  // Browser notifications for urgent conditions; the in-app banners always show
+  enablePushNotifications: z.boolean().catch(true),
+  enableHurricaneAlerts: z.boolean().catch(true),
+  enableSevereWeatherAlerts: z.boolean().catch(true),
+  enableModerateWeatherAlerts: z.boolean().catch(true),
+  // How often browser notifications may interrupt
+  alertFrequency: z.enum(ALERT_FREQUENCIES).catch('immediate'),
+  // Simulated conditions in place of the real providers
+  testMode: z.boolean().catch(false),
+});
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = notificationSettingsSchema.parse({});
+
+// Least to most urgent
+export const CONDITION_SEVERITIES = ['low', 'moderate', 'severe', 'extreme'] as const;
+export type ConditionSeverity = typeof CONDITION_SEVERITIES[number];
+
+export const CONDITION_TYPES = ['hurricane', 'storm', 'flood', 'rain', 'alert'] as const;
+export type ConditionType = typeof CONDITION_TYPES[number];
+
+export const weatherConditionSchema = z.object({
+  // Names what is happening, not who reported it, so providers that see the
+  // same thing collapse into one condition
+  id: z.string(),
+  type: z.enum(CONDITION_TYPES),
+  severity: z.enum(CONDITION_SEVERITIES),
+  title: z.string(),
+  description: z.string(),
+  recommendation: z.string(),
+  icon: z.string(),
+  source: z.string(),
+  // 0-100; picks between providers reporting the same condition
+  confidence: z.number(),
+  distance: z.number().optional(), // km from the watched location
+  // Locality the provider reported for the watched location
+  place: z.string().optional(),
+  // The NWS alert behind the condition, when there is one
+  alert: weatherAlertSchema.optional(),
+  lastUpdated: timestampSchema,
+});
+export type WeatherCondition = z.infer<typeof weatherConditionSchema>;
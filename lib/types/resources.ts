@@ -0,0 +1,76 @@
+// Resources: what /api/search returns and the categories people search for.
+
+import { z } from 'zod';
+import { guard, reader, timestampSchema } from './wire';
+
+export const RESOURCE_SCHEMA_VERSION = 1;
+
+export const RESOURCE_TYPES = ['shelter', 'food_bank', 'clinic', 'police', 'fire'] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+// Community submissions cover the resources people can walk into, not emergency services
+export const SUBMITTABLE_RESOURCE_TYPES = ['shelter', 'food_bank', 'clinic'] as const;
+export type SubmittableResourceType = typeof SUBMITTABLE_RESOURCE_TYPES[number];
+
+export const SEARCH_SOURCES = ['places', 'static', 'community'] as const;
+export type SearchSource = typeof SEARCH_SOURCES[number];
+
+export const OPEN_STATES = ['open', 'closed', 'unknown'] as const;
+export type OpenState = typeof OPEN_STATES[number];
+
+export const openStatusSchema = z.object({
+  state: z.enum(OPEN_STATES),
+  openNow: z.boolean().nullable(),
+  closesSoon: z.boolean(),
+  closesAt: timestampSchema.nullable(),
+  opensAt: timestampSchema.nullable(),
+  evaluatedAt: timestampSchema,
+  note: z.string().optional(),
+});
+export type OpenStatus = z.infer<typeof openStatusSchema>;
+
+// One of the records a de-duplicated resource was merged from
+export const resourceAttributionSchema = z.object({
+  id: z.string(),
+  source: z.string(),
+  placeId: z.string().nullable().optional(),
+});
+export type ResourceAttribution = z.infer<typeof resourceAttributionSchema>;
+
+export const resourceResultSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(RESOURCE_TYPES),
+  lat: z.number(),
+  lng: z.number(),
+  address: z.string().optional(),
+  openNow: z.boolean().nullable(),
+  openStatus: openStatusSchema.optional(),
+  source: z.string(),
+  url: z.string().nullable().optional(),
+  placeId: z.string().nullable().optional(),
+  attribution: z.array(resourceAttributionSchema).optional(),
+  distance: z.string().optional(),
+  distanceMeters: z.number().optional(),
+  score: z.number().optional(),
+});
+export type ResourceResult = z.infer<typeof resourceResultSchema>;
+
+export const sourceReportSchema = z.object({
+  source: z.enum(SEARCH_SOURCES),
+  count: z.number(),
+  durationMs: z.number(),
+  fallback: z.boolean().optional(),
+  error: z.string().optional(),
+});
+export type SourceReport = z.infer<typeof sourceReportSchema>;
+
+export const searchResponseSchema = z.object({
+  results: z.array(resourceResultSchema),
+  sources: z.array(sourceReportSchema),
+  tookMs: z.number(),
+});
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+
+export const isResourceResult = guard(resourceResultSchema);
+export const readSearchResponse = reader(searchResponseSchema, RESOURCE_SCHEMA_VERSION, '/api/search');
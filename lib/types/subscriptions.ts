@@ -0,0 +1,87 @@
+// Alert subscriptions: watch areas registered through /api/subscriptions and
+// the NWS alerts and hurricanes the server-side evaluator
+// (lib/subscription-evaluator.ts) has matched against them.
+
+import { z } from 'zod';
+import { guard, reader, timestampSchema } from './wire';
+import { weatherConditionSchema } from './notifications';
+import { ALERT_SEVERITIES, ALERT_TYPES } from './weather';
+
+export const SUBSCRIPTION_SCHEMA_VERSION = 1;
+
+export const geoPointSchema = z.object({ lat: z.number(), lng: z.number() });
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+const watchAreaFields = {
+  // Stable across edits, so matches stay attached to their area
+  id: z.string(),
+  name: z.string(),
+};
+
+// A facility and its surroundings
+export const circleWatchAreaSchema = z.object({
+  ...watchAreaFields,
+  kind: z.literal('circle'),
+  center: geoPointSchema,
+  radiusKm: z.number(),
+});
+
+// A service area or county outline; the ring closes itself
+export const polygonWatchAreaSchema = z.object({
+  ...watchAreaFields,
+  kind: z.literal('polygon'),
+  points: z.array(geoPointSchema),
+});
+
+export const watchAreaSchema = z.discriminatedUnion('kind', [circleWatchAreaSchema, polygonWatchAreaSchema]);
+export type WatchArea = z.infer<typeof watchAreaSchema>;
+export type CircleWatchArea = z.infer<typeof circleWatchAreaSchema>;
+export type PolygonWatchArea = z.infer<typeof polygonWatchAreaSchema>;
+
+export const subscriptionMatchSchema = z.object({
+  // `${areaId}:${condition.id}`
+  id: z.string(),
+  areaId: z.string(),
+  areaName: z.string(),
+  condition: weatherConditionSchema,
+  firstMatchedAt: timestampSchema,
+  lastMatchedAt: timestampSchema,
+  // When the alert ends, or when a storm match lapses without being seen again
+  expiresAt: timestampSchema,
+});
+export type SubscriptionMatch = z.infer<typeof subscriptionMatchSchema>;
+
+export const alertSubscriptionSchema = z.object({
+  id: z.string(),
+  // Signed-in user who registered it
+  ownerId: z.string(),
+  ownerEmail: z.string(),
+  name: z.string(),
+  // Shelter operator or agency the areas belong to
+  organization: z.string().optional(),
+  areas: z.array(watchAreaSchema),
+  // Alert types to match; hurricane tracks count as hurricane or tropical_storm
+  alertTypes: z.array(z.enum(ALERT_TYPES)),
+  // Least severe alert to match
+  minSeverity: z.enum(ALERT_SEVERITIES),
+  // Matches still in effect, most recent first
+  matches: z.array(subscriptionMatchSchema),
+  lastEvaluatedAt: timestampSchema.optional(),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+});
+export type AlertSubscription = z.infer<typeof alertSubscriptionSchema>;
+
+export const alertSubscriptionsResponseSchema = z.object({
+  subscriptions: z.array(alertSubscriptionSchema),
+});
+export type AlertSubscriptionsResponse = z.infer<typeof alertSubscriptionsResponseSchema>;
+
+export const alertSubscriptionResponseSchema = z.object({
+  subscription: alertSubscriptionSchema,
+});
+export type AlertSubscriptionResponse = z.infer<typeof alertSubscriptionResponseSchema>;
+
+export const isWatchArea = guard(watchAreaSchema);
+export const readAlertSubscriptionsResponse = reader(alertSubscriptionsResponseSchema, SUBSCRIPTION_SCHEMA_VERSION, '/api/subscriptions');
+export const readAlertSubscriptionResponse = reader(alertSubscriptionResponseSchema, SUBSCRIPTION_SCHEMA_VERSION, '/api/subscriptions/[id]');
@@ -0,0 +1,132 @@
+// Weather: NWS alerts and the current conditions and forecast from
+// /api/weather/*.
+
+import { z } from 'zod';
+import { guard, reader, timestampSchema } from './wire';
+
+export const WEATHER_SCHEMA_VERSION = 1;
+
+export const ALERT_SEVERITIES = ['minor', 'moderate', 'severe', 'extreme'] as const;
+export type AlertSeverity = typeof ALERT_SEVERITIES[number];
+
+// Where /api/weather/current takes its conditions from
+export const CURRENT_WEATHER_PROVIDERS = ['openweather', 'accuweather'] as const;
+export type CurrentWeatherProvider = typeof CURRENT_WEATHER_PROVIDERS[number];
+
+export const ALERT_TYPES = ['hurricane', 'tropical_storm', 'tornado', 'flood', 'thunderstorm', 'other'] as const;
+export type AlertType = typeof ALERT_TYPES[number];
+
+// GeoJSON positions run [lng, lat]
+const positionSchema = z.array(z.number()).min(2);
+const linearRingSchema = z.array(positionSchema);
+
+// Where an alert is in effect: the warning polygon NWS drew (tornado and flash
+// flood warnings) or the outline of the forecast zones it covers
+export const alertGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(linearRingSchema) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(linearRingSchema)) }),
+]);
+export type AlertGeometry = z.infer<typeof alertGeometrySchema>;
+
+// CAP messageType of an NWS message
+export const ALERT_MESSAGE_TYPES = ['alert', 'update', 'cancel'] as const;
+export type AlertMessageType = typeof ALERT_MESSAGE_TYPES[number];
+
+// An earlier message in an alert's lineage (lib/alert-lineage.ts)
+export const alertMessageSummarySchema = z.object({
+  id: z.string(),
+  sent: timestampSchema,
+  messageType: z.enum(ALERT_MESSAGE_TYPES),
+  severity: z.enum(ALERT_SEVERITIES),
+  // VTEC action, e.g. NEW, CON, EXA, CAN
+  action: z.string().optional(),
+});
+export type AlertMessageSummary = z.infer<typeof alertMessageSummarySchema>;
+
+export const weatherAlertSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string(),
+  severity: z.enum(ALERT_SEVERITIES),
+  type: z.enum(ALERT_TYPES),
+  startTime: timestampSchema,
+  endTime: timestampSchema,
+  source: z.string(),
+  areas: z.array(z.string()),
+  // Whether the alert is in effect right now, between startTime and endTime
+  isActive: z.boolean(),
+  // Absent when NWS gave no polygon and the zones could not be resolved
+  geometry: alertGeometrySchema.optional(),
+  // Lineage, for NWS alerts: the event every update of this alert belongs to,
+  // the latest message's type, the count of meaningful changes (severity
+  // upgrades, added zones) and the earlier messages, oldest first
+  eventId: z.string().optional(),
+  messageType: z.enum(ALERT_MESSAGE_TYPES).optional(),
+  revision: z.number().int().min(0).optional(),
+  history: z.array(alertMessageSummarySchema).optional(),
+  // Set when a later message cancelled the alert or replaced it with another
+  cancelledAt: timestampSchema.optional(),
+});
+export type WeatherAlert = z.infer<typeof weatherAlertSchema>;
+
+export const weatherLocationSchema = z.object({
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+});
+export type WeatherLocation = z.infer<typeof weatherLocationSchema>;
+
+// Imperial units: °F, mph, miles
+export const weatherCurrentSchema = z.object({
+  temperature: z.number(),
+  condition: z.string(),
+  humidity: z.number(),
+  windSpeed: z.number(),
+  windDirection: z.number(),
+  pressure: z.number(),
+  visibility: z.number(),
+  uvIndex: z.number(),
+  timestamp: timestampSchema,
+});
+export type WeatherCurrent = z.infer<typeof weatherCurrentSchema>;
+
+export const forecastDaySchema = z.object({
+  date: z.string(), // YYYY-MM-DD, local to the forecast location
+  high: z.number(),
+  low: z.number(),
+  condition: z.string(),
+  precipitation: z.number(),
+  windSpeed: z.number(),
+  humidity: z.number(),
+  isHurricaneRisk: z.boolean(),
+});
+export type ForecastDay = z.infer<typeof forecastDaySchema>;
+
+// GET /api/weather/current
+export const weatherResponseSchema = z.object({
+  current: weatherCurrentSchema,
+  alerts: z.array(weatherAlertSchema),
+  location: weatherLocationSchema,
+});
+export type WeatherResponse = z.infer<typeof weatherResponseSchema>;
+
+// GET /api/weather/alerts
+export const alertsResponseSchema = z.object({
+  alerts: z.array(weatherAlertSchema),
+  lastUpdated: timestampSchema,
+  location: weatherLocationSchema,
+});
+export type AlertsResponse = z.infer<typeof alertsResponseSchema>;
+
+// GET /api/weather/forecast
+export const forecastResponseSchema = z.object({
+  forecast: z.array(forecastDaySchema),
+  location: weatherLocationSchema,
+  lastUpdated: timestampSchema,
+});
+export type ForecastResponse = z.infer<typeof forecastResponseSchema>;
+
+export const isWeatherAlert = guard(weatherAlertSchema);
+export const readWeatherResponse = reader(weatherResponseSchema, WEATHER_SCHEMA_VERSION, '/api/weather/current');
+export const readAlertsResponse = reader(alertsResponseSchema, WEATHER_SCHEMA_VERSION, '/api/weather/alerts');
+export const readForecastResponse = reader(forecastResponseSchema, WEATHER_SCHEMA_VERSION, '/api/weather/forecast');
@@ -0,0 +1,49 @@
+// JSON envelopes shared by the API routes and the components that read them.
+//
+// Every response body carries `schemaVersion`, the version of its domain's
+// shapes. Bump a domain's version when a field is removed, renamed or changes
+// meaning; adding an optional field doesn't need a bump. Clients read bodies
+// through a `reader`, which logs and returns null when the body has drifted
+// from the shape the bundle was built against.
+
+import { z } from 'zod';
+
+// ISO 8601, with `Z` or a UTC offset (NWS sends local offsets)
+export const timestampSchema = z.string().datetime({ offset: true });
+
+export type Versioned<T> = T & { schemaVersion: number };
+
+/**
+ * Stamp a response body with the version of its shape
+ */
+export function versioned<T extends object>(schemaVersion: number, body: T): Versioned<T> {
+  return { schemaVersion, ...body };
+}
+
+/**
+ * Type guard backed by a schema, for checking single values at runtime
+ */
+export function guard<T extends z.ZodTypeAny>(schema: T) {
+  return (value: unknown): value is z.infer<T> => schema.safeParse(value).success;
+}
+
+/**
+ * Checks a response body's version and shape. Returns the body untouched so
+ * fields added by a newer server survive, or null after logging the drift.
+ */
+export function reader<T extends z.ZodTypeAny>(schema: T, schemaVersion: number, label: string) {
+  return (body: unknown): Versioned<z.infer<T>> | null => {
+    const version = (body as { schemaVersion?: unknown } | null)?.schemaVersion;
+    if (version !== schemaVersion) {
+      console.warn(`${label}: expected schemaVersion ${schemaVersion}, got ${String(version)}`);
+      return null;
+    }
+
+    const result = schema.safeParse(body);
+    if (!result.success) {
+      console.warn(`${label}: response does not match schemaVersion ${schemaVersion}`, result.error.issues);
+      return null;
+    }
+    return body as Versioned<z.infer<T>>;
+  };
+}
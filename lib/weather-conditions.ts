@@ -0,0 +1,188 @@
+// Weather conditions: what NWS alerts, hurricane tracks and current
+// observations mean for one location, in the shape every notification channel
+// shares. The in-page engine (lib/weather-notification-engine.ts) and the Web
+// Push dispatcher (lib/push-dispatcher.ts) both build their conditions here,
+// so a condition has the same id, title and advice wherever it shows up.
+
+import { notificationKey } from './alert-lineage'
+import { WeatherService } from './weather-service'
+import { calculateDistance } from './geo'
+import { CONDITION_SEVERITIES } from './types'
+import type { AlertFrequency, AlertType, ConditionSeverity, ConditionType, HurricaneTrack, NotificationSettings, WeatherAlert, WeatherCondition, WeatherCurrent } from './types'
+
+// Minimum gap between interrupting notifications (browser or push)
+export const ANNOUNCE_INTERVAL_MS: Record<AlertFrequency, number> = {
+  immediate: 0,
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+}
+
+// Storms closer than these (km) raise a hurricane condition
+const HURRICANE_WARNING_KM = 500
+export const HURRICANE_WATCH_KM = 1000
+
+/**
+ * Grid cell of roughly 11 km, the area one /api/weather/alerts lookup speaks
+ * for; push subscriptions are filed under it
+ */
+export function locationCell(lat: number, lng: number): string {
+  return `${lat.toFixed(1)},${lng.toFixed(1)}`
+}
+
+export function severityRank(severity: ConditionSeverity): number {
+  return CONDITION_SEVERITIES.indexOf(severity)
+}
+
+export function isUrgent(condition: WeatherCondition): boolean {
+  return condition.severity === 'severe' || condition.severity === 'extreme'
+}
+
+export function getConditionIcon(type: ConditionType): string {
+  switch (type) {
+    case 'hurricane': return '🌀'
+    case 'storm': return '⛈️'
+    case 'flood': return '🌊'
+    case 'rain': return '🌧️'
+    default: return '⚠️'
+  }
+}
+
+const ALERT_CONDITION_TYPES: Record<AlertType, ConditionType> = {
+  hurricane: 'hurricane',
+  tropical_storm: 'hurricane',
+  tornado: 'storm',
+  thunderstorm: 'storm',
+  flood: 'flood',
+  other: 'alert',
+}
+
+const ALERT_CONDITION_SEVERITIES: Record<WeatherAlert['severity'], ConditionSeverity> = {
+  minor: 'low',
+  moderate: 'moderate',
+  severe: 'severe',
+  extreme: 'extreme',
+}
+
+/**
+ * One condition per NWS alert in effect; `place` is the locality the alerts were fetched for
+ */
+export function alertConditions(alerts: WeatherAlert[], place?: string): WeatherCondition[] {
+  const weatherService = WeatherService.getInstance()
+
+  return alerts.filter(alert => alert.isActive).map(alert => {
+    const type = ALERT_CONDITION_TYPES[alert.type]
+    return {
+      // Stable across updates of the alert that change nothing important
+      id: `nws_${notificationKey(alert)}`,
+      type,
+      severity: ALERT_CONDITION_SEVERITIES[alert.severity],
+      title: alert.title,
+      description: alert.description,
+      recommendation: weatherService.getAlertRecommendation(alert),
+      icon: getConditionIcon(type),
+      source: alert.source,
+      confidence: 95,
+      place,
+      alert,
+      lastUpdated: new Date().toISOString(),
+    }
+  })
+}
+
+/**
+ * A condition for each storm close enough to (lat, lng) to matter
+ */
+export function hurricaneConditions(hurricanes: HurricaneTrack[], lat: number, lng: number): WeatherCondition[] {
+  return hurricanes.flatMap(hurricane => {
+    const { lat: stormLat, lng: stormLng } = hurricane.currentPosition
+    const condition = hurricaneCondition(hurricane, calculateDistance(lat, lng, stormLat, stormLng))
+    return condition ? [condition] : []
+  })
+}
+
+/**
+ * The condition a storm `distanceKm` away raises, or null when it is beyond HURRICANE_WATCH_KM
+ */
+export function hurricaneCondition(hurricane: HurricaneTrack, distanceKm: number): WeatherCondition | null {
+  const { category = 0, windSpeed } = hurricane.currentPosition
+  const distance = Math.round(distanceKm)
+  if (distance >= HURRICANE_WATCH_KM) return null
+
+  const warning = distance < HURRICANE_WARNING_KM
+  return {
+    // The same id for watch and warning, so an approaching storm escalates in place
+    id: `hurricane_${hurricane.id}`,
+    type: 'hurricane',
+    severity: warning ? 'extreme' : 'severe',
+    title: `${warning ? 'HURRICANE ALERT' : 'HURRICANE WATCH'}: ${hurricane.name}`,
+    description: `Category ${category} Hurricane ${hurricane.name} is ${distance}km away with ${windSpeed} mph winds.`,
+    recommendation: warning
+      ? '• Evacuate immediately if you are in an evacuation zone\n• Secure windows and doors\n• Gather water, food and medications\n• Fill your vehicle\'s gas tank\n• Follow local emergency instructions'
+      : '• Prepare an emergency kit with 3+ days of supplies\n• Review evacuation routes\n• Secure outdoor objects\n• Fill your vehicle\'s gas tank\n• Monitor official updates',
+    icon: getConditionIcon('hurricane'),
+    source: 'National Hurricane Center',
+    confidence: warning ? 100 : 90,
+    distance,
+    lastUpdated: new Date().toISOString(),
+  }
+}
+
+/**
+ * Storms or heavy rain in current observations. Every provider reports under
+ * the same ids, so a storm seen by two of them shows once.
+ */
+export function observedConditions(current: WeatherCurrent, source: string, confidence: number, place?: string): WeatherCondition[] {
+  const { condition, temperature } = current
+  const text = condition.toLowerCase()
+  const observed = { source, confidence, place, lastUpdated: new Date().toISOString() }
+
+  if (text.includes('thunder') || text.includes('storm') || text.includes('severe')) {
+    return [{
+      ...observed,
+      id: 'current_storm',
+      type: 'storm',
+      severity: 'severe',
+      title: 'STORM WARNING',
+      description: `Thunderstorms in your area. Current conditions: ${condition}, ${temperature}°F.`,
+      recommendation: '• Stay indoors and away from windows\n• Avoid driving if possible\n• Secure outdoor objects\n• Avoid using electrical equipment\n• Be prepared for power outages',
+      icon: getConditionIcon('storm'),
+    }]
+  }
+
+  if ((text.includes('rain') || text.includes('shower')) && !text.includes('light')) {
+    return [{
+      ...observed,
+      id: 'current_rain',
+      type: 'rain',
+      severity: 'moderate',
+      title: 'RAIN ADVISORY',
+      description: `Heavy rain in your area. Current conditions: ${condition}, ${temperature}°F.`,
+      recommendation: '• Drive carefully; roads will be slippery\n• Allow extra travel time\n• Avoid flooded areas\n• Watch for reduced visibility',
+      icon: getConditionIcon('rain'),
+    }]
+  }
+
+  return []
+}
+
+/**
+ * One condition per id, keeping the most confident report, most urgent first
+ */
+export function mergeConditions(conditions: WeatherCondition[]): WeatherCondition[] {
+  const byId = new Map<string, WeatherCondition>()
+  for (const condition of conditions) {
+    const existing = byId.get(condition.id)
+    if (!existing || condition.confidence > existing.confidence) {
+      byId.set(condition.id, condition)
+    }
+  }
+
+  return [...byId.values()].sort((a, b) =>
+    severityRank(b.severity) - severityRank(a.severity) || b.confidence - a.confidence
+  )
+}
+
+export function isAllowed(condition: WeatherCondition, settings: NotificationSettings): boolean {
+  if (condition.type === 'hurricane') return settings.enableHurricaneAlerts
+  return isUrgent(condition) ? settings.enableSevereWeatherAlerts : settings.enableModerateWeatherAlerts
+}
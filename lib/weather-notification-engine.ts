@@ -0,0 +1,395 @@
+// One engine behind every weather banner and notification.
+//
+// Condition providers (NWS alerts, hurricane proximity, AccuWeather,
+// OpenWeather) each report what they see at the watched location. The engine
+// merges their reports into one list, applies the user's settings and
+// dismissals, and pushes the result to every subscribed component, so the
+// banner, the popup and browser notifications never disagree.
+
+import { WeatherService } from './weather-service'
+import { syncPushSubscription } from './push-client'
+import { alertConditions, ANNOUNCE_INTERVAL_MS, getConditionIcon, hurricaneConditions, isAllowed, isUrgent, mergeConditions, observedConditions } from './weather-conditions'
+import { DEFAULT_NOTIFICATION_SETTINGS, notificationSettingsSchema, readHurricaneResponse, readWeatherResponse } from './types'
+import type { ConditionSeverity, CurrentWeatherProvider, NotificationSettings, WeatherCondition } from './types'
+
+export interface ConditionProvider {
+  // Used in logs
+  name: string
+  check(lat: number, lng: number): Promise<WeatherCondition[]>
+}
+
+export interface NotificationSnapshot {
+  // Most urgent first; only what the settings allow and the user hasn't dismissed
+  conditions: WeatherCondition[]
+  // Conditions that raised a browser notification on this refresh
+  announced: WeatherCondition[]
+  settings: NotificationSettings
+  lastUpdated: Date | null
+}
+
+export type NotificationListener = (snapshot: NotificationSnapshot) => void
+
+const SETTINGS_KEY = 'weatherNotificationSettings'
+// Test mode used to be stored on its own; read once and folded into the settings
+const LEGACY_TEST_MODE_KEY = 'weatherTestMode'
+const DISMISSED_KEY = 'dismissedWeatherAlerts'
+
+const POLL_INTERVAL_MS = 2 * 60 * 1000
+const TEST_POLL_INTERVAL_MS = 10 * 1000
+
+// ---- Presentation ----
+
+export function getConditionColor(severity: ConditionSeverity): string {
+  switch (severity) {
+    case 'extreme': return 'bg-gradient-to-r from-red-900 to-red-800 border-red-600 text-white shadow-red-500/50'
+    case 'severe': return 'bg-gradient-to-r from-orange-900 to-orange-800 border-orange-600 text-white shadow-orange-500/50'
+    case 'moderate': return 'bg-gradient-to-r from-blue-900 to-blue-800 border-blue-600 text-white shadow-blue-500/50'
+    default: return 'bg-gradient-to-r from-gray-900 to-gray-800 border-gray-600 text-white shadow-gray-500/50'
+  }
+}
+
+// ---- Providers ----
+
+export const nwsAlertsProvider: ConditionProvider = {
+  name: 'NWS alerts',
+  async check(lat, lng) {
+    const weatherService = WeatherService.getInstance()
+    const alerts = await weatherService.getWeatherAlerts(lat, lng)
+    return alertConditions(alerts, weatherService.getLocationName(lat, lng))
+  },
+}
+
+export const hurricaneProximityProvider: ConditionProvider = {
+  name: 'hurricane proximity',
+  async check(lat, lng) {
+    const response = await fetch('/api/hurricanes')
+    if (!response.ok) throw new Error(`Hurricanes request failed: ${response.status}`)
+
+    const hurricanes = readHurricaneResponse(await response.json())?.hurricanes ?? []
+    return hurricaneConditions(hurricanes, lat, lng)
+  },
+}
+
+// Conditions observed right now by one of the /api/weather/current providers
+function currentConditionsProvider(provider: CurrentWeatherProvider, source: string, confidence: number): ConditionProvider {
+  return {
+    name: source,
+    async check(lat, lng) {
+      const response = await fetch(`/api/weather/current?lat=${lat}&lng=${lng}&provider=${provider}`)
+      if (!response.ok) throw new Error(`${source} request failed: ${response.status}`)
+
+      const data = readWeatherResponse(await response.json())
+      return data ? observedConditions(data.current, source, confidence, data.location.name) : []
+    },
+  }
+}
+
+export const accuWeatherProvider = currentConditionsProvider('accuweather', 'AccuWeather', 85)
+export const openWeatherProvider = currentConditionsProvider('openweather', 'OpenWeather', 80)
+
+export const DEFAULT_CONDITION_PROVIDERS: ConditionProvider[] = [
+  nwsAlertsProvider,
+  hurricaneProximityProvider,
+  accuWeatherProvider,
+  openWeatherProvider,
+]
+
+// Stands in for every provider while settings.testMode is on
+export const testConditionsProvider: ConditionProvider = {
+  name: 'test mode',
+  async check() {
+    const lastUpdated = new Date().toISOString()
+    const test = { source: 'Test Mode', confidence: 100, lastUpdated }
+    return [
+      {
+        ...test,
+        id: 'test_hurricane',
+        type: 'hurricane',
+        severity: 'extreme',
+        title: 'TEST: Hurricane Alert',
+        description: 'Category 3 Hurricane TestStorm approaching with 120 mph winds. This is a test alert.',
+        recommendation: 'In a real hurricane, follow evacuation orders immediately.',
+        icon: getConditionIcon('hurricane'),
+        distance: 240,
+      },
+      {
+        ...test,
+        id: 'test_flood',
+        type: 'flood',
+        severity: 'severe',
+        title: 'TEST: Flood Warning',
+        description: 'Flash flooding possible due to heavy rainfall. This is a test alert.',
+        recommendation: 'In a real flood, move to higher ground and never drive through flooded roads.',
+        icon: getConditionIcon('flood'),
+      },
+      {
+        ...test,
+        id: 'test_rain',
+        type: 'rain',
+        severity: 'moderate',
+        title: 'TEST: Rain Advisory',
+        description: 'Moderate to heavy rainfall expected in your area. This is a test alert.',
+        recommendation: 'In real heavy rain, allow extra travel time and avoid flooded areas.',
+        icon: getConditionIcon('rain'),
+      },
+    ]
+  },
+}
+
+// ---- Persistence ----
+
+function storage(): Storage | null {
+  return typeof localStorage === 'undefined' ? null : localStorage
+}
+
+function parseSettings(value: unknown): NotificationSettings {
+  const parsed = notificationSettingsSchema.safeParse(value)
+  return parsed.success ? parsed.data : { ...DEFAULT_NOTIFICATION_SETTINGS }
+}
+
+function loadSettings(): NotificationSettings {
+  const store = storage()
+  if (!store) return { ...DEFAULT_NOTIFICATION_SETTINGS }
+
+  try {
+    const saved = JSON.parse(store.getItem(SETTINGS_KEY) ?? '{}')
+    const legacyTestMode = store.getItem(LEGACY_TEST_MODE_KEY)
+    if (legacyTestMode !== null) {
+      saved.testMode ??= legacyTestMode === 'true'
+      store.removeItem(LEGACY_TEST_MODE_KEY)
+      store.setItem(SETTINGS_KEY, JSON.stringify(parseSettings(saved)))
+    }
+    return parseSettings(saved)
+  } catch (error) {
+    console.error('Error loading weather notification settings:', error)
+    return { ...DEFAULT_NOTIFICATION_SETTINGS }
+  }
+}
+
+function loadDismissed(): Set<string> {
+  try {
+    const saved = JSON.parse(storage()?.getItem(DISMISSED_KEY) ?? '[]')
+    return new Set(Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [])
+  } catch (error) {
+    console.error('Error loading dismissed weather alerts:', error)
+    return new Set()
+  }
+}
+
+function showBrowserNotification(condition: WeatherCondition) {
+  // Permission is requested from the settings dialog, never from a poll
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+
+  const notification = new Notification(`${condition.icon} ${condition.title}`, {
+    body: `${condition.description}\n\n${condition.recommendation}`,
+    tag: condition.id,
+    requireInteraction: condition.severity === 'extreme',
+  })
+  notification.onclick = () => {
+    window.focus()
+    notification.close()
+  }
+}
+
+// ---- Engine ----
+
+export class WeatherNotificationEngine {
+  private static instance: WeatherNotificationEngine
+  private settings: NotificationSettings
+  private dismissed: Set<string>
+  private listeners = new Set<NotificationListener>()
+  private location: { lat: number; lng: number } | null = null
+  private conditions: WeatherCondition[] = []
+  private lastUpdated: Date | null = null
+  private announcedIds = new Set<string>()
+  private lastAnnouncedAt = 0
+  private timer: ReturnType<typeof setInterval> | null = null
+  private inFlight: Promise<NotificationSnapshot> | null = null
+  // Bumped when the location or providers change, to drop answers to the old question
+  private generation = 0
+
+  constructor(private providers: ConditionProvider[] = DEFAULT_CONDITION_PROVIDERS) {
+    this.settings = loadSettings()
+    this.dismissed = loadDismissed()
+  }
+
+  static getInstance(): WeatherNotificationEngine {
+    if (!WeatherNotificationEngine.instance) {
+      WeatherNotificationEngine.instance = new WeatherNotificationEngine()
+    }
+    return WeatherNotificationEngine.instance
+  }
+
+  /**
+   * Watch a location and receive every update; returns the unsubscribe function.
+   * All subscribers share one polling loop, which stops with the last of them.
+   */
+  subscribe(lat: number, lng: number, listener: NotificationListener): () => void {
+    this.listeners.add(listener)
+    if (this.listeners.size === 1 && typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage)
+    }
+
+    if (!this.location || this.location.lat !== lat || this.location.lng !== lng) {
+      this.location = { lat, lng }
+      this.invalidate()
+      this.restart()
+      void syncPushSubscription(this.location, this.settings)
+    } else if (!this.timer) {
+      this.restart()
+    } else {
+      listener(this.snapshot([]))
+    }
+
+    return () => {
+      this.listeners.delete(listener)
+      if (this.listeners.size > 0) return
+      this.stop()
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('storage', this.handleStorage)
+      }
+    }
+  }
+
+  /**
+   * Ask every provider again; concurrent calls share one round of requests
+   */
+  refresh(): Promise<NotificationSnapshot> {
+    if (!this.location) return Promise.resolve(this.snapshot([]))
+    if (!this.inFlight) {
+      const request = this.check(this.location, this.generation).finally(() => {
+        if (this.inFlight === request) this.inFlight = null
+      })
+      this.inFlight = request
+    }
+    return this.inFlight
+  }
+
+  getSettings(): NotificationSettings {
+    return { ...this.settings }
+  }
+
+  updateSettings(changes: Partial<NotificationSettings>) {
+    this.settings = parseSettings({ ...this.settings, ...changes })
+    try {
+      storage()?.setItem(SETTINGS_KEY, JSON.stringify(this.settings))
+    } catch (error) {
+      console.error('Error saving weather notification settings:', error)
+    }
+    this.applySettings()
+    if (this.location) void syncPushSubscription(this.location, this.settings)
+  }
+
+  dismiss(conditionId: string) {
+    this.dismissed.add(conditionId)
+    try {
+      storage()?.setItem(DISMISSED_KEY, JSON.stringify([...this.dismissed]))
+    } catch (error) {
+      console.error('Error saving dismissed weather alerts:', error)
+    }
+    this.emit(this.snapshot([]))
+  }
+
+  private async check(location: { lat: number; lng: number }, generation: number): Promise<NotificationSnapshot> {
+    const providers = this.settings.testMode ? [testConditionsProvider] : this.providers
+    const results = await Promise.allSettled(providers.map(provider => provider.check(location.lat, location.lng)))
+
+    const reported: WeatherCondition[] = []
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        reported.push(...result.value)
+      } else {
+        console.error(`Weather notifications: ${providers[index].name} failed:`, result.reason)
+      }
+    })
+
+    if (generation !== this.generation) return this.snapshot([])
+
+    this.conditions = mergeConditions(reported)
+    this.lastUpdated = new Date()
+
+    const snapshot = this.snapshot(this.announce())
+    this.emit(snapshot)
+    return snapshot
+  }
+
+  // Urgent conditions not yet notified, at most once per alertFrequency window
+  private announce(): WeatherCondition[] {
+    const current = new Set(this.conditions.map(condition => condition.id))
+    // A condition that cleared and came back is announced again
+    this.announcedIds.forEach(id => {
+      if (!current.has(id)) this.announcedIds.delete(id)
+    })
+
+    const due = this.visible().filter(condition => isUrgent(condition) && !this.announcedIds.has(condition.id))
+    if (due.length === 0) return []
+    if (Date.now() - this.lastAnnouncedAt < ANNOUNCE_INTERVAL_MS[this.settings.alertFrequency]) return []
+
+    due.forEach(condition => this.announcedIds.add(condition.id))
+    this.lastAnnouncedAt = Date.now()
+    if (this.settings.enablePushNotifications) {
+      due.forEach(showBrowserNotification)
+    }
+    return due
+  }
+
+  private visible(): WeatherCondition[] {
+    return this.conditions.filter(condition =>
+      isAllowed(condition, this.settings) && !this.dismissed.has(condition.id)
+    )
+  }
+
+  private snapshot(announced: WeatherCondition[]): NotificationSnapshot {
+    return {
+      conditions: this.visible(),
+      announced,
+      settings: this.getSettings(),
+      lastUpdated: this.lastUpdated,
+    }
+  }
+
+  private emit(snapshot: NotificationSnapshot) {
+    this.listeners.forEach(listener => listener(snapshot))
+  }
+
+  private applySettings() {
+    // Test mode swaps the providers and the polling interval
+    if (this.timer) {
+      this.invalidate()
+      this.restart()
+    } else {
+      this.emit(this.snapshot([]))
+    }
+  }
+
+  private invalidate() {
+    this.generation++
+    this.inFlight = null
+    this.conditions = []
+    this.lastUpdated = null
+  }
+
+  private restart() {
+    this.stop()
+    if (this.listeners.size === 0) return
+
+    void this.refresh()
+    const interval = this.settings.testMode ? TEST_POLL_INTERVAL_MS : POLL_INTERVAL_MS
+    this.timer = setInterval(() => void this.refresh(), interval)
+  }
+
+  private stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  // Settings saved in another tab
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== SETTINGS_KEY && event.key !== DISMISSED_KEY) return
+    this.settings = loadSettings()
+    this.dismissed = loadDismissed()
+    this.applySettings()
+  }
+}
@@ -1,60 +1,11 @@
-export interface WeatherAlert {
-  id: string;
-  title: string;
-  description: string;
-  severity: 'minor' | 'moderate' | 'severe' | 'extreme';
-  type: 'hurricane' | 'tropical_storm' | 'tornado' | 'flood' | 'thunderstorm' | 'other';
-  startTime: string;
-  endTime: string;
-  source: string;
-  areas: string[];
-  isActive: boolean;
-}
-
-export interface WeatherCurrent {
-  temperature: number;
-  condition: string;
-  humidity: number;
-  windSpeed: number;
-  windDirection: number;
-  pressure: number;
-  visibility: number;
-  uvIndex: number;
-  timestamp: string;
-}
-
-export interface WeatherLocation {
-  name: string;
-  lat: number;
-  lng: number;
-}
-
-export interface WeatherResponse {
-  current: WeatherCurrent;
-  alerts: WeatherAlert[];
-  location: WeatherLocation;
-}
-
-export interface ForecastDay {
-  date: string;
-  high: number;
-  low: number;
-  condition: string;
-  precipitation: number;
-  windSpeed: number;
-  humidity: number;
-  isHurricaneRisk: boolean;
-}
-
-export interface ForecastResponse {
-  forecast: ForecastDay[];
-  location: WeatherLocation;
-  lastUpdated: string;
-}
+import { notificationKey } from './alert-lineage';
+import { readAlertsResponse, readForecastResponse, readWeatherResponse } from './types';
+import type { ForecastResponse, WeatherAlert, WeatherResponse } from './types';
 
 export class WeatherService {
   private static instance: WeatherService;
   private alertsCache: Map<string, WeatherAlert[]> = new Map();
+  private locationNames: Map<string, string> = new Map();
   private cacheExpiry: Map<string, number> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
@@ -71,7 +22,11 @@ export class WeatherService {
       if (!response.ok) {
         throw new Error('Failed to fetch current weather');
       }
-      return await response.json();
+      const data = readWeatherResponse(await response.json());
+      if (!data) {
+        throw new Error('Unexpected current weather response');
+      }
+      return data;
     } catch (error) {
       console.error('Error fetching current weather:', error);
       throw error;
@@ -93,11 +48,17 @@ export class WeatherService {
         throw new Error('Failed to fetch weather alerts');
       }
       
-      const data = await response.json();
-      const alerts = data.alerts || [];
+      const data = readAlertsResponse(await response.json());
+      if (!data) {
+        throw new Error('Unexpected weather alerts response');
+      }
+      const alerts = data.alerts;
       
       // Cache the results
       this.alertsCache.set(cacheKey, alerts);
+      if (data.location.name) {
+        this.locationNames.set(cacheKey, data.location.name);
+      }
       this.cacheExpiry.set(cacheKey, now + this.CACHE_DURATION);
       
       return alerts;
@@ -107,13 +68,22 @@ export class WeatherService {
     }
   }
 
+  // Locality reported by the last alerts request for these coordinates
+  getLocationName(lat: number, lng: number): string | undefined {
+    return this.locationNames.get(`${lat},${lng}`);
+  }
+
   async getForecast(lat: number, lng: number): Promise<ForecastResponse> {
     try {
       const response = await fetch(`/api/weather/forecast?lat=${lat}&lng=${lng}`);
       if (!response.ok) {
         throw new Error('Failed to fetch forecast');
       }
-      return await response.json();
+      const data = readForecastResponse(await response.json());
+      if (!data) {
+        throw new Error('Unexpected forecast response');
+      }
+      return data;
     } catch (error) {
       console.error('Error fetching forecast:', error);
       throw error;
@@ -165,9 +135,11 @@ export class WeatherService {
     // Always notify for extreme/severe alerts
     if (this.isUrgentAlert(alert)) return true;
     
-    // Check if we've notified about this alert recently (within 1 hour)
-    if (lastNotified && lastNotified.has(alert.id)) {
-      const lastNotifiedTime = lastNotified.get(alert.id)!;
+    // Check if we've notified about this alert recently (within 1 hour);
+    // updates that change nothing important share the key of the original
+    const key = notificationKey(alert);
+    if (lastNotified && lastNotified.has(key)) {
+      const lastNotifiedTime = lastNotified.get(key)!;
       const oneHour = 60 * 60 * 1000;
       if (Date.now() - lastNotifiedTime < oneHour) {
         return false;
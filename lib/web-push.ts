@@ -0,0 +1,154 @@
+// Web Push sender: encrypts a payload for one browser push subscription
+// (RFC 8291, aes128gcm) and signs the request with our VAPID key (RFC 8292).
+//
+// Both are a handful of node:crypto calls, so there is no web-push dependency.
+// Keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY (base64url, as printed
+// by scripts/generate-vapid-keys.js) and VAPID_SUBJECT (a mailto: or https:
+// contact the push services can reach).
+
+import crypto from 'crypto';
+import { isPushServiceEndpoint } from './schemas';
+
+export interface PushSubscriptionKeys {
+  // Browser's P-256 public key, base64url
+  p256dh: string;
+  // 16-byte authentication secret, base64url
+  auth: string;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export interface PushOptions {
+  // Seconds the push service keeps an undelivered message
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  // A newer message with the same topic replaces an undelivered older one
+  topic?: string;
+}
+
+export type PushResult =
+  | { ok: true; status: number }
+  // `gone`: the subscription expired or was revoked; stop sending to it
+  | { ok: false; status: number; gone: boolean; error: string };
+
+const RECORD_SIZE = 4096;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+
+export function getVapidKeys(): VapidKeys | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || 'mailto:alerts@google-storm.app' };
+}
+
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+/**
+ * RFC 8291 message encryption: a single aes128gcm record whose header carries
+ * the salt and our ephemeral public key
+ */
+export function encryptPayload(payload: Buffer, keys: PushSubscriptionKeys): Buffer {
+  const userAgentPublic = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+
+  const ephemeral = crypto.createECDH('prime256v1');
+  ephemeral.generateKeys();
+  const serverPublic = ephemeral.getPublicKey();
+  const sharedSecret = ephemeral.computeSecret(userAgentPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublic, serverPublic]);
+  const ikm = hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(salt, ikm, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(salt, ikm, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([payload, Buffer.from([2])]);
+  if (plaintext.length + 16 > RECORD_SIZE) throw new Error('Push payload is too large');
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublic.length, 20);
+  return Buffer.concat([header, serverPublic, ciphertext]);
+}
+
+/**
+ * RFC 8292 Authorization header for one push service origin
+ */
+export function vapidAuthorization(endpoint: string, vapid: VapidKeys, now = Date.now()): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  const key = crypto.createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+  });
+
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${vapid.publicKey}`;
+}
+
+export async function sendPush(target: PushTarget, payload: unknown, vapid: VapidKeys, options: PushOptions = {}): Promise<PushResult> {
+  // Stored before endpoints were checked, or allowed only in development; drop it
+  if (!isPushServiceEndpoint(target.endpoint)) {
+    return { ok: false, status: 0, gone: true, error: 'Not a push service endpoint' };
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    TTL: String(options.ttl ?? 60 * 60),
+    Urgency: options.urgency ?? 'normal',
+    Authorization: vapidAuthorization(target.endpoint, vapid),
+  };
+  if (options.topic) headers.Topic = options.topic;
+
+  const response = await fetch(target.endpoint, {
+    method: 'POST',
+    headers,
+    body: new Uint8Array(encryptPayload(Buffer.from(JSON.stringify(payload)), target.keys)),
+  });
+
+  if (response.ok) return { ok: true, status: response.status };
+  return {
+    ok: false,
+    status: response.status,
+    gone: response.status === 404 || response.status === 410,
+    error: await response.text().catch(() => response.statusText),
+  };
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { changeAdminRole, removeAdmin, RosterChange } from '@/lib/admin-roster';
+import { validateBody } from '@/lib/request-validation';
+import { adminRoleChangeSchema } from '@/lib/schemas';
+
+// PATCH { role }: change a member's role; DELETE: remove them from the roster
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH' && req.method !== 'DELETE') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'admin');
+  if (!admin) return;
+
+  try {
+    const email = String(req.query.email);
+    let result: RosterChange;
+    if (req.method === 'PATCH') {
+      const body = validateBody(req, res, adminRoleChangeSchema);
+      if (!body) return;
+      result = await changeAdminRole(email, body.role, admin.id);
+    } else {
+      result = await removeAdmin(email, admin.id);
+    }
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Error updating admin roster:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
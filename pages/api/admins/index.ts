@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { inviteAdmin, listAdmins } from '@/lib/admin-roster';
+import { validateBody } from '@/lib/request-validation';
+import { adminInviteSchema } from '@/lib/schemas';
+
+// GET: roster and recent role changes; POST { email, role }: invite someone
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'admin');
+  if (!admin) return;
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await listAdmins());
+    }
+
+    const body = validateBody(req, res, adminInviteSchema);
+    if (!body) return;
+
+    const result = await inviteAdmin(body.email, body.role, admin.id);
+    if (!result.ok) return res.status(result.status).json({ error: result.error });
+
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Error managing admin roster:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
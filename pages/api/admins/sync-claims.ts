@@ -0,0 +1,18 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { syncAllClaims } from '@/lib/admin-roster';
+
+// Re-apply Firebase custom claims for every roster member
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'admin');
+  if (!admin) return;
+
+  try {
+    res.status(200).json({ results: await syncAllClaims() });
+  } catch (error: any) {
+    console.error('Error syncing admin claims:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -1,34 +1,30 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getFirestoreInstance } from '@/lib/firebase-admin';
+import { requireRole } from '@/lib/admin-auth';
+import { createModerationEvent } from '@/lib/moderation';
+import { validateBody } from '@/lib/request-validation';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { moderationTargetSchema } from '@/lib/schemas';
+import { notifySubmitter } from '@/lib/submitters';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).end();
 
-  try {
-    const { id } = req.body;
-    const db = getFirestoreInstance();
+  const admin = await requireRole(req, res, 'moderator');
+  if (!admin) return;
+
+  const body = validateBody(req, res, moderationTargetSchema);
+  if (!body) return;
 
-    const pendRef = db.collection('pendingResources').doc(id);
-    const snap = await pendRef.get();
-    if (!snap.exists) return res.status(404).json({ error: 'Not found' });
+  try {
+    const { id } = body;
+    const event = createModerationEvent('approved', admin.id);
+    const resource = await getResourceRepository().approvePending(id, event);
+    if (!resource) return res.status(404).json({ error: 'Not found' });
+    await notifySubmitter(resource, 'approved');
 
-    const data = snap.data()!;
-    await db.collection('resources').add({
-      ...data,
-      approvedAt: new Date().toISOString()
-    });
-    await pendRef.delete();
-    res.status(200).json({ ok: true });
+    res.status(200).json({ ok: true, id: resource.id });
   } catch (error: any) {
     console.error('Error approving resource:', error);
-
-    // If Firebase is not configured, return success anyway
-    if (error.message.includes('Firebase not properly configured') ||
-        error.message.includes('Could not load the default credentials')) {
-      console.warn('Firebase not configured, returning mock approval success');
-      return res.status(200).json({ ok: true });
-    }
-
     res.status(500).json({ error: error.message });
   }
 }
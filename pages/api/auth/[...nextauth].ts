@@ -1,5 +1,11 @@
 import NextAuth from 'next-auth'
 import GoogleProvider from 'next-auth/providers/google'
+import { getAdminRole } from '@/lib/admin-roster'
+import type { AdminRole } from '@/lib/admin-roster'
+
+// How stale the roster role kept in the session token may get. API routes
+// check the roster themselves, so this only affects what the pages show.
+export const ROLE_REFRESH_MS = 5 * 60 * 1000
 
 export const authOptions = {
   providers: [
@@ -10,38 +16,31 @@ export const authOptions = {
   ],
   callbacks: {
     async signIn({ user, account, profile }) {
-      // Allow only specific admin emails
-      const adminEmails = [
-        'bakkouamine@gmail.com',
-        'Bhaveshbasdeo@gmail.com',
-        'ragulkumar2611@gmail.com',
-        'joshgopaul91@gmail.com',
-         // Replace with your actual admin email
-        // Add more admin emails as needed
-      ]
-      
-      if (user.email && adminEmails.includes(user.email)) {
-        return true
-      }
-      
-      // Reject sign-in for non-admin users
-      return false
+      // Anyone can sign in to track their submissions; /admin checks the roster role
+      return Boolean(user.email)
     },
     async session({ session, token }) {
-      // Add admin flag to session
-      if (session.user?.email) {
-        const adminEmails = [
-            'bakkouamine@gmail.com',
-            'Bhaveshbasdeo@gmail.com',
-            'ragulkumar2611@gmail.com',
-            'joshgopaul91@gmail.com', // Replace with your actual admin email
-          // Add more admin emails as needed
-        ]
-        session.user.isAdmin = adminEmails.includes(session.user.email)
+      // Stable per-account id for attributing community submissions
+      if (session.user && token?.sub) session.user.id = token.sub
+      if (session.user) {
+        session.user.role = token?.role
+        session.user.isAdmin = Boolean(token?.role)
       }
       return session
     },
     async jwt({ token, user }) {
+      // The role rides in the token and is re-read from the roster every
+      // ROLE_REFRESH_MS, so roster changes apply without signing out
+      const checkedAt = token.roleCheckedAt ?? 0
+      if (token.email && Date.now() - checkedAt >= ROLE_REFRESH_MS) {
+        try {
+          token.role = (await getAdminRole(token.email)) || undefined
+          token.roleCheckedAt = Date.now()
+        } catch (error) {
+          // Keep the last known role and try again on the next request
+          console.error('Admin roster lookup failed:', error)
+        }
+      }
       return token
     }
   },
@@ -60,10 +59,21 @@ export default NextAuth(authOptions)
 declare module "next-auth" {
   interface Session {
     user: {
+      id?: string
       email?: string | null
       name?: string | null
       image?: string | null
+      // Any roster member; `role` says what they may do
       isAdmin?: boolean
+      role?: AdminRole
     }
   }
 }
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    role?: AdminRole
+    // When the role was last read from the roster (ms since the epoch)
+    roleCheckedAt?: number
+  }
+}
@@ -1,12 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { withRateLimit } from '@/lib/rate-limit'
+import { getRegionQuery, resolveRegionFromQuery } from '@/lib/regions'
+import { validateQuery } from '@/lib/request-validation'
+import { nearbyQuerySchema } from '@/lib/schemas'
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const query = validateQuery(req, res, nearbyQuerySchema)
+  if (!query) return
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const { lat = '25.774', lng = '-80.193', radius = '5000', q } = req.query
+    const { lat, lng, radius = 5000, q } = query
     const key = process.env.GCP_SERVER_MAPS_KEY || process.env.NEXT_PUBLIC_MAPS_API_KEY
 
-  const defaultCity = 'Miami, FL'
-  const queryText = String(q || `clinic free clinic urgent care emergency medical near ${defaultCity}`)
+  const region = resolveRegionFromQuery(req.query.lat, req.query.lng)
+  const queryText = String(q || getRegionQuery(region, 'clinic'))
 
     if (!key) {
       return res.status(200).json({ results: [
@@ -18,7 +25,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const url = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json')
     url.searchParams.set('query', queryText)
   url.searchParams.set('location', `${lat},${lng}`)
-  url.searchParams.set('radius', String(radius || '5000'))
+  url.searchParams.set('radius', String(radius))
     url.searchParams.set('key', key)
 
     const r = await fetch(url.toString())
@@ -40,3 +47,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(500).json({ error: String(e) })
   }
 }
+
+export default withRateLimit('nearby', handler)
@@ -1,8 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { validateQuery } from '@/lib/request-validation'
+import { nearbyQuerySchema } from '@/lib/schemas'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const query = validateQuery(req, res, nearbyQuerySchema)
+  if (!query) return
+
   try {
-    const { lat = '25.774', lng = '-80.193', radius = '10000' } = req.query
+    const { lat, lng, radius = 10000 } = query
     const key = process.env.GCP_SERVER_MAPS_KEY || process.env.NEXT_PUBLIC_MAPS_API_KEY
 
     const makeSearch = async (query: string) => {
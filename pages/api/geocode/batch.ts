@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { geocodeAddresses } from '@/lib/geocoding';
+import { withRateLimit } from '@/lib/rate-limit';
+import { validateBody } from '@/lib/request-validation';
+import { geocodeBatchSchema } from '@/lib/schemas';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+  // Bulk imports are a moderation task
+  if (!(await requireRole(req, res, 'moderator'))) return;
+
+  const body = validateBody(req, res, geocodeBatchSchema);
+  if (!body) return;
+
+  try {
+    const { addresses } = body;
+    const geocoded = await geocodeAddresses(addresses);
+    const results = addresses.map((address: string, i: number) => geocoded[i]
+      ? { address, ...geocoded[i] }
+      : { address, error: 'Address not found' });
+
+    res.status(200).json({
+      results,
+      stats: {
+        total: addresses.length,
+        found: geocoded.filter(Boolean).length,
+        bySource: geocoded.reduce<Record<string, number>>((acc, r) => {
+          if (r) acc[r.source] = (acc[r.source] || 0) + 1;
+          return acc;
+        }, {}),
+      },
+    });
+  } catch (error: any) {
+    console.error('Batch geocoding error:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+export default withRateLimit('geocode-batch', handler);
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { geocodeAddress, reverseGeocode } from '@/lib/geocoding';
+import { withRateLimit } from '@/lib/rate-limit';
+import { validateQuery } from '@/lib/request-validation';
+import { geocodeQuerySchema } from '@/lib/schemas';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).end();
+
+  const query = validateQuery(req, res, geocodeQuerySchema);
+  if (!query) return;
+
+  try {
+    const { address, latlng } = query;
+
+    // Reverse mode: ?latlng=lat,lng resolves a human-readable place name
+    if (latlng) {
+      const result = await reverseGeocode(latlng.lat, latlng.lng);
+      return res.status(200).json(result);
+    }
+
+    // Cached, then Google (when configured), then the seed datasets
+    const result = await geocodeAddress(address!);
+    if (!result) {
+      return res.status(404).json({ error: `Address not found: ${address}` });
+    }
+
+    console.log('Geocoded', address, 'via', result.source, { lat: result.lat, lng: result.lng });
+    res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Geocoding error:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+export default withRateLimit('geocode', handler);
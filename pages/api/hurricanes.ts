@@ -1,21 +1,39 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { feedChanged } from '@/lib/feed-changes'
 import { HurricaneAPIService } from '@/lib/hurricane-apis'
+import { dispatchHurricanePush, dispatchSafely, hasDeferredPush } from '@/lib/push-dispatcher'
+import { evaluateHurricanes, evaluateSafely } from '@/lib/subscription-evaluator'
+import { validateQuery } from '@/lib/request-validation'
+import { hurricanesQuerySchema } from '@/lib/schemas'
+import { HURRICANE_SCHEMA_VERSION, versioned } from '@/lib/types'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
+  const query = validateQuery(req, res, hurricanesQuerySchema)
+  if (!query) return
+
   try {
     const hurricaneService = HurricaneAPIService.getInstance()
     
     // Check for force refresh parameter
-    const forceRefresh = req.query.refresh === 'true'
-    
-    // Fetch global hurricane and storm data
-    const response = await hurricaneService.getGlobalHurricanes(forceRefresh)
+    // Fetch global hurricane and storm data; ?refresh=true skips the cache
+    const response = await hurricaneService.getGlobalHurricanes(query.refresh)
+
+    // When the storms have moved on, push those that have come close to a
+    // subscribed browser and match them against watch areas, before responding
+    // so it also completes on serverless hosts. Pushes held back by a browser's
+    // alert frequency go out once due, new data or not.
+    const changed = feedChanged('hurricanes', response.hurricanes)
+    const dispatch = changed || (await hasDeferredPush('hurricanes'))
+    await Promise.all([
+      dispatch && dispatchSafely('hurricanes', () => dispatchHurricanePush(response.hurricanes)),
+      changed && evaluateSafely('hurricanes', () => evaluateHurricanes(response.hurricanes)),
+    ])
 
-    res.status(200).json(response)
+    res.status(200).json(versioned(HURRICANE_SCHEMA_VERSION, response))
   } catch (error: any) {
     console.error('Error fetching hurricane data:', error)
     res.status(500).json({ 
@@ -1,18 +1,25 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { withRateLimit } from '@/lib/rate-limit';
+import { validateBody } from '@/lib/request-validation';
+import { Intent, intentRequestSchema, intentSchema } from '@/lib/schemas';
+import type { ResourceType } from '@/lib/types';
 
 const SYSTEM = `You classify user queries for a crisis resource finder.
 Return ONLY valid JSON (no markdown, no code blocks): {"language":"en"|"es", "categories": ["shelter"|"food_bank"|"clinic"|"police"|"fire"], "openNowPreferred": boolean, "queryTerms": ["term1", "term2"]}.
 Map categories to: "shelter" (housing, homeless), "food_bank" (food, hungry, meal), "clinic" (medical, doctor, health), "police" (police, cop, station, 911), "fire" (fire, fire station, smoke, firefighter).
 Example: {"language":"en", "categories":["shelter"], "openNowPreferred":true, "queryTerms":["shelter", "emergency"]}`;
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const body = validateBody(req, res, intentRequestSchema);
+  if (!body) return;
+
   try {
-    const { text, emergencyMode } = req.body || {};
+    const { text, emergencyMode } = body;
     
     // Force emergency mode to shelters
     if (emergencyMode) {
-      const intent = { categories: ['shelter'], openNowPreferred: true, language: 'en', queryTerms: [text] };
+      const intent: Intent = { categories: ['shelter'], openNowPreferred: true, language: 'en', queryTerms: [text] };
       return res.status(200).json({ intent });
     }
 
@@ -53,10 +60,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             cleanedResponse = cleanedResponse.replace(/^```\s*/, '').replace(/\s*```$/, '');
           }
           
-          const geminiIntent = JSON.parse(cleanedResponse);
+          // Mark as AI-powered; a reply that doesn't match the intent shape falls through to keywords
+          const geminiIntent = intentSchema.parse({ ...JSON.parse(cleanedResponse), _isAI: true });
           console.log('Gemini parsed intent:', geminiIntent);
-          // Mark as AI-powered
-          geminiIntent._isAI = true;
           return res.status(200).json({ intent: geminiIntent });
         } catch (parseError) {
           console.error('Failed to parse Gemini response:', parseError);
@@ -72,7 +78,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Fallback intent processor when Gemini API is not available or fails
     console.log('Using fallback intent processor for:', text);
     const lowerText = text.toLowerCase();
-    const categories: string[] = [];
+    const categories: ResourceType[] = [];
     const queryTerms = [text];
     
     // Simple keyword matching for intent classification
@@ -100,7 +106,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     
     const openNowPreferred = lowerText.includes('now') || lowerText.includes('urgent') || lowerText.includes('emergency');
     
-    const intent = {
+    const intent: Intent = {
       language: 'en',
       categories,
       openNowPreferred,
@@ -114,3 +120,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: e.message });
   }
 }
+
+export default withRateLimit('intent', handler);
@@ -1,30 +1,32 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getFirestoreInstance } from '@/lib/firebase-admin';
+import { requireRole } from '@/lib/admin-auth';
+import { ModerationStatus } from '@/lib/moderation';
+import { validateQuery } from '@/lib/request-validation';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { listPendingQuerySchema } from '@/lib/schemas';
+
+// Submissions still awaiting a decision; ?status=rejected (or all) shows the rest
+const OPEN_STATUSES: ModerationStatus[] = ['pending', 'needs_info'];
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') return res.status(405).end();
-  
+
+  const admin = await requireRole(req, res, 'viewer');
+  if (!admin) return;
+
+  const query = validateQuery(req, res, listPendingQuerySchema);
+  if (!query) return;
+
   try {
-    const db = getFirestoreInstance();
-    const snapshot = await db.collection('pendingResources').orderBy('submittedAt', 'desc').get();
-    
-    const pendingResources = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      submittedAt: doc.data().submittedAt?.toDate?.() || new Date(doc.data().submittedAt)
-    }));
+    const requested = query.status;
+    const statuses: string[] | null = requested?.includes('all') ? null : requested ?? OPEN_STATUSES;
+
+    const pendingResources = (await getResourceRepository().listPending())
+      .filter(resource => !statuses || statuses.includes(resource.status));
     
     res.status(200).json({ resources: pendingResources });
   } catch (error: any) {
     console.error('Error fetching pending resources:', error);
-
-    // If Firebase is not configured, return empty array
-    if (error.message.includes('Firebase not properly configured') ||
-        error.message.includes('Could not load the default credentials')) {
-      console.warn('Firebase not configured, returning empty pending resources array');
-      return res.status(200).json({ resources: [] });
-    }
-
     res.status(500).json({ error: error.message });
   }
 }
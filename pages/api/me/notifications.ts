@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { countUnread, requireUser, touchUserProfile } from '@/lib/submitters';
+
+// GET: moderation updates on the caller's submissions; POST: mark them all read
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).end();
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  try {
+    let profile = await touchUserProfile(user);
+
+    if (req.method === 'POST') {
+      profile = { ...profile, notificationsReadAt: new Date().toISOString() };
+      await getResourceRepository().saveUser(profile);
+    }
+
+    res.status(200).json({
+      notifications: profile.notifications,
+      unread: countUnread(profile),
+      readAt: profile.notificationsReadAt || null,
+    });
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
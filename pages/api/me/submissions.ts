@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { getSubmissionStats, requireUser, toSubmitterSubmission } from '@/lib/submitters';
+
+// The caller's own submissions in every status, with a per-status breakdown
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).end();
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  try {
+    const submissions = await getResourceRepository().listBySubmitter(user.id);
+    res.status(200).json({ submissions: submissions.map(toSubmitterSubmission), stats: getSubmissionStats(submissions) });
+  } catch (error: any) {
+    console.error('Error fetching submitter history:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -1,15 +1,68 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import fs from 'fs'
-import path from 'path'
+import { requireRole } from '@/lib/admin-auth'
+import {
+  getFreshness,
+  getOpenStatusTtlMs,
+  getRefreshIntervalMs,
+  readLastRefresh,
+  readOpenStatusCache,
+  refreshOpenStatus,
+} from '@/lib/open-status-cache'
+import { validateBody, validateQuery } from '@/lib/request-validation'
+import { openStatusQuerySchema, openStatusRefreshSchema } from '@/lib/schemas'
 
-export default function handler(req: NextApiRequest, res: NextApiResponse) {
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const cachePath = path.join(process.cwd(), 'data', 'cache', 'open-status.json')
-    if (!fs.existsSync(cachePath)) return res.status(200).json({})
-    const raw = fs.readFileSync(cachePath, 'utf8')
-    const parsed = JSON.parse(raw)
-    return res.status(200).json(parsed)
+    if (req.method === 'GET') return getStatus(req, res)
+    if (req.method === 'POST') return await refresh(req, res)
+    return res.status(405).end()
   } catch (e:any) {
+    console.error('open-status error', e)
     return res.status(500).json({ error: String(e) })
   }
 }
+
+// GET: cached entries with freshness metadata, optionally limited to ?ids=a,b
+function getStatus(req: NextApiRequest, res: NextApiResponse) {
+  const query = validateQuery(req, res, openStatusQuerySchema)
+  if (!query) return
+
+  const cache = readOpenStatusCache()
+  const ttlMs = getOpenStatusTtlMs()
+  const now = Date.now()
+  const ids = query.ids ?? Object.keys(cache)
+
+  const items: Record<string, any> = {}
+  for (const id of ids) {
+    items[id] = { ...cache[id], ...getFreshness(cache[id], ttlMs, now) }
+  }
+
+  return res.status(200).json({
+    items,
+    meta: {
+      ttlMinutes: ttlMs / 60000,
+      refreshIntervalMinutes: getRefreshIntervalMs() / 60000,
+      staleCount: Object.values(items).filter(item => item.stale).length,
+      lastRefresh: readLastRefresh(),
+    },
+  })
+}
+
+// POST { ids?: string[], force?: boolean }: refresh the given IDs, or every stale entry.
+// Callable by the scheduler with OPEN_STATUS_REFRESH_TOKEN, or by a moderator
+async function refresh(req: NextApiRequest, res: NextApiResponse) {
+  const token = process.env.OPEN_STATUS_REFRESH_TOKEN
+  if (req.headers['x-refresh-token'] !== undefined) {
+    if (!token || req.headers['x-refresh-token'] !== token) {
+      return res.status(401).json({ error: 'invalid refresh token' })
+    }
+  } else if (!(await requireRole(req, res, 'moderator'))) {
+    return
+  }
+
+  const body = validateBody(req, res, openStatusRefreshSchema)
+  if (!body) return
+
+  const summary = await refreshOpenStatus(body)
+  return res.status(200).json(summary)
+}
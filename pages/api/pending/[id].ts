@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { createModerationEvent, diffFields } from '@/lib/moderation';
+import type { ModerationStatus } from '@/lib/moderation';
+import { validateBody } from '@/lib/request-validation';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { pendingEditSchema } from '@/lib/schemas';
+import { getSignedInUser } from '@/lib/submitters';
+
+// Submitters may edit their own submissions until a decision is made
+const SUBMITTER_EDITABLE: ModerationStatus[] = ['pending', 'needs_info'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PATCH') return res.status(405).end();
+
+  try {
+    const id = String(req.query.id);
+    const repository = getResourceRepository();
+    const current = await repository.getPending(id);
+
+    const user = await getSignedInUser(req, res);
+    const isOwner = Boolean(current && user && current.submitterId === user.id && SUBMITTER_EDITABLE.includes(current.status));
+    // Anyone else needs the moderator role; checked before the 404 so IDs can't be probed
+    const editor = isOwner ? user!.email : (await requireRole(req, res, 'moderator'))?.id;
+    if (!editor) return;
+
+    if (!current) return res.status(404).json({ error: 'Not found' });
+
+    const updates = validateBody(req, res, pendingEditSchema);
+    if (!updates) return;
+
+    const changes = diffFields(current, updates);
+    if (!changes || Object.keys(changes).length === 0) {
+      return res.status(200).json({ ok: true, resource: current });
+    }
+
+    // A submitter answering a request for info puts the submission back in the queue
+    const resubmitted = isOwner && current.status === 'needs_info';
+    const event = createModerationEvent(resubmitted ? 'resubmitted' : 'edited', editor, { changes });
+    const resource = await repository.updatePending(
+      id,
+      { ...updates, updatedAt: event.at, ...(resubmitted ? { status: 'pending' as const } : {}) },
+      event
+    );
+
+    res.status(200).json({ ok: true, resource });
+  } catch (error: any) {
+    console.error('Error updating pending resource:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
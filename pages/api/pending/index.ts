@@ -0,0 +1,79 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { randomBytes } from 'crypto';
+import { geocodeAddress } from '@/lib/geocoding';
+import { createModerationEvent } from '@/lib/moderation';
+import { getClientIp, withRateLimit } from '@/lib/rate-limit';
+import { sendValidationError, validateBody } from '@/lib/request-validation';
+import { getResourceRepository, NewPendingResource } from '@/lib/resource-repository';
+import { submissionSchema } from '@/lib/schemas';
+import { reviewSubmission } from '@/lib/submission-review';
+import { getSignedInUser, touchUserProfile } from '@/lib/submitters';
+
+// Hidden form field people never see; bots that fill every input trip it
+const HONEYPOT_FIELD = 'website';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  try {
+    // Answer like a normal submission so the bot has nothing to adapt to, but store nothing
+    if (req.body?.[HONEYPOT_FIELD]) {
+      console.warn('Discarded honeypot submission from', getClientIp(req));
+      return res.status(200).json({ id: randomBytes(10).toString('hex') });
+    }
+
+    const submission = validateBody(req, res, submissionSchema);
+    if (!submission) return;
+    const { name, type, address, notes } = submission;
+
+    // Address autocomplete supplies coordinates; otherwise locate the address here
+    let { lat, lng } = submission;
+    if (lat === undefined || lng === undefined) {
+      const geocoded = await geocodeAddress(address);
+      if (!geocoded) {
+        return sendValidationError(res, [{ path: 'address', message: 'could not be located; pick a suggestion or check the spelling' }]);
+      }
+      ({ lat, lng } = geocoded);
+    }
+
+    const user = await getSignedInUser(req, res);
+    if (user) await touchUserProfile(user);
+
+    const repository = getResourceRepository();
+    const submittedBy = user ? user.email : 'anon';
+
+    const submittedAt = new Date().toISOString();
+    const doc: NewPendingResource = {
+      name,
+      type,
+      address,
+      lat,
+      lng,
+      notes,
+      source: 'community',
+      submittedBy,
+      ...(user ? { submitterId: user.id } : {}),
+      submittedAt,
+      status: 'pending',
+      aiReview: { status: 'pending', notes: '' },
+      moderationHistory: [{ ...createModerationEvent('submitted', submittedBy), at: submittedAt }]
+    };
+    const id = await repository.addPending(doc);
+
+    // Pre-review before responding so it also completes on serverless hosts;
+    // a failed review leaves aiReview pending and never fails the submission
+    try {
+      const aiReview = await reviewSubmission({ name, type, address, lat, lng, notes });
+      await repository.updatePending(id, { aiReview });
+    } catch (reviewError) {
+      console.warn('AI pre-review failed for', id, reviewError);
+    }
+
+    res.status(200).json({ id });
+  } catch (error: any) {
+    console.error('Error adding pending resource:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+export default withRateLimit('pending', handler);
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { HurricaneAPIService } from '@/lib/hurricane-apis'
+import { HURRICANE_SCHEMA_VERSION, versioned } from '@/lib/types'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -12,7 +13,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Fetch potential hurricanes and tropical disturbances
     const response = await hurricaneService.getPotentialHurricanes()
 
-    res.status(200).json(response)
+    res.status(200).json(versioned(HURRICANE_SCHEMA_VERSION, response))
   } catch (error: any) {
     console.error('Error fetching potential hurricane data:', error)
     res.status(500).json({ 
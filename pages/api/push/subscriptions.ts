@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { removePushSubscription, savePushSubscription } from '@/lib/push-subscriptions';
+import { withRateLimit } from '@/lib/rate-limit';
+import { validateBody } from '@/lib/request-validation';
+import { pushSubscriptionRequestSchema, pushUnsubscribeSchema } from '@/lib/schemas';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/types';
+
+// POST: register this browser for severe weather pushes at a location (or
+// update it); DELETE: stop pushing to it
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') return res.status(405).end();
+
+  try {
+    if (req.method === 'DELETE') {
+      const body = validateBody(req, res, pushUnsubscribeSchema);
+      if (!body) return;
+
+      await removePushSubscription(body.endpoint);
+      return res.status(200).json({ ok: true });
+    }
+
+    const body = validateBody(req, res, pushSubscriptionRequestSchema);
+    if (!body) return;
+
+    const record = await savePushSubscription(body.subscription, body.location, body.settings ?? DEFAULT_NOTIFICATION_SETTINGS);
+    res.status(200).json({ ok: true, cell: record.cell });
+  } catch (error: any) {
+    console.error('Error saving push subscription:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
+
+export default withRateLimit('push-subscriptions', handler);
@@ -0,0 +1,12 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getVapidKeys } from '@/lib/web-push';
+
+// The applicationServerKey browsers subscribe with
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).end();
+
+  const vapid = getVapidKeys();
+  if (!vapid) return res.status(503).json({ error: 'Push notifications are not configured' });
+
+  res.status(200).json({ publicKey: vapid.publicKey });
+}
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { createModerationEvent, setPendingStatus } from '@/lib/moderation';
+import { validateBody } from '@/lib/request-validation';
+import { rejectRequestSchema } from '@/lib/schemas';
+import { notifySubmitter } from '@/lib/submitters';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'moderator');
+  if (!admin) return;
+
+  const body = validateBody(req, res, rejectRequestSchema);
+  if (!body) return;
+
+  try {
+    const { id, reason } = body;
+
+    // Rejected submissions are kept (not deleted) so the decision stays auditable
+    const event = createModerationEvent('rejected', admin.id, { reason });
+    const resource = await setPendingStatus(id, 'rejected', event);
+    if (!resource) return res.status(404).json({ error: 'Not found' });
+    await notifySubmitter(resource, 'rejected', event.reason);
+
+    res.status(200).json({ ok: true, resource });
+  } catch (error: any) {
+    console.error('Error rejecting resource:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { createModerationEvent, setPendingStatus } from '@/lib/moderation';
+import { validateBody } from '@/lib/request-validation';
+import { requestInfoSchema } from '@/lib/schemas';
+import { notifySubmitter } from '@/lib/submitters';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'moderator');
+  if (!admin) return;
+
+  const body = validateBody(req, res, requestInfoSchema);
+  if (!body) return;
+
+  try {
+    const { id, message } = body;
+    const event = createModerationEvent('requested_info', admin.id, { reason: message });
+    const resource = await setPendingStatus(id, 'needs_info', event);
+    if (!resource) return res.status(404).json({ error: 'Not found' });
+    await notifySubmitter(resource, 'requested_info', event.reason);
+
+    res.status(200).json({ ok: true, resource });
+  } catch (error: any) {
+    console.error('Error requesting resource info:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -1,17 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getFirestoreInstance } from '@/lib/firebase-admin';
+import { getResourceRepository } from '@/lib/resource-repository';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') return res.status(405).end();
   
   try {
-    const db = getFirestoreInstance();
-    const snapshot = await db.collection('resources').orderBy('approvedAt', 'desc').get();
-    
-    const resources = snapshot.docs.map(doc => {
-      const data = doc.data();
+    const approved = await getResourceRepository().listResources();
+
+    const resources = approved.map(data => {
       return {
-        id: doc.id,
+        id: data.id,
         name: data.name,
         type: data.type,
         address: data.address,
@@ -28,14 +26,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(200).json({ resources });
   } catch (error: any) {
     console.error('Error fetching approved resources:', error);
-    
-    // If Firebase is not configured, return empty array instead of error
-    if (error.message.includes('Firebase not properly configured') || 
-        error.message.includes('Could not load the default credentials')) {
-      console.warn('Firebase not configured, returning empty resources array');
-      return res.status(200).json({ resources: [] });
-    }
-    
     res.status(500).json({ error: error.message });
   }
 }
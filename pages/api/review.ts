@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { validateBody } from '@/lib/request-validation';
+import { getResourceRepository } from '@/lib/resource-repository';
+import { moderationTargetSchema } from '@/lib/schemas';
+import { reviewSubmission } from '@/lib/submission-review';
+
+// Re-run the automated pre-review, e.g. after an admin edit or for older submissions
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const admin = await requireRole(req, res, 'moderator');
+  if (!admin) return;
+
+  const body = validateBody(req, res, moderationTargetSchema);
+  if (!body) return;
+
+  try {
+    const { id } = body;
+    const repository = getResourceRepository();
+    const data = await repository.getPending(id);
+    if (!data) return res.status(404).json({ error: 'Not found' });
+
+    const aiReview = await reviewSubmission({
+      name: data.name,
+      type: data.type,
+      address: data.address,
+      lat: data.lat,
+      lng: data.lng,
+      notes: data.notes,
+    });
+    await repository.updatePending(id, { aiReview });
+
+    res.status(200).json({ aiReview });
+  } catch (error: any) {
+    console.error('Error reviewing resource:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DEFAULT_SEARCH_RADIUS, searchResources } from '@/lib/resource-search';
+import { withRateLimit } from '@/lib/rate-limit';
+import { validateBody } from '@/lib/request-validation';
+import { searchRequestSchema } from '@/lib/schemas';
+import { RESOURCE_SCHEMA_VERSION, versioned } from '@/lib/types';
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const intent = validateBody(req, res, searchRequestSchema);
+  if (!intent) return;
+
+  try {
+    const response = await searchResources({ ...intent, radius: intent.radius ?? DEFAULT_SEARCH_RADIUS });
+
+    res.status(200).json(versioned(RESOURCE_SCHEMA_VERSION, response));
+  } catch (e: any) {
+    console.error('Resource search error:', e);
+    res.status(500).json({ error: e.message });
+  }
+}
+
+export default withRateLimit('search', handler);
@@ -1,12 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { withRateLimit } from '@/lib/rate-limit'
+import { getRegionQuery, resolveRegionFromQuery } from '@/lib/regions'
+import { validateQuery } from '@/lib/request-validation'
+import { nearbyQuerySchema } from '@/lib/schemas'
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const query = validateQuery(req, res, nearbyQuerySchema)
+  if (!query) return
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
-    const { lat = '25.774', lng = '-80.193', radius = '5000', q } = req.query
+    const { lat, lng, radius = 5000, q } = query
     const key = process.env.GCP_SERVER_MAPS_KEY || process.env.NEXT_PUBLIC_MAPS_API_KEY
 
-  const defaultCity = 'Miami, FL'
-  const queryText = String(q || `emergency shelter homeless shelter near ${defaultCity}`)
+  const region = resolveRegionFromQuery(req.query.lat, req.query.lng)
+  const queryText = String(q || getRegionQuery(region, 'shelter'))
 
     if (!key) {
       // return a small set of mock shelters
@@ -19,7 +26,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   const url = new URL('https://maps.googleapis.com/maps/api/place/textsearch/json')
     url.searchParams.set('query', queryText)
   url.searchParams.set('location', `${lat},${lng}`)
-  url.searchParams.set('radius', String(radius || '5000'))
+  url.searchParams.set('radius', String(radius))
     url.searchParams.set('key', key)
 
     const r = await fetch(url.toString())
@@ -42,3 +49,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withRateLimit('nearby', handler)
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getAlertSubscriptionStore, updateAlertSubscription } from '@/lib/alert-subscriptions';
+import { validateBody } from '@/lib/request-validation';
+import { alertSubscriptionEditSchema } from '@/lib/schemas';
+import { requireUser } from '@/lib/submitters';
+import { SUBSCRIPTION_SCHEMA_VERSION, versioned } from '@/lib/types';
+
+// GET, PATCH or DELETE one of the caller's alert subscriptions
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') return res.status(405).end();
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  try {
+    const store = getAlertSubscriptionStore();
+    const current = await store.get(String(req.query.id));
+    // Someone else's subscription looks the same as a missing one
+    if (!current || current.ownerId !== user.id) return res.status(404).json({ error: 'Not found' });
+
+    if (req.method === 'DELETE') {
+      await store.remove(current.id);
+      return res.status(200).json({ ok: true });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(versioned(SUBSCRIPTION_SCHEMA_VERSION, { subscription: current }));
+    }
+
+    const changes = validateBody(req, res, alertSubscriptionEditSchema);
+    if (!changes) return;
+
+    const subscription = await updateAlertSubscription(current, changes);
+    res.status(200).json(versioned(SUBSCRIPTION_SCHEMA_VERSION, { subscription }));
+  } catch (error: any) {
+    console.error('Error handling alert subscription:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireRole } from '@/lib/admin-auth';
+import { sweepSubscriptions } from '@/lib/subscription-evaluator';
+
+// POST: evaluate every alert subscription against fresh NWS alerts and storm
+// tracks. Callable by the scheduler with SUBSCRIPTION_EVALUATION_TOKEN, or by a moderator
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const token = process.env.SUBSCRIPTION_EVALUATION_TOKEN;
+  if (req.headers['x-evaluation-token'] !== undefined) {
+    if (!token || req.headers['x-evaluation-token'] !== token) {
+      return res.status(401).json({ error: 'invalid evaluation token' });
+    }
+  } else if (!(await requireRole(req, res, 'moderator'))) {
+    return;
+  }
+
+  try {
+    const summary = await sweepSubscriptions();
+    res.status(200).json(summary);
+  } catch (error: any) {
+    console.error('Error evaluating alert subscriptions:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createAlertSubscription, getAlertSubscriptionStore, MAX_SUBSCRIPTIONS_PER_OWNER } from '@/lib/alert-subscriptions';
+import { validateBody } from '@/lib/request-validation';
+import { alertSubscriptionSchema } from '@/lib/schemas';
+import { requireUser } from '@/lib/submitters';
+import { AlertSubscriptionsResponse, SUBSCRIPTION_SCHEMA_VERSION, versioned } from '@/lib/types';
+
+// GET: the caller's alert subscriptions with their current matches; POST: register a new one
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') return res.status(405).end();
+
+  const user = await requireUser(req, res);
+  if (!user) return;
+
+  try {
+    const store = getAlertSubscriptionStore();
+    const subscriptions = await store.listByOwner(user.id);
+
+    if (req.method === 'GET') {
+      const response: AlertSubscriptionsResponse = {
+        subscriptions: subscriptions.sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+      };
+      return res.status(200).json(versioned(SUBSCRIPTION_SCHEMA_VERSION, response));
+    }
+
+    const input = validateBody(req, res, alertSubscriptionSchema);
+    if (!input) return;
+
+    if (subscriptions.length >= MAX_SUBSCRIPTIONS_PER_OWNER) {
+      return res.status(409).json({ error: `At most ${MAX_SUBSCRIPTIONS_PER_OWNER} subscriptions per account; add watch areas to an existing one` });
+    }
+
+    const subscription = await createAlertSubscription(user, input);
+    res.status(201).json(versioned(SUBSCRIPTION_SCHEMA_VERSION, { subscription }));
+  } catch (error: any) {
+    console.error('Error handling alert subscriptions:', error);
+    res.status(500).json({ error: error.message });
+  }
+}
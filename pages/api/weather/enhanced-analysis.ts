@@ -1,19 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getLocationName } from '@/lib/geocoding';
 import { EnhancedWeatherService } from '@/lib/enhanced-weather-service';
+import { validateQuery } from '@/lib/request-validation';
+import { locationQuerySchema } from '@/lib/schemas';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { lat = '25.774', lng = '-80.193' } = req.query; // Default to Miami coordinates
+  // Defaults to Miami when no coordinates are given
+  const query = validateQuery(req, res, locationQuerySchema);
+  if (!query) return;
+  const { lat, lng } = query;
 
   try {
     const enhancedWeatherService = EnhancedWeatherService.getInstance();
-    const analysis = await enhancedWeatherService.getWeatherAnalysis(
-      parseFloat(lat as string), 
-      parseFloat(lng as string)
-    );
+    const analysis = await enhancedWeatherService.getWeatherAnalysis(lat, lng);
 
     if (!analysis) {
       return res.status(200).json({ 
@@ -24,10 +27,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     const recommendation = enhancedWeatherService.getWeatherRecommendation(analysis);
-    const isHurricaneRiskZone = enhancedWeatherService.isHurricaneRiskZone(
-      parseFloat(lat as string), 
-      parseFloat(lng as string)
-    );
+    const isHurricaneRiskZone = enhancedWeatherService.isHurricaneRiskZone(lat, lng);
 
     res.status(200).json({
       hasWeatherCondition: true,
@@ -35,9 +35,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       recommendation,
       isHurricaneRiskZone,
       location: {
-        name: 'Miami, FL',
-        lat: parseFloat(lat as string),
-        lng: parseFloat(lng as string),
+        name: await getLocationName(lat, lng),
+        lat,
+        lng,
       },
       lastUpdated: new Date().toISOString()
     });
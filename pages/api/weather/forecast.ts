@@ -1,40 +1,22 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { GoogleWeatherService } from '@/lib/google-weather-service';
-
-interface ForecastDay {
-  date: string;
-  high: number;
-  low: number;
-  condition: string;
-  precipitation: number;
-  windSpeed: number;
-  humidity: number;
-  isHurricaneRisk: boolean;
-}
-
-interface ForecastResponse {
-  forecast: ForecastDay[];
-  location: {
-    name: string;
-    lat: number;
-    lng: number;
-  };
-  lastUpdated: string;
-}
+import { validateQuery } from '@/lib/request-validation';
+import { locationQuerySchema } from '@/lib/schemas';
+import { ForecastResponse, versioned, WEATHER_SCHEMA_VERSION } from '@/lib/types';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { lat = '25.774', lng = '-80.193' } = req.query; // Default to Miami coordinates
+  // Defaults to Miami when no coordinates are given
+  const query = validateQuery(req, res, locationQuerySchema);
+  if (!query) return;
+  const { lat, lng } = query;
 
   try {
     const googleWeatherService = GoogleWeatherService.getInstance();
-    const forecastData = await googleWeatherService.getForecast(
-      parseFloat(lat as string), 
-      parseFloat(lng as string)
-    );
+    const forecastData = await googleWeatherService.getForecast(lat, lng);
 
     const response: ForecastResponse = {
       forecast: forecastData.forecast,
@@ -42,7 +24,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       lastUpdated: forecastData.lastUpdated,
     };
 
-    res.status(200).json(response);
+    res.status(200).json(versioned(WEATHER_SCHEMA_VERSION, response));
   } catch (error) {
     console.error('Forecast API error:', error);
     res.status(500).json({ 
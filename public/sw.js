@@ -0,0 +1,43 @@
+// Service worker for Web Push: shows the severe weather messages sent by
+// lib/push-dispatcher.ts while the app is closed or in the background.
+//
+// Messages are tagged with the condition id, the same tag the in-page engine
+// uses, so one condition never shows twice.
+
+self.addEventListener("install", () => self.skipWaiting())
+self.addEventListener("activate", event => event.waitUntil(self.clients.claim()))
+
+self.addEventListener("push", event => {
+  let message = {}
+  try {
+    message = event.data ? event.data.json() : {}
+  } catch (error) {
+    message = { body: event.data.text() }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || "Weather alert", {
+      body: message.body || "",
+      tag: message.tag,
+      icon: "/placeholder-logo.png",
+      requireInteraction: message.severity === "extreme",
+      data: { url: message.url || "/" }
+    })
+  )
+})
+
+// Focus an open tab of the app, or open one
+self.addEventListener("notificationclick", event => {
+  event.notification.close()
+  const url = new URL((event.notification.data && event.notification.data.url) || "/", self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then(clients => {
+      const open = clients.find(client => client.url.startsWith(self.location.origin))
+      if (open) {
+        return open.focus().then(client => (client && "navigate" in client && client.url !== url ? client.navigate(url) : client))
+      }
+      return self.clients.openWindow(url)
+    })
+  )
+})
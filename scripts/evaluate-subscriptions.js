@@ -0,0 +1,47 @@
+// Scheduled alert subscription evaluator
+// Run with: node scripts/evaluate-subscriptions.js [--once]
+//
+// Triggers POST /api/subscriptions/evaluate every
+// SUBSCRIPTION_EVALUATION_INTERVAL_MINUTES (default 10), so watch areas are
+// checked against NWS alerts and storm tracks even when nobody has the app
+// open. The endpoint is moderator-only: set the same
+// SUBSCRIPTION_EVALUATION_TOKEN here and on the server.
+
+const baseUrl = process.env.SUBSCRIPTION_EVALUATION_BASE_URL || "http://localhost:3000"
+const intervalMinutes = Number(process.env.SUBSCRIPTION_EVALUATION_INTERVAL_MINUTES) || 10
+const once = process.argv.includes("--once")
+
+async function evaluate() {
+  const started = new Date()
+  try {
+    const response = await fetch(`${baseUrl}/api/subscriptions/evaluate`, {
+      method: "POST",
+      headers: process.env.SUBSCRIPTION_EVALUATION_TOKEN ? { "x-evaluation-token": process.env.SUBSCRIPTION_EVALUATION_TOKEN } : {}
+    })
+
+    if (!response.ok) {
+      console.error(`❌ Evaluation failed: ${response.status} ${await response.text()}`)
+      return false
+    }
+
+    const summary = await response.json()
+    console.log(
+      `✅ ${started.toISOString()} evaluated ${summary.subscriptions} subscriptions against ${summary.points} ` +
+      `NWS points and ${summary.hurricanes} storms: ${summary.newMatches} new matches`
+    )
+    return true
+  } catch (error) {
+    console.error(`❌ Evaluation error: ${error.message}`)
+    return false
+  }
+}
+
+async function main() {
+  const ok = await evaluate()
+  if (once) process.exit(ok ? 0 : 1)
+
+  console.log(`⏱️  Evaluating every ${intervalMinutes} minutes against ${baseUrl}`)
+  setInterval(evaluate, intervalMinutes * 60000)
+}
+
+main()
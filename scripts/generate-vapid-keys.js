@@ -0,0 +1,14 @@
+// Generate a VAPID key pair for Web Push
+// Run with: node scripts/generate-vapid-keys.js
+//
+// Prints the two env lines the server needs. Generate once per deployment and
+// keep the private key secret: changing the pair invalidates every existing
+// browser subscription.
+
+const crypto = require("crypto")
+
+const ecdh = crypto.createECDH("prime256v1")
+ecdh.generateKeys()
+
+console.log(`VAPID_PUBLIC_KEY=${ecdh.getPublicKey().toString("base64url")}`)
+console.log(`VAPID_PRIVATE_KEY=${ecdh.getPrivateKey().toString("base64url")}`)
@@ -0,0 +1,53 @@
+// Scheduled open-status refresher for the seed lists
+// Run with: node scripts/refresh-open-status.js [--once] [--force]
+//
+// Triggers POST /api/open-status every OPEN_STATUS_REFRESH_INTERVAL_MINUTES
+// (default 30). The server only re-queries entries older than
+// OPEN_STATUS_TTL_MINUTES, so a short interval doesn't waste Places quota.
+// The endpoint is admin-only: set the same OPEN_STATUS_REFRESH_TOKEN here and
+// on the server.
+
+const baseUrl = process.env.OPEN_STATUS_BASE_URL || "http://localhost:3000"
+const intervalMinutes = Number(process.env.OPEN_STATUS_REFRESH_INTERVAL_MINUTES) || 30
+const once = process.argv.includes("--once")
+const force = process.argv.includes("--force")
+
+async function refresh() {
+  const started = new Date()
+  try {
+    const response = await fetch(`${baseUrl}/api/open-status`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.OPEN_STATUS_REFRESH_TOKEN ? { "x-refresh-token": process.env.OPEN_STATUS_REFRESH_TOKEN } : {})
+      },
+      body: JSON.stringify({ force })
+    })
+
+    if (!response.ok) {
+      console.error(`❌ Refresh failed: ${response.status} ${await response.text()}`)
+      return false
+    }
+
+    const summary = await response.json()
+    console.log(
+      `✅ ${started.toISOString()} checked ${summary.checked}, updated ${summary.updated}, ` +
+      `failed ${summary.failed}, fresh ${summary.skipped} (${summary.durationMs}ms)`
+    )
+    if (!summary.keyPresent) console.warn("⚠️  No Maps key configured on the server; nothing was refreshed")
+    return true
+  } catch (error) {
+    console.error(`❌ Refresh error: ${error.message}`)
+    return false
+  }
+}
+
+async function main() {
+  const ok = await refresh()
+  if (once) process.exit(ok ? 0 : 1)
+
+  console.log(`⏱️  Refreshing every ${intervalMinutes} minutes against ${baseUrl}`)
+  setInterval(refresh, intervalMinutes * 60000)
+}
+
+main()
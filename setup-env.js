@@ -23,6 +23,12 @@ OPENWEATHER_API_KEY=your_openweather_api_key_here
 # Get your XWeather API key from: https://account.xweather.com/data/apps
 XWEATHER_API_KEY=your_xweather_api_key_here
 
+# Web Push (Optional - severe weather alerts with the tab closed)
+# Generate with: node scripts/generate-vapid-keys.js
+VAPID_PUBLIC_KEY=
+VAPID_PRIVATE_KEY=
+VAPID_SUBJECT=mailto:alerts@google-storm.app
+
 # NextAuth Configuration
 NEXTAUTH_URL=http://localhost:3001
 NEXTAUTH_SECRET=your_nextauth_secret_here
@@ -0,0 +1,193 @@
+// Server-side admin guard on the moderation endpoints.
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import { getAuth } from 'firebase-admin/auth'
+import pendingHandler from '@/pages/api/pending'
+import pendingItemHandler from '@/pages/api/pending/[id]'
+import listPendingHandler from '@/pages/api/list-pending'
+import approveHandler from '@/pages/api/approve'
+import rejectHandler from '@/pages/api/reject'
+import requestInfoHandler from '@/pages/api/request-info'
+import reviewHandler from '@/pages/api/review'
+import openStatusHandler from '@/pages/api/open-status'
+import geocodeBatchHandler from '@/pages/api/geocode/batch'
+import { MemoryStorage } from '@/lib/memory-storage'
+import { setResourceRepository } from '@/lib/resource-repository'
+import { createAdminRoster } from '../helpers/admins'
+import { callApi } from '../helpers/api'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+vi.mock('firebase-admin/auth', () => ({ getAuth: vi.fn() }))
+
+const guardedRequests: [string, Parameters<typeof callApi>[0], Parameters<typeof callApi>[1]][] = [
+  ['GET /api/list-pending', listPendingHandler, { method: 'GET' }],
+  ['POST /api/approve', approveHandler, { method: 'POST', body: { id: 'x' } }],
+  ['POST /api/reject', rejectHandler, { method: 'POST', body: { id: 'x', reason: 'closed' } }],
+  ['POST /api/request-info', requestInfoHandler, { method: 'POST', body: { id: 'x', message: 'hours?' } }],
+  ['POST /api/review', reviewHandler, { method: 'POST', body: { id: 'x' } }],
+  ['PATCH /api/pending/[id]', pendingItemHandler, { method: 'PATCH', query: { id: 'x' }, body: { name: 'y' } }],
+  ['POST /api/open-status', openStatusHandler, { method: 'POST', body: {} }],
+  ['POST /api/geocode/batch', geocodeBatchHandler, { method: 'POST', body: { addresses: ['1603 NW 7th Ave, Miami, FL'] } }],
+]
+
+function mockIdToken(claims: Record<string, unknown> | Error) {
+  const verifyIdToken = claims instanceof Error ? vi.fn().mockRejectedValue(claims) : vi.fn().mockResolvedValue(claims)
+  vi.mocked(getAuth).mockReturnValue({ verifyIdToken } as any)
+  return verifyIdToken
+}
+
+describe('admin guard', () => {
+  beforeEach(async () => {
+    vi.mocked(getServerSession).mockResolvedValue(null)
+    setResourceRepository(new MemoryStorage())
+    await createAdminRoster([
+      { email: 'admin@example.org', role: 'admin' },
+      { email: 'viewer@example.org', role: 'viewer' },
+      { email: 'ops@example.org', role: 'moderator' },
+    ])
+  })
+
+  it.each(guardedRequests)('%s requires authentication', async (_route, handler, options) => {
+    const { status, body } = await callApi(handler, options)
+    expect(status).toBe(401)
+    expect(body.error).toBe('Authentication required')
+  })
+
+  it.each(guardedRequests)('%s rejects signed-in users who are not on the roster', async (_route, handler, options) => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { email: 'someone@example.org' } } as any)
+
+    const { status } = await callApi(handler, options)
+    expect(status).toBe(403)
+  })
+
+  it('lets an admin session through', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { email: 'Admin@Example.org' } } as any)
+
+    const { status } = await callApi(approveHandler, { method: 'POST', body: { id: 'missing' } })
+    expect(status).toBe(404)
+  })
+
+  it('lets viewers read the queue but not moderate', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { email: 'viewer@example.org' } } as any)
+
+    expect((await callApi(listPendingHandler)).status).toBe(200)
+
+    const { status, body } = await callApi(approveHandler, { method: 'POST', body: { id: 'missing' } })
+    expect(status).toBe(403)
+    expect(body.error).toBe('Requires the moderator role')
+  })
+
+  it('applies roster removals to existing sessions', async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { email: 'viewer@example.org', isAdmin: true, role: 'admin' } } as any)
+
+    // The session claims admin, but the roster says viewer
+    expect((await callApi(approveHandler, { method: 'POST', body: { id: 'missing' } })).status).toBe(403)
+  })
+
+  it('keeps public submissions open', async () => {
+    const { status } = await callApi(pendingHandler, {
+      method: 'POST',
+      body: { name: 'Hope Family Shelter', type: 'shelter', address: '1603 NW 7th Ave, Miami, FL 33136' },
+    })
+    expect(status).toBe(200)
+  })
+
+  describe('Firebase ID tokens', () => {
+    it('accepts a token for a roster moderator and records its email', async () => {
+      const verifyIdToken = mockIdToken({ uid: 'uid-1', email: 'ops@example.org', email_verified: true })
+      const id = (await callApi(pendingHandler, {
+        method: 'POST',
+        body: { name: 'Hope Family Shelter', type: 'shelter', address: '1603 NW 7th Ave, Miami, FL 33136' },
+      })).body.id
+      vi.mocked(getServerSession).mockClear()
+
+      const { status } = await callApi(rejectHandler, {
+        method: 'POST',
+        headers: { authorization: 'Bearer good-token' },
+        body: { id, reason: 'closed' },
+      })
+
+      expect(status).toBe(200)
+      expect(verifyIdToken).toHaveBeenCalledWith('good-token')
+      expect(getServerSession).not.toHaveBeenCalled()
+
+      const { body } = await callApi(listPendingHandler, {
+        headers: { authorization: 'Bearer good-token' },
+        query: { status: 'rejected' },
+      })
+      expect(body.resources[0].moderationHistory.at(-1).by).toBe('ops@example.org')
+    })
+
+    it('takes the role from the roster, not the token claims', async () => {
+      mockIdToken({ uid: 'uid-3', email: 'viewer@example.org', email_verified: true, admin: true, role: 'admin' })
+
+      const { status } = await callApi(approveHandler, {
+        method: 'POST',
+        headers: { authorization: 'Bearer stale-claims' },
+        body: { id: 'x' },
+      })
+      expect(status).toBe(403)
+
+      mockIdToken({ uid: 'uid-5', admin: true, role: 'admin' })
+      expect((await callApi(listPendingHandler, { headers: { authorization: 'Bearer no-email' } })).status).toBe(403)
+    })
+
+    it('ignores an unverified email', async () => {
+      mockIdToken({ uid: 'uid-6', email: 'admin@example.org', email_verified: false })
+
+      expect((await callApi(listPendingHandler, { headers: { authorization: 'Bearer unverified' } })).status).toBe(403)
+    })
+
+    it('rejects a viewer token on moderation endpoints', async () => {
+      mockIdToken({ uid: 'uid-4', email: 'viewer@example.org', email_verified: true })
+
+      const { status } = await callApi(approveHandler, {
+        method: 'POST',
+        headers: { authorization: 'Bearer viewer-token' },
+        body: { id: 'x' },
+      })
+      expect(status).toBe(403)
+    })
+
+    it('rejects a token for someone who is not on the roster', async () => {
+      mockIdToken({ uid: 'uid-2', email: 'user@example.org', email_verified: true })
+
+      const { status } = await callApi(listPendingHandler, { headers: { authorization: 'Bearer user-token' } })
+      expect(status).toBe(403)
+    })
+
+    it('rejects an invalid token', async () => {
+      mockIdToken(Object.assign(new Error('Decoding Firebase ID token failed'), { code: 'auth/argument-error' }))
+
+      const { status } = await callApi(listPendingHandler, { headers: { authorization: 'Bearer garbage' } })
+      expect(status).toBe(401)
+    })
+  })
+
+  describe('open-status refresh token', () => {
+    it('accepts the scheduler token without a session', async () => {
+      vi.stubEnv('OPEN_STATUS_REFRESH_TOKEN', 'cron-secret')
+
+      const { status, body } = await callApi(openStatusHandler, {
+        method: 'POST',
+        headers: { 'x-refresh-token': 'cron-secret' },
+        body: { ids: [] },
+      })
+      expect(status).toBe(200)
+      expect(body.keyPresent).toBe(false)
+    })
+
+    it('rejects a wrong or unconfigured token', async () => {
+      const unconfigured = await callApi(openStatusHandler, { method: 'POST', headers: { 'x-refresh-token': 'guess' } })
+      expect(unconfigured.status).toBe(401)
+
+      vi.stubEnv('OPEN_STATUS_REFRESH_TOKEN', 'cron-secret')
+      const wrong = await callApi(openStatusHandler, { method: 'POST', headers: { 'x-refresh-token': 'guess' } })
+      expect(wrong.status).toBe(401)
+    })
+  })
+})
@@ -0,0 +1,202 @@
+// Admin roster management: invites, role changes, removals, audit trail and Firebase claims.
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import { getAuth } from 'firebase-admin/auth'
+import adminsHandler from '@/pages/api/admins'
+import adminHandler from '@/pages/api/admins/[email]'
+import syncClaimsHandler from '@/pages/api/admins/sync-claims'
+import { authOptions, ROLE_REFRESH_MS } from '@/pages/api/auth/[...nextauth]'
+import { ADMIN_ROSTER_PATH, FileAdminRoster, getAdminRole, setAdminRosterStore } from '@/lib/admin-roster'
+import { createAdminRoster } from '../helpers/admins'
+import { callApi } from '../helpers/api'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+vi.mock('firebase-admin/auth', () => ({ getAuth: vi.fn() }))
+
+// Behaves like the Firestore roster for claim syncing, without needing Firestore
+class FirebaseBackedRoster extends FileAdminRoster {
+  readonly kind = 'firestore' as const
+}
+
+function signInAs(email: string) {
+  vi.mocked(getServerSession).mockResolvedValue({ user: { email } } as any)
+}
+
+describe('/api/admins', () => {
+  beforeEach(async () => {
+    await createAdminRoster([
+      { email: 'lead@example.org', role: 'admin' },
+      { email: 'mod@example.org', role: 'moderator' },
+    ])
+    signInAs('lead@example.org')
+  })
+
+  it('lists members, admins first', async () => {
+    const { status, body } = await callApi(adminsHandler)
+
+    expect(status).toBe(200)
+    expect(body.members.map((m: any) => [m.email, m.role])).toEqual([
+      ['lead@example.org', 'admin'],
+      ['mod@example.org', 'moderator'],
+    ])
+  })
+
+  it('is limited to admins', async () => {
+    signInAs('mod@example.org')
+
+    expect((await callApi(adminsHandler)).status).toBe(403)
+    expect((await callApi(adminHandler, { method: 'DELETE', query: { email: 'lead@example.org' } })).status).toBe(403)
+  })
+
+  it('invites, changes and removes members with an audit trail', async () => {
+    const invited = await callApi(adminsHandler, { method: 'POST', body: { email: ' New.Person@Example.org ', role: 'viewer' } })
+    expect(invited.status).toBe(200)
+    expect(invited.body.member).toMatchObject({ email: 'new.person@example.org', role: 'viewer', addedBy: 'lead@example.org' })
+    expect(invited.body.claims).toBe('skipped')
+    expect(await getAdminRole('NEW.PERSON@example.org')).toBe('viewer')
+
+    const promoted = await callApi(adminHandler, { method: 'PATCH', query: { email: 'new.person@example.org' }, body: { role: 'moderator' } })
+    expect(promoted.status).toBe(200)
+    expect(promoted.body.member).toMatchObject({ role: 'moderator', updatedBy: 'lead@example.org' })
+
+    const removed = await callApi(adminHandler, { method: 'DELETE', query: { email: 'new.person@example.org' } })
+    expect(removed.status).toBe(200)
+    expect(await getAdminRole('new.person@example.org')).toBeNull()
+
+    const { body } = await callApi(adminsHandler)
+    expect(body.audit.map((e: any) => [e.from, e.to, e.by])).toEqual([
+      ['moderator', null, 'lead@example.org'],
+      ['viewer', 'moderator', 'lead@example.org'],
+      [null, 'viewer', 'lead@example.org'],
+    ])
+  })
+
+  it('validates invites', async () => {
+    expect((await callApi(adminsHandler, { method: 'POST', body: { email: 'not-an-email', role: 'viewer' } })).status).toBe(400)
+    expect((await callApi(adminsHandler, { method: 'POST', body: { email: 'x@example.org', role: 'owner' } })).status).toBe(400)
+
+    const duplicate = await callApi(adminsHandler, { method: 'POST', body: { email: 'MOD@example.org', role: 'admin' } })
+    expect(duplicate.status).toBe(409)
+  })
+
+  it('keeps at least one admin', async () => {
+    const demote = await callApi(adminHandler, { method: 'PATCH', query: { email: 'lead@example.org' }, body: { role: 'viewer' } })
+    expect(demote.status).toBe(409)
+
+    const remove = await callApi(adminHandler, { method: 'DELETE', query: { email: 'lead@example.org' } })
+    expect(remove.status).toBe(409)
+
+    expect((await callApi(adminHandler, { method: 'DELETE', query: { email: 'missing@example.org' } })).status).toBe(404)
+  })
+
+  it('rejects unsupported methods', async () => {
+    expect((await callApi(adminsHandler, { method: 'DELETE' })).status).toBe(405)
+    expect((await callApi(adminHandler, { method: 'GET', query: { email: 'x' } })).status).toBe(405)
+  })
+})
+
+describe('Firebase custom claims', () => {
+  const auth = {
+    getUserByEmail: vi.fn(),
+    setCustomUserClaims: vi.fn(),
+  }
+
+  beforeEach(async () => {
+    await createAdminRoster(
+      [{ email: 'lead@example.org', role: 'admin' }],
+      new FirebaseBackedRoster(path.join(os.tmpdir(), `admins-${Date.now()}-${Math.random()}.json`))
+    )
+    signInAs('lead@example.org')
+    vi.mocked(getAuth).mockReturnValue(auth as any)
+    auth.getUserByEmail.mockReset()
+    auth.setCustomUserClaims.mockReset().mockResolvedValue(undefined)
+  })
+
+  it('grants role and admin claims, keeping unrelated claims', async () => {
+    auth.getUserByEmail.mockResolvedValue({ uid: 'uid-1', customClaims: { beta: true } })
+
+    const { body } = await callApi(adminsHandler, { method: 'POST', body: { email: 'mod@example.org', role: 'moderator' } })
+
+    expect(body.claims).toBe('synced')
+    expect(auth.setCustomUserClaims).toHaveBeenCalledWith('uid-1', { beta: true, role: 'moderator', admin: true })
+  })
+
+  it('gives viewers no admin claim and clears claims on removal', async () => {
+    auth.getUserByEmail.mockResolvedValue({ uid: 'uid-2', customClaims: { role: 'viewer', admin: false } })
+
+    await callApi(adminsHandler, { method: 'POST', body: { email: 'view@example.org', role: 'viewer' } })
+    expect(auth.setCustomUserClaims).toHaveBeenLastCalledWith('uid-2', { role: 'viewer', admin: false })
+
+    await callApi(adminHandler, { method: 'DELETE', query: { email: 'view@example.org' } })
+    expect(auth.setCustomUserClaims).toHaveBeenLastCalledWith('uid-2', {})
+  })
+
+  it('reports members without a Firebase account', async () => {
+    auth.getUserByEmail.mockRejectedValue(Object.assign(new Error('no user'), { code: 'auth/user-not-found' }))
+
+    const { status, body } = await callApi(adminsHandler, { method: 'POST', body: { email: 'new@example.org', role: 'moderator' } })
+    expect(status).toBe(200)
+    expect(body.claims).toBe('no_firebase_user')
+
+    auth.getUserByEmail.mockResolvedValue({ uid: 'uid-3' })
+    const synced = await callApi(syncClaimsHandler, { method: 'POST' })
+    expect(synced.body.results).toEqual({ 'lead@example.org': 'synced', 'new@example.org': 'synced' })
+  })
+
+  it('seeds an empty Firebase-backed roster from the config file', async () => {
+    fs.writeFileSync(ADMIN_ROSTER_PATH, JSON.stringify({ members: [{ email: 'Founder@Example.org', role: 'admin' }] }))
+    auth.getUserByEmail.mockRejectedValue(Object.assign(new Error('no user'), { code: 'auth/user-not-found' }))
+    setAdminRosterStore(new FirebaseBackedRoster(path.join(os.tmpdir(), `admins-empty-${Date.now()}.json`)))
+
+    try {
+      expect(await getAdminRole('founder@example.org')).toBe('admin')
+
+      signInAs('founder@example.org')
+      const { body } = await callApi(adminsHandler)
+      expect(body.audit).toEqual([expect.objectContaining({ email: 'founder@example.org', from: null, to: 'admin', by: 'config' })])
+    } finally {
+      fs.rmSync(ADMIN_ROSTER_PATH, { force: true })
+    }
+  })
+})
+
+describe('NextAuth callbacks', () => {
+  beforeEach(async () => {
+    await createAdminRoster([{ email: 'mod@example.org', role: 'moderator' }])
+  })
+
+  const jwt = (token: Record<string, unknown>) => (authOptions.callbacks.jwt as any)({ token })
+  const session = (token: Record<string, unknown>) =>
+    (authOptions.callbacks.session as any)({ session: { user: { email: token.email } }, token })
+
+  it('adds the roster role to the session', async () => {
+    const token = await jwt({ sub: 'google-123', email: 'Mod@Example.org' })
+
+    expect((await session(token)).user).toMatchObject({ id: 'google-123', isAdmin: true, role: 'moderator' })
+  })
+
+  it('signs in people outside the roster without admin access', async () => {
+    expect(await (authOptions.callbacks.signIn as any)({ user: { email: 'stranger@example.org' } })).toBe(true)
+
+    const { user } = await session(await jwt({ sub: 'google-456', email: 'stranger@example.org' }))
+    expect(user).toMatchObject({ id: 'google-456', isAdmin: false })
+    expect(user.role).toBeUndefined()
+  })
+
+  it('re-reads the role from the roster only every few minutes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const token = await jwt({ sub: 'google-123', email: 'mod@example.org' })
+    await createAdminRoster([{ email: 'mod@example.org', role: 'admin' }])
+
+    expect((await jwt(token)).role).toBe('moderator')
+    vi.advanceTimersByTime(ROLE_REFRESH_MS)
+    expect((await jwt(token)).role).toBe('admin')
+  })
+})
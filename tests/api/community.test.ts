@@ -0,0 +1,170 @@
+// Community pipeline: submit → list-pending → moderate → approve → resources,
+// against every storage backend (Firestore only when the emulator is running).
+import os from 'os'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import pendingHandler from '@/pages/api/pending'
+import pendingItemHandler from '@/pages/api/pending/[id]'
+import listPendingHandler from '@/pages/api/list-pending'
+import approveHandler from '@/pages/api/approve'
+import rejectHandler from '@/pages/api/reject'
+import requestInfoHandler from '@/pages/api/request-info'
+import resourcesHandler from '@/pages/api/resources'
+import { MemoryStorage } from '@/lib/memory-storage'
+import { JsonFileStorage } from '@/lib/json-file-storage'
+import { ResourceRepository, setResourceRepository } from '@/lib/resource-repository'
+import { createAdminRoster } from '../helpers/admins'
+import { callApi } from '../helpers/api'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+// Captured before the per-test fetch stub so emulator resets still reach the network
+const realFetch = globalThis.fetch
+
+const backends: [string, () => ResourceRepository | Promise<ResourceRepository>][] = [
+  ['memory', () => new MemoryStorage()],
+  ['json', () => new JsonFileStorage(path.join(os.tmpdir(), `local-store-${Date.now()}-${Math.random()}.json`))],
+]
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  backends.push(['firestore', async () => {
+    const { FirestoreStorage } = await import('@/lib/firestore-storage')
+    await realFetch(
+      `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/storm-5d762/databases/(default)/documents`,
+      { method: 'DELETE' }
+    )
+    return new FirestoreStorage()
+  }])
+}
+
+const submission = {
+  name: 'Hope Family Shelter',
+  type: 'shelter',
+  address: '1603 NW 7th Ave, Miami, FL 33136',
+  lat: 25.7905,
+  lng: -80.1993,
+  notes: 'Open nightly, families welcome',
+}
+
+async function submit(body: Record<string, unknown> = submission): Promise<string> {
+  const { status, body: result } = await callApi(pendingHandler, { method: 'POST', body })
+  expect(status).toBe(200)
+  return result.id
+}
+
+describe.each(backends)('community pipeline (%s storage)', (_name, createRepository) => {
+  beforeEach(async () => {
+    vi.mocked(getServerSession).mockResolvedValue({ user: { email: 'admin@example.org' } } as any)
+    await createAdminRoster([{ email: 'admin@example.org', role: 'moderator' }])
+    setResourceRepository(await createRepository())
+  })
+
+  it('lists a new submission with its pre-review and history', async () => {
+    const id = await submit()
+
+    const { status, body } = await callApi(listPendingHandler)
+    expect(status).toBe(200)
+    expect(body.resources).toHaveLength(1)
+
+    const [pending] = body.resources
+    // The session has no account id, so this counts as an anonymous submission
+    expect(pending).toMatchObject({ id, name: submission.name, status: 'pending', submittedBy: 'anon' })
+    expect(pending.moderationHistory.map((e: any) => e.action)).toEqual(['submitted'])
+    // Offline: the address resolves from the seed list and nothing else matches it
+    expect(pending.aiReview).toMatchObject({ status: 'likely_valid', method: 'heuristic' })
+  })
+
+  it('approves a submission into the public resources', async () => {
+    const id = await submit()
+
+    const approved = await callApi(approveHandler, { method: 'POST', body: { id } })
+    expect(approved.status).toBe(200)
+    expect(approved.body.ok).toBe(true)
+
+    expect((await callApi(listPendingHandler)).body.resources).toEqual([])
+
+    const { body } = await callApi(resourcesHandler)
+    expect(body.resources).toHaveLength(1)
+    expect(body.resources[0]).toMatchObject({ name: submission.name, type: 'shelter', source: 'community', openNow: null })
+    expect(body.resources[0].approvedAt).toEqual(expect.any(String))
+  })
+
+  it('rejects with a reason and keeps the record out of the review queue', async () => {
+    const id = await submit()
+
+    expect((await callApi(rejectHandler, { method: 'POST', body: { id } })).status).toBe(400)
+
+    const rejected = await callApi(rejectHandler, { method: 'POST', body: { id, reason: 'Permanently closed' } })
+    expect(rejected.status).toBe(200)
+
+    expect((await callApi(listPendingHandler)).body.resources).toEqual([])
+
+    const { body } = await callApi(listPendingHandler, { query: { status: 'rejected' } })
+    expect(body.resources[0]).toMatchObject({ id, status: 'rejected', rejectionReason: 'Permanently closed' })
+    expect(body.resources[0].moderationHistory.map((e: any) => e.action)).toEqual(['submitted', 'rejected'])
+  })
+
+  it('requests more information and edits before approving', async () => {
+    const id = await submit()
+
+    const info = await callApi(requestInfoHandler, { method: 'POST', body: { id, message: 'Which entrance?' } })
+    expect(info.status).toBe(200)
+
+    const invalid = await callApi(pendingItemHandler, { method: 'PATCH', query: { id }, body: { lat: 123 } })
+    expect(invalid.status).toBe(400)
+
+    const edited = await callApi(pendingItemHandler, {
+      method: 'PATCH',
+      query: { id },
+      body: { name: 'Hope Family Shelter (North)', lat: 25.791 },
+    })
+    expect(edited.status).toBe(200)
+    expect(edited.body.resource.moderationHistory.at(-1)).toMatchObject({
+      action: 'edited',
+      changes: { name: { from: submission.name, to: 'Hope Family Shelter (North)' }, lat: { from: 25.7905, to: 25.791 } },
+    })
+
+    const { body } = await callApi(listPendingHandler)
+    expect(body.resources[0]).toMatchObject({ status: 'needs_info', infoRequest: 'Which entrance?', name: 'Hope Family Shelter (North)' })
+
+    await callApi(approveHandler, { method: 'POST', body: { id } })
+    const resources = (await callApi(resourcesHandler)).body.resources
+    expect(resources[0]).toMatchObject({ name: 'Hope Family Shelter (North)', lat: 25.791 })
+  })
+
+  it('flags spam and duplicates of seed resources in the pre-review', async () => {
+    await submit({ ...submission, name: 'Camillus House', lat: 25.7904, lng: -80.1993 })
+    await submit({ ...submission, name: 'Cheap loans', notes: 'visit www.example.com now' })
+
+    const { body } = await callApi(listPendingHandler)
+    const byName = Object.fromEntries(body.resources.map((r: any) => [r.name, r.aiReview]))
+    expect(byName['Camillus House'].status).toBe('likely_invalid')
+    expect(byName['Camillus House'].reasons.join(' ')).toMatch(/Duplicates existing resource/)
+    expect(byName['Cheap loans'].status).toBe('likely_invalid')
+  })
+
+  it('records the signed-in admin as the moderator', async () => {
+    const id = await submit()
+    await callApi(rejectHandler, { method: 'POST', body: { id, reason: 'Duplicate listing' } })
+
+    const { body } = await callApi(listPendingHandler, { query: { status: 'rejected' } })
+    expect(body.resources[0].moderationHistory.at(-1)).toMatchObject({ action: 'rejected', by: 'admin@example.org' })
+  })
+
+  it('returns 404 for unknown submissions', async () => {
+    expect((await callApi(approveHandler, { method: 'POST', body: { id: 'missing' } })).status).toBe(404)
+    expect((await callApi(rejectHandler, { method: 'POST', body: { id: 'missing', reason: 'x' } })).status).toBe(404)
+    expect((await callApi(pendingItemHandler, { method: 'PATCH', query: { id: 'missing' }, body: { name: 'x' } })).status).toBe(404)
+  })
+
+  it('rejects unsupported methods', async () => {
+    expect((await callApi(pendingHandler, { method: 'GET' })).status).toBe(405)
+    expect((await callApi(approveHandler, { method: 'GET' })).status).toBe(405)
+    expect((await callApi(listPendingHandler, { method: 'POST' })).status).toBe(405)
+    expect((await callApi(resourcesHandler, { method: 'DELETE' })).status).toBe(405)
+  })
+})
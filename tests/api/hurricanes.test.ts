@@ -0,0 +1,145 @@
+// Hurricane aggregation against recorded NHC RSS and KML feeds.
+import { describe, expect, it, vi } from 'vitest'
+import hurricanesHandler from '@/pages/api/hurricanes'
+import { geometryContains } from '@/lib/geofence'
+import { callApi } from '../helpers/api'
+import { loadFixture, mockFetch } from '../helpers/fetch'
+
+const IMELDA_PRODUCTS = [
+  { match: 'nhc.noaa.gov/CurrentStorms.json', fixture: 'nhc-current-storms.json' },
+  { match: 'AL092025_011adv_CONE.kmz', fixture: 'nhc-imelda-cone.kmz' },
+  { match: 'AL092025_011adv_WW.kmz', fixture: 'nhc-imelda-ww.kml' },
+  { match: 'AL092025_initialradii_011adv.kmz', fixture: 'nhc-imelda-initialradii.kml' },
+  { match: 'AL092025_forecastradii_011adv.kmz', fixture: 'nhc-imelda-forecastradii.kml' },
+  { match: 'nhc.noaa.gov/text/MIATCMAT4.shtml', fixture: 'nhc-imelda-tcm.html' },
+]
+
+describe('/api/hurricanes', () => {
+  it('parses active storms from the NHC Atlantic RSS feed', async () => {
+    mockFetch([{ match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }])
+
+    const { status, body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(status).toBe(200)
+    expect(body.source).toBe('NOAA RSS')
+    expect(body.hurricanes).toHaveLength(1)
+    expect(body.hurricanes[0]).toMatchObject({ id: 'atl_imelda', name: 'Imelda', status: 'active', basin: 'ATL' })
+    expect(body.hurricanes[0].currentPosition).toMatchObject({ lat: 28.9, lng: -76.9, pressure: 975 })
+    expect(body.hurricanes[0].currentPosition.provenance).toEqual({
+      position: 'observed', timestamp: 'observed', windSpeed: 'observed', pressure: 'observed',
+    })
+    // CurrentStorms.json isn't reachable here, so there is no forecast to show rather than a made-up one
+    expect(body.hurricanes[0].products).toBeUndefined()
+    expect(body.hurricanes[0].forecastPositions).toEqual([])
+  })
+
+  it("follows NHC's forecast/advisory for the track, with its valid times and intensities", async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-30T16:00:00Z'))
+    mockFetch([{ match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }, ...IMELDA_PRODUCTS])
+
+    const { body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+    const [imelda] = body.hurricanes
+
+    // The 11 AM EDT public advisory and the 1500 UTC forecast/advisory are the same analysis
+    expect(imelda.currentPosition).toEqual({
+      lat: 29.1,
+      lng: -76.6,
+      timestamp: '2025-09-30T15:00:00.000Z',
+      windSpeed: 85,
+      windGust: 105,
+      pressure: 974,
+      category: 1,
+      provenance: { position: 'observed', timestamp: 'observed', windSpeed: 'observed', pressure: 'observed' },
+    })
+
+    // The forecast runs into October; the dissipated outlook point has no position
+    expect(imelda.forecastPositions.map((position: any) => [position.timestamp, position.lat, position.lng, position.windSpeed])).toEqual([
+      ['2025-10-01T00:00:00.000Z', 29.8, -75, 90],
+      ['2025-10-01T12:00:00.000Z', 30.6, -72, 100],
+      ['2025-10-02T12:00:00.000Z', 32.4, -65, 100],
+      ['2025-10-03T12:00:00.000Z', 35.5, -58.5, 85],
+      ['2025-10-04T12:00:00.000Z', 39, -52, 70],
+    ])
+    // NHC doesn't forecast central pressure
+    expect(imelda.forecastPositions[0]).not.toHaveProperty('pressure')
+    expect(imelda.forecastPositions[0].provenance).toEqual({ position: 'forecast', timestamp: 'forecast', windSpeed: 'forecast' })
+  })
+
+  it('attaches the NHC cone, watches and warnings and wind field to the storm', async () => {
+    mockFetch([{ match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }, ...IMELDA_PRODUCTS])
+
+    const { status, body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(status).toBe(200)
+    const { products } = body.hurricanes[0]
+    expect(products).toMatchObject({ advisory: '011', issuedAt: '2025-09-30T15:00:00.000Z' })
+
+    // Bermuda is in the cone, Miami is not
+    expect(products.cone.type).toBe('Polygon')
+    expect(geometryContains(products.cone, { lat: 32.3, lng: -64.8 })).toBe(true)
+    expect(geometryContains(products.cone, { lat: 25.77, lng: -80.19 })).toBe(false)
+
+    expect(products.watchesWarnings).toEqual([
+      { type: 'hurricane_warning', coastline: [[[-64.9, 32.25], [-64.78, 32.3], [-64.65, 32.38]]] },
+      { type: 'tropical_storm_watch', coastline: [[[-80.03, 26.7], [-80.05, 27.2]], [[-80.2, 27.6], [-80.4, 28.1]]] },
+    ])
+
+    expect(products.windField.map((radii: any) => radii.thresholdKt)).toEqual([34, 50, 64])
+    expect(products.windField[0].validTime).toBeUndefined()
+    expect(geometryContains(products.windField[2].geometry, { lat: 28.9, lng: -76.9 })).toBe(true)
+    expect(products.forecastWindField.map((radii: any) => [radii.thresholdKt, radii.validTime])).toEqual([
+      [34, '2025-10-01T12:00:00.000Z'],
+      [64, '2025-10-01T12:00:00.000Z'],
+      [34, '2025-10-02T12:00:00.000Z'],
+    ])
+  })
+
+  it('keeps the products that loaded when others fail', async () => {
+    // A later advisory, as files already fetched are kept in memory
+    const advisory12 = JSON.parse(loadFixture('nhc-current-storms.json').replace(/011/g, '012'))
+    mockFetch([
+      { match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' },
+      { match: 'nhc.noaa.gov/CurrentStorms.json', body: advisory12 },
+      { match: 'AL092025_012adv_CONE.kmz', status: 404, body: {} },
+      { match: 'AL092025_012adv_WW.kmz', fixture: 'nhc-imelda-ww.kml' },
+      { match: /_012adv\.kmz$/, status: 404, body: {} },
+    ])
+
+    const { body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(body.hurricanes[0].products).toMatchObject({ advisory: '012', windField: [], forecastWindField: [] })
+    expect(body.hurricanes[0].products.cone).toBeUndefined()
+    expect(body.hurricanes[0].products.watchesWarnings).toHaveLength(2)
+  })
+
+  it('falls back to the NHC KML feed when RSS is down', async () => {
+    mockFetch([
+      { match: 'nhc.noaa.gov/index-at.xml', status: 503, body: {} },
+      { match: 'nhc.noaa.gov/gis/kml/activeStorms.kml', fixture: 'nhc-active-storms.kml' },
+      { match: 'nhc.noaa.gov/gis/kml/', status: 404, body: {} },
+    ])
+
+    const { status, body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(status).toBe(200)
+    expect(body.source).toBe('NOAA KML')
+    // The same id as from the RSS feed, so a feed switch isn't a new storm
+    expect(body.hurricanes[0]).toMatchObject({ id: 'atl_imelda', name: 'Hurricane IMELDA' })
+    expect(body.hurricanes[0].currentPosition).toMatchObject({ lat: 28.9, lng: -76.9 })
+  })
+
+  it('returns an empty list when every source fails', async () => {
+    mockFetch([{ match: 'nhc.noaa.gov', status: 503, body: {} }])
+
+    const { status, body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(status).toBe(200)
+    expect(body.hurricanes).toEqual([])
+    expect(body.source).toBe('No Data Available')
+  })
+
+  it('rejects unsupported methods', async () => {
+    expect((await callApi(hurricanesHandler, { method: 'POST' })).status).toBe(405)
+  })
+})
@@ -0,0 +1,18 @@
+// Open-status refreshes of the seed datasets.
+import { describe, expect, it } from 'vitest'
+import { refreshOpenStatus } from '@/lib/open-status-cache'
+
+describe('refreshOpenStatus', () => {
+  it('shares a running refresh only with calls that asked for the same thing', async () => {
+    const everything = refreshOpenStatus({ force: true })
+    const again = refreshOpenStatus({ force: true })
+    const one = refreshOpenStatus({ ids: ['clinic-1', 'no-such-place'] })
+
+    expect(again).toBe(everything)
+    const [all, some] = await Promise.all([everything, one])
+    expect(all.checked).toBeGreaterThan(1)
+    expect(all.unknownIds).toEqual([])
+    expect(some).toMatchObject({ checked: 1, unknownIds: ['no-such-place'] })
+    expect(Date.parse(some.startedAt)).toBeGreaterThanOrEqual(Date.parse(all.startedAt) + all.durationMs)
+  })
+})
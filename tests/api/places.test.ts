@@ -0,0 +1,113 @@
+// Places-backed resource endpoints, including the mock fallbacks used without a Maps key.
+import fs from 'fs'
+import { describe, expect, it, vi } from 'vitest'
+import placesHandler from '@/pages/api/places'
+import sheltersHandler from '@/pages/api/shelters'
+import { getCachePath } from '@/lib/json-cache'
+import { callApi } from '../helpers/api'
+import { mockFetch } from '../helpers/fetch'
+
+describe('/api/places', () => {
+  it('returns mock places when no Maps key is configured', async () => {
+    const { status, body } = await callApi(placesHandler, { query: { type: 'food_bank', lat: '25.774', lng: '-80.193' } })
+
+    expect(status).toBe(200)
+    expect(body.results.length).toBeGreaterThan(0)
+    expect(body.results.every((r: any) => r.source === 'mock' && r.type === 'food_bank')).toBe(true)
+  })
+
+  it('maps Text Search results when a key is configured', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'test-key')
+    const calls = mockFetch([{ match: '/place/textsearch/json', fixture: 'places-textsearch-shelters.json' }])
+
+    const { status, body } = await callApi(placesHandler, { query: { type: 'shelter', lat: '25.79', lng: '-80.2', openNow: 'true' } })
+
+    expect(status).toBe(200)
+    expect(body.results).toHaveLength(2)
+    expect(body.results[0]).toMatchObject({
+      id: 'ChIJ9aVoAbi22YgR0qT6cZ7wQnE',
+      name: 'Camillus House',
+      type: 'shelter',
+      openNow: true,
+      source: 'places',
+    })
+    expect(calls[0]).toContain('opennow=true')
+  })
+
+  it('evaluates weekly hours from Place Details for openAt', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'test-key')
+    mockFetch([
+      { match: '/place/textsearch/json', fixture: 'places-textsearch-shelters.json' },
+      { match: '/place/details/json', fixture: 'places-details-hours.json' },
+    ])
+
+    // Saturday 2025-09-27 12:00 EDT: closed until Monday 08:00
+    const { body } = await callApi(placesHandler, { query: { type: 'shelter', openAt: '2025-09-27T16:00:00Z' } })
+
+    expect(body.openAt).toBe('2025-09-27T16:00:00.000Z')
+    expect(body.results[0].openStatus).toMatchObject({ state: 'closed', openNow: false, opensAt: '2025-09-29T12:00:00.000Z' })
+  })
+
+  it('reuses cached weekly hours instead of asking Place Details again', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'test-key')
+    const calls = mockFetch([
+      { match: '/place/textsearch/json', fixture: 'places-textsearch-shelters.json' },
+      { match: '/place/details/json', fixture: 'places-details-hours.json' },
+    ])
+
+    fs.rmSync(getCachePath('place-hours.json'), { force: true })
+    const detailsCalls = () => calls.filter(url => url.includes('/place/details/json'))
+
+    const query = { type: 'shelter', openAt: '2025-09-27T16:00:00Z' }
+    await callApi(placesHandler, { query })
+    expect(detailsCalls()).toHaveLength(2)
+    const { body } = await callApi(placesHandler, { query })
+
+    expect(detailsCalls()).toHaveLength(2)
+    expect(body.results[0].openStatus).toMatchObject({ state: 'closed', opensAt: '2025-09-29T12:00:00.000Z' })
+  })
+
+  it('rejects an invalid openAt', async () => {
+    const { status } = await callApi(placesHandler, { query: { type: 'shelter', openAt: 'next tuesday' } })
+    expect(status).toBe(400)
+  })
+
+  it('falls back to mock places when the Places request fails', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'test-key')
+    mockFetch([{ match: '/place/textsearch/json', status: 500, body: { status: 'UNKNOWN_ERROR' } }])
+
+    const { status, body } = await callApi(placesHandler, { query: { type: 'clinic' } })
+
+    expect(status).toBe(200)
+    expect(body.results.every((r: any) => r.source === 'mock')).toBe(true)
+  })
+})
+
+describe('/api/shelters', () => {
+  it('returns the mock shelters without a Maps key', async () => {
+    const { status, body } = await callApi(sheltersHandler)
+
+    expect(status).toBe(200)
+    expect(body.results.map((r: any) => r.id)).toEqual(['mock-shelter-1', 'mock-shelter-2'])
+  })
+
+  it('queries Places with the region query for the request location', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'test-key')
+    const calls = mockFetch([{ match: '/place/textsearch/json', fixture: 'places-textsearch-shelters.json' }])
+
+    const { body } = await callApi(sheltersHandler, { query: { lat: '29.76', lng: '-95.37' } })
+
+    expect(new URL(calls[0]).searchParams.get('query')).toContain('Houston, TX')
+    expect(body.results[1]).toMatchObject({ name: 'Miami Rescue Mission - Center for Men', openNow: false, source: 'places' })
+  })
+
+  it('returns an empty list when Places denies the request', async () => {
+    vi.stubEnv('GCP_SERVER_MAPS_KEY', 'bad-key')
+    mockFetch([{ match: '/place/textsearch/json', fixture: 'places-request-denied.json' }])
+
+    const { status, body } = await callApi(sheltersHandler)
+
+    expect(status).toBe(200)
+    expect(body.results).toEqual([])
+  })
+})
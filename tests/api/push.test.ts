@@ -0,0 +1,338 @@
+// Web Push: subscriptions, and severe weather pushed from the alerts and
+// hurricane routes to a local mock push service.
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import alertsHandler from '@/pages/api/weather/alerts'
+import hurricanesHandler from '@/pages/api/hurricanes'
+import subscriptionsHandler from '@/pages/api/push/subscriptions'
+import vapidKeyHandler from '@/pages/api/push/vapid-public-key'
+import { dispatchAlertPush } from '@/lib/push-dispatcher'
+import { FilePushSubscriptionStore, getPushSubscriptionStore, savePushSubscription, setPushSubscriptionStore } from '@/lib/push-subscriptions'
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/lib/types'
+import type { WeatherAlert } from '@/lib/types'
+import { isPushServiceEndpoint } from '@/lib/schemas'
+import { generateVapidKeys, sendPush } from '@/lib/web-push'
+import { callApi } from '../helpers/api'
+import { loadFixture, mockFetch } from '../helpers/fetch'
+import { startMockPushService } from '../helpers/push-service'
+import type { MockPushService } from '../helpers/push-service'
+
+const MIAMI = { lat: 25.774, lng: -80.193 }
+const DENVER = { lat: 39.739, lng: -104.99 }
+const VAPID = { ...generateVapidKeys(), subject: 'mailto:test@example.com' }
+
+const NWS_ROUTES = [
+  { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+  { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+]
+
+const tornadoWarning: WeatherAlert = {
+  id: 'tornado-1',
+  title: 'Tornado Warning',
+  description: 'A tornado has been sighted.',
+  severity: 'extreme',
+  type: 'tornado',
+  startTime: '2025-09-28T15:00:00.000Z',
+  endTime: '2025-09-28T18:00:00.000Z',
+  areas: ['Miami-Dade'],
+  isActive: true,
+  source: 'National Weather Service',
+}
+
+let service: MockPushService
+
+// The lineage feed as NWS would have served it at an earlier time
+function lineageFeedAt(time: string) {
+  const feed = JSON.parse(loadFixture('nws-alerts-lineage.json'))
+  return { ...feed, features: feed.features.filter((feature: any) => Date.parse(feature.properties.sent) <= Date.parse(time)) }
+}
+
+beforeEach(async () => {
+  service = await startMockPushService()
+  setPushSubscriptionStore(new FilePushSubscriptionStore(path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'push-')), 'subscriptions.json')))
+  vi.stubEnv('VAPID_PUBLIC_KEY', VAPID.publicKey)
+  vi.stubEnv('VAPID_PRIVATE_KEY', VAPID.privateKey)
+})
+
+afterEach(async () => {
+  setPushSubscriptionStore(null)
+  await service.close()
+})
+
+describe('sendPush', () => {
+  it('encrypts the payload for the browser and signs the request with the VAPID key', async () => {
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('chrome')
+
+    const result = await sendPush(browser.subscription, { title: 'Hello' }, VAPID, { ttl: 60, urgency: 'high', topic: 'storm' })
+
+    expect(result).toEqual({ ok: true, status: 201 })
+    expect(service.deliveries).toHaveLength(1)
+    const [delivery] = service.deliveries
+    expect(delivery.message).toEqual({ title: 'Hello' })
+    expect(delivery.vapid).toEqual({ audience: service.origin, subject: 'mailto:test@example.com', verified: true })
+    expect(delivery.headers).toMatchObject({ 'content-encoding': 'aes128gcm', ttl: '60', urgency: 'high', topic: 'storm' })
+  })
+
+  it('reports subscriptions the push service no longer knows as gone', async () => {
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('firefox')
+    service.respondWith('firefox', 410)
+
+    const result = await sendPush(browser.subscription, { title: 'Hello' }, VAPID)
+
+    expect(result).toMatchObject({ ok: false, status: 410, gone: true })
+  })
+})
+
+describe('push dispatch', () => {
+  it('pushes a new severe NWS alert once to the browsers watching that area', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    mockFetch([{ match: service.origin, passthrough: true }, ...NWS_ROUTES])
+    const nearby = service.browser('nearby')
+    const muted = service.browser('muted')
+    const faraway = service.browser('faraway')
+    await savePushSubscription(nearby.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+    await savePushSubscription(muted.subscription, MIAMI, { ...DEFAULT_NOTIFICATION_SETTINGS, enablePushNotifications: false })
+    await savePushSubscription(faraway.subscription, DENVER, DEFAULT_NOTIFICATION_SETTINGS)
+
+    const first = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+    const second = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(first.status).toBe(200)
+    expect(second.status).toBe(200)
+    expect(service.deliveries).toHaveLength(1)
+    expect(service.deliveries[0].browser).toBe('nearby')
+    expect(service.deliveries[0].message).toMatchObject({
+      title: expect.stringContaining('Tropical Storm Warning'),
+      tag: expect.stringMatching(/^nws_/),
+      severity: 'severe',
+      url: '/',
+    })
+  })
+
+  it('pushes polygon alerts only to the browsers inside the polygon', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const inside = service.browser('inside')
+    const outside = service.browser('outside')
+    await savePushSubscription(inside.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+    // Same location cell, a few kilometres north of the warning
+    await savePushSubscription(outside.subscription, { lat: 25.82, lng: -80.22 }, DEFAULT_NOTIFICATION_SETTINGS)
+    const geometry = {
+      type: 'Polygon' as const,
+      coordinates: [[[-80.25, 25.74], [-80.15, 25.74], [-80.15, 25.80], [-80.25, 25.80], [-80.25, 25.74]]],
+    }
+
+    const summary = await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [{ ...tornadoWarning, geometry }])
+
+    expect(summary.sent).toBe(1)
+    expect(service.deliveries.map(delivery => delivery.browser)).toEqual(['inside'])
+  })
+
+  it('pushes an updated alert again only when it grows more severe or covers more', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const browser = service.browser('chrome')
+    await savePushSubscription(browser.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+
+    for (const time of ['2025-09-28T15:30:00Z', '2025-09-28T15:40:00Z', '2025-09-28T15:50:00Z']) {
+      mockFetch([
+        { match: service.origin, passthrough: true },
+        { match: 'api.weather.gov/alerts', body: lineageFeedAt(time) },
+        { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+      ])
+      await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+    }
+
+    // The 11:40 continuation changed nothing worth a push; the 11:50 upgrade did
+    expect(service.deliveries.map(delivery => delivery.message.tag)).toEqual(['nws_KMFL.TO.W.0012.2025', 'nws_KMFL.TO.W.0012.2025_r1'])
+    expect(service.deliveries[1].message.severity).toBe('extreme')
+  })
+
+  it('pushes a storm to subscribers within range of it', async () => {
+    mockFetch([
+      { match: service.origin, passthrough: true },
+      { match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' },
+    ])
+    const miami = service.browser('miami')
+    const denver = service.browser('denver')
+    await savePushSubscription(miami.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+    await savePushSubscription(denver.subscription, DENVER, DEFAULT_NOTIFICATION_SETTINGS)
+
+    const { status } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(status).toBe(200)
+    expect(service.deliveries.map(delivery => delivery.browser)).toEqual(['miami'])
+    expect(service.deliveries[0].message).toMatchObject({ title: '🌀 HURRICANE ALERT: Imelda', severity: 'extreme' })
+    expect(service.deliveries[0].headers.urgency).toBe('high')
+  })
+
+  it('waits out the subscriber\'s alert frequency before the next push', async () => {
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('hourly')
+    await savePushSubscription(browser.subscription, MIAMI, { ...DEFAULT_NOTIFICATION_SETTINGS, alertFrequency: 'hourly' })
+
+    await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [tornadoWarning])
+    const summary = await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [{ ...tornadoWarning, id: 'tornado-2' }])
+
+    expect(summary).toEqual({ sent: 0, removed: 0, failed: 0 })
+    expect(service.deliveries).toHaveLength(1)
+  })
+
+  it('pushes an alert held back by the alert frequency once the wait is over, even if NWS has nothing new', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const browser = service.browser('hourly')
+    await savePushSubscription(browser.subscription, MIAMI, { ...DEFAULT_NOTIFICATION_SETTINGS, alertFrequency: 'hourly' })
+    const fetchAlertsAt = async (now: string, feedTime: string) => {
+      vi.setSystemTime(new Date(now))
+      mockFetch([
+        { match: service.origin, passthrough: true },
+        { match: 'api.weather.gov/alerts', body: lineageFeedAt(feedTime) },
+        { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+      ])
+      await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+    }
+
+    await fetchAlertsAt('2025-09-28T15:35:00Z', '2025-09-28T15:30:00Z')
+    // The upgrade arrives inside the hour
+    await fetchAlertsAt('2025-09-28T15:55:00Z', '2025-09-28T15:50:00Z')
+    expect(service.deliveries).toHaveLength(1)
+
+    // Same feed, after the hour
+    await fetchAlertsAt('2025-09-28T16:40:00Z', '2025-09-28T15:50:00Z')
+    expect(service.deliveries.map(delivery => delivery.message.tag)).toEqual(['nws_KMFL.TO.W.0012.2025', 'nws_KMFL.TO.W.0012.2025_r1'])
+    expect((await getPushSubscriptionStore().get(browser.subscription.endpoint))!.deferred).toEqual({})
+
+    // Nothing is held back any more, so an unchanged feed leaves the subscriptions alone
+    const listInCell = vi.spyOn(getPushSubscriptionStore(), 'listInCell')
+    await fetchAlertsAt('2025-09-28T16:45:00Z', '2025-09-28T15:50:00Z')
+    expect(listInCell).toHaveBeenCalledTimes(1)
+    expect(service.deliveries).toHaveLength(2)
+  })
+
+  it('restarts the alert frequency wait after every push, even once old pushes are forgotten', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-25T16:00:00Z'))
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('hourly')
+    await savePushSubscription(browser.subscription, MIAMI, { ...DEFAULT_NOTIFICATION_SETTINGS, alertFrequency: 'hourly' })
+
+    await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [tornadoWarning])
+    // Three days on the first push is dropped from the record as this one is added
+    vi.setSystemTime(new Date('2025-09-28T16:01:00Z'))
+    await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [{ ...tornadoWarning, id: 'tornado-2' }])
+    vi.setSystemTime(new Date('2025-09-28T16:02:00Z'))
+    await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [{ ...tornadoWarning, id: 'tornado-3' }])
+
+    expect(service.deliveries.map(delivery => delivery.message.tag)).toEqual(['nws_tornado-1', 'nws_tornado-2'])
+  })
+
+  it('drops subscriptions the push service reports gone', async () => {
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('revoked')
+    await savePushSubscription(browser.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+    service.respondWith('revoked', 410)
+
+    const summary = await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [tornadoWarning])
+
+    expect(summary).toEqual({ sent: 0, removed: 1, failed: 0 })
+    expect(await getPushSubscriptionStore().list()).toEqual([])
+  })
+
+  it('never pushes the mock alerts served while NWS is unavailable', async () => {
+    mockFetch([{ match: service.origin, passthrough: true }])
+    const browser = service.browser('offline')
+    await savePushSubscription(browser.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+
+    const summary = await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [{ ...tornadoWarning, id: 'mock-hurricane-watch' }])
+
+    expect(summary).toEqual({ sent: 0, removed: 0, failed: 0 })
+    expect(service.deliveries).toEqual([])
+  })
+
+  it('does nothing without VAPID keys', async () => {
+    vi.stubEnv('VAPID_PUBLIC_KEY', '')
+    const browser = service.browser('unconfigured')
+    await savePushSubscription(browser.subscription, MIAMI, DEFAULT_NOTIFICATION_SETTINGS)
+
+    const summary = await dispatchAlertPush(MIAMI.lat, MIAMI.lng, [tornadoWarning])
+
+    expect(summary).toEqual({ sent: 0, removed: 0, failed: 0 })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('/api/push', () => {
+  it('serves the VAPID public key, or 503 when push is not configured', async () => {
+    const configured = await callApi(vapidKeyHandler)
+    vi.stubEnv('VAPID_PRIVATE_KEY', '')
+    const unconfigured = await callApi(vapidKeyHandler)
+
+    expect(configured).toMatchObject({ status: 200, body: { publicKey: VAPID.publicKey } })
+    expect(unconfigured.status).toBe(503)
+  })
+
+  it('registers, moves and removes a subscription', async () => {
+    const { subscription } = service.browser('edge')
+
+    const created = await callApi(subscriptionsHandler, { method: 'POST', body: { subscription, location: MIAMI } })
+    const moved = await callApi(subscriptionsHandler, {
+      method: 'POST',
+      body: { subscription, location: DENVER, settings: { ...DEFAULT_NOTIFICATION_SETTINGS, alertFrequency: 'daily' } },
+    })
+    const stored = await getPushSubscriptionStore().list()
+    const removed = await callApi(subscriptionsHandler, { method: 'DELETE', body: { endpoint: subscription.endpoint } })
+
+    expect(created).toMatchObject({ status: 200, body: { cell: '25.8,-80.2' } })
+    expect(moved).toMatchObject({ status: 200, body: { cell: '39.7,-105.0' } })
+    expect(stored).toHaveLength(1)
+    expect(stored[0]).toMatchObject({ cell: '39.7,-105.0', settings: { alertFrequency: 'daily' } })
+    expect(removed.status).toBe(200)
+    expect(await getPushSubscriptionStore().list()).toEqual([])
+  })
+
+  it('rejects endpoints that are not push services and malformed keys', async () => {
+    const { body, status } = await callApi(subscriptionsHandler, {
+      method: 'POST',
+      body: {
+        subscription: { endpoint: 'http://169.254.169.254/latest', keys: { p256dh: 'not base64!', auth: 'abc' } },
+        location: MIAMI,
+      },
+    })
+
+    expect(status).toBe(400)
+    expect(body.issues).toEqual([
+      { path: 'subscription.endpoint', message: 'must be a push service URL' },
+      { path: 'subscription.keys.p256dh', message: 'must be base64url' },
+    ])
+  })
+
+  it('only takes https endpoints on known push services outside tests', async () => {
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc')).toBe(true)
+    expect(isPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true)
+    expect(isPushServiceEndpoint('https://web.push.apple.com/abc')).toBe(true)
+    expect(isPushServiceEndpoint('https://metadata.internal/latest')).toBe(false)
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com.evil.example/abc')).toBe(false)
+    expect(isPushServiceEndpoint('https://fcm.googleapis.com:8443/abc')).toBe(false)
+
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(isPushServiceEndpoint(service.browser('chrome').subscription.endpoint)).toBe(false)
+    vi.stubEnv('PUSH_ALLOW_LOCAL_ENDPOINTS', 'true')
+    expect(isPushServiceEndpoint(service.browser('chrome').subscription.endpoint)).toBe(true)
+  })
+
+  it('never posts to an endpoint that is not a push service', async () => {
+    const calls = mockFetch([])
+    const target = { endpoint: 'https://169.254.169.254/latest', keys: service.browser('chrome').subscription.keys }
+
+    const result = await sendPush(target, { title: 'Hello' }, VAPID)
+
+    expect(result).toMatchObject({ ok: false, gone: true })
+    expect(calls).toEqual([])
+  })
+})
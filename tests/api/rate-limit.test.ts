@@ -0,0 +1,208 @@
+// Token-bucket limits on the public routes, per-route configuration and the
+// honeypot on /api/pending.
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import intentHandler from '@/pages/api/intent'
+import placesHandler from '@/pages/api/places'
+import staticListHandler from '@/pages/api/static-list'
+import searchHandler from '@/pages/api/search'
+import sheltersHandler from '@/pages/api/shelters'
+import clinicsHandler from '@/pages/api/clinics'
+import pendingHandler from '@/pages/api/pending'
+import {
+  getRouteRateLimit,
+  MAX_MEMORY_BUCKETS,
+  MemoryRateLimitStore,
+  ROUTE_RATE_LIMITS,
+  setRateLimitStore,
+  takeToken,
+} from '@/lib/rate-limit'
+import { MemoryStorage } from '@/lib/memory-storage'
+import { setResourceRepository } from '@/lib/resource-repository'
+import { callApi } from '../helpers/api'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+const ALICE = { id: 'google-alice', email: 'alice@example.org', name: 'Alice' }
+
+function actAs(user: Record<string, unknown> | null) {
+  vi.mocked(getServerSession).mockResolvedValue(user ? ({ user } as any) : null)
+}
+
+const places = (ip = '203.0.113.7') =>
+  callApi(placesHandler, { query: { type: 'shelter', lat: '25.774', lng: '-80.193' }, headers: { 'x-forwarded-for': ip } })
+
+beforeEach(() => {
+  actAs(null)
+})
+
+describe('token bucket', () => {
+  const rule = { limit: 2, windowMs: 60_000 }
+
+  it('starts full and refills continuously', () => {
+    let { bucket, result } = takeToken(undefined, rule, 0)
+    expect(result).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 })
+    ;({ bucket, result } = takeToken(bucket, rule, 0))
+    expect(result.allowed).toBe(true)
+
+    // Empty: one token every 30s
+    ;({ bucket, result } = takeToken(bucket, rule, 10_000))
+    expect(result).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 20 })
+    ;({ bucket, result } = takeToken(bucket, rule, 30_000))
+    expect(result.allowed).toBe(true)
+  })
+
+  it('never holds more than the limit', () => {
+    const { result } = takeToken({ tokens: 0, updatedAt: 0 }, rule, 10 * 60_000)
+    expect(result.remaining).toBe(1)
+  })
+
+  it('stops tracking callers once their buckets have refilled, keeping the busiest at the cap', async () => {
+    const store = new MemoryRateLimitStore()
+    for (let i = 0; i < MAX_MEMORY_BUCKETS; i++) await store.take(`ip:${i}`, rule, 0)
+    // Emptied at 59s, so not yet full again at 60s
+    await store.take('ip:0', rule, 59_000)
+    await store.take('ip:0', rule, 59_000)
+    expect(store.size).toBe(MAX_MEMORY_BUCKETS)
+
+    await store.take('ip:new', rule, 60_000)
+    expect(store.size).toBe(2)
+    expect((await store.take('ip:0', rule, 60_000)).allowed).toBe(false)
+
+    // Nobody has refilled: the longest idle caller makes room
+    const busy = new MemoryRateLimitStore()
+    for (let i = 0; i < MAX_MEMORY_BUCKETS + 1; i++) await busy.take(`ip:${i}`, rule, 0)
+    expect(busy.size).toBe(MAX_MEMORY_BUCKETS)
+  })
+})
+
+describe('route limits', () => {
+  it('reads per-route overrides from the environment', () => {
+    vi.stubEnv('RATE_LIMIT_STATIC_LIST_IP', '10/5')
+    vi.stubEnv('RATE_LIMIT_STATIC_LIST_SESSION', 'lots')
+
+    expect(getRouteRateLimit('static-list')).toEqual({
+      ip: { limit: 10, windowMs: 5 * 60_000 },
+      session: ROUTE_RATE_LIMITS['static-list'].session,
+    })
+  })
+
+  it('returns 429 with Retry-After once the IP bucket is empty', async () => {
+    vi.stubEnv('RATE_LIMIT_PLACES_IP', '2/1')
+
+    const first = await places()
+    expect(first.status).toBe(200)
+    expect(first.headers['ratelimit-limit']).toBe('2')
+    expect(first.headers['ratelimit-remaining']).toBe('1')
+    expect((await places()).status).toBe(200)
+
+    const limited = await places()
+    expect(limited.status).toBe(429)
+    expect(limited.headers['retry-after']).toBe('30')
+    expect(limited.body.error).toMatch(/sign in/i)
+
+    // Other clients have their own bucket
+    expect((await places('198.51.100.2')).status).toBe(200)
+  })
+
+  it('keys the IP bucket on the hop the trusted proxy appended', async () => {
+    vi.stubEnv('RATE_LIMIT_PLACES_IP', '1/1')
+
+    // A client can't get a fresh bucket by making up earlier hops
+    expect((await places('10.0.0.1, 203.0.113.7')).status).toBe(200)
+    expect((await places('10.0.0.2, 203.0.113.7')).status).toBe(429)
+
+    // Behind two proxies the client is the second hop from the end
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '2')
+    expect((await places('10.0.0.3, 198.51.100.2, 192.0.2.1')).status).toBe(200)
+    expect((await places('10.0.0.4, 198.51.100.2, 192.0.2.9')).status).toBe(429)
+  })
+
+  it('lets requests through again after the bucket refills', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.stubEnv('RATE_LIMIT_PLACES_IP', '1/1')
+
+    expect((await places()).status).toBe(200)
+    expect((await places()).status).toBe(429)
+    vi.advanceTimersByTime(60_000)
+    expect((await places()).status).toBe(200)
+  })
+
+  it('gives signed-in callers their own, larger bucket', async () => {
+    vi.stubEnv('RATE_LIMIT_INTENT_IP', '1/1')
+    vi.stubEnv('RATE_LIMIT_INTENT_SESSION', '3/1')
+    const ask = () => callApi(intentHandler, { method: 'POST', body: { text: 'I need a shelter' }, headers: { 'x-forwarded-for': '203.0.113.7' } })
+
+    expect((await ask()).status).toBe(200)
+    expect((await ask()).status).toBe(429)
+
+    actAs(ALICE)
+    for (let i = 0; i < 3; i++) expect((await ask()).status).toBe(200)
+    const limited = await ask()
+    expect(limited.status).toBe(429)
+    expect(limited.headers['ratelimit-limit']).toBe('3')
+  })
+
+  it('limits /api/static-list', async () => {
+    vi.stubEnv('RATE_LIMIT_STATIC_LIST_IP', '1/1')
+
+    expect((await callApi(staticListHandler, { query: { type: 'shelter' } })).status).not.toBe(429)
+    expect((await callApi(staticListHandler, { query: { type: 'shelter' } })).status).toBe(429)
+  })
+
+  it('limits /api/search', async () => {
+    vi.stubEnv('RATE_LIMIT_SEARCH_IP', '1/1')
+
+    expect((await callApi(searchHandler, { method: 'POST', body: {} })).status).not.toBe(429)
+    expect((await callApi(searchHandler, { method: 'POST', body: {} })).status).toBe(429)
+  })
+
+  it('shares one bucket between the nearby-resource routes', async () => {
+    vi.stubEnv('RATE_LIMIT_NEARBY_IP', '1/1')
+
+    expect((await callApi(sheltersHandler)).status).not.toBe(429)
+    expect((await callApi(clinicsHandler)).status).toBe(429)
+  })
+
+  it('lets requests through when the store fails', async () => {
+    vi.stubEnv('RATE_LIMIT_PLACES_IP', '1/1')
+    setRateLimitStore({
+      kind: 'firestore',
+      take: async () => {
+        throw new Error('unavailable')
+      },
+    })
+
+    expect((await places()).status).toBe(200)
+    expect((await places()).status).toBe(200)
+  })
+})
+
+describe('/api/pending honeypot', () => {
+  let repository: MemoryStorage
+
+  beforeEach(() => {
+    repository = new MemoryStorage()
+    setResourceRepository(repository)
+  })
+
+  const submission = { name: 'Camillus House', type: 'shelter', address: '1603 NW 7th Ave, Miami, FL', lat: 25.79, lng: -80.2, notes: '' }
+
+  it('answers like a normal submission but stores nothing', async () => {
+    const { status, body } = await callApi(pendingHandler, { method: 'POST', body: { ...submission, website: 'http://spam.example' } })
+
+    expect(status).toBe(200)
+    expect(body.id).toEqual(expect.any(String))
+    expect(await repository.listPending()).toHaveLength(0)
+  })
+
+  it('accepts submissions that leave it empty', async () => {
+    const { status } = await callApi(pendingHandler, { method: 'POST', body: { ...submission, website: '' } })
+
+    expect(status).toBe(200)
+    expect(await repository.listPending()).toHaveLength(1)
+  })
+})
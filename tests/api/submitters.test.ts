@@ -0,0 +1,160 @@
+// Signed-in submitters: attribution, "My submissions", owner edits, notifications
+// and the limit on anonymous submissions.
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import pendingHandler from '@/pages/api/pending'
+import pendingItemHandler from '@/pages/api/pending/[id]'
+import approveHandler from '@/pages/api/approve'
+import rejectHandler from '@/pages/api/reject'
+import requestInfoHandler from '@/pages/api/request-info'
+import mySubmissionsHandler from '@/pages/api/me/submissions'
+import notificationsHandler from '@/pages/api/me/notifications'
+import { MemoryStorage } from '@/lib/memory-storage'
+import { setResourceRepository } from '@/lib/resource-repository'
+import { createAdminRoster } from '../helpers/admins'
+import { callApi } from '../helpers/api'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+const ALICE = { id: 'google-alice', email: 'alice@example.org', name: 'Alice' }
+const BOB = { id: 'google-bob', email: 'bob@example.org', name: 'Bob' }
+const MODERATOR = { email: 'mod@example.org' }
+
+const submission = {
+  name: 'Little Haiti Food Pantry',
+  type: 'food_bank',
+  address: '212 NE 59th Terrace, Miami, FL 33137',
+  lat: 25.8296,
+  lng: -80.1911,
+  notes: 'Saturday mornings',
+}
+
+function actAs(user: Record<string, unknown> | null) {
+  vi.mocked(getServerSession).mockResolvedValue(user ? ({ user } as any) : null)
+}
+
+async function submitAs(user: Record<string, unknown> | null, body: Record<string, unknown> = submission) {
+  actAs(user)
+  return callApi(pendingHandler, { method: 'POST', body, headers: { 'x-forwarded-for': '203.0.113.7' } })
+}
+
+describe('signed-in submitters', () => {
+  beforeEach(async () => {
+    setResourceRepository(new MemoryStorage())
+    await createAdminRoster([{ email: MODERATOR.email, role: 'moderator' }])
+  })
+
+  it('attributes submissions to the signed-in account, ignoring client-supplied names', async () => {
+    const { body } = await submitAs(ALICE, { ...submission, submittedBy: 'someone-else@example.org' })
+
+    actAs(ALICE)
+    const mine = await callApi(mySubmissionsHandler)
+    expect(mine.status).toBe(200)
+    expect(mine.body.submissions).toHaveLength(1)
+    expect(mine.body.submissions[0]).toMatchObject({ id: body.id, submittedBy: ALICE.email, submitterId: ALICE.id })
+  })
+
+  it('leaves the AI review and moderator identities out of My submissions', async () => {
+    const { body } = await submitAs(ALICE)
+    actAs(MODERATOR)
+    await callApi(rejectHandler, { method: 'POST', body: { id: body.id, reason: 'Closed' } })
+
+    actAs(ALICE)
+    const [mine] = (await callApi(mySubmissionsHandler)).body.submissions
+    expect(mine).not.toHaveProperty('aiReview')
+    expect(mine.moderationHistory.map((event: any) => event.action)).toEqual(['submitted', 'rejected'])
+    expect(mine.moderationHistory[1]).toEqual({ action: 'rejected', at: expect.any(String), reason: 'Closed' })
+    expect(JSON.stringify(mine.moderationHistory)).not.toContain('@')
+  })
+
+  it('lists only the caller’s submissions, across statuses, with stats', async () => {
+    const first = (await submitAs(ALICE)).body.id
+    const second = (await submitAs(ALICE, { ...submission, name: 'Liberty City Pantry' })).body.id
+    await submitAs(BOB, { ...submission, name: 'Bob’s Pantry' })
+
+    actAs(MODERATOR)
+    await callApi(approveHandler, { method: 'POST', body: { id: first } })
+    await callApi(rejectHandler, { method: 'POST', body: { id: second, reason: 'Closed' } })
+
+    actAs(ALICE)
+    const { body } = await callApi(mySubmissionsHandler)
+    expect(body.submissions.map((s: any) => s.status).sort()).toEqual(['approved', 'rejected'])
+    expect(body.stats).toEqual({ total: 2, pending: 0, needs_info: 0, approved: 1, rejected: 1 })
+  })
+
+  it('requires sign-in for My submissions', async () => {
+    actAs(null)
+    expect((await callApi(mySubmissionsHandler)).status).toBe(401)
+    expect((await callApi(notificationsHandler)).status).toBe(401)
+  })
+
+  it('lets submitters edit their own open submissions and resubmit after a request for info', async () => {
+    const id = (await submitAs(ALICE)).body.id
+
+    actAs(MODERATOR)
+    await callApi(requestInfoHandler, { method: 'POST', body: { id, message: 'What are the hours?' } })
+
+    actAs(ALICE)
+    const edited = await callApi(pendingItemHandler, { method: 'PATCH', query: { id }, body: { notes: 'Saturdays 9am-noon' } })
+    expect(edited.status).toBe(200)
+    expect(edited.body.resource).toMatchObject({ status: 'pending', notes: 'Saturdays 9am-noon' })
+    expect(edited.body.resource.moderationHistory.at(-1)).toMatchObject({ action: 'resubmitted', by: ALICE.email })
+  })
+
+  it('does not let submitters edit other people’s or decided submissions', async () => {
+    const id = (await submitAs(ALICE)).body.id
+
+    actAs(BOB)
+    expect((await callApi(pendingItemHandler, { method: 'PATCH', query: { id }, body: { name: 'Mine now' } })).status).toBe(403)
+
+    actAs(MODERATOR)
+    await callApi(rejectHandler, { method: 'POST', body: { id, reason: 'Duplicate' } })
+
+    actAs(ALICE)
+    expect((await callApi(pendingItemHandler, { method: 'PATCH', query: { id }, body: { name: 'Try again' } })).status).toBe(403)
+  })
+
+  it('notifies the submitter of moderation decisions until they are read', async () => {
+    const approved = (await submitAs(ALICE)).body.id
+    const rejected = (await submitAs(ALICE, { ...submission, name: 'Second Pantry' })).body.id
+
+    actAs(MODERATOR)
+    await callApi(approveHandler, { method: 'POST', body: { id: approved } })
+    await callApi(rejectHandler, { method: 'POST', body: { id: rejected, reason: 'Duplicate of an existing listing' } })
+
+    actAs(ALICE)
+    const { body } = await callApi(notificationsHandler)
+    expect(body.unread).toBe(2)
+    expect(body.notifications.map((n: any) => [n.action, n.resourceName, n.message])).toEqual([
+      ['rejected', 'Second Pantry', 'Duplicate of an existing listing'],
+      ['approved', submission.name, undefined],
+    ])
+
+    const read = await callApi(notificationsHandler, { method: 'POST' })
+    expect(read.body.unread).toBe(0)
+    expect((await callApi(notificationsHandler)).body.unread).toBe(0)
+  })
+})
+
+describe('anonymous submissions', () => {
+  beforeEach(() => {
+    setResourceRepository(new MemoryStorage())
+  })
+
+  it('are limited per IP with Retry-After', async () => {
+    for (let i = 0; i < 5; i++) expect((await submitAs(null)).status).toBe(200)
+
+    const limited = await submitAs(null)
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0)
+
+    // Other clients and signed-in submitters are unaffected
+    actAs(null)
+    const otherIp = await callApi(pendingHandler, { method: 'POST', body: submission, headers: { 'x-forwarded-for': '198.51.100.2' } })
+    expect(otherIp.status).toBe(200)
+    expect((await submitAs(ALICE)).status).toBe(200)
+  })
+})
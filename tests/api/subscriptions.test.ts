@@ -0,0 +1,335 @@
+// Alert subscriptions: the /api/subscriptions registry, watch area geometry
+// and the server-side evaluator fed by the alerts and hurricane routes.
+import os from 'os'
+import path from 'path'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getServerSession } from 'next-auth'
+import subscriptionsHandler from '@/pages/api/subscriptions'
+import subscriptionHandler from '@/pages/api/subscriptions/[id]'
+import evaluateHandler from '@/pages/api/subscriptions/evaluate'
+import alertsHandler from '@/pages/api/weather/alerts'
+import hurricanesHandler from '@/pages/api/hurricanes'
+import { FileAlertSubscriptionStore, getAlertSubscriptionStore, setAlertSubscriptionStore } from '@/lib/alert-subscriptions'
+import { containsPoint, distanceToArea, geometryContains, geometryIntersectsArea } from '@/lib/geofence'
+import { mergeMatches } from '@/lib/subscription-evaluator'
+import type { AlertGeometry, SubscriptionMatch, WatchArea } from '@/lib/types'
+import { createAdminRoster } from '../helpers/admins'
+import { callApi } from '../helpers/api'
+import { loadFixture, mockFetch } from '../helpers/fetch'
+
+vi.mock('next-auth', async importOriginal => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(),
+}))
+
+const ALICE = { id: 'google-alice', email: 'alice@example.org', name: 'Alice' }
+const BOB = { id: 'google-bob', email: 'bob@example.org', name: 'Bob' }
+const MODERATOR = { email: 'mod@example.org' }
+
+// Downtown Miami, around the point the NWS fixtures were recorded for
+const MIAMI_POLYGON = {
+  name: 'Downtown service area',
+  kind: 'polygon',
+  points: [{ lat: 25.70, lng: -80.30 }, { lat: 25.70, lng: -80.10 }, { lat: 25.85, lng: -80.10 }, { lat: 25.85, lng: -80.30 }],
+}
+const DENVER_SHELTER = { name: 'Denver shelter', kind: 'circle', center: { lat: 39.739, lng: -104.99 }, radiusKm: 5 }
+// Inland, under the flood warning's zones but well west of the tornado polygon
+const HOMESTEAD_SHELTER = { name: 'Homestead shelter', kind: 'circle', center: { lat: 25.47, lng: -80.48 }, radiusKm: 5 }
+
+const NWS_ROUTES = [
+  { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+  { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+]
+
+const WARNING_ROUTES = [
+  { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami-warnings.json' },
+  { match: 'zones/forecast/FLZ173', fixture: 'nws-zone-flz173.json' },
+  { match: 'zones/forecast/FLZ074', fixture: 'nws-zone-flz074.json' },
+]
+
+// The lineage feed as NWS would have served it at an earlier time
+function lineageFeedAt(time: string) {
+  const feed = JSON.parse(loadFixture('nws-alerts-lineage.json'))
+  return { ...feed, features: feed.features.filter((feature: any) => Date.parse(feature.properties.sent) <= Date.parse(time)) }
+}
+
+function actAs(user: Record<string, unknown> | null) {
+  vi.mocked(getServerSession).mockResolvedValue(user ? ({ user } as any) : null)
+}
+
+async function subscribe(body: Record<string, unknown>) {
+  actAs(ALICE)
+  return callApi(subscriptionsHandler, { method: 'POST', body })
+}
+
+beforeEach(() => {
+  setAlertSubscriptionStore(new FileAlertSubscriptionStore(path.join(os.tmpdir(), `alert-subscriptions-${Date.now()}-${Math.random()}.json`)))
+})
+
+describe('watch area geometry', () => {
+  const square: WatchArea = { id: 'a', name: 'Square', kind: 'polygon', points: MIAMI_POLYGON.points }
+  const circle: WatchArea = { id: 'b', name: 'Circle', kind: 'circle', center: { lat: 25.774, lng: -80.193 }, radiusKm: 10 }
+
+  it('tells points inside an area from points outside it', () => {
+    expect(containsPoint(square, { lat: 25.774, lng: -80.193 })).toBe(true)
+    expect(containsPoint(square, { lat: 26.1, lng: -80.193 })).toBe(false)
+    expect(containsPoint(circle, { lat: 25.80, lng: -80.19 })).toBe(true)
+    expect(containsPoint(circle, { lat: 25.95, lng: -80.19 })).toBe(false)
+  })
+
+  it('measures the distance to the nearest edge', () => {
+    expect(distanceToArea(square, { lat: 25.774, lng: -80.193 })).toBe(0)
+    // 0.1° of latitude north of the top edge
+    expect(distanceToArea(square, { lat: 25.95, lng: -80.2 })).toBeCloseTo(11.1, 0)
+    // 20 km from the center of a 10 km circle
+    expect(distanceToArea(circle, { lat: 25.774 + 20 / 111.2, lng: -80.193 })).toBeCloseTo(10, 0)
+  })
+
+  it('tests alert polygons against points and watch areas', () => {
+    // A 1° square with a 0.5° hole in the middle, GeoJSON [lng, lat]
+    const ring = (west: number, south: number, size: number) =>
+      [[west, south], [west + size, south], [west + size, south + size], [west, south + size], [west, south]]
+    const alert: AlertGeometry = { type: 'Polygon', coordinates: [ring(-81, 25, 1), ring(-80.75, 25.25, 0.5)] }
+    const area = (points: number[][]): WatchArea => ({ id: 'p', name: 'P', kind: 'polygon', points: points.map(([lng, lat]) => ({ lat, lng })) })
+
+    expect(geometryContains(alert, { lat: 25.1, lng: -80.9 })).toBe(true)
+    expect(geometryContains(alert, { lat: 25.5, lng: -80.5 })).toBe(false)
+    expect(geometryContains({ type: 'MultiPolygon', coordinates: [[ring(-90, 30, 1)], alert.coordinates] }, { lat: 25.1, lng: -80.9 })).toBe(true)
+
+    // A circle whose center is outside but whose edge reaches in
+    expect(geometryIntersectsArea(alert, { ...circle, center: { lat: 25.5, lng: -79.95 }, radiusKm: 10 })).toBe(true)
+    expect(geometryIntersectsArea(alert, { ...circle, center: { lat: 25.5, lng: -79.5 }, radiusKm: 10 })).toBe(false)
+    // A thin strip across the square with no corner inside it
+    expect(geometryIntersectsArea(alert, area([[-81.5, 25.05], [-79.5, 25.05], [-79.5, 25.1], [-81.5, 25.1]]))).toBe(true)
+    // Entirely inside the hole
+    expect(geometryIntersectsArea(alert, area(ring(-80.6, 25.4, 0.2)))).toBe(false)
+    expect(geometryIntersectsArea(alert, area(ring(-70, 25, 1)))).toBe(false)
+  })
+})
+
+describe('/api/subscriptions', () => {
+  it('registers watch areas for the signed-in owner only', async () => {
+    const created = await subscribe({ name: 'Shelters', organization: 'Miami-Dade EM', areas: [MIAMI_POLYGON, DENVER_SHELTER] })
+
+    expect(created.status).toBe(201)
+    expect(created.body.schemaVersion).toBe(1)
+    const { subscription } = created.body
+    expect(subscription).toMatchObject({ ownerEmail: ALICE.email, organization: 'Miami-Dade EM', minSeverity: 'moderate', matches: [] })
+    expect(subscription.alertTypes).toContain('hurricane')
+    expect(subscription.areas.map((area: WatchArea) => area.id)).toEqual([expect.stringMatching(/^area_/), expect.stringMatching(/^area_/)])
+
+    actAs(ALICE)
+    const mine = await callApi(subscriptionsHandler)
+    actAs(BOB)
+    const theirs = await callApi(subscriptionsHandler)
+    const peek = await callApi(subscriptionHandler, { query: { id: subscription.id } })
+    actAs(null)
+    const anonymous = await callApi(subscriptionsHandler)
+
+    expect(mine.body.subscriptions.map((item: any) => item.id)).toEqual([subscription.id])
+    expect(theirs.body.subscriptions).toEqual([])
+    expect(peek.status).toBe(404)
+    expect(anonymous.status).toBe(401)
+  })
+
+  it('edits and deletes a subscription, keeping matches of the areas that stay', async () => {
+    const { body } = await subscribe({ name: 'Shelters', areas: [MIAMI_POLYGON, DENVER_SHELTER] })
+    const [miami, denver] = body.subscription.areas
+    const store = getAlertSubscriptionStore()
+    const match = (areaId: string): SubscriptionMatch => ({
+      id: `${areaId}:nws_1`,
+      areaId,
+      areaName: 'x',
+      condition: { id: 'nws_1', type: 'flood', severity: 'severe', title: 'Flood Warning', description: '', recommendation: '', icon: '🌊', source: 'NWS', confidence: 95, lastUpdated: '2025-09-28T16:00:00.000Z' },
+      firstMatchedAt: '2025-09-28T16:00:00.000Z',
+      lastMatchedAt: '2025-09-28T16:00:00.000Z',
+      expiresAt: '2099-01-01T00:00:00.000Z',
+    })
+    await store.save({ ...body.subscription, matches: [match(miami.id), match(denver.id)] })
+
+    actAs(ALICE)
+    const edited = await callApi(subscriptionHandler, {
+      method: 'PATCH',
+      query: { id: body.subscription.id },
+      body: { name: 'Miami shelters', areas: [miami], minSeverity: 'severe' },
+    })
+    const deleted = await callApi(subscriptionHandler, { method: 'DELETE', query: { id: body.subscription.id } })
+
+    expect(edited.status).toBe(200)
+    expect(edited.body.subscription).toMatchObject({ name: 'Miami shelters', minSeverity: 'severe' })
+    expect(edited.body.subscription.areas).toEqual([miami])
+    expect(edited.body.subscription.matches.map((item: SubscriptionMatch) => item.areaId)).toEqual([miami.id])
+    expect(deleted.status).toBe(200)
+    expect(await store.list()).toEqual([])
+  })
+
+  it('rejects malformed watch areas', async () => {
+    const { status, body } = await subscribe({
+      name: 'Broken',
+      areas: [
+        { name: 'Line', kind: 'polygon', points: [{ lat: 25, lng: -80 }, { lat: 26, lng: -80 }] },
+        { name: 'Blob', kind: 'blob' },
+        { name: 'Huge', kind: 'circle', center: { lat: 25, lng: -80 }, radiusKm: 5000 },
+      ],
+      alertTypes: ['meteor'],
+    })
+
+    expect(status).toBe(400)
+    expect(body.issues).toEqual([
+      { path: 'areas.0.points', message: 'must have at least 3 points' },
+      { path: 'areas.1.kind', message: 'must be one of circle, polygon' },
+      { path: 'areas.2.radiusKm', message: 'must be at most 500 km' },
+      { path: 'alertTypes.0', message: expect.stringMatching(/^must be one of hurricane/) },
+    ])
+  })
+})
+
+describe('subscription evaluator', () => {
+  it('matches NWS alerts fetched for a point inside a watch area', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const everything = await subscribe({ name: 'All alerts', areas: [MIAMI_POLYGON, DENVER_SHELTER] })
+    const extremeOnly = await subscribe({ name: 'Extreme only', areas: [MIAMI_POLYGON], minSeverity: 'extreme' })
+    const floodsOnly = await subscribe({ name: 'Floods only', areas: [MIAMI_POLYGON], alertTypes: ['flood'] })
+    mockFetch(NWS_ROUTES)
+
+    const { status } = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(status).toBe(200)
+    const store = getAlertSubscriptionStore()
+    const matched = await store.get(everything.body.subscription.id)
+    expect(matched!.matches).toHaveLength(1)
+    expect(matched!.matches[0]).toMatchObject({
+      areaName: 'Downtown service area',
+      condition: { type: 'hurricane', severity: 'severe', place: 'Miami, FL', alert: { type: 'tropical_storm' } },
+      firstMatchedAt: '2025-09-28T16:00:00.000Z',
+    })
+    expect((await store.get(extremeOnly.body.subscription.id))!.matches).toEqual([])
+    expect((await store.get(floodsOnly.body.subscription.id))!.matches).toEqual([])
+  })
+
+  it('leaves subscriptions alone when a page load fetches the same alerts again', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    await subscribe({ name: 'All alerts', areas: [MIAMI_POLYGON] })
+    mockFetch(NWS_ROUTES)
+    await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    vi.setSystemTime(new Date('2025-09-28T16:05:00Z'))
+    const list = vi.spyOn(getAlertSubscriptionStore(), 'list')
+    const save = vi.spyOn(getAlertSubscriptionStore(), 'save')
+    const { status } = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(status).toBe(200)
+    expect(list).not.toHaveBeenCalled()
+    expect(save).not.toHaveBeenCalled()
+  })
+
+  it('matches alerts to every watch area their polygon reaches', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const { body } = await subscribe({ name: 'Shelters', areas: [MIAMI_POLYGON, HOMESTEAD_SHELTER, DENVER_SHELTER] })
+    mockFetch([...WARNING_ROUTES, { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' }])
+
+    await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    const { matches } = (await getAlertSubscriptionStore().get(body.subscription.id))!
+    expect(matches.map(match => `${match.areaName}: ${match.condition.alert!.type}`).sort()).toEqual([
+      'Downtown service area: flood',
+      'Downtown service area: tornado',
+      'Homestead shelter: flood',
+    ])
+    // Outlines are left off the stored matches
+    expect(matches.every(match => match.condition.alert!.geometry === undefined)).toBe(true)
+  })
+
+  it('follows alert updates and clears matches when NWS cancels the alert', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const { body } = await subscribe({ name: 'Downtown', areas: [MIAMI_POLYGON] })
+    const matchedAt = async (time: string) => {
+      mockFetch([
+        { match: 'api.weather.gov/alerts', body: lineageFeedAt(time) },
+        { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+      ])
+      await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+      const { matches } = (await getAlertSubscriptionStore().get(body.subscription.id))!
+      return matches.map(match => match.condition.id.replace(/^nws_urn:oid:.*$/, 'nws_statement')).sort()
+    }
+
+    expect(await matchedAt('2025-09-28T15:00:00Z')).toEqual(['nws_KMFL.FA.Y.0030.2025', 'nws_statement'])
+    expect(await matchedAt('2025-09-28T15:40:00Z')).toEqual(['nws_KMFL.FA.Y.0030.2025', 'nws_KMFL.TO.W.0012.2025', 'nws_statement'])
+    // The upgrade replaces the tornado match; the cancelled advisory is gone before it expires
+    expect(await matchedAt('2025-09-28T16:00:00Z')).toEqual(['nws_KMFL.TO.W.0012.2025_r1', 'nws_statement'])
+  })
+
+  it('matches storms within range of a watch area', async () => {
+    const { body } = await subscribe({ name: 'Shelters', areas: [MIAMI_POLYGON, DENVER_SHELTER] })
+    mockFetch([{ match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }])
+
+    await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    const { matches } = (await getAlertSubscriptionStore().get(body.subscription.id))!
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ areaName: 'Downtown service area', condition: { id: 'hurricane_atl_imelda', severity: 'extreme' } })
+  })
+
+  it('sweeps every watch area for the scheduler, guarded by a token', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    vi.stubEnv('SUBSCRIPTION_EVALUATION_TOKEN', 'sweep-secret')
+    await createAdminRoster([{ email: MODERATOR.email, role: 'moderator' }])
+    const { body } = await subscribe({ name: 'Miami', areas: [MIAMI_POLYGON] })
+    const calls = mockFetch([...NWS_ROUTES, { match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }])
+
+    actAs(null)
+    const denied = await callApi(evaluateHandler, { method: 'POST', headers: { 'x-evaluation-token': 'guess' } })
+    const swept = await callApi(evaluateHandler, { method: 'POST', headers: { 'x-evaluation-token': 'sweep-secret' } })
+    actAs(MODERATOR)
+    const again = await callApi(evaluateHandler, { method: 'POST' })
+
+    expect(denied.status).toBe(401)
+    expect(swept).toMatchObject({ status: 200, body: { subscriptions: 1, points: 1, newMatches: 2 } })
+    expect(again).toMatchObject({ status: 200, body: { newMatches: 0 } })
+    // The polygon's center, not a user's location
+    expect(calls).toContain('https://api.weather.gov/alerts?point=25.775,-80.2')
+    const subscription = (await getAlertSubscriptionStore().get(body.subscription.id))!
+    expect(subscription.lastEvaluatedAt).toBe('2025-09-28T16:00:00.000Z')
+    expect(subscription.matches.map(match => match.condition.type)).toEqual(['hurricane', 'hurricane'])
+  })
+
+  it('applies polygon alerts found during a sweep to the other areas they reach', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    vi.stubEnv('SUBSCRIPTION_EVALUATION_TOKEN', 'sweep-secret')
+    const { body } = await subscribe({ name: 'Shelters', areas: [MIAMI_POLYGON, HOMESTEAD_SHELTER] })
+    mockFetch([
+      // Only the Miami lookup reports the warnings; NWS has nothing for Homestead's center
+      { match: /alerts\?point=25\.775,/, fixture: 'nws-alerts-miami-warnings.json' },
+      { match: 'api.weather.gov/alerts', body: { type: 'FeatureCollection', features: [] } },
+      ...WARNING_ROUTES.slice(1),
+      { match: 'nhc.noaa.gov/index-at.xml', status: 503, body: {} },
+    ])
+
+    actAs(null)
+    const swept = await callApi(evaluateHandler, { method: 'POST', headers: { 'x-evaluation-token': 'sweep-secret' } })
+
+    expect(swept).toMatchObject({ status: 200, body: { points: 2 } })
+    const { matches } = (await getAlertSubscriptionStore().get(body.subscription.id))!
+    const homesteadAlerts = matches.filter(match => match.areaName === 'Homestead shelter' && match.condition.alert)
+    expect(homesteadAlerts.map(match => match.condition.alert!.type)).toEqual(['flood'])
+  })
+
+  it('drops matches once they expire or their alert is cancelled', () => {
+    const match = (id: string, expiresAt: string, eventId?: string) =>
+      ({ id, expiresAt, firstMatchedAt: '2025-09-28T15:00:00.000Z', condition: { alert: eventId ? { eventId } : undefined } }) as SubscriptionMatch
+    const expired = match('a:nws_1', '2025-09-28T15:00:00.000Z')
+    const current = match('a:nws_2', '2025-09-28T17:00:00.000Z', 'KMFL.FL.W.0003.2025')
+    const cancelled = match('a:nws_3', '2025-09-28T17:00:00.000Z', 'KMFL.TO.W.0012.2025')
+
+    const { matches, changed } = mergeMatches([expired, current, cancelled], [], Date.parse('2025-09-28T16:00:00Z'), new Set(['KMFL.TO.W.0012.2025']))
+
+    expect(matches).toEqual([current])
+    expect(changed).toBe(true)
+  })
+})
@@ -0,0 +1,110 @@
+// Contract tests: what the routes send must read back through the shared
+// domain types the components use.
+import { describe, expect, it, vi } from 'vitest'
+import alertsHandler from '@/pages/api/weather/alerts'
+import currentHandler from '@/pages/api/weather/current'
+import hurricanesHandler from '@/pages/api/hurricanes'
+import densityHandler from '@/pages/api/population-density'
+import searchHandler from '@/pages/api/search'
+import {
+  isDensityZone,
+  isHurricaneTrack,
+  isWeatherAlert,
+  readAlertsResponse,
+  readDensityResponse,
+  readHurricaneResponse,
+  readSearchResponse,
+  readWeatherResponse,
+  WEATHER_SCHEMA_VERSION,
+} from '@/lib/types'
+import { GoogleWeatherService } from '@/lib/google-weather-service'
+import { MemoryStorage } from '@/lib/memory-storage'
+import { setResourceRepository } from '@/lib/resource-repository'
+import { callApi } from '../helpers/api'
+import { mockFetch } from '../helpers/fetch'
+
+const nws = [
+  { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+  { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+]
+
+describe('route responses', () => {
+  it('/api/weather/alerts', async () => {
+    mockFetch(nws)
+
+    const { body } = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(body.schemaVersion).toBe(WEATHER_SCHEMA_VERSION)
+    expect(readAlertsResponse(body)).not.toBeNull()
+  })
+
+  it('/api/weather/current, whose alerts now match /api/weather/alerts', async () => {
+    ;(GoogleWeatherService as any).instance = undefined
+    vi.stubEnv('OPENWEATHER_API_KEY', 'test-key')
+    mockFetch([{ match: 'api.openweathermap.org/data/2.5/weather', fixture: 'openweather-current-miami.json' }, ...nws])
+
+    const { body } = await callApi(currentHandler, { query: { lat: '25.7742', lng: '-80.1932' } })
+
+    expect(readWeatherResponse(body)).not.toBeNull()
+    expect(body.alerts.every(isWeatherAlert)).toBe(true)
+    expect(body.alerts[0]).toHaveProperty('isActive')
+  })
+
+  it('/api/hurricanes', async () => {
+    mockFetch([{ match: 'nhc.noaa.gov/index-at.xml', fixture: 'nhc-index-at.xml' }])
+
+    const { body } = await callApi(hurricanesHandler, { query: { refresh: 'true' } })
+
+    expect(readHurricaneResponse(body)?.hurricanes.every(isHurricaneTrack)).toBe(true)
+  })
+
+  it('/api/population-density', async () => {
+    const { body } = await callApi(densityHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    const density = readDensityResponse(body)
+    expect(density?.zones.length).toBeGreaterThan(0)
+    expect(density?.zones.every(isDensityZone)).toBe(true)
+  })
+
+  it('/api/search', async () => {
+    setResourceRepository(new MemoryStorage())
+
+    const { body } = await callApi(searchHandler, {
+      method: 'POST',
+      body: { categories: ['shelter', 'food_bank'], location: { lat: 25.774, lng: -80.193 } },
+    })
+
+    expect(readSearchResponse(body)?.results.length).toBeGreaterThan(0)
+  })
+})
+
+describe('readers', () => {
+  const alerts = {
+    schemaVersion: WEATHER_SCHEMA_VERSION,
+    alerts: [],
+    lastUpdated: '2025-09-28T16:00:00.000Z',
+    location: { name: 'Miami, FL', lat: 25.774, lng: -80.193 },
+  }
+
+  it('keep fields added by a newer server', () => {
+    expect(readAlertsResponse({ ...alerts, region: 'miami' })).toMatchObject({ region: 'miami' })
+  })
+
+  it('reject bodies from another schema version', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(readAlertsResponse({ ...alerts, schemaVersion: 2 })).toBeNull()
+    expect(readAlertsResponse({ ...alerts, schemaVersion: undefined })).toBeNull()
+    expect(warn).toHaveBeenCalledWith('/api/weather/alerts: expected schemaVersion 1, got 2')
+  })
+
+  it('reject bodies whose shape drifted', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    // Hurricanes once came back flat, without currentPosition
+    const flat = { id: 'al092025', name: 'Imelda', lat: 28.9, lng: -76.9, category: 1, status: 'active', basin: 'ATL' }
+
+    expect(isHurricaneTrack(flat)).toBe(false)
+    expect(readHurricaneResponse({ schemaVersion: 1, hurricanes: [flat], lastUpdated: alerts.lastUpdated, source: 'NOAA RSS' })).toBeNull()
+    expect(warn).toHaveBeenCalledWith('/api/hurricanes: response does not match schemaVersion 1', expect.any(Array))
+  })
+})
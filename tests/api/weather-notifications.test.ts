@@ -0,0 +1,185 @@
+// The notification engine behind the weather banner, popup and browser
+// notifications, fed with responses recorded from the weather routes.
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import alertsHandler from '@/pages/api/weather/alerts'
+import currentHandler from '@/pages/api/weather/current'
+import { GoogleWeatherService } from '@/lib/google-weather-service'
+import { WeatherService } from '@/lib/weather-service'
+import { WeatherNotificationEngine } from '@/lib/weather-notification-engine'
+import type { ConditionProvider, NotificationSnapshot } from '@/lib/weather-notification-engine'
+import type { WeatherCondition } from '@/lib/types'
+import { callApi } from '../helpers/api'
+import { mockFetch } from '../helpers/fetch'
+
+const MIAMI = { lat: 25.774, lng: -80.193 }
+
+class MemoryLocalStorage {
+  private items = new Map<string, string>()
+  getItem(key: string) { return this.items.get(key) ?? null }
+  setItem(key: string, value: string) { this.items.set(key, value) }
+  removeItem(key: string) { this.items.delete(key) }
+}
+
+function condition(id: string, severity: WeatherCondition['severity'], type: WeatherCondition['type'] = 'storm'): WeatherCondition {
+  return {
+    id,
+    type,
+    severity,
+    title: id,
+    description: '',
+    recommendation: '',
+    icon: '⚠️',
+    source: 'Test',
+    confidence: 50,
+    lastUpdated: '2025-09-28T16:00:00.000Z',
+  }
+}
+
+function fakeProvider(conditions: WeatherCondition[]): ConditionProvider & { calls: number } {
+  return {
+    name: 'fake',
+    calls: 0,
+    async check() {
+      this.calls++
+      return conditions
+    },
+  }
+}
+
+let storage: MemoryLocalStorage
+
+beforeEach(() => {
+  storage = new MemoryLocalStorage()
+  vi.stubGlobal('localStorage', storage)
+})
+
+describe('WeatherNotificationEngine', () => {
+  it('merges NWS alerts, hurricane proximity and current conditions into one list', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    ;(GoogleWeatherService as any).instance = undefined
+    ;(WeatherService as any).instance = undefined
+    vi.stubEnv('OPENWEATHER_API_KEY', 'test-key')
+    mockFetch([
+      { match: 'api.openweathermap.org/data/2.5/weather', fixture: 'openweather-current-miami.json' },
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+    ])
+    const query = { lat: String(MIAMI.lat), lng: String(MIAMI.lng) }
+    const alerts = (await callApi(alertsHandler, { query })).body
+    const current = (await callApi(currentHandler, { query })).body
+    const hurricanes = {
+      schemaVersion: 1,
+      hurricanes: [{
+        id: 'al092025',
+        name: 'Imelda',
+        currentPosition: { lat: 27.5, lng: -78.5, timestamp: '2025-09-28T15:00:00Z', windSpeed: 80, category: 1 },
+        historicalPositions: [],
+        forecastPositions: [],
+        status: 'active',
+        basin: 'ATL',
+      }],
+      lastUpdated: '2025-09-28T15:00:00Z',
+      source: 'NOAA RSS',
+    }
+    // AccuWeather and OpenWeather both see the same rain
+    const calls = mockFetch([
+      { match: '/api/weather/alerts', body: alerts },
+      { match: '/api/weather/current', body: current },
+      { match: '/api/hurricanes', body: hurricanes },
+    ])
+
+    const engine = new WeatherNotificationEngine()
+    const unsubscribe = engine.subscribe(MIAMI.lat, MIAMI.lng, () => {})
+    const { conditions } = await engine.refresh()
+    unsubscribe()
+
+    expect(conditions.map(({ id, severity, source }) => ({ id, severity, source }))).toEqual([
+      { id: 'hurricane_al092025', severity: 'extreme', source: 'National Hurricane Center' },
+      { id: expect.stringMatching(/^nws_/), severity: 'severe', source: 'National Weather Service' },
+      { id: 'current_rain', severity: 'moderate', source: 'AccuWeather' },
+    ])
+    expect(conditions[1]).toMatchObject({ type: 'hurricane', place: 'Miami, FL', alert: { type: 'tropical_storm' } })
+    expect(calls.filter(url => url.includes('/api/weather/current'))).toEqual([
+      expect.stringContaining('provider=accuweather'),
+      expect.stringContaining('provider=openweather'),
+    ])
+  })
+
+  it('gives every subscriber the same list from one round of requests', async () => {
+    const provider = fakeProvider([condition('storm', 'severe'), condition('rain', 'moderate', 'rain')])
+    const engine = new WeatherNotificationEngine([provider])
+    const banner: NotificationSnapshot[] = []
+    const popup: NotificationSnapshot[] = []
+
+    const unsubscribeBanner = engine.subscribe(MIAMI.lat, MIAMI.lng, snapshot => banner.push(snapshot))
+    const unsubscribePopup = engine.subscribe(MIAMI.lat, MIAMI.lng, snapshot => popup.push(snapshot))
+    await engine.refresh()
+
+    expect(provider.calls).toBe(1)
+    expect(banner.at(-1)?.conditions).toEqual(popup.at(-1)?.conditions)
+
+    engine.updateSettings({ enableModerateWeatherAlerts: false })
+    await engine.refresh()
+    expect(popup.at(-1)?.conditions.map(c => c.id)).toEqual(['storm'])
+
+    engine.dismiss('storm')
+    expect(banner.at(-1)?.conditions).toEqual([])
+    unsubscribeBanner()
+    unsubscribePopup()
+
+    // Both survive a reload
+    const reloaded = new WeatherNotificationEngine([provider])
+    expect(reloaded.getSettings().enableModerateWeatherAlerts).toBe(false)
+    expect(JSON.parse(storage.getItem('dismissedWeatherAlerts')!)).toEqual(['storm'])
+  })
+
+  it('announces urgent conditions at most once per alertFrequency window', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const conditions = [condition('storm', 'severe'), condition('rain', 'moderate', 'rain')]
+    const engine = new WeatherNotificationEngine([fakeProvider(conditions)])
+    engine.updateSettings({ alertFrequency: 'hourly' })
+    const unsubscribe = engine.subscribe(MIAMI.lat, MIAMI.lng, () => {})
+
+    expect((await engine.refresh()).announced.map(c => c.id)).toEqual(['storm'])
+    expect((await engine.refresh()).announced).toEqual([])
+
+    conditions.push(condition('flood', 'extreme', 'flood'))
+    expect((await engine.refresh()).announced).toEqual([])
+
+    vi.setSystemTime(new Date('2025-09-28T17:00:00Z'))
+    expect((await engine.refresh()).announced.map(c => c.id)).toEqual(['flood'])
+    unsubscribe()
+  })
+
+  it('loads saved settings through one schema and folds in the old test mode key', () => {
+    storage.setItem('weatherNotificationSettings', JSON.stringify({ enableHurricaneAlerts: false, alertFrequency: 'weekly' }))
+    storage.setItem('weatherTestMode', 'true')
+
+    const engine = new WeatherNotificationEngine([])
+
+    expect(engine.getSettings()).toEqual({
+      enablePushNotifications: true,
+      enableHurricaneAlerts: false,
+      enableSevereWeatherAlerts: true,
+      enableModerateWeatherAlerts: true,
+      alertFrequency: 'immediate',
+      testMode: true,
+    })
+    expect(storage.getItem('weatherTestMode')).toBeNull()
+    expect(JSON.parse(storage.getItem('weatherNotificationSettings')!)).toMatchObject({ testMode: true })
+  })
+
+  it('reports provider failures without dropping the others', async () => {
+    const broken: ConditionProvider = { name: 'broken', check: async () => { throw new Error('offline') } }
+    const engine = new WeatherNotificationEngine([broken, fakeProvider([condition('storm', 'severe')])])
+    const unsubscribe = engine.subscribe(MIAMI.lat, MIAMI.lng, () => {})
+
+    const { conditions } = await engine.refresh()
+    unsubscribe()
+
+    expect(conditions.map(c => c.id)).toEqual(['storm'])
+    expect(console.error).toHaveBeenCalledWith('Weather notifications: broken failed:', expect.any(Error))
+  })
+})
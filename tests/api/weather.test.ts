@@ -0,0 +1,211 @@
+// Weather routes against recorded NWS and OpenWeather responses.
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import alertsHandler from '@/pages/api/weather/alerts'
+import currentHandler from '@/pages/api/weather/current'
+import { GoogleWeatherService } from '@/lib/google-weather-service'
+import { resolveAlertLineage } from '@/lib/alert-lineage'
+import type { AlertMessage } from '@/lib/alert-lineage'
+import type { WeatherAlert } from '@/lib/types'
+import { callApi } from '../helpers/api'
+import { mockFetch } from '../helpers/fetch'
+
+describe('/api/weather/alerts', () => {
+  it('returns only the NWS alerts that are in effect, with a locality name', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    mockFetch([
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+    ])
+
+    const { status, body } = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(status).toBe(200)
+    expect(body.location.name).toBe('Miami, FL')
+    expect(body.alerts).toHaveLength(1)
+    expect(body.alerts[0]).toMatchObject({
+      type: 'tropical_storm',
+      severity: 'severe',
+      source: 'National Weather Service',
+      areas: ['Coastal Miami-Dade County', ' Inland Miami-Dade County'],
+    })
+  })
+
+  it('keeps warning polygons and outlines zone-based alerts with their cached zones', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    const calls = mockFetch([
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami-warnings.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+      { match: 'zones/forecast/FLZ173', fixture: 'nws-zone-flz173.json' },
+      { match: 'zones/forecast/FLZ074', fixture: 'nws-zone-flz074.json' },
+    ])
+
+    const first = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+    const second = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    const [tornado, flood] = first.body.alerts
+    expect(tornado).toMatchObject({ type: 'tornado', geometry: { type: 'Polygon' } })
+    expect(flood.type).toBe('flood')
+    expect(flood.geometry.type).toBe('MultiPolygon')
+    expect(flood.geometry.coordinates).toHaveLength(2)
+    expect(second.body.alerts[1].geometry).toEqual(flood.geometry)
+    // Zones are looked up once, and only for alerts without a polygon
+    expect(calls.filter(url => url.includes('/zones/'))).toEqual([
+      'https://api.weather.gov/zones/forecast/FLZ173',
+      'https://api.weather.gov/zones/forecast/FLZ074',
+    ])
+  })
+
+  it('falls back to mock alerts when NWS is unavailable', async () => {
+    mockFetch([
+      { match: 'api.weather.gov/alerts', status: 503, body: {} },
+      { match: 'api.weather.gov/points', status: 503, body: {} },
+    ])
+
+    const { status, body } = await callApi(alertsHandler, { query: { lat: '29.76', lng: '-95.37' } })
+
+    expect(status).toBe(200)
+    // Reverse geocoding falls back to the region label
+    expect(body.location.name).toBe('Houston, TX')
+    expect(Array.isArray(body.alerts)).toBe(true)
+  })
+})
+
+describe('NWS alert lineage', () => {
+  it('folds updates into one alert per event and leaves out cancelled alerts', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    mockFetch([
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-lineage.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+    ])
+
+    const { body } = await callApi(alertsHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    const [tornado, statement] = body.alerts
+    expect(body.alerts).toHaveLength(2)
+    // The continuation kept the revision; the upgrade to Extreme over more counties raised it
+    expect(tornado).toMatchObject({
+      eventId: 'KMFL.TO.W.0012.2025',
+      messageType: 'update',
+      severity: 'extreme',
+      revision: 1,
+      history: [
+        { messageType: 'alert', severity: 'severe', action: 'NEW' },
+        { messageType: 'update', severity: 'severe', action: 'CON' },
+      ],
+    })
+    expect(tornado.title).toContain('11:50AM')
+    // Without VTEC, the references chain leads back to the first statement
+    expect(statement).toMatchObject({ messageType: 'update', revision: 0, history: [{ messageType: 'alert' }] })
+    expect(statement.eventId).toBe(statement.history[0].id)
+  })
+
+  it('ends a watch upgraded to a warning, but not an event still continuing elsewhere', () => {
+    const message = (id: string, sent: string, vtec: string[], changes: Partial<WeatherAlert> = {}): AlertMessage => ({
+      alert: {
+        id, title: id, description: '', severity: 'severe', type: 'hurricane', source: 'National Weather Service', areas: [], isActive: true,
+        startTime: '2025-09-28T12:00:00Z', endTime: '2025-09-29T12:00:00Z', messageType: 'alert', ...changes,
+      },
+      sent,
+      references: [],
+      vtec,
+      zones: ['FLZ173'],
+    })
+
+    const alerts = resolveAlertLineage([
+      message('watch', '2025-09-28T12:00:00Z', ['/O.NEW.KMFL.HU.A.1009.250928T1200Z-000000T0000Z/']),
+      message('warning', '2025-09-28T18:00:00Z', [
+        '/O.UPG.KMFL.HU.A.1009.000000T0000Z-000000T0000Z/',
+        '/O.NEW.KMFL.HU.W.1009.250928T1800Z-000000T0000Z/',
+      ]),
+      // The flood warning is cancelled for one county and continues for another
+      message('flood', '2025-09-28T12:00:00Z', ['/O.NEW.KMFL.FL.W.0003.250928T1200Z-250929T1200Z/'], { type: 'flood' }),
+      message('flood-can', '2025-09-28T18:00:00Z', ['/O.CAN.KMFL.FL.W.0003.000000T0000Z-250929T1200Z/'], { type: 'flood', messageType: 'update' }),
+      message('flood-con', '2025-09-28T18:00:00Z', ['/O.CON.KMFL.FL.W.0003.000000T0000Z-250929T1200Z/'], { type: 'flood', messageType: 'update' }),
+    ])
+
+    expect(alerts.map(alert => [alert.eventId, alert.id, alert.isActive])).toEqual([
+      ['KMFL.HU.A.1009.2025', 'watch', false],
+      ['KMFL.HU.W.1009.2025', 'warning', true],
+      ['KMFL.FL.W.0003.2025', 'flood-con', true],
+    ])
+    expect(alerts[0].cancelledAt).toBe('2025-09-28T18:00:00.000Z')
+  })
+
+  it('keeps the year the event was issued in for updates sent after New Year', () => {
+    const message = (id: string, sent: string, vtec: string, references: AlertMessage['references'] = []): AlertMessage => ({
+      alert: {
+        id, title: id, description: '', severity: 'moderate', type: 'flood', source: 'National Weather Service', areas: [], isActive: true,
+        startTime: '2025-12-31T22:00:00Z', endTime: '2026-01-01T12:00:00Z', messageType: references.length ? 'update' : 'alert',
+      },
+      sent,
+      references,
+      vtec: [vtec],
+      zones: ['FLZ173'],
+    })
+
+    const alerts = resolveAlertLineage([
+      message('flood', '2025-12-31T22:00:00Z', '/O.NEW.KMFL.FL.W.0042.251231T2200Z-260101T1200Z/'),
+      message('flood-con', '2026-01-01T02:00:00Z', '/O.CON.KMFL.FL.W.0042.000000T0000Z-260101T1200Z/', [
+        { identifier: 'flood', sent: '2025-12-31T22:00:00Z' },
+      ]),
+    ])
+
+    expect(alerts.map(alert => [alert.eventId, alert.id])).toEqual([['KMFL.FL.W.0042.2025', 'flood-con']])
+  })
+})
+
+describe('/api/weather/current', () => {
+  beforeEach(() => {
+    // The singleton reads OPENWEATHER_API_KEY once, when it is first created
+    ;(GoogleWeatherService as any).instance = undefined
+  })
+
+  it('fails clearly when OpenWeather is not configured', async () => {
+    const { status, body } = await callApi(currentHandler, { query: { lat: '25.774', lng: '-80.193' } })
+
+    expect(status).toBe(500)
+    expect(body.message).toMatch(/OPENWEATHER_API_KEY/)
+  })
+
+  it('combines OpenWeather conditions with NWS alerts', async () => {
+    vi.stubEnv('OPENWEATHER_API_KEY', 'test-key')
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-09-28T16:00:00Z'))
+    mockFetch([
+      { match: 'api.openweathermap.org/data/2.5/weather', fixture: 'openweather-current-miami.json' },
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+    ])
+
+    // Coordinates unique to this test: the weather service caches per location
+    const { status, body } = await callApi(currentHandler, { query: { lat: '25.7741', lng: '-80.1931' } })
+
+    expect(status).toBe(200)
+    expect(body.current).toMatchObject({ temperature: 84, condition: 'moderate rain', humidity: 78, windSpeed: 15 })
+    expect(body.location.name).toBe('Miami, FL')
+    expect(body.alerts.length).toBeGreaterThan(0)
+  })
+
+  it('takes conditions from AccuWeather when asked', async () => {
+    mockFetch([
+      { match: 'api.weather.gov/alerts', fixture: 'nws-alerts-miami.json' },
+      { match: 'api.weather.gov/points', fixture: 'nws-points-miami.json' },
+    ])
+
+    // Without a key the AccuWeather service serves its mock conditions; OpenWeather is never asked
+    const { status, body } = await callApi(currentHandler, { query: { lat: '25.7743', lng: '-80.1933', provider: 'accuweather' } })
+
+    expect(status).toBe(200)
+    expect(body.current.condition).toBe('Partly Cloudy')
+  })
+
+  it('rejects unknown providers', async () => {
+    const { status, body } = await callApi(currentHandler, { query: { provider: 'weatherbit' } })
+
+    expect(status).toBe(400)
+    expect(JSON.stringify(body)).toMatch(/must be one of openweather, accuweather/)
+  })
+})
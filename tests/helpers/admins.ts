@@ -0,0 +1,12 @@
+// Fresh admin roster per test, backed by a temporary file.
+import os from 'os'
+import path from 'path'
+import { FileAdminRoster, setAdminRosterStore } from '@/lib/admin-roster'
+import type { AdminMember } from '@/lib/admin-roster'
+
+export async function createAdminRoster(members: AdminMember[], store?: FileAdminRoster): Promise<FileAdminRoster> {
+  const roster = store || new FileAdminRoster(path.join(os.tmpdir(), `admins-${Date.now()}-${Math.random()}.json`))
+  for (const member of members) await roster.saveMember(member)
+  setAdminRosterStore(roster)
+  return roster
+}
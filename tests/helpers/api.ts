@@ -0,0 +1,57 @@
+// Invoke a pages/api handler with a minimal NextApiRequest/NextApiResponse pair.
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown
+
+export interface ApiCall {
+  method?: string
+  query?: Record<string, string | string[]>
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+export interface ApiResult<T = any> {
+  status: number
+  body: T
+  headers: Record<string, string | number | string[]>
+}
+
+export async function callApi<T = any>(handler: Handler, { method = 'GET', query = {}, body, headers = {} }: ApiCall = {}): Promise<ApiResult<T>> {
+  const req = {
+    method,
+    query,
+    body,
+    headers: { host: 'localhost:3000', ...headers },
+    cookies: {},
+    url: '/api/test',
+  } as unknown as NextApiRequest
+
+  const result: ApiResult<T> = { status: 200, body: undefined as T, headers: {} }
+  const res = {
+    status(code: number) {
+      result.status = code
+      return res
+    },
+    json(payload: T) {
+      result.body = payload
+      return res
+    },
+    send(payload: T) {
+      result.body = payload
+      return res
+    },
+    end() {
+      return res
+    },
+    setHeader(name: string, value: string | number | string[]) {
+      result.headers[name.toLowerCase()] = value
+      return res
+    },
+    getHeader(name: string) {
+      return result.headers[name.toLowerCase()]
+    },
+  } as unknown as NextApiResponse
+
+  await handler(req, res)
+  return result
+}
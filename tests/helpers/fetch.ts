@@ -0,0 +1,49 @@
+// Serve recorded provider responses from tests/fixtures in place of the network.
+import fs from 'fs'
+import path from 'path'
+import { vi } from 'vitest'
+
+// Captured before tests/setup.ts stubs fetch
+const realFetch = globalThis.fetch
+
+export interface FixtureRoute {
+  // Substring or pattern matched against the full request URL
+  match: string | RegExp
+  fixture?: string
+  body?: unknown
+  status?: number
+  // Send the request on for real, e.g. to a local mock server
+  passthrough?: boolean
+}
+
+export function loadFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf8')
+}
+
+/**
+ * Replace global fetch; returns the list of requested URLs for assertions
+ */
+export function mockFetch(routes: FixtureRoute[]): string[] {
+  const calls: string[] = []
+
+  vi.stubGlobal('fetch', vi.fn(async (input: any, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input)
+    calls.push(url)
+
+    const route = routes.find(({ match }) => typeof match === 'string' ? url.includes(match) : match.test(url))
+    if (!route) throw new Error(`Unexpected fetch in test: ${url}`)
+    if (route.passthrough) return realFetch(input, init)
+
+    // Zipped fixtures (KMZ) are served as they are on disk
+    if (route.fixture?.endsWith('.kmz')) {
+      const data = fs.readFileSync(path.join(__dirname, '..', 'fixtures', route.fixture))
+      return new Response(data, { status: route.status ?? 200, headers: { 'Content-Type': 'application/vnd.google-earth.kmz' } })
+    }
+
+    const text = route.fixture ? loadFixture(route.fixture) : JSON.stringify(route.body ?? {})
+    const contentType = route.fixture && !route.fixture.endsWith('.json') ? 'application/xml' : 'application/json'
+    return new Response(text, { status: route.status ?? 200, headers: { 'Content-Type': contentType } })
+  }))
+
+  return calls
+}
@@ -0,0 +1,121 @@
+// A local stand-in for a browser push service (FCM, Mozilla autopush): accepts
+// Web Push requests on 127.0.0.1, checks their VAPID signature and decrypts
+// them with keys held for each fake browser. Route requests to it with
+// mockFetch([{ match: service.origin, passthrough: true }]).
+import crypto from 'crypto'
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface PushDelivery {
+  browser: string
+  headers: http.IncomingHttpHeaders
+  // Decrypted JSON payload
+  message: any
+  vapid: { audience: string; subject: string; verified: boolean }
+}
+
+export interface FakeBrowser {
+  name: string
+  subscription: { endpoint: string; keys: { p256dh: string; auth: string } }
+}
+
+export interface MockPushService {
+  origin: string
+  deliveries: PushDelivery[]
+  // Create a browser subscription with its own keys
+  browser(name: string): FakeBrowser
+  // Answer every request for this browser with `status` (e.g. 410 once it unsubscribed)
+  respondWith(name: string, status: number): void
+  close(): Promise<void>
+}
+
+function hkdf(salt: Buffer, ikm: Buffer, info: string | Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, typeof info === 'string' ? Buffer.from(info) : info, length))
+}
+
+function decrypt(body: Buffer, browserKey: crypto.ECDH, auth: Buffer): string {
+  const salt = body.subarray(0, 16)
+  const idLength = body.readUInt8(20)
+  const serverPublic = body.subarray(21, 21 + idLength)
+  const ciphertext = body.subarray(21 + idLength)
+
+  const browserPublic = browserKey.getPublicKey()
+  const ikm = hkdf(auth, browserKey.computeSecret(serverPublic), Buffer.concat([Buffer.from('WebPush: info\0'), browserPublic, serverPublic]), 32)
+  const decipher = crypto.createDecipheriv('aes-128-gcm', hkdf(salt, ikm, 'Content-Encoding: aes128gcm\0', 16), hkdf(salt, ikm, 'Content-Encoding: nonce\0', 12))
+  decipher.setAuthTag(ciphertext.subarray(-16))
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()])
+
+  // Strip the 0x02 record delimiter
+  return plaintext.subarray(0, plaintext.lastIndexOf(2)).toString('utf8')
+}
+
+function checkVapid(header = ''): PushDelivery['vapid'] {
+  const [, token = '', publicKey = ''] = header.match(/^vapid t=([^,]+), k=(.+)$/) || []
+  const [encodedHeader, encodedClaims, signature = ''] = token.split('.')
+  const claims = JSON.parse(Buffer.from(encodedClaims || 'e30', 'base64url').toString('utf8'))
+
+  const point = Buffer.from(publicKey, 'base64url')
+  const key = crypto.createPublicKey({
+    format: 'jwk',
+    key: { kty: 'EC', crv: 'P-256', x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33, 65).toString('base64url') },
+  })
+  const verified = crypto.verify('sha256', Buffer.from(`${encodedHeader}.${encodedClaims}`), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))
+
+  return { audience: claims.aud, subject: claims.sub, verified }
+}
+
+export async function startMockPushService(): Promise<MockPushService> {
+  const browsers = new Map<string, { key: crypto.ECDH; auth: Buffer; status: number }>()
+  const deliveries: PushDelivery[] = []
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => {
+      const name = decodeURIComponent((req.url || '').replace(/^\/push\//, ''))
+      const browser = browsers.get(name)
+      if (!browser) {
+        res.writeHead(404).end('No such subscription')
+        return
+      }
+      if (browser.status >= 400) {
+        res.writeHead(browser.status).end('Subscription is gone')
+        return
+      }
+
+      deliveries.push({
+        browser: name,
+        headers: req.headers,
+        message: JSON.parse(decrypt(Buffer.concat(chunks), browser.key, browser.auth)),
+        vapid: checkVapid(req.headers.authorization),
+      })
+      res.writeHead(201).end()
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    origin,
+    deliveries,
+    browser(name) {
+      const key = crypto.createECDH('prime256v1')
+      key.generateKeys()
+      const auth = crypto.randomBytes(16)
+      browsers.set(name, { key, auth, status: 201 })
+      return {
+        name,
+        subscription: {
+          endpoint: `${origin}/push/${encodeURIComponent(name)}`,
+          keys: { p256dh: key.getPublicKey().toString('base64url'), auth: auth.toString('base64url') },
+        },
+      }
+    },
+    respondWith(name, status) {
+      const browser = browsers.get(name)
+      if (browser) browser.status = status
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  }
+}
@@ -0,0 +1,65 @@
+// Open-now status from weekly hours and date overrides.
+import { describe, expect, it } from 'vitest'
+import { getOpenStatus } from '@/lib/opening-hours'
+import type { OpeningHours } from '@/lib/opening-hours'
+
+// Friday 10pm to Saturday 6am and Saturday 10pm to Sunday 2am, Miami time (EDT, UTC-4, in October 2025)
+const OVERNIGHT: OpeningHours = {
+  timezone: 'America/New_York',
+  periods: [
+    { open: { day: 5, time: '2200' }, close: { day: 6, time: '0600' } },
+    { open: { day: 6, time: '2200' }, close: { day: 0, time: '0200' } },
+  ],
+}
+
+describe('getOpenStatus', () => {
+  it('keeps an overnight period open past midnight, including from Saturday into Sunday', () => {
+    // Saturday 2am and Sunday 1am local
+    const saturday = getOpenStatus(OVERNIGHT, new Date('2025-10-04T06:00:00Z'))
+    const sunday = getOpenStatus(OVERNIGHT, new Date('2025-10-05T05:00:00Z'))
+
+    expect(saturday).toMatchObject({ state: 'open', openNow: true, closesSoon: false, closesAt: '2025-10-04T10:00:00.000Z' })
+    expect(sunday).toMatchObject({ state: 'open', closesAt: '2025-10-05T06:00:00.000Z' })
+  })
+
+  it('says when a place closes within the hour', () => {
+    // Saturday 5:30am local
+    expect(getOpenStatus(OVERNIGHT, new Date('2025-10-04T09:30:00Z'))).toMatchObject({ state: 'open', closesSoon: true })
+  })
+
+  it('reports the next opening while closed', () => {
+    // Sunday 3am local: next open the following Friday at 10pm
+    expect(getOpenStatus(OVERNIGHT, new Date('2025-10-05T07:00:00Z'))).toMatchObject({
+      state: 'closed',
+      openNow: false,
+      opensAt: '2025-10-11T02:00:00.000Z',
+    })
+  })
+
+  it('replaces the regular hours on dates with an override', () => {
+    const hours: OpeningHours = {
+      ...OVERNIGHT,
+      overrides: [
+        { date: '2025-10-03', closed: true, note: 'Closed for the storm' },
+        { date: '2025-10-04', periods: [{ open: '10:00', close: '14:00' }], note: 'Daytime only' },
+      ],
+    }
+
+    // Friday 11pm local, normally open
+    expect(getOpenStatus(hours, new Date('2025-10-04T03:00:00Z'))).toMatchObject({ state: 'closed', note: 'Closed for the storm' })
+    // Saturday noon local, normally closed
+    expect(getOpenStatus(hours, new Date('2025-10-04T16:00:00Z'))).toMatchObject({
+      state: 'open',
+      closesAt: '2025-10-04T18:00:00.000Z',
+      note: 'Daytime only',
+    })
+  })
+
+  it('falls back to the reported open-now flag without hours', () => {
+    const at = new Date('2025-10-04T16:00:00Z')
+
+    expect(getOpenStatus(null, at, true)).toMatchObject({ state: 'open', openNow: true })
+    expect(getOpenStatus({ periods: [] }, at)).toMatchObject({ state: 'unknown', openNow: null })
+    expect(getOpenStatus({ periods: [{ open: { day: 0, time: '0000' } }] }, at)).toMatchObject({ state: 'open', closesAt: null })
+  })
+})
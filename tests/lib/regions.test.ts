@@ -0,0 +1,28 @@
+// Region lookup from coordinates and query strings.
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_REGION, resolveRegion, resolveRegionFromQuery } from '@/lib/regions'
+
+describe('resolveRegion', () => {
+  it('finds the region whose bounds hold the point', () => {
+    expect(resolveRegion(25.774, -80.193)?.id).toBe('miami')
+    expect(resolveRegion(29.7604, -95.3698)?.id).toBe('houston')
+    expect(resolveRegion(27.9506, -82.4572)?.id).toBe('tampa')
+  })
+
+  it('includes points on the boundary', () => {
+    expect(resolveRegion(26.4, -80.9)?.id).toBe('miami')
+  })
+
+  it('returns null outside every region or for invalid coordinates', () => {
+    expect(resolveRegion(39.739, -104.99)).toBeNull()
+    expect(resolveRegion(Number.NaN, -80.193)).toBeNull()
+  })
+
+  it('falls back to the default region only when the query has no coordinates', () => {
+    expect(resolveRegionFromQuery(undefined, undefined)).toBe(DEFAULT_REGION)
+    expect(resolveRegionFromQuery('', '-80.193')).toBe(DEFAULT_REGION)
+    expect(resolveRegionFromQuery('29.76', '-95.37')?.id).toBe('houston')
+    expect(resolveRegionFromQuery('39.739', '-104.99')).toBeNull()
+    expect(resolveRegionFromQuery('north', '-80.193')).toBeNull()
+  })
+})
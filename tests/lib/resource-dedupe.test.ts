@@ -0,0 +1,103 @@
+// Cross-source de-duplication: name similarity and clustering.
+import { describe, expect, it } from 'vitest'
+import { dedupeResources, nameSimilarity } from '@/lib/resource-dedupe'
+
+const ORIGIN = { lat: 25.774, lng: -80.193 }
+// About 111 m of latitude
+const LAT_100M = 0.001
+
+const resource = (overrides: Record<string, unknown>) => ({
+  id: 'r',
+  name: 'Camillus House',
+  type: 'shelter',
+  lat: ORIGIN.lat,
+  lng: ORIGIN.lng,
+  ...overrides,
+})
+
+describe('nameSimilarity', () => {
+  it('ignores case, accents, punctuation and filler words', () => {
+    expect(nameSimilarity('The Camillus House, Inc.', 'camillus house')).toBe(1)
+    expect(nameSimilarity('Café Esperanza', 'cafe esperanza')).toBe(1)
+  })
+
+  it('scores one name inside the other just below identical', () => {
+    expect(nameSimilarity('Miami Rescue Mission', 'Miami Rescue Mission Center')).toBe(0.9)
+  })
+
+  it('scores partly shared and unrelated names by their shared letter pairs', () => {
+    expect(nameSimilarity('Lotus House Shelter', 'Lotus House Womens Shelter')).toBeCloseTo(0.79, 2)
+    expect(nameSimilarity('Camillus House', 'Chapman Partnership')).toBeLessThan(0.1)
+    expect(nameSimilarity('', 'Camillus House')).toBe(0)
+  })
+})
+
+describe('dedupeResources', () => {
+  it('merges the same place from several sources into the curated record', () => {
+    const merged = dedupeResources([
+      resource({ id: 'community-1', source: 'community', name: 'Camillus House Shelter', address: '1603 NW 7th Ave' }),
+      resource({ id: 'ChIJ-camillus', source: 'places', placeId: 'ChIJ-camillus', openNow: true, lat: ORIGIN.lat + LAT_100M / 2 }),
+      resource({ id: 'shelter-1', source: 'static', name: 'Camillus House, Inc.' }),
+    ])
+
+    expect(merged).toHaveLength(1)
+    expect(merged[0]).toMatchObject({
+      id: 'shelter-1',
+      name: 'Camillus House, Inc.',
+      placeId: 'ChIJ-camillus',
+      address: '1603 NW 7th Ave',
+      openNow: true,
+    })
+    expect(merged[0].attribution).toEqual([
+      { id: 'shelter-1', source: 'static', placeId: null },
+      { id: 'ChIJ-camillus', source: 'places', placeId: 'ChIJ-camillus' },
+      { id: 'community-1', source: 'community', placeId: null },
+    ])
+  })
+
+  it('lets near-identical names be further apart than loose matches', () => {
+    const strong = dedupeResources([
+      resource({ id: 'a', name: 'Miami Rescue Mission' }),
+      resource({ id: 'b', name: 'Miami Rescue Mission Center', lat: ORIGIN.lat + 2.5 * LAT_100M }),
+    ])
+    const weakNearby = dedupeResources([
+      resource({ id: 'a', name: 'Lotus House Shelter' }),
+      resource({ id: 'b', name: 'Lotus House Womens Shelter', lat: ORIGIN.lat + LAT_100M / 2 }),
+    ])
+    const weakApart = dedupeResources([
+      resource({ id: 'a', name: 'Lotus House Shelter' }),
+      resource({ id: 'b', name: 'Lotus House Womens Shelter', lat: ORIGIN.lat + 2.5 * LAT_100M }),
+    ])
+
+    expect(strong).toHaveLength(1)
+    expect(weakNearby).toHaveLength(1)
+    expect(weakApart).toHaveLength(2)
+  })
+
+  it('merges every cluster a record matches, whatever the input order', () => {
+    // The listing in the middle matches both ends, which are too far apart to match each other
+    const items = [
+      resource({ id: 'north', lat: ORIGIN.lat + 2 * LAT_100M }),
+      resource({ id: 'south', lat: ORIGIN.lat - 2 * LAT_100M }),
+      resource({ id: 'middle' }),
+    ]
+    const orders = [items, [items[2], items[0], items[1]], [items[1], items[2], items[0]]]
+
+    for (const order of orders) {
+      const merged = dedupeResources(order)
+      expect(merged).toHaveLength(1)
+      expect(merged[0].attribution.map(entry => entry.id)).toEqual(['middle', 'north', 'south'])
+    }
+  })
+
+  it('keeps places with different place ids or types apart', () => {
+    expect(dedupeResources([
+      resource({ id: 'a', placeId: 'ChIJ-a' }),
+      resource({ id: 'b', placeId: 'ChIJ-b' }),
+    ])).toHaveLength(2)
+    expect(dedupeResources([
+      resource({ id: 'a', type: 'shelter' }),
+      resource({ id: 'b', type: 'clinic' }),
+    ])).toHaveLength(2)
+  })
+})
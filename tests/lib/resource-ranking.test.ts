@@ -0,0 +1,62 @@
+// Search result ranking: distance, open-now, source trust and query matches.
+import { describe, expect, it } from 'vitest'
+import { rankResources } from '@/lib/resource-ranking'
+
+const ORIGIN = { lat: 25.774, lng: -80.193 }
+
+const resource = (overrides: Record<string, unknown>) => ({
+  id: 'r',
+  name: 'Camillus House',
+  type: 'shelter',
+  lat: ORIGIN.lat,
+  lng: ORIGIN.lng,
+  ...overrides,
+})
+
+describe('rankResources', () => {
+  const options = { origin: ORIGIN, radiusMeters: 5000 }
+  // 0.5 km and 3 km north of the origin
+  const near = resource({ id: 'near', name: 'Near Shelter', source: 'places', openNow: false, lat: ORIGIN.lat + 0.0045 })
+  const far = resource({ id: 'far', name: 'Far Shelter', source: 'places', openNow: true, lat: ORIGIN.lat + 0.027 })
+
+  it('puts distance first by default and reports it', () => {
+    const ranked = rankResources([far, near], options)
+
+    expect(ranked.map(result => result.id)).toEqual(['near', 'far'])
+    expect(ranked[0]).toMatchObject({ distanceMeters: 500, distance: '0.3 mi' })
+    // 0.5 × 0.9 (distance) + 0.2 × 0 (closed) + 0.15 × 0.8 (Places) + 0.15 × 0 (no query)
+    expect(ranked[0].score).toBe(0.57)
+  })
+
+  it('weighs open-now twice as much when the user asked for it', () => {
+    const ranked = rankResources([near, far], { ...options, openNowPreferred: true })
+
+    expect(ranked.map(result => result.id)).toEqual(['far', 'near'])
+  })
+
+  it('takes weight overrides from the request', () => {
+    const ranked = rankResources([
+      resource({ id: 'community', source: 'community' }),
+      resource({ id: 'static', source: 'static', lat: ORIGIN.lat + 0.03 }),
+      resource({ id: 'places', source: 'places', lat: ORIGIN.lat + 0.01 }),
+    ], { ...options, weights: { distance: 0, openNow: 0, sourceTrust: 1, queryMatch: 0 } })
+
+    expect(ranked.map(result => [result.id, result.score])).toEqual([['static', 1], ['places', 0.8], ['community', 0.6]])
+  })
+
+  it('matches query terms against names and addresses, skipping filler words', () => {
+    const ranked = rankResources([
+      resource({ id: 'other', name: 'Lotus House', source: 'places' }),
+      resource({ id: 'match', name: 'Chapman Partnership', address: '1550 N Miami Ave', source: 'places' }),
+    ], { ...options, queryTerms: ['I need the Chapman shelter'], weights: { distance: 0, openNow: 0, sourceTrust: 0, queryMatch: 1 } })
+
+    // "shelter" matches neither, "chapman" matches one: half the terms
+    expect(ranked.map(result => [result.id, result.score])).toEqual([['match', 0.5], ['other', 0]])
+  })
+
+  it('falls back to the default weights when every override is zero', () => {
+    const zero = { distance: 0, openNow: 0, sourceTrust: 0, queryMatch: 0 }
+
+    expect(rankResources([near], { ...options, weights: zero })[0].score).toBe(rankResources([near], options)[0].score)
+  })
+})
@@ -0,0 +1,58 @@
+// Shared test setup: offline by default, temporary caches and storage, quiet logs.
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, vi } from 'vitest'
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'google-storm-tests-'))
+
+// Must be set before lib/json-cache, lib/json-file-storage and the admin roster and subscription stores are imported
+process.env.JSON_CACHE_DIR = path.join(tmpDir, 'cache')
+process.env.RESOURCE_STORAGE_PATH = path.join(tmpDir, 'local-store.json')
+process.env.ADMIN_ROSTER_PATH = path.join(tmpDir, 'admins.json')
+process.env.PUSH_SUBSCRIPTIONS_PATH = path.join(tmpDir, 'push-subscriptions.json')
+process.env.ALERT_SUBSCRIPTIONS_PATH = path.join(tmpDir, 'alert-subscriptions.json')
+process.env.RESOURCE_STORAGE = process.env.FIRESTORE_EMULATOR_HOST ? 'firestore' : 'memory'
+
+// Every provider starts unconfigured; tests opt in with vi.stubEnv
+const PROVIDER_KEYS = [
+  'GCP_SERVER_MAPS_KEY',
+  'NEXT_PUBLIC_MAPS_API_KEY',
+  'NEXT_PUBLIC_GOOGLE_MAPS_API_KEY',
+  'GEMINI_API_KEY',
+  'OPENWEATHER_API_KEY',
+  'XWEATHER_API_KEY',
+  'ACCUWEATHER_API_KEY',
+  'NASAEARTH_API_KEY',
+  'OPEN_STATUS_REFRESH_TOKEN',
+  'SUBSCRIPTION_EVALUATION_TOKEN',
+  'VAPID_PUBLIC_KEY',
+  'VAPID_PRIVATE_KEY',
+]
+for (const key of PROVIDER_KEYS) delete process.env[key]
+
+beforeEach(() => {
+  // No real network: unexpected requests fail loudly
+  vi.stubGlobal('fetch', vi.fn(async (input: unknown) => {
+    throw new Error(`Unexpected fetch in test: ${String(input)}`)
+  }))
+
+  if (!process.env.DEBUG_TESTS) {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  }
+})
+
+afterEach(async () => {
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+  vi.useRealTimers()
+  // Imported lazily: lib/rate-limit pulls in the auth config, which must see the env above
+  const { clearRateLimits, setRateLimitStore } = await import('@/lib/rate-limit')
+  clearRateLimits()
+  setRateLimitStore(undefined)
+  const { clearFeedFingerprints } = await import('@/lib/feed-changes')
+  clearFeedFingerprints()
+})
@@ -0,0 +1,18 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // Route handlers share singletons (caches, repositories); keep files isolated
+    pool: 'forks',
+    testTimeout: 20000,
+  },
+})